@@ -1,9 +1,11 @@
 
-import React, { useState, useEffect } from 'react';
-import { User, Prospect, UserRole, UserStatus } from './types';
-import { auth as fbAuth, db as fbDb, isFirebaseConfigured as initialConfigured, initFirebase } from './services/firebase';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { User, Prospect, UserRole, UserStatus, FollowUp, Organization, LessonSeries } from './types';
+import { auth as fbAuth, db as fbDb, storage as fbStorage, isFirebaseConfigured as initialConfigured, initFirebase } from './services/firebase';
 import { onAuthStateChanged, signOut } from 'firebase/auth';
-import { collection, onSnapshot, doc, updateDoc, query, orderBy, getDocs, setDoc, getDoc } from 'firebase/firestore';
+import { createRepositories, scrub, RepositoryError, ProspectQuery, ProspectSummary, DuplicateCandidate } from './services/dataRepository';
+import { createOutbox, flushOutbox, withOutbox, OutboxEntry } from './services/outbox';
+import { getActiveOrgId, setActiveOrgId, asMemberOf, approvedOrgIds, membershipUpdate } from './services/organizations';
 import Dashboard from './components/Dashboard';
 import Login from './components/Login';
 import Sidebar from './components/Sidebar';
@@ -14,55 +16,13 @@ import TeamDirectory from './components/UserManagement';
 import CloudSetup from './components/CloudSetup';
 import UserProfile from './components/UserProfile';
 import OnboardingTour from './components/OnboardingTour';
-
-/**
- * Enhanced Scrubbing: Aggressively strips any object that isn't a plain literal 
- * and handles circular references using a WeakSet.
- */
-const scrub = (obj: any, seen = new WeakSet()): any => {
-  if (obj === null || typeof obj !== 'object') return obj;
-  
-  // Prevent circularity crash
-  if (seen.has(obj)) return undefined;
-
-  if (Array.isArray(obj)) {
-    seen.add(obj);
-    return obj.map(item => scrub(item, seen)).filter(v => v !== undefined);
-  }
-
-  // Strict check for Plain Old JavaScript Objects (POJOs)
-  // This correctly identifies and strips Leaflet (Q$1), Firebase, or DOM objects.
-  const isPlain = Object.prototype.toString.call(obj) === '[object Object]' && 
-                  (obj.constructor === Object || obj.constructor === undefined);
-  
-  if (!isPlain) return undefined;
-
-  seen.add(obj);
-  const clean: any = {};
-  let hasProperties = false;
-
-  for (const key in obj) {
-    if (Object.prototype.hasOwnProperty.call(obj, key)) {
-      const val = scrub(obj[key], seen);
-      if (val !== undefined) {
-        clean[key] = val;
-        hasProperties = true;
-      }
-    }
-  }
-
-  return hasProperties ? clean : {};
-};
-
-// Final defense for JSON serialization
-const safeStringify = (obj: any): string => {
-  try {
-    return JSON.stringify(scrub(obj));
-  } catch (e) {
-    console.error("Critical stringify failure:", e);
-    return "{}";
-  }
-};
+import LockScreen from './components/LockScreen';
+import SyncIssues from './components/SyncIssues';
+import { setUILanguage } from './services/i18n';
+import { setPromptTemplates } from './services/promptTemplates';
+import { setAIPrivacy } from './services/redaction';
+import { setAIUsageContext, setTodaysUsage, localDay } from './services/aiUsage';
+import { startSession, readSession, touchSession, clearSession, isSessionIdle, verifySecret } from './services/localAuth';
 
 const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -73,27 +33,54 @@ const App: React.FC = () => {
   const [selectedProspectId, setSelectedProspectId] = useState<string | null>(null);
   const [cloudEnabled, setCloudEnabled] = useState(initialConfigured);
   const [permissionError, setPermissionError] = useState(false);
+  // Firestore answers failed-precondition when a query's composite index has not been created.
+  const [indexError, setIndexError] = useState(false);
   const [showTour, setShowTour] = useState(false);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [prospectSummary, setProspectSummary] = useState<ProspectSummary | null | undefined>(undefined);
+  const [setAsideEntries, setSetAsideEntries] = useState<OutboxEntry[]>([]);
+  const [hasMoreProspects, setHasMoreProspects] = useState(false);
+  const loadMoreProspects = useRef<() => void>(() => {});
+  const [activeOrgId, setActiveOrg] = useState(getActiveOrgId);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [lessonSeries, setLessonSeries] = useState<LessonSeries[]>([]);
+  const [locked, setLocked] = useState(false);
+
+  // Backend is chosen once per connection and bound to the open congregation; everything below talks to this API only.
+  const outbox = useMemo(() => createOutbox(), []);
+  const baseRepos = useMemo(
+    () => createRepositories(cloudEnabled && fbDb && fbStorage ? { db: fbDb, storage: fbStorage } : undefined, activeOrgId),
+    [cloudEnabled, activeOrgId]
+  );
+  const repos = useMemo(() => withOutbox(baseRepos, outbox), [baseRepos, outbox]);
+
+  useEffect(() => {
+    const unsubOutbox = outbox.subscribe(entries => {
+      setPendingSyncCount(entries.filter(e => !e.parked).length);
+      setSetAsideEntries(entries.filter(e => e.parked));
+    });
+    const handleOnline = () => { flushOutbox(baseRepos, outbox); };
+    window.addEventListener('online', handleOnline);
+    if (navigator.onLine) handleOnline();
+    return () => { unsubOutbox(); window.removeEventListener('online', handleOnline); };
+  }, [baseRepos, outbox]);
 
   useEffect(() => {
     let unsubAuth = () => {};
-    let unsubProspects = () => {};
-    let unsubUsers = () => {};
 
-    if (cloudEnabled && fbAuth && fbDb) {
+    if (repos.mode === 'firestore' && fbAuth) {
       unsubAuth = onAuthStateChanged(fbAuth, async (firebaseUser) => {
         if (firebaseUser) {
           try {
-            const userDoc = await getDoc(doc(fbDb, 'users', firebaseUser.uid));
-            if (userDoc.exists()) {
-              const userData = userDoc.data() as User;
+            const userData = await repos.users.get(firebaseUser.uid);
+            if (userData) {
               if (userData.status === UserStatus.APPROVED) {
                 setUser(userData);
                 if (userData.hasSeenTour === false) {
                   setShowTour(true);
                 }
               }
-              else { await signOut(fbAuth); setUser(null); }
+              else { await signOut(fbAuth!); setUser(null); }
             } else {
               setUser(null);
             }
@@ -104,61 +91,178 @@ const App: React.FC = () => {
         } else { setUser(null); }
         setLoading(false);
       });
-
-      try {
-        const q = query(collection(fbDb, 'prospects'), orderBy('timestamp', 'desc'));
-        unsubProspects = onSnapshot(q, 
-          (snapshot) => {
-            setProspects(snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id } as Prospect)));
-            setPermissionError(false);
-          },
-          (error) => {
-            console.error("Prospects sync error:", error);
-            if (error.code === 'permission-denied') setPermissionError(true);
-          }
-        );
-        
-        unsubUsers = onSnapshot(collection(fbDb, 'users'), 
-          (snapshot) => {
-            setRegisteredUsers(snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id } as User)));
-            setPermissionError(false);
-          },
-          (error) => {
-            console.error("Users sync error:", error);
-            if (error.code === 'permission-denied') setPermissionError(true);
-          }
-        );
-      } catch (err) {
-        console.error("Setup listeners failed", err);
-      }
-
     } else {
-      const savedSession = localStorage.getItem('evangelism_session');
-      if (savedSession) {
-        try {
-          const localUser = JSON.parse(savedSession);
+      // The session only names the account; it is re-read so approvals and removals take effect.
+      const session = readSession();
+      (session ? repos.users.get(session.userId) : Promise.resolve(null)).then((localUser) => {
+        if (session && localUser?.status === UserStatus.APPROVED) {
           setUser(localUser);
+          setLocked(isSessionIdle(session));
           if (localUser.hasSeenTour === false) setShowTour(true);
-        } catch (e) {
-          localStorage.removeItem('evangelism_session');
+        } else {
+          clearSession();
+          setUser(null);
         }
-      }
-      
-      const localP = localStorage.getItem('evangelism_prospects');
-      if (localP) {
-        try { setProspects(JSON.parse(localP)); } catch (e) { localStorage.removeItem('evangelism_prospects'); }
-      }
-      
-      const localU = localStorage.getItem('evangelism_users');
-      if (localU) {
-        try { setRegisteredUsers(JSON.parse(localU)); } catch (e) { localStorage.removeItem('evangelism_users'); }
-      }
-      
-      setLoading(false);
+        setLoading(false);
+      });
+    }
+
+    return () => { unsubAuth(); };
+  }, [repos]);
+
+  // Local sessions lock after inactivity and end when they expire; Firebase manages cloud sessions.
+  useEffect(() => {
+    if (!user || locked || repos.mode === 'firestore') return;
+    let lastTouch = 0;
+    const handleActivity = () => {
+      if (Date.now() - lastTouch < 30000) return;
+      lastTouch = Date.now();
+      touchSession();
+    };
+    const checkSession = () => {
+      const session = readSession();
+      if (!session || session.userId !== user.id) setUser(null);
+      else if (isSessionIdle(session)) setLocked(true);
+    };
+    const events = ['pointerdown', 'keydown'];
+    events.forEach(e => window.addEventListener(e, handleActivity));
+    const timer = window.setInterval(checkSession, 30000);
+    return () => {
+      events.forEach(e => window.removeEventListener(e, handleActivity));
+      window.clearInterval(timer);
+    };
+  }, [user?.id, locked, repos.mode]);
+
+  const unlock = async (secret: string) => {
+    const account = user && await repos.users.get(user.id);
+    if (!account?.credential || !(await verifySecret(secret, account.credential))) return false;
+    touchSession();
+    setLocked(false);
+    return true;
+  };
+
+  // The account as seen from the open congregation. Roles are per congregation, so every screen gets this, not `user`.
+  const member = user ? asMemberOf(user, activeOrgId) : null;
+  const currentUser = member?.status === UserStatus.APPROVED ? member : null;
+
+  const retrySetAside = async (seq: number, overwrite?: boolean) => {
+    await outbox.retry(seq, overwrite);
+    flushOutbox(baseRepos, outbox);
+  };
+
+  const switchOrganization = (orgId: string) => {
+    setActiveOrgId(orgId);
+    setActiveOrg(orgId);
+    setSelectedProspectId(null);
+  };
+
+  // A remembered congregation the account was removed from, or never joined, falls back to one it belongs to.
+  useEffect(() => {
+    if (!user || currentUser) return;
+    const fallback = approvedOrgIds(user)[0];
+    if (fallback) switchOrganization(fallback);
+  }, [user, currentUser?.status]);
+
+  const orgIdsKey = (user?.orgIds || []).join(',');
+  useEffect(() => {
+    if (!orgIdsKey) {
+      setOrganizations([]);
+      return;
+    }
+    return repos.organizations.subscribe(orgIdsKey.split(','), setOrganizations, (error) => console.error("Organizations sync error:", error));
+  }, [repos, orgIdsKey]);
+
+  const activeOrganization = organizations.find(o => o.id === activeOrgId);
+  useEffect(() => {
+    setAIPrivacy(activeOrganization?.aiPrivacy);
+  }, [activeOrganization?.aiPrivacy]);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setLessonSeries([]);
+      return;
+    }
+    return repos.lessons.subscribe(setLessonSeries, (error) => console.error("Lesson series sync error:", error));
+  }, [repos, currentUser?.id]);
+
+  // AI prompts use the organization's edited templates wherever it has them.
+  useEffect(() => {
+    if (!currentUser) {
+      setPromptTemplates([]);
+      return;
+    }
+    return repos.prompts.subscribe(setPromptTemplates, (error) => console.error("Prompt template sync error:", error));
+  }, [repos, currentUser?.id]);
+
+  // AI requests are logged against the signed-in member and held to the organization's daily quotas.
+  useEffect(() => {
+    setAIUsageContext(currentUser ? {
+      actor: { id: currentUser.id, name: currentUser.name },
+      quotas: activeOrganization?.aiQuotas,
+      record: (entry) => repos.usage.add(entry)
+    } : null);
+  }, [repos, currentUser?.id, currentUser?.name, activeOrganization?.aiQuotas]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    return repos.usage.subscribe({ days: [localDay()], userId: currentUser.id }, setTodaysUsage, (error) => console.error("AI usage sync error:", error));
+  }, [repos, currentUser?.id]);
+
+  // The account's language follows it to any device it signs in on.
+  useEffect(() => {
+    setUILanguage(user?.preferredLanguage);
+  }, [user?.preferredLanguage]);
+
+  // Team members only receive the people assigned to or entered by them, one page at a time.
+  const isTeamMember = currentUser?.role === UserRole.TEAM_MEMBER;
+  const prospectScope = useMemo<ProspectQuery>(
+    () => isTeamMember && currentUser ? { visibleTo: currentUser.id } : {},
+    [isTeamMember, currentUser?.id]
+  );
+  useEffect(() => {
+    if (!currentUser) {
+      setProspects([]);
+      setRegisteredUsers([]);
+      return;
     }
 
-    return () => { unsubAuth(); unsubProspects(); unsubUsers(); };
-  }, [cloudEnabled]);
+    const handleSyncError = (label: string) => (error: RepositoryError) => {
+      console.error(`${label} sync error:`, error);
+      if (error.code === 'permission-denied') setPermissionError(true);
+      if (error.code === 'failed-precondition') setIndexError(true);
+    };
+
+    const prospectFeed = repos.prospects.subscribePage(
+      prospectScope,
+      (page) => { setProspects(page.items); setHasMoreProspects(page.hasMore); setPermissionError(false); setIndexError(false); },
+      handleSyncError('Prospects')
+    );
+    loadMoreProspects.current = prospectFeed.loadMore;
+    const unsubUsers = repos.users.subscribe(
+      (items) => { setRegisteredUsers(items.flatMap(u => asMemberOf(u, repos.orgId) || [])); setPermissionError(false); },
+      handleSyncError('Users'),
+      { approvedOnly: isTeamMember }
+    );
+
+    return () => { prospectFeed.unsubscribe(); unsubUsers(); };
+  }, [repos, prospectScope]);
+
+  // Dashboard figures cover every record in scope, not just the loaded pages; recounted as records change.
+  useEffect(() => { setProspectSummary(undefined); }, [repos, prospectScope]);
+  useEffect(() => {
+    if (!currentUser || activeTab !== 'dashboard') return;
+    let cancelled = false;
+    repos.prospects.summarize(prospectScope)
+      .then(summary => { if (!cancelled) setProspectSummary(summary); })
+      .catch(error => {
+        console.error("Prospect counts failed", error);
+        if (error?.code === 'failed-precondition') setIndexError(true);
+        if (!cancelled) setProspectSummary(null);
+      });
+    return () => { cancelled = true; };
+  }, [repos, prospectScope, prospects, activeTab]);
+
+  const findProspectMatches = (candidates: DuplicateCandidate[]) => repos.prospects.findMatches(candidates, prospectScope);
 
   const handleConnectCloud = async (config: any) => {
     const result = await initFirebase(config);
@@ -169,39 +273,30 @@ const App: React.FC = () => {
   };
 
   const handleLogout = async () => {
-    if (cloudEnabled && fbAuth) await signOut(fbAuth);
+    if (repos.mode === 'firestore' && fbAuth) await signOut(fbAuth);
     setUser(null);
-    localStorage.removeItem('evangelism_session');
+    setLocked(false);
+    clearSession();
   };
 
+  // Approval and roles apply to the open congregation only.
   const updateUserStatus = async (userId: string, status: UserStatus, role?: UserRole, additionalUpdates?: Partial<User>) => {
-    const data = scrub({ status, role, ...additionalUpdates });
-    if (cloudEnabled && fbDb) {
-      await updateDoc(doc(fbDb, 'users', userId), data);
-    } else {
-      setRegisteredUsers(prev => {
-        const updated = prev.map(u => u.id === userId ? { ...u, ...data } : u);
-        localStorage.setItem('evangelism_users', safeStringify(updated));
-        return updated;
-      });
-    }
+    const target = registeredUsers.find(u => u.id === userId);
+    await repos.users.setMembership(userId, { role: role || target?.role || UserRole.TEAM_MEMBER, status }, additionalUpdates);
+  };
+
+  const createOrganization = async (name: string) => {
+    if (!user) return;
+    const organization: Organization = { id: crypto.randomUUID(), name, createdAt: new Date().toISOString(), createdByUserId: user.id };
+    await repos.organizations.create(organization, user);
+    setUser({ ...user, ...membershipUpdate(user, organization.id, { role: UserRole.SUPER_ADMIN, status: UserStatus.APPROVED }) });
+    switchOrganization(organization.id);
   };
 
   const handleUpdateProfile = async (updates: Partial<User>) => {
     if (!user) return;
-    const cleanUpdates = scrub(updates);
-    const updatedUser = { ...user, ...cleanUpdates };
-    
-    if (cloudEnabled && fbDb) {
-      await updateDoc(doc(fbDb, 'users', user.id), cleanUpdates);
-    } else {
-      const savedUsers = localStorage.getItem('evangelism_users');
-      let users: User[] = savedUsers ? JSON.parse(savedUsers) : [];
-      users = users.map(u => u.id === user.id ? updatedUser : u);
-      localStorage.setItem('evangelism_users', safeStringify(users));
-      localStorage.setItem('evangelism_session', safeStringify(updatedUser));
-      setRegisteredUsers(users);
-    }
+    const updatedUser = { ...user, ...scrub(updates) };
+    await repos.users.update(user.id, updates);
     setUser(updatedUser);
   };
 
@@ -210,29 +305,43 @@ const App: React.FC = () => {
     handleUpdateProfile({ hasSeenTour: true });
   };
 
+  const actor = user ? { id: user.id, name: user.name } : undefined;
+
   const addProspect = async (newProspect: Prospect) => {
-    const data = scrub(newProspect);
-    if (cloudEnabled && fbDb) {
-      await setDoc(doc(fbDb, 'prospects', newProspect.id), data);
-    } else {
-      const p = [data, ...prospects];
-      localStorage.setItem('evangelism_prospects', safeStringify(p));
-      setProspects(p);
-    }
+    await repos.prospects.add(newProspect, { actor });
     setActiveTab('people');
   };
 
-  const updateProspect = async (updatedProspect: Prospect) => {
-    const data = scrub(updatedProspect);
-    if (cloudEnabled && fbDb) {
-      await setDoc(doc(fbDb, 'prospects', updatedProspect.id), data);
-    } else {
-      const p = prospects.map(x => x.id === updatedProspect.id ? data : x);
-      localStorage.setItem('evangelism_prospects', safeStringify(p));
-      setProspects(p);
+  // Sequential so a large import drains through the outbox in file order.
+  const importProspects = async (imported: Prospect[]) => {
+    for (const prospect of imported) {
+      await repos.prospects.add(prospect, { actor });
     }
   };
 
+  const patchProspect = (prospectId: string) => (updates: Partial<Prospect>, expected?: Partial<Prospect>) =>
+    repos.prospects.patch(prospectId, updates, { expected, actor });
+
+  const addFollowUp = (prospectId: string) => (followUp: FollowUp) =>
+    repos.prospects.addFollowUp(prospectId, followUp, { actor });
+
+  const mergeProspect = (targetId: string) => (sourceId: string) =>
+    repos.prospects.merge(targetId, sourceId, { actor, canAssign: !isTeamMember });
+
+  // Merged-away records stay as redirects; only the surviving records are listed.
+  const activeProspects = prospects.filter(p => !p.mergedIntoId);
+
+  const resolveProspect = (prospectId: string) => {
+    let p = prospects.find(x => x.id === prospectId);
+    const visited = new Set<string>();
+    while (p?.mergedIntoId && !visited.has(p.id)) {
+      visited.add(p.id);
+      const nextId: string = p.mergedIntoId;
+      p = prospects.find(x => x.id === nextId);
+    }
+    return p;
+  };
+
   if (loading) return (
     <div className="h-screen flex items-center justify-center bg-gray-50 text-blue-600">
       <i className="fas fa-circle-notch fa-spin text-4xl"></i>
@@ -241,27 +350,38 @@ const App: React.FC = () => {
 
   if (!user) return <Login 
     onLocalLogin={(u) => { 
+      startSession(u.id);
       setUser(u); 
-      localStorage.setItem('evangelism_session', safeStringify(u));
       if (u.hasSeenTour === false) setShowTour(true);
     }} 
     onGoToCloud={() => setActiveTab('cloud')}
+    users={repos.users}
   />;
 
+  if (locked) return <LockScreen user={user} onUnlock={unlock} onLogout={handleLogout} />;
+
+  if (!currentUser) return (
+    <div className="h-screen flex flex-col items-center justify-center gap-4 bg-gray-50 text-center p-8">
+      <i className="fas fa-church text-4xl text-gray-300"></i>
+      <p className="text-gray-600 max-w-sm">Your account is not an approved member of any congregation yet. An admin needs to approve your request.</p>
+      <button onClick={handleLogout} className="px-6 py-2 bg-blue-600 text-white rounded-xl font-bold">Log Out</button>
+    </div>
+  );
+
   const renderContent = () => {
     if (selectedProspectId) {
-      const p = prospects.find(x => x.id === selectedProspectId);
-      return p ? <ProspectDetail prospect={p} onBack={() => setSelectedProspectId(null)} onUpdate={updateProspect} currentUser={user} allUsers={registeredUsers} /> : null;
+      const p = resolveProspect(selectedProspectId);
+      return p ? <ProspectDetail key={p.id} prospect={p} onBack={() => setSelectedProspectId(null)} onPatch={patchProspect(p.id)} onAddFollowUp={addFollowUp(p.id)} onMerge={mergeProspect(p.id)} candidates={activeProspects} onOpenProspect={setSelectedProspectId} currentUser={currentUser} allUsers={registeredUsers} photoStore={repos.photos} audioStore={repos.audio} auditLog={repos.audit} lessonSeries={lessonSeries} /> : null;
     }
 
     switch (activeTab) {
-      case 'dashboard': return <Dashboard prospects={prospects} users={registeredUsers} onSelectProspect={setSelectedProspectId} currentUser={user} />;
-      case 'new': return <NewOutreach onSave={addProspect} currentUser={user} />;
-      case 'people': return <ProspectList prospects={prospects} onSelectProspect={setSelectedProspectId} />;
-      case 'users': return <TeamDirectory users={registeredUsers} onUpdateStatus={updateUserStatus} currentUser={user} onGoToCloud={() => setActiveTab('cloud')} />;
-      case 'cloud': return <CloudSetup onConnect={handleConnectCloud} />;
-      case 'profile': return <UserProfile user={user} onUpdate={handleUpdateProfile} />;
-      default: return <Dashboard prospects={prospects} users={registeredUsers} onSelectProspect={setSelectedProspectId} currentUser={user} />;
+      case 'dashboard': return <Dashboard prospects={activeProspects} users={registeredUsers} onSelectProspect={setSelectedProspectId} currentUser={currentUser} invitations={repos.invitations} summary={prospectSummary} />;
+      case 'new': return <NewOutreach onSave={addProspect} currentUser={currentUser} photoStore={repos.photos} audioStore={repos.audio} prospects={activeProspects} findMatches={findProspectMatches} onOpenProspect={setSelectedProspectId} />;
+      case 'people': return <ProspectList prospects={activeProspects} lessonSeries={lessonSeries} onSelectProspect={setSelectedProspectId} currentUser={currentUser} onImport={importProspects} findMatches={findProspectMatches} loadAll={() => repos.prospects.list(prospectScope)} hasMore={hasMoreProspects} onLoadMore={() => loadMoreProspects.current()} />;
+      case 'users': return <TeamDirectory users={registeredUsers} onUpdateStatus={updateUserStatus} currentUser={currentUser} onGoToCloud={() => setActiveTab('cloud')} />;
+      case 'cloud': return <CloudSetup onConnect={handleConnectCloud} repos={repos} currentUser={currentUser} />;
+      case 'profile': return <UserProfile user={currentUser} onUpdate={handleUpdateProfile} photoStore={repos.photos} />;
+      default: return <Dashboard prospects={activeProspects} users={registeredUsers} onSelectProspect={setSelectedProspectId} currentUser={currentUser} invitations={repos.invitations} summary={prospectSummary} />;
     }
   };
 
@@ -273,7 +393,13 @@ const App: React.FC = () => {
         activeTab={activeTab} 
         setActiveTab={(t) => { setActiveTab(t as any); setSelectedProspectId(null); }} 
         onLogout={handleLogout}
-        user={user}
+        user={currentUser}
+        pendingSyncCount={pendingSyncCount}
+        organizations={organizations}
+        activeOrgId={activeOrgId}
+        onSwitchOrganization={switchOrganization}
+        onCreateOrganization={createOrganization}
+        invitations={repos.invitations}
       />
       <main className="flex-1 overflow-y-auto p-4 md:p-8">
         <div className="max-w-6xl mx-auto">
@@ -283,7 +409,24 @@ const App: React.FC = () => {
                 <i className="fas fa-lock text-xl"></i>
                 <div className="text-sm">
                   <p className="font-bold">Database Access Denied</p>
-                  <p className="opacity-80">You need to update your Firestore Security Rules in the Firebase Console.</p>
+                  <p className="opacity-80">Your Firestore Security Rules are blocking this account. Settings has the rules to publish in the Firebase Console.</p>
+                </div>
+              </div>
+              <button 
+                onClick={() => setActiveTab('cloud')} 
+                className="px-4 py-2 bg-orange-600 text-white font-bold rounded-xl text-xs whitespace-nowrap hover:bg-orange-700 transition-colors"
+              >
+                View Instructions
+              </button>
+            </div>
+          )}
+          {indexError && (
+            <div className="mb-6 p-4 bg-orange-50 border border-orange-200 text-orange-800 rounded-2xl flex items-center justify-between shadow-sm animate-in fade-in zoom-in duration-300">
+              <div className="flex items-center gap-3">
+                <i className="fas fa-database text-xl"></i>
+                <div className="text-sm">
+                  <p className="font-bold">Database Indexes Missing</p>
+                  <p className="opacity-80">Firestore is refusing the people list until its indexes are created, so records may be missing here. Settings lists the indexes to deploy.</p>
                 </div>
               </div>
               <button 
@@ -294,6 +437,7 @@ const App: React.FC = () => {
               </button>
             </div>
           )}
+          <SyncIssues entries={setAsideEntries} prospects={activeProspects} onRetry={retrySetAside} onDiscard={(seq) => outbox.remove(seq)} />
           {renderContent()}
         </div>
       </main>
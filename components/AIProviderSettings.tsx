@@ -0,0 +1,111 @@
+
+import React, { useState } from 'react';
+import { AI_FEATURES, AIFeature, AIProviderId, GEMINI_MODELS } from '../services/aiProvider';
+import { AISettings, getAISettings, saveAISettings, hasGeminiKey, DEFAULT_AI_SETTINGS } from '../services/aiService';
+
+const PROVIDERS: { id: AIProviderId, label: string, description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Best results. Needs an internet connection and an API key.' },
+  { id: 'local', label: 'Offline Assistant', description: 'Simple built-in rules. Works with no network or key, on this device only.' }
+];
+
+const AIProviderSettings: React.FC = () => {
+  const [settings, setSettings] = useState<AISettings>(getAISettings);
+  const [isSaved, setIsSaved] = useState(true);
+
+  const update = (changes: Partial<AISettings>) => {
+    setSettings({ ...settings, ...changes });
+    setIsSaved(false);
+  };
+
+  const setModel = (feature: AIFeature, model: string) => update({ models: { ...settings.models, [feature]: model } });
+
+  const handleSave = () => {
+    saveAISettings(settings);
+    setIsSaved(true);
+  };
+
+  const missingKey = settings.provider === 'gemini' && !hasGeminiKey(settings);
+
+  return (
+    <div className="space-y-8 animate-in slide-in-from-right-4 duration-300">
+      <div className="bg-blue-50 p-5 rounded-3xl border border-blue-100 flex gap-4">
+        <div className="w-10 h-10 bg-white rounded-xl flex items-center justify-center text-blue-600 shrink-0 shadow-sm">
+          <i className="fas fa-robot"></i>
+        </div>
+        <div className="text-xs text-blue-800 leading-relaxed">
+          <p className="font-bold mb-1">AI Assistant</p>
+          <p>Choose who reviews outreach notes and drafts messages on this device, and which Gemini model each feature uses.</p>
+        </div>
+      </div>
+
+      <section className="space-y-3">
+        <h3 className="font-bold text-gray-800">Provider</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {PROVIDERS.map(provider => (
+            <button
+              key={provider.id}
+              onClick={() => update({ provider: provider.id })}
+              className={`p-4 rounded-2xl border text-left transition-all ${settings.provider === provider.id ? 'border-blue-500 bg-blue-50/50 shadow-sm' : 'border-gray-200 hover:border-gray-300'}`}
+            >
+              <p className="text-sm font-bold text-gray-800">{provider.label}</p>
+              <p className="text-[10px] text-gray-500 leading-snug mt-1">{provider.description}</p>
+            </button>
+          ))}
+        </div>
+      </section>
+
+      {settings.provider === 'gemini' && (
+        <section className="space-y-6">
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Gemini API Key</label>
+            <input
+              type="password"
+              value={settings.apiKey || ''}
+              onChange={e => update({ apiKey: e.target.value.trim() || undefined })}
+              placeholder={hasGeminiKey({ ...settings, apiKey: undefined }) ? 'Using the key this app was built with' : 'Paste a key from Google AI Studio'}
+              className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+            />
+            {missingKey && (
+              <p className="text-[10px] text-amber-600 font-medium ml-1">No key is available, so the Offline Assistant will answer until one is added.</p>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="font-bold text-gray-800">Models</h3>
+            {AI_FEATURES.map(feature => (
+              <div key={feature.key} className="flex items-center justify-between gap-4">
+                <label className="text-sm text-gray-700">{feature.label}</label>
+                <select
+                  value={settings.models[feature.key]}
+                  onChange={e => setModel(feature.key, e.target.value)}
+                  className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-xs font-mono focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  {[...new Set([settings.models[feature.key], ...GEMINI_MODELS])].map(model => (
+                    <option key={model} value={model}>{model}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <button
+              onClick={() => update({ models: DEFAULT_AI_SETTINGS.models })}
+              className="text-[10px] text-gray-400 font-bold hover:text-blue-600 uppercase tracking-tighter"
+            >
+              Reset models to defaults
+            </button>
+          </div>
+        </section>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={isSaved}
+        className={`w-full py-4 font-bold rounded-2xl shadow-xl transition-all flex items-center justify-center gap-3 ${isSaved ? 'bg-green-600 text-white' : 'bg-blue-600 text-white hover:bg-blue-700 active:scale-95'}`}
+      >
+        <i className={`fas ${isSaved ? 'fa-check-circle' : 'fa-save'}`}></i>
+        {isSaved ? 'Settings Saved' : 'Save AI Settings'}
+      </button>
+    </div>
+  );
+};
+
+export default AIProviderSettings;
@@ -0,0 +1,257 @@
+
+import React, { useState, useEffect } from 'react';
+import { AIQuotaSettings, AIUsageEntry, User, UserRole } from '../types';
+import { Repositories } from '../services/dataRepository';
+import { AI_FEATURES } from '../services/aiProvider';
+import { UsageSummary, countsTowardQuota, dailyLimitFor, localDay, recentDays, summarizeUsage } from '../services/aiUsage';
+import { cachedAnswerCount, clearAICache } from '../services/aiCache';
+
+interface AIUsageReportProps {
+  repos: Repositories;
+  currentUser: User;
+}
+
+const RANGES = [
+  { days: 1, label: 'Today' },
+  { days: 7, label: '7 Days' },
+  { days: 30, label: '30 Days' }
+];
+
+const featureLabel = (key: string) => AI_FEATURES.find(f => f.key === key)?.label || key;
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+// Blank means no limit; anything else must be a whole number of requests.
+const parseLimit = (text: string): number | undefined | null => {
+  if (!text.trim()) return undefined;
+  const value = Number(text);
+  return Number.isInteger(value) && value >= 0 ? value : null;
+};
+
+const SummaryTable: React.FC<{ title: string, rows: UsageSummary[], label: (key: string) => string }> = ({ title, rows, label }) => (
+  <section className="space-y-3">
+    <h3 className="font-bold text-gray-800">{title}</h3>
+    <div className="overflow-x-auto rounded-2xl border border-gray-100">
+      <table className="w-full text-xs">
+        <thead className="bg-gray-50 text-[10px] text-gray-400 uppercase tracking-widest">
+          <tr>
+            <th className="text-left px-3 py-2 font-black"></th>
+            <th className="text-right px-3 py-2 font-black">Requests</th>
+            <th className="text-right px-3 py-2 font-black">Cached</th>
+            <th className="text-right px-3 py-2 font-black">Failed</th>
+            <th className="text-right px-3 py-2 font-black">Tokens In / Out</th>
+            <th className="text-right px-3 py-2 font-black">Avg Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-t border-gray-100">
+              <td className="px-3 py-2 font-bold text-gray-700">{label(row.key)}</td>
+              <td className="px-3 py-2 text-right text-gray-600">{formatNumber(row.requests)}</td>
+              <td className="px-3 py-2 text-right text-gray-600">{formatNumber(row.cached)}</td>
+              <td className={`px-3 py-2 text-right ${row.failed > 0 ? 'text-red-500 font-bold' : 'text-gray-600'}`}>{formatNumber(row.failed)}</td>
+              <td className="px-3 py-2 text-right text-gray-600">{formatNumber(row.promptTokens)} / {formatNumber(row.outputTokens)}</td>
+              <td className="px-3 py-2 text-right text-gray-600">{row.averageLatencyMs ? `${(row.averageLatencyMs / 1000).toFixed(1)}s` : '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </section>
+);
+
+const AIUsageReport: React.FC<AIUsageReportProps> = ({ repos, currentUser }) => {
+  const [rangeDays, setRangeDays] = useState(7);
+  const [entries, setEntries] = useState<AIUsageEntry[]>([]);
+  const [members, setMembers] = useState<User[]>([]);
+  const [savedQuotas, setSavedQuotas] = useState<AIQuotaSettings>({});
+  const [limitText, setLimitText] = useState<string | null>(null);
+  const [memberLimitText, setMemberLimitText] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [cachedCount, setCachedCount] = useState(cachedAnswerCount());
+  // Team members only see their own requests; the security rules hold the rest back.
+  const isAdmin = currentUser.role === UserRole.ADMIN || currentUser.role === UserRole.SUPER_ADMIN;
+  const canEdit = currentUser.role === UserRole.SUPER_ADMIN;
+
+  useEffect(() => {
+    return repos.usage.subscribe({ days: recentDays(rangeDays), userId: isAdmin ? undefined : currentUser.id }, setEntries,
+      (error) => console.error("AI usage listener failed", error)
+    );
+  }, [repos, rangeDays, isAdmin, currentUser.id]);
+
+  useEffect(() => {
+    return repos.organizations.subscribe([repos.orgId],
+      (organizations) => setSavedQuotas(organizations[0]?.aiQuotas || {}),
+      (error) => console.error("Organization listener failed", error)
+    );
+  }, [repos]);
+
+  useEffect(() => {
+    if (!canEdit) return;
+    return repos.users.subscribe(setMembers, (error) => console.error("Member listener failed", error), { approvedOnly: true });
+  }, [repos, canEdit]);
+
+  const today = localDay();
+  const usedToday = (userId: string) => entries.filter(e => e.userId === userId && e.day === today && countsTowardQuota(e)).length;
+  const memberName = (userId: string) => members.find(m => m.id === userId)?.name || entries.find(e => e.userId === userId)?.userName || 'Unknown';
+
+  const totals = summarizeUsage(entries, () => 'all')[0];
+  const ownLimit = dailyLimitFor(currentUser.id, savedQuotas);
+
+  const defaultText = limitText ?? (savedQuotas.dailyLimit?.toString() || '');
+  const memberText = (userId: string) => memberLimitText[userId] ?? (savedQuotas.userLimits?.[userId]?.toString() || '');
+  const isDirty = limitText !== null || Object.keys(memberLimitText).length > 0;
+
+  const handleSave = async () => {
+    const dailyLimit = parseLimit(defaultText);
+    const userLimits: Record<string, number> = {};
+    const invalid: string[] = dailyLimit === null ? ['the daily limit'] : [];
+    members.forEach(member => {
+      const limit = parseLimit(memberText(member.id));
+      if (limit === null) invalid.push(member.name);
+      else if (limit !== undefined) userLimits[member.id] = limit;
+    });
+    if (invalid.length > 0) {
+      alert(`Limits must be whole numbers of requests, or blank for no limit. Check ${invalid.join(', ')}.`);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await repos.organizations.update(repos.orgId, {
+        aiQuotas: { ...(dailyLimit !== undefined ? { dailyLimit } : {}), userLimits }
+      });
+      setLimitText(null);
+      setMemberLimitText({});
+    } catch (e) {
+      console.error("Failed to save AI quotas", e);
+      alert("Could not save the quotas. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClearCache = () => {
+    if (!confirm("Clear the AI answers saved on this device? The next requests will go to the AI again and count toward today's quota.")) return;
+    clearAICache();
+    setCachedCount(0);
+  };
+
+  return (
+    <div className="space-y-8 animate-in slide-in-from-right-4 duration-300">
+      <div className="bg-blue-50 p-5 rounded-3xl border border-blue-100 flex gap-4">
+        <div className="w-10 h-10 bg-white rounded-xl flex items-center justify-center text-blue-600 shrink-0 shadow-sm">
+          <i className="fas fa-chart-column"></i>
+        </div>
+        <div className="text-xs text-blue-800 leading-relaxed">
+          <p className="font-bold mb-1">AI Usage</p>
+          <p>
+            Every AI request is logged with its feature, model, tokens and response time.
+            {isAdmin ? ' This report covers everyone in the congregation.' : ' This report covers your own requests.'}
+            {' '}Answers repeated from this device's cache and the Offline Assistant do not count toward daily limits.
+          </p>
+          <p className="mt-1 font-medium">
+            Your limit today: {ownLimit === undefined ? 'unlimited' : `${usedToday(currentUser.id)} of ${ownLimit} requests used`}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {RANGES.map(range => (
+          <button
+            key={range.days}
+            onClick={() => setRangeDays(range.days)}
+            className={`px-3 py-1.5 rounded-xl text-xs font-bold border transition-all ${rangeDays === range.days ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-500 hover:border-gray-300'}`}
+          >
+            {range.label}
+          </button>
+        ))}
+      </div>
+
+      {!totals ? (
+        <p className="text-sm text-gray-400 text-center py-8">No AI requests in this period.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { label: 'Requests', value: formatNumber(totals.requests) },
+              { label: 'From Cache', value: `${Math.round(totals.cached / totals.requests * 100)}%` },
+              { label: 'Tokens', value: formatNumber(totals.promptTokens + totals.outputTokens) },
+              { label: 'Avg Time', value: totals.averageLatencyMs ? `${(totals.averageLatencyMs / 1000).toFixed(1)}s` : '—' }
+            ].map(stat => (
+              <div key={stat.label} className="p-4 rounded-2xl border border-gray-100 bg-white">
+                <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{stat.label}</p>
+                <p className="text-xl font-bold text-gray-800 mt-1">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <SummaryTable title="By Feature" rows={summarizeUsage(entries, e => e.feature)} label={featureLabel} />
+          {isAdmin && <SummaryTable title="By Member" rows={summarizeUsage(entries, e => e.userId)} label={memberName} />}
+          <SummaryTable title="By Model" rows={summarizeUsage(entries, e => e.model)} label={key => key === 'offline' ? 'Offline Assistant' : key} />
+        </>
+      )}
+
+      <section className="space-y-3">
+        <h3 className="font-bold text-gray-800">Daily Limits</h3>
+        <p className="text-[10px] text-gray-400 leading-relaxed">
+          The app checks these limits before each request. The database does not enforce them, so they keep everyday use within budget but cannot stop someone who calls the AI provider directly with the API key.
+        </p>
+        {!canEdit ? (
+          <p className="text-xs text-gray-500">
+            {savedQuotas.dailyLimit === undefined ? 'Members have no daily limit' : `Each member may make ${savedQuotas.dailyLimit} AI requests a day`}
+            {Object.keys(savedQuotas.userLimits || {}).length > 0 && ', with exceptions for some members'}. Only SuperAdmins can change this.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Requests Per Member Per Day</label>
+              <input
+                type="number"
+                min={0}
+                value={defaultText}
+                onChange={e => setLimitText(e.target.value)}
+                placeholder="No limit"
+                className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+              />
+            </div>
+            <ul className="space-y-2">
+              {members.map(member => (
+                <li key={member.id} className="p-3 rounded-2xl border border-gray-100 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-gray-800 truncate">{member.name}</p>
+                    <p className="text-[10px] text-gray-400">{usedToday(member.id)} used today</p>
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    value={memberText(member.id)}
+                    onChange={e => setMemberLimitText(prev => ({ ...prev, [member.id]: e.target.value }))}
+                    placeholder={defaultText ? `Default (${defaultText})` : 'Default'}
+                    className="w-32 px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-xs focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+                  />
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={handleSave}
+              disabled={!isDirty || isSaving}
+              className={`w-full py-4 font-bold rounded-2xl shadow-xl transition-all flex items-center justify-center gap-3 ${!isDirty ? 'bg-green-600 text-white' : 'bg-blue-600 text-white hover:bg-blue-700 active:scale-95'}`}
+            >
+              <i className={`fas ${isSaving ? 'fa-spinner fa-spin' : !isDirty ? 'fa-check-circle' : 'fa-save'}`}></i>
+              {!isDirty ? 'Limits Saved' : 'Save Limits'}
+            </button>
+          </>
+        )}
+      </section>
+
+      <section className="flex items-center justify-between gap-4 pt-4 border-t border-gray-100">
+        <p className="text-xs text-gray-500">{cachedCount} AI answer{cachedCount === 1 ? '' : 's'} saved on this device.</p>
+        <button onClick={handleClearCache} disabled={cachedCount === 0} className="px-4 py-2 text-xs font-bold text-gray-400 hover:text-red-500 uppercase tracking-tighter disabled:opacity-50">
+          Clear cache
+        </button>
+      </section>
+    </div>
+  );
+};
+
+export default AIUsageReport;
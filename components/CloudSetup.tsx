@@ -1,13 +1,26 @@
 
 import React, { useState, useEffect } from 'react';
 import emailjs from 'emailjs-com';
+import { User } from '../types';
+import { Repositories } from '../services/dataRepository';
+import WorkspaceBackup from './WorkspaceBackup';
+import AIProviderSettings from './AIProviderSettings';
+import LessonSeriesManager from './LessonSeriesManager';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import PrivacySettings from './PrivacySettings';
+import AIUsageReport from './AIUsageReport';
+import { generateFirestoreRules } from '../services/firestoreRules';
+import { generateStorageRules } from '../services/storageRules';
+import firestoreIndexes from '../firestore.indexes.json';
 
 interface CloudSetupProps {
   onConnect: (config: any) => Promise<void>;
+  repos: Repositories;
+  currentUser: User;
 }
 
-const CloudSetup: React.FC<CloudSetupProps> = ({ onConnect }) => {
-  const [activeTab, setActiveTab] = useState<'firebase' | 'email'>('firebase');
+const CloudSetup: React.FC<CloudSetupProps> = ({ onConnect, repos, currentUser }) => {
+  const [activeTab, setActiveTab] = useState<'firebase' | 'email' | 'ai' | 'prompts' | 'privacy' | 'usage' | 'lessons' | 'backup'>('firebase');
   const [configText, setConfigText] = useState('');
   const [emailConfig, setEmailConfig] = useState({
     serviceId: '',
@@ -20,6 +33,12 @@ const CloudSetup: React.FC<CloudSetupProps> = ({ onConnect }) => {
   const [isEmailSaved, setIsEmailSaved] = useState(false);
   const [isTestingEmail, setIsTestingEmail] = useState(false);
   const [copiedDomain, setCopiedDomain] = useState(false);
+  const [copiedRules, setCopiedRules] = useState(false);
+  const [copiedIndexes, setCopiedIndexes] = useState(false);
+  const [copiedStorageRules, setCopiedStorageRules] = useState(false);
+  const securityRules = generateFirestoreRules();
+  const storageRules = generateStorageRules();
+  const indexesJson = JSON.stringify(firestoreIndexes, null, 2);
 
   useEffect(() => {
     const savedEmail = localStorage.getItem('harvest_hub_email_config');
@@ -140,7 +159,7 @@ const CloudSetup: React.FC<CloudSetupProps> = ({ onConnect }) => {
       </header>
 
       <div className="flex justify-center mb-4">
-        <div className="bg-gray-100 p-1 rounded-2xl flex gap-1">
+        <div className="bg-gray-100 p-1 rounded-2xl flex flex-wrap justify-center gap-1">
           <button 
             onClick={() => setActiveTab('firebase')}
             className={`px-6 py-2 rounded-xl text-xs font-bold transition-all ${activeTab === 'firebase' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
@@ -153,6 +172,42 @@ const CloudSetup: React.FC<CloudSetupProps> = ({ onConnect }) => {
           >
             Email Service (Direct Invitations)
           </button>
+          <button 
+            onClick={() => setActiveTab('ai')}
+            className={`px-6 py-2 rounded-xl text-xs font-bold transition-all ${activeTab === 'ai' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            AI Assistant
+          </button>
+          <button 
+            onClick={() => setActiveTab('prompts')}
+            className={`px-6 py-2 rounded-xl text-xs font-bold transition-all ${activeTab === 'prompts' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            AI Prompts
+          </button>
+          <button 
+            onClick={() => setActiveTab('privacy')}
+            className={`px-6 py-2 rounded-xl text-xs font-bold transition-all ${activeTab === 'privacy' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            AI Privacy
+          </button>
+          <button
+            onClick={() => setActiveTab('usage')}
+            className={`px-6 py-2 rounded-xl text-xs font-bold transition-all ${activeTab === 'usage' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            AI Usage
+          </button>
+          <button 
+            onClick={() => setActiveTab('lessons')}
+            className={`px-6 py-2 rounded-xl text-xs font-bold transition-all ${activeTab === 'lessons' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            Bible Studies
+          </button>
+          <button 
+            onClick={() => setActiveTab('backup')}
+            className={`px-6 py-2 rounded-xl text-xs font-bold transition-all ${activeTab === 'backup' ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            Backup &amp; Restore
+          </button>
         </div>
       </div>
 
@@ -227,8 +282,67 @@ const CloudSetup: React.FC<CloudSetupProps> = ({ onConnect }) => {
                 </div>
               </div>
             </section>
+
+            <section className="pt-6 border-t border-gray-50">
+              <div className="flex items-center gap-3 mb-4">
+                <span className="w-8 h-8 bg-green-100 text-green-600 rounded-full flex items-center justify-center font-bold text-sm">3</span>
+                <h3 className="font-bold text-gray-800">Security Rules</h3>
+              </div>
+              <div className="ml-11 space-y-3">
+                <p className="text-xs text-gray-500 leading-relaxed">
+                  Publish these rules under <strong>Firestore Database, Rules</strong>. Only approved members can see data, team members see just the people assigned to or entered by them, and only admins manage accounts.
+                </p>
+                <div className="relative">
+                  <pre className="p-4 bg-gray-900 text-green-200 rounded-2xl text-[10px] leading-relaxed font-mono overflow-auto max-h-72">{securityRules}</pre>
+                  <button
+                    onClick={() => { navigator.clipboard.writeText(securityRules); setCopiedRules(true); setTimeout(() => setCopiedRules(false), 2000); }}
+                    className={`absolute top-3 right-3 px-3 py-1.5 rounded-lg text-[10px] font-bold transition-all ${copiedRules ? 'bg-green-500 text-white' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                  >
+                    {copiedRules ? 'Copied!' : 'Copy Rules'}
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 leading-relaxed">
+                  Photos and voice notes follow the same access. Publish these under <strong>Storage, Rules</strong>; they read roles from Firestore, so publish both sets together.
+                </p>
+                <div className="relative">
+                  <pre className="p-4 bg-gray-900 text-green-200 rounded-2xl text-[10px] leading-relaxed font-mono overflow-auto max-h-72">{storageRules}</pre>
+                  <button
+                    onClick={() => { navigator.clipboard.writeText(storageRules); setCopiedStorageRules(true); setTimeout(() => setCopiedStorageRules(false), 2000); }}
+                    className={`absolute top-3 right-3 px-3 py-1.5 rounded-lg text-[10px] font-bold transition-all ${copiedStorageRules ? 'bg-green-500 text-white' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                  >
+                    {copiedStorageRules ? 'Copied!' : 'Copy Rules'}
+                  </button>
+                </div>
+              </div>
+            </section>
+
+            <section className="pt-6 border-t border-gray-50">
+              <div className="flex items-center gap-3 mb-4">
+                <span className="w-8 h-8 bg-purple-100 text-purple-600 rounded-full flex items-center justify-center font-bold text-sm">4</span>
+                <h3 className="font-bold text-gray-800">Database Indexes</h3>
+              </div>
+              <div className="ml-11 space-y-3">
+                <p className="text-xs text-gray-500 leading-relaxed">
+                  The people list and dashboard need these composite indexes; until they exist, Firestore refuses the queries. Save the file below as <strong>firestore.indexes.json</strong> and run <code className="font-mono">firebase deploy --only firestore:indexes</code>, or add each one under <strong>Firestore Database, Indexes</strong>. Indexes take a few minutes to build.
+                </p>
+                <ul className="text-[11px] text-gray-600 font-mono space-y-1">
+                  {firestoreIndexes.indexes.map((index, i) => (
+                    <li key={i}>{index.collectionGroup}: {index.fields.map(f => `${f.fieldPath} ${f.order === 'ASCENDING' ? '↑' : '↓'}`).join(', ')}</li>
+                  ))}
+                </ul>
+                <div className="relative">
+                  <pre className="p-4 bg-gray-900 text-green-200 rounded-2xl text-[10px] leading-relaxed font-mono overflow-auto max-h-72">{indexesJson}</pre>
+                  <button
+                    onClick={() => { navigator.clipboard.writeText(indexesJson); setCopiedIndexes(true); setTimeout(() => setCopiedIndexes(false), 2000); }}
+                    className={`absolute top-3 right-3 px-3 py-1.5 rounded-lg text-[10px] font-bold transition-all ${copiedIndexes ? 'bg-green-500 text-white' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                  >
+                    {copiedIndexes ? 'Copied!' : 'Copy Indexes'}
+                  </button>
+                </div>
+              </div>
+            </section>
           </div>
-        ) : (
+        ) : activeTab === 'email' ? (
           <div className="space-y-8 animate-in slide-in-from-right-4 duration-300">
             <div className="bg-blue-50 p-5 rounded-3xl border border-blue-100 flex gap-4">
               <div className="w-10 h-10 bg-white rounded-xl flex items-center justify-center text-blue-600 shrink-0 shadow-sm">
@@ -300,6 +414,18 @@ const CloudSetup: React.FC<CloudSetupProps> = ({ onConnect }) => {
               </div>
             </div>
           </div>
+        ) : activeTab === 'ai' ? (
+          <AIProviderSettings />
+        ) : activeTab === 'prompts' ? (
+          <PromptTemplateEditor repos={repos} currentUser={currentUser} />
+        ) : activeTab === 'privacy' ? (
+          <PrivacySettings repos={repos} currentUser={currentUser} />
+        ) : activeTab === 'usage' ? (
+          <AIUsageReport repos={repos} currentUser={currentUser} />
+        ) : activeTab === 'lessons' ? (
+          <LessonSeriesManager repos={repos} currentUser={currentUser} />
+        ) : (
+          <WorkspaceBackup repos={repos} currentUser={currentUser} />
         )}
       </div>
     </div>
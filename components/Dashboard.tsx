@@ -2,7 +2,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Prospect, HungerLevel, User } from '../types';
 import InviteModal from './InviteModal';
-import { getSoulWinningStrategy } from '../services/geminiService';
+import { getSoulWinningStrategy } from '../services/aiService';
+import { AIQuotaError } from '../services/aiUsage';
+import { useTranslation, STATUS_LABELS } from '../services/i18n';
+import { TranslationKey } from '../services/translations';
+import { InvitationRepository, ProspectSummary, summarizeProspects } from '../services/dataRepository';
 
 // Declare L as any for simplicity with CDN usage in TSX
 declare const L: any;
@@ -12,9 +16,14 @@ interface DashboardProps {
   users: User[];
   onSelectProspect: (id: string) => void;
   currentUser: User;
+  invitations: InvitationRepository;
+  // Counts over every record in scope: undefined while counting, null when they could not be had (e.g. offline),
+  // in which case the loaded pages stand in.
+  summary?: ProspectSummary | null;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspect, currentUser }) => {
+const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspect, currentUser, invitations, summary }) => {
+  const { language, t } = useTranslation();
   const [showInvite, setShowInvite] = useState(false);
   const [userLocation, setUserLocation] = useState<{ lat: number, lng: number } | null>(null);
   const [nearbyProspects, setNearbyProspects] = useState<Prospect[]>([]);
@@ -23,42 +32,47 @@ const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspec
   // AI Strategy states
   const [aiStrategy, setAiStrategy] = useState<string | null>(null);
   const [loadingStrategy, setLoadingStrategy] = useState(false);
+  const [strategyError, setStrategyError] = useState<TranslationKey | null>(null);
   
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<any>(null);
   const markersRef = useRef<any[]>([]);
   const userMarkerRef = useRef<any>(null);
 
-  const baptismCandidates = prospects.filter(p => p.signifiedForBaptism).length;
-  const highHungerCount = prospects.filter(p => p.aiReview?.hungerLevel === HungerLevel.HIGH).length;
+  const figures = summary || summarizeProspects(prospects);
   
   const stats = [
-    { label: 'Total Prospects', value: prospects.length, icon: 'fa-users', color: 'blue' },
-    { label: 'Baptism Interests', value: baptismCandidates, icon: 'fa-water', color: 'cyan' },
-    { label: 'High Hunger', value: highHungerCount, icon: 'fa-fire', color: 'orange' },
-    { label: 'Followed Up', value: prospects.filter(p => p.status === 'Followed Up').length, icon: 'fa-check-circle', color: 'green' },
+    { label: t('dashboard.totalProspects'), value: figures.total, icon: 'fa-users', color: 'blue' },
+    { label: t('dashboard.baptismInterests'), value: figures.baptismInterests, icon: 'fa-water', color: 'cyan' },
+    { label: t('dashboard.highHunger'), value: figures.highHunger, icon: 'fa-fire', color: 'orange' },
+    { label: t('dashboard.followedUp'), value: figures.followedUp, icon: 'fa-check-circle', color: 'green' },
   ];
 
-  const fetchStrategy = async () => {
-    if (prospects.length === 0) return;
+  // The refresh button asks for a new insight; the cached one would come back unchanged.
+  const fetchStrategy = async (bypassCache = false) => {
+    if (figures.total === 0) return;
     setLoadingStrategy(true);
+    setStrategyError(null);
     try {
       const strategy = await getSoulWinningStrategy({ 
-        total: prospects.length, 
-        baptism: baptismCandidates, 
-        highHunger: highHungerCount 
-      });
+        total: figures.total, 
+        baptism: figures.baptismInterests, 
+        highHunger: figures.highHunger 
+      }, { bypassCache });
       setAiStrategy(strategy);
     } catch (e) {
       console.error("Failed to load strategy", e);
+      setAiStrategy(null);
+      setStrategyError(e instanceof AIQuotaError ? 'dashboard.strategyQuota' : 'dashboard.strategyUnavailable');
     } finally {
       setLoadingStrategy(false);
     }
   };
 
+  // Figures seen in the last few hours are answered from the AI cache, so this only reaches the model for new ones.
   useEffect(() => {
-    fetchStrategy();
-  }, [prospects.length]);
+    if (summary !== undefined) fetchStrategy();
+  }, [figures.total, summary === undefined]);
 
   // Helper: Calculate distance in KM using Haversine formula
   const getDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
@@ -150,8 +164,8 @@ const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspec
         .bindPopup(`
           <div style="font-family: sans-serif; padding: 5px;">
             <strong style="display: block; margin-bottom: 2px;">${p.name}</strong>
-            <span style="font-size: 11px; color: #666;">Status: ${p.status}</span><br/>
-            <button onclick="window.dispatchEvent(new CustomEvent('selectProspect', {detail: '${p.id}'}))" style="margin-top: 8px; font-size: 10px; background: #2563eb; color: white; border: none; padding: 4px 8px; border-radius: 4px; cursor: pointer;">View Profile</button>
+            <span style="font-size: 11px; color: #666;">${t('dashboard.mapStatus', { status: t(STATUS_LABELS[p.status]) })}</span><br/>
+            <button onclick="window.dispatchEvent(new CustomEvent('selectProspect', {detail: '${p.id}'}))" style="margin-top: 8px; font-size: 10px; background: #2563eb; color: white; border: none; padding: 4px 8px; border-radius: 4px; cursor: pointer;">${t('dashboard.viewProfile')}</button>
           </div>
         `);
       
@@ -165,7 +179,7 @@ const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspec
         map.fitBounds(bounds, { padding: [50, 50] });
       }
     }
-  }, [prospects, userLocation, mapMode]);
+  }, [prospects, userLocation, mapMode, language]);
 
   const recenterOnMe = () => {
     if (userLocation && mapInstanceRef.current) {
@@ -186,8 +200,8 @@ const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspec
     <div className="space-y-8 pb-12">
       <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
         <div>
-          <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Church Evangelism Dashboard</h1>
-          <p className="text-gray-500 mt-1">Summary of outreach efforts and soul winning milestones.</p>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900">{t('dashboard.title')}</h1>
+          <p className="text-gray-500 mt-1">{t('dashboard.subtitle')}</p>
         </div>
         <button 
           id="tour-invite-header"
@@ -195,7 +209,7 @@ const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspec
           className="bg-blue-600 text-white px-6 py-2.5 rounded-xl font-bold text-sm shadow-lg shadow-blue-200 hover:bg-blue-700 transition-all flex items-center gap-2"
         >
           <i className="fas fa-user-plus"></i>
-          Invite Team
+          {t('common.inviteTeam')}
         </button>
       </header>
 
@@ -219,7 +233,7 @@ const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspec
         <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
           <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
             <i className="fas fa-map-marked-alt text-blue-600"></i>
-            Geographical Outreach Map
+            {t('dashboard.map')}
           </h2>
           
           <div className="flex items-center gap-2 bg-gray-100 p-1 rounded-xl">
@@ -227,13 +241,13 @@ const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspec
               onClick={() => setMapMode('local')}
               className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${mapMode === 'local' ? 'bg-white shadow-sm text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
             >
-              <i className="fas fa-street-view mr-2"></i>My Area
+              <i className="fas fa-street-view mr-2"></i>{t('dashboard.myArea')}
             </button>
             <button 
               onClick={() => setMapMode('global')}
               className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${mapMode === 'global' ? 'bg-white shadow-sm text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
             >
-              <i className="fas fa-globe mr-2"></i>Global
+              <i className="fas fa-globe mr-2"></i>{t('dashboard.global')}
             </button>
           </div>
         </div>
@@ -245,7 +259,7 @@ const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspec
             <button 
               onClick={recenterOnMe}
               className="w-10 h-10 bg-white rounded-xl shadow-lg border border-gray-200 flex items-center justify-center text-gray-600 hover:text-blue-600 hover:bg-gray-50 transition-all"
-              title="Recenter on Me"
+              title={t('dashboard.recenter')}
             >
               <i className="fas fa-location-crosshairs"></i>
             </button>
@@ -265,16 +279,16 @@ const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspec
               <div className="w-20 h-20 bg-white/20 backdrop-blur-xl rounded-[2rem] flex items-center justify-center text-3xl shadow-xl border border-white/20 animate-pulse">
                 <i className="fas fa-brain"></i>
               </div>
-              <span className="mt-4 text-[10px] font-black uppercase tracking-widest text-indigo-200">Gemini Strategy Advisor</span>
+              <span className="mt-4 text-[10px] font-black uppercase tracking-widest text-indigo-200">{t('dashboard.advisor')}</span>
             </div>
             
             <div className="flex-1 space-y-4">
               <div className="flex items-center justify-between">
-                <h2 className="text-2xl font-bold tracking-tight">Weekly Soul-Winning Insight</h2>
+                <h2 className="text-2xl font-bold tracking-tight">{t('dashboard.insight')}</h2>
                 <button 
-                  onClick={fetchStrategy}
+                  onClick={() => fetchStrategy(true)}
                   className="text-white/60 hover:text-white transition-colors p-2"
-                  title="Refresh Insight"
+                  title={t('dashboard.refreshInsight')}
                 >
                   <i className={`fas fa-sync-alt ${loadingStrategy ? 'fa-spin' : ''}`}></i>
                 </button>
@@ -286,9 +300,14 @@ const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspec
                   <div className="h-4 bg-white/10 rounded-full w-1/2 animate-pulse"></div>
                   <div className="h-4 bg-white/10 rounded-full w-2/3 animate-pulse"></div>
                 </div>
+              ) : strategyError ? (
+                <div className="py-4 text-sm text-indigo-100/80 flex items-center gap-3">
+                  <i className="fas fa-plug-circle-exclamation"></i>
+                  <p>{t(strategyError)}</p>
+                </div>
               ) : (
                 <div className="text-lg leading-relaxed text-indigo-50/90 whitespace-pre-line font-medium italic">
-                  {aiStrategy || "Analyzing the field for the best spiritual entry points..."}
+                  {aiStrategy || t('dashboard.strategyLoading')}
                 </div>
               )}
             </div>
@@ -299,8 +318,8 @@ const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspec
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-8">
         <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-lg font-bold text-gray-900">Recent Outreach</h2>
-            <button className="text-blue-600 text-sm font-medium hover:underline">View All</button>
+            <h2 className="text-lg font-bold text-gray-900">{t('dashboard.recent')}</h2>
+            <button className="text-blue-600 text-sm font-medium hover:underline">{t('dashboard.viewAll')}</button>
           </div>
           <div className="space-y-4">
             {recent.length > 0 ? (
@@ -324,27 +343,27 @@ const Dashboard: React.FC<DashboardProps> = ({ prospects, users, onSelectProspec
             ) : (
               <div className="text-center py-10 text-gray-400">
                 <i className="fas fa-folder-open text-4xl mb-3 opacity-20"></i>
-                <p>No records found. Start your first outreach!</p>
+                <p>{t('dashboard.empty')}</p>
               </div>
             )}
           </div>
         </section>
 
         <section className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100">
-          <h2 className="text-lg font-bold text-gray-900 mb-6">Strategic Insights</h2>
+          <h2 className="text-lg font-bold text-gray-900 mb-6">{t('dashboard.strategicInsights')}</h2>
           <div className="space-y-6">
             <div className="p-4 bg-blue-50 rounded-xl border border-blue-100">
               <h3 className="font-semibold text-blue-900 flex items-center gap-2">
-                <i className="fas fa-lightbulb"></i> Harvest Tip
+                <i className="fas fa-lightbulb"></i> {t('dashboard.harvestTip')}
               </h3>
               <p className="text-sm text-blue-700 mt-2">
-                You have {baptismCandidates} people interested in baptism! Organize a special counseling session this Sunday.
+                {t('dashboard.baptismTip', { count: figures.baptismInterests })}
               </p>
             </div>
           </div>
         </section>
       </div>
-      {showInvite && <InviteModal onClose={() => setShowInvite(false)} currentUser={currentUser} />}
+      {showInvite && <InviteModal onClose={() => setShowInvite(false)} currentUser={currentUser} invitations={invitations} />}
     </div>
   );
 };
@@ -1,26 +1,22 @@
 
 import React, { useState, useEffect } from 'react';
-import { UserRole, User } from '../types';
-import { generateInviteDraft } from '../services/geminiService';
-import { db } from '../services/firebase';
-import { collection, addDoc, onSnapshot, limit, orderBy, query } from 'firebase/firestore';
+import { UserRole, User, Invitation } from '../types';
+import { generateInviteDraft } from '../services/aiService';
+import { AIUnavailableError } from '../services/aiOutput';
+import { AIQuotaError } from '../services/aiUsage';
+import { InvitationRepository } from '../services/dataRepository';
+import { getActiveOrgId } from '../services/organizations';
+import { LANGUAGES, DEFAULT_LANGUAGE } from '../services/i18n';
 import emailjs from 'emailjs-com';
 
 interface InviteModalProps {
   onClose: () => void;
   currentUser: User;
   onNavigateToSettings?: () => void;
+  invitations: InvitationRepository;
 }
 
-interface InvitationRecord {
-  id: string;
-  email: string;
-  role: UserRole;
-  status: 'Sent' | 'Accepted';
-  sentAt: string;
-}
-
-const InviteModal: React.FC<InviteModalProps> = ({ onClose, currentUser, onNavigateToSettings }) => {
+const InviteModal: React.FC<InviteModalProps> = ({ onClose, currentUser, onNavigateToSettings, invitations }) => {
   const [tab, setTab] = useState<'link' | 'email'>('link');
   const [copied, setCopied] = useState(false);
   const [selectedRole, setSelectedRole] = useState<UserRole>(UserRole.TEAM_MEMBER);
@@ -28,11 +24,14 @@ const InviteModal: React.FC<InviteModalProps> = ({ onClose, currentUser, onNavig
   // Email states
   const [emails, setEmails] = useState('');
   const [customNotes, setCustomNotes] = useState('');
+  const [draftLanguage, setDraftLanguage] = useState(currentUser.preferredLanguage || DEFAULT_LANGUAGE);
   const [isSending, setIsSending] = useState(false);
   const [sendStep, setSendStep] = useState('');
   const [aiDraft, setAiDraft] = useState<{ subject: string, body: string } | null>(null);
-  const [sentHistory, setSentHistory] = useState<InvitationRecord[]>([]);
+  const [sentHistory, setSentHistory] = useState<Invitation[]>([]);
   const [emailConfigReady, setEmailConfigReady] = useState(false);
+  // Invitations are to the congregation currently open.
+  const orgId = getActiveOrgId();
 
   // Load config on mount
   useEffect(() => {
@@ -50,13 +49,11 @@ const InviteModal: React.FC<InviteModalProps> = ({ onClose, currentUser, onNavig
     
     checkConfig();
 
-    if (!db) return;
-    const q = query(collection(db, 'invitations'), orderBy('sentAt', 'desc'), limit(5));
-    const unsub = onSnapshot(q, (snap) => {
-      setSentHistory(snap.docs.map(doc => ({ id: doc.id, ...doc.data() } as InvitationRecord)));
-    });
-    return () => unsub();
-  }, []);
+    return invitations.subscribe(
+      (items) => setSentHistory(items.slice(0, 5)),
+      (error) => console.error("Invitation history failed to load", error)
+    );
+  }, [invitations]);
 
   // Environment-aware URL generation
   const generateInviteUrl = () => {
@@ -64,6 +61,7 @@ const InviteModal: React.FC<InviteModalProps> = ({ onClose, currentUser, onNavig
     const url = new URL(baseUrl);
     url.searchParams.set('refRole', selectedRole);
     url.searchParams.set('refBy', currentUser.name);
+    url.searchParams.set('refOrg', orgId);
     url.searchParams.set('token', crypto.randomUUID().slice(0, 8));
     return url.toString();
   };
@@ -113,7 +111,7 @@ const InviteModal: React.FC<InviteModalProps> = ({ onClose, currentUser, onNavig
     setSendStep("Connecting to HarvestHub Dispatcher...");
     
     try {
-      const draft = await generateInviteDraft(currentUser.name, selectedRole, customNotes);
+      const draft = await generateInviteDraft(currentUser.name, selectedRole, customNotes, draftLanguage);
       setAiDraft(draft);
 
       let successCount = 0;
@@ -123,14 +121,15 @@ const InviteModal: React.FC<InviteModalProps> = ({ onClose, currentUser, onNavig
         
         if (sent) {
           successCount++;
-          const inviteData = {
+          await invitations.put({
+            id: crypto.randomUUID(),
             email,
             role: selectedRole,
             invitedBy: currentUser.name,
             sentAt: new Date().toISOString(),
-            status: 'Sent'
-          };
-          if (db) await addDoc(collection(db, 'invitations'), inviteData);
+            status: 'Sent',
+            orgId
+          });
         }
       }
 
@@ -142,7 +141,11 @@ const InviteModal: React.FC<InviteModalProps> = ({ onClose, currentUser, onNavig
       }
     } catch (err) {
       console.error("Invite send failed", err);
-      alert("An unexpected error occurred during dispatch.");
+      alert(err instanceof AIUnavailableError
+        ? "The AI assistant could not draft the invitation, so nothing was sent. Please try again later."
+        : err instanceof AIQuotaError
+          ? `${err.message} Nothing was sent.`
+          : "An unexpected error occurred during dispatch.");
     } finally {
       setIsSending(false);
       setAiDraft(null);
@@ -278,6 +281,16 @@ const InviteModal: React.FC<InviteModalProps> = ({ onClose, currentUser, onNavig
                         />
                       </div>
                     </div>
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Email Language</label>
+                      <select 
+                        value={draftLanguage} 
+                        onChange={(e) => setDraftLanguage(e.target.value)} 
+                        className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl text-sm font-bold"
+                      >
+                        {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.nativeName}</option>)}
+                      </select>
+                    </div>
                   </div>
                 </div>
               )}
@@ -0,0 +1,230 @@
+
+import React, { useState, useEffect } from 'react';
+import { LessonSeries, Lesson, User } from '../types';
+import { Repositories } from '../services/dataRepository';
+import { normalizeReference } from '../services/scripture';
+
+interface LessonSeriesManagerProps {
+  repos: Repositories;
+  currentUser: User;
+}
+
+interface LessonDraft extends Lesson {
+  scriptureError?: boolean;
+}
+
+interface SeriesDraft {
+  id?: string;
+  title: string;
+  description: string;
+  lessons: LessonDraft[];
+}
+
+const emptyLesson = (): LessonDraft => ({ id: crypto.randomUUID(), title: '', scripture: '' });
+
+const emptyDraft = (): SeriesDraft => ({ title: '', description: '', lessons: [emptyLesson()] });
+
+const LessonSeriesManager: React.FC<LessonSeriesManagerProps> = ({ repos, currentUser }) => {
+  const [seriesList, setSeriesList] = useState<LessonSeries[]>([]);
+  const [draft, setDraft] = useState<SeriesDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    return repos.lessons.subscribe(setSeriesList, (error) => console.error("Lesson series listener failed", error));
+  }, [repos]);
+
+  const editSeries = (series: LessonSeries) => setDraft({
+    id: series.id,
+    title: series.title,
+    description: series.description || '',
+    lessons: series.lessons.map(l => ({ ...l, scripture: l.scripture || '' }))
+  });
+
+  const updateLesson = (index: number, changes: Partial<LessonDraft>) => {
+    if (!draft) return;
+    setDraft({ ...draft, lessons: draft.lessons.map((l, i) => i === index ? { ...l, ...changes } : l) });
+  };
+
+  const moveLesson = (index: number, offset: number) => {
+    if (!draft) return;
+    const target = index + offset;
+    if (target < 0 || target >= draft.lessons.length) return;
+    const lessons = [...draft.lessons];
+    [lessons[index], lessons[target]] = [lessons[target], lessons[index]];
+    setDraft({ ...draft, lessons });
+  };
+
+  const removeLesson = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, lessons: draft.lessons.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const lessons = draft.lessons
+      .filter(l => l.title.trim())
+      .map(l => {
+        const typed = (l.scripture || '').trim();
+        const scripture = typed ? normalizeReference(typed) : '';
+        return { ...l, title: l.title.trim(), scripture: scripture ?? typed, scriptureError: scripture === null };
+      });
+    if (!draft.title.trim() || lessons.length === 0) {
+      alert("Give the series a title and at least one lesson.");
+      return;
+    }
+    if (lessons.some(l => l.scriptureError)) {
+      setDraft({ ...draft, lessons });
+      alert("Some scripture references were not recognized. Use a form like \"John 3:16\" or \"Romans 6:3-4\".");
+      return;
+    }
+
+    const existing = seriesList.find(s => s.id === draft.id);
+    const series: LessonSeries = {
+      id: existing?.id || crypto.randomUUID(),
+      orgId: existing?.orgId,
+      title: draft.title.trim(),
+      ...(draft.description.trim() ? { description: draft.description.trim() } : {}),
+      lessons: lessons.map(({ id, title, scripture }) => ({ id, title, ...(scripture ? { scripture } : {}) })),
+      createdAt: existing?.createdAt || new Date().toISOString(),
+      createdByUserId: existing ? existing.createdByUserId : currentUser.id
+    };
+
+    setIsSaving(true);
+    try {
+      await repos.lessons.put(series);
+      setDraft(null);
+    } catch (e) {
+      console.error("Failed to save lesson series", e);
+      alert("Could not save this series. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (series: LessonSeries) => {
+    if (!confirm(`Delete "${series.title}"? Prospects enrolled in it will no longer show their study progress.`)) return;
+    try {
+      await repos.lessons.remove(series.id);
+    } catch (e) {
+      console.error("Failed to delete lesson series", e);
+      alert("Could not delete this series. Please try again.");
+    }
+  };
+
+  if (draft) {
+    return (
+      <div className="space-y-6 animate-in slide-in-from-right-4 duration-300">
+        <div className="space-y-2">
+          <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Series Title</label>
+          <input
+            value={draft.title}
+            onChange={e => setDraft({ ...draft, title: e.target.value })}
+            placeholder="e.g. Searching the Scriptures"
+            className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Description</label>
+          <textarea
+            value={draft.description}
+            onChange={e => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Who the series is for and how long each lesson takes"
+            className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all min-h-[80px]"
+          />
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="font-bold text-gray-800">Lessons</h3>
+          {draft.lessons.map((lesson, index) => (
+            <div key={lesson.id} className="flex items-start gap-2">
+              <span className="w-7 h-10 flex items-center justify-center text-xs font-black text-gray-400 shrink-0">{index + 1}</span>
+              <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-2">
+                <input
+                  value={lesson.title}
+                  onChange={e => updateLesson(index, { title: e.target.value })}
+                  placeholder="Lesson title"
+                  className="md:col-span-2 px-3 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                <input
+                  value={lesson.scripture}
+                  onChange={e => updateLesson(index, { scripture: e.target.value, scriptureError: false })}
+                  placeholder="Scripture, e.g. Acts 2:38"
+                  className={`px-3 py-2.5 bg-gray-50 border rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none ${lesson.scriptureError ? 'border-red-400' : 'border-gray-200'}`}
+                />
+              </div>
+              <div className="flex items-center shrink-0 text-gray-400">
+                <button onClick={() => moveLesson(index, -1)} disabled={index === 0} title="Move up" className="p-2 hover:text-blue-600 disabled:opacity-30"><i className="fas fa-arrow-up text-xs"></i></button>
+                <button onClick={() => moveLesson(index, 1)} disabled={index === draft.lessons.length - 1} title="Move down" className="p-2 hover:text-blue-600 disabled:opacity-30"><i className="fas fa-arrow-down text-xs"></i></button>
+                <button onClick={() => removeLesson(index)} title="Remove lesson" className="p-2 hover:text-red-500"><i className="fas fa-times text-xs"></i></button>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => setDraft({ ...draft, lessons: [...draft.lessons, emptyLesson()] })}
+            className="text-xs font-bold text-blue-600 hover:text-blue-800 flex items-center gap-2 ml-9"
+          >
+            <i className="fas fa-plus"></i> Add Lesson
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t border-gray-100">
+          <button onClick={() => setDraft(null)} className="px-4 py-2 text-gray-500 hover:text-gray-700 font-medium">Cancel</button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-6 py-2 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 disabled:opacity-60 flex items-center gap-2"
+          >
+            {isSaving && <i className="fas fa-spinner fa-spin"></i>}
+            Save Series
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-in slide-in-from-right-4 duration-300">
+      <div className="bg-blue-50 p-5 rounded-3xl border border-blue-100 flex gap-4">
+        <div className="w-10 h-10 bg-white rounded-xl flex items-center justify-center text-blue-600 shrink-0 shadow-sm">
+          <i className="fas fa-book-open"></i>
+        </div>
+        <div className="text-xs text-blue-800 leading-relaxed">
+          <p className="font-bold mb-1">Bible Study Series</p>
+          <p>Define the home studies your team teaches. Prospects can be enrolled in a series, and lessons are checked off as follow-ups are logged.</p>
+        </div>
+      </div>
+
+      {seriesList.length > 0 ? (
+        <ul className="space-y-3">
+          {seriesList.map(series => (
+            <li key={series.id} className="p-4 rounded-2xl border border-gray-100 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-bold text-gray-800 truncate">{series.title}</p>
+                <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider">
+                  {series.lessons.length} lesson{series.lessons.length === 1 ? '' : 's'}
+                  {series.description ? ` · ${series.description}` : ''}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button onClick={() => editSeries(series)} className="px-3 py-1.5 text-xs font-bold text-blue-600 hover:bg-blue-50 rounded-lg">Edit</button>
+                <button onClick={() => handleDelete(series)} className="px-3 py-1.5 text-xs font-bold text-red-500 hover:bg-red-50 rounded-lg">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-400 text-center py-6">No study series yet.</p>
+      )}
+
+      <button
+        onClick={() => setDraft(emptyDraft())}
+        className="w-full py-4 bg-blue-600 text-white font-bold rounded-2xl shadow-xl hover:bg-blue-700 active:scale-95 transition-all flex items-center justify-center gap-3"
+      >
+        <i className="fas fa-plus"></i>
+        New Study Series
+      </button>
+    </div>
+  );
+};
+
+export default LessonSeriesManager;
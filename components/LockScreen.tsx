@@ -0,0 +1,69 @@
+
+import React, { useState } from 'react';
+import { User } from '../types';
+
+interface LockScreenProps {
+  user: User;
+  onUnlock: (secret: string) => Promise<boolean>;
+  onLogout: () => void;
+}
+
+const LockScreen: React.FC<LockScreenProps> = ({ user, onUnlock, onLogout }) => {
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setChecking(true);
+    setError(null);
+    try {
+      if (!(await onUnlock(secret))) {
+        setError("That password or PIN is not correct.");
+        setSecret('');
+      }
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <div className="w-full max-w-sm space-y-6 bg-white p-8 rounded-[2.5rem] shadow-2xl border border-gray-100 text-center animate-in fade-in duration-500">
+        <div className="w-16 h-16 rounded-full bg-blue-100 flex items-center justify-center text-blue-600 text-2xl font-bold mx-auto overflow-hidden">
+          {user.photoUrl ? <img src={user.photoUrl} alt={user.name} className="w-full h-full object-cover" /> : user.name.charAt(0)}
+        </div>
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">{user.name}</h1>
+          <p className="text-xs text-gray-500 mt-1 flex items-center justify-center gap-2">
+            <i className="fas fa-lock"></i>
+            Locked after a period of inactivity
+          </p>
+        </div>
+
+        {error && <p className="p-3 bg-red-50 text-red-700 border border-red-100 rounded-xl text-xs font-bold">{error}</p>}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            required
+            autoFocus
+            type="password"
+            value={secret}
+            onChange={e => setSecret(e.target.value)}
+            placeholder="Password or PIN"
+            className="w-full px-4 py-3 rounded-xl border border-gray-200 outline-none focus:ring-2 focus:ring-blue-500 transition-all text-center"
+          />
+          <button type="submit" disabled={checking} className="w-full py-3 bg-blue-600 text-white font-bold rounded-xl shadow-xl hover:bg-blue-700 disabled:opacity-50 transition-all flex items-center justify-center gap-3">
+            {checking ? <i className="fas fa-spinner fa-spin"></i> : 'Unlock'}
+          </button>
+        </form>
+
+        <button onClick={onLogout} className="text-xs text-gray-400 font-bold hover:text-red-500 transition-colors">
+          Not {user.name.split(' ')[0]}? Sign out
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
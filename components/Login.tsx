@@ -9,15 +9,22 @@ import {
   verifyPasswordResetCode,
   signInWithPopup
 } from 'firebase/auth';
-import { doc, getDoc, setDoc, collection, getDocs } from 'firebase/firestore';
 import { User, UserRole, UserStatus } from '../types';
+import { USER_SCHEMA_VERSION } from '../services/schema';
+import { DEFAULT_ORG_ID } from '../services/organizations';
+import { UserRepository } from '../services/dataRepository';
+import { registerLocalAccount, signInLocal, MIN_SECRET_LENGTH } from '../services/localAuth';
+import { UI_LANGUAGES, setUILanguage, useTranslation } from '../services/i18n';
 
 interface LoginProps {
   onLocalLogin?: (user: User) => void;
   onGoToCloud?: () => void;
+  // Profiles for both modes; cloud sign-in itself goes through Firebase Auth.
+  users: UserRepository;
 }
 
-const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
+const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud, users }) => {
+  const { language, t } = useTranslation();
   const [mode, setMode] = useState<'login' | 'signup' | 'forgotPassword' | 'resetConfirm'>('login');
   const [email, setEmail] = useState('');
   const [name, setName] = useState('');
@@ -27,6 +34,7 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
 
   const [invitedRole, setInvitedRole] = useState<UserRole | null>(null);
   const [invitedBy, setInvitedBy] = useState<string | null>(null);
+  const [invitedOrg, setInvitedOrg] = useState<string | null>(null);
   
   const [error, setError] = useState<string | null>(null);
   const [isDomainError, setIsDomainError] = useState(false);
@@ -42,6 +50,7 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
     const params = new URLSearchParams(window.location.search);
     const refRole = params.get('refRole');
     const refBy = params.get('refBy');
+    const refOrg = params.get('refOrg');
     const modeParam = params.get('mode');
     const actionCode = params.get('oobCode');
 
@@ -50,6 +59,7 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
       setMode('signup');
     }
     if (refBy) setInvitedBy(refBy);
+    if (refOrg) setInvitedOrg(refOrg);
 
     if ((modeParam === 'resetPassword' || params.get('apiKey')) && actionCode) {
       setOobCode(actionCode);
@@ -63,16 +73,36 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
           })
           .catch((err) => {
             console.error("Verification failed", err);
-            setError("The password reset link is invalid or has already been used.");
+            setError(t('login.invalidResetLink'));
             setLoading(false);
           });
       }
     }
   }, []);
 
+  // The first account owns the main congregation; everyone else joins the one they were invited to, pending approval.
+  const newAccountAccess = (isFirstUser: boolean): Pick<User, 'role' | 'status' | 'memberships' | 'orgIds'> => {
+    const role = isFirstUser ? UserRole.SUPER_ADMIN : (invitedRole || UserRole.TEAM_MEMBER);
+    const status = isFirstUser ? UserStatus.APPROVED : UserStatus.PENDING;
+    const orgId = isFirstUser ? DEFAULT_ORG_ID : (invitedOrg || DEFAULT_ORG_ID);
+    return { role, status, memberships: { [orgId]: { role, status } }, orgIds: [orgId] };
+  };
+
+  const handleInvitedMember = async (userData: User) => {
+    if (!invitedOrg) return;
+    try {
+      // An existing account following another congregation's invite link asks to join it.
+      if (await users.requestMembership(userData, invitedOrg, invitedRole || UserRole.TEAM_MEMBER)) {
+        alert(invitedBy ? t('login.joinRequestedFrom', { name: invitedBy }) : t('login.joinRequested'));
+      }
+    } catch (e) {
+      console.error("Join request failed", e);
+    }
+  };
+
   const handleGoogleLogin = async () => {
     if (!isFirebaseConfigured || !auth || !db || !googleProvider) {
-      setError("Cloud services are not fully configured. Please check settings.");
+      setError(t('login.cloudNotConfigured'));
       return;
     }
 
@@ -84,37 +114,37 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
       const result = await signInWithPopup(auth, googleProvider);
       const firebaseUser = result.user;
       
-      const userDocRef = doc(db, 'users', firebaseUser.uid);
-      const userDoc = await getDoc(userDocRef);
+      const userData = await users.get(firebaseUser.uid);
 
-      if (userDoc.exists()) {
-        const userData = userDoc.data() as User;
+      if (userData) {
         if (userData.status !== UserStatus.APPROVED) {
           await auth.signOut();
           setError(userData.status === UserStatus.PENDING 
-            ? "Your account is awaiting approval by a SuperAdmin." 
-            : "This account has been restricted.");
+            ? t('login.awaitingSuperAdmin')
+            : t('login.restricted'));
+        } else {
+          await handleInvitedMember(userData);
         }
       } else {
-        const usersSnapshot = await getDocs(collection(db, 'users'));
-        const isFirstUser = usersSnapshot.empty;
+        const isFirstUser = await users.isEmpty();
         
         const newUser: User = {
           id: firebaseUser.uid,
           name: firebaseUser.displayName || 'Anonymous Laborer',
           email: firebaseUser.email || '',
-          role: isFirstUser ? UserRole.SUPER_ADMIN : (invitedRole || UserRole.TEAM_MEMBER),
-          status: isFirstUser ? UserStatus.APPROVED : UserStatus.PENDING,
+          ...newAccountAccess(isFirstUser),
           createdAt: new Date().toISOString(),
           photoUrl: firebaseUser.photoURL || undefined,
-          hasSeenTour: false
+          hasSeenTour: false,
+          preferredLanguage: language,
+          schemaVersion: USER_SCHEMA_VERSION
         };
 
-        await setDoc(userDocRef, newUser);
+        await users.register(newUser, isFirstUser);
         
         if (!isFirstUser) {
           await auth.signOut();
-          setSuccess("Profile created! Your account is now awaiting Admin approval.");
+          setSuccess(t('login.profileCreatedPending'));
           setMode('login');
         }
       }
@@ -125,9 +155,9 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
         // Clean extraction of domain from Firebase error message string if possible
         const domainMatch = err.message.match(/\(([^)]+)\)/);
         setDetectedDomain(domainMatch ? domainMatch[1] : window.location.hostname);
-        setError("Domain Not Authorized in Firebase");
+        setError(t('login.domainNotAuthorized'));
       } else {
-        setError(err.message || "An error occurred during Google Sign-in.");
+        setError(err.message || t('login.googleError'));
       }
     } finally {
       setLoading(false);
@@ -148,37 +178,38 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
       try {
         if (mode === 'login') {
           const userCredential = await signInWithEmailAndPassword(auth, email, password);
-          const userDoc = await getDoc(doc(db, 'users', userCredential.user.uid));
-          if (userDoc.exists()) {
-            const userData = userDoc.data() as User;
+          const userData = await users.get(userCredential.user.uid);
+          if (userData) {
             if (userData.status !== UserStatus.APPROVED) {
               await auth.signOut();
-              setError(userData.status === UserStatus.PENDING ? "Your account is still awaiting approval." : "This account has been restricted.");
+              setError(userData.status === UserStatus.PENDING ? t('login.stillAwaiting') : t('login.restricted'));
+            } else {
+              await handleInvitedMember(userData);
             }
           } else {
-             setError("Profile not found. Please contact support.");
+             setError(t('login.profileNotFound'));
              await auth.signOut();
           }
         } else {
           const userCredential = await createUserWithEmailAndPassword(auth, email, password);
-          const usersSnapshot = await getDocs(collection(db, 'users'));
-          const isFirstUser = usersSnapshot.empty;
+          const isFirstUser = await users.isEmpty();
           
           const newUser: User = {
             id: userCredential.user.uid,
             name,
             email,
-            role: isFirstUser ? UserRole.SUPER_ADMIN : (invitedRole || UserRole.TEAM_MEMBER),
-            status: isFirstUser ? UserStatus.APPROVED : UserStatus.PENDING,
+            ...newAccountAccess(isFirstUser),
             createdAt: new Date().toISOString(),
-            hasSeenTour: false
+            hasSeenTour: false,
+            preferredLanguage: language,
+            schemaVersion: USER_SCHEMA_VERSION
           };
           
-          await setDoc(doc(db, 'users', newUser.id), newUser);
+          await users.register(newUser, isFirstUser);
           if (isFirstUser) {
-            setSuccess("Welcome SuperAdmin! Your account is activated.");
+            setSuccess(t('login.welcomeSuperAdmin'));
           } else { 
-            setSuccess("Profile created. Awaiting Admin approval."); 
+            setSuccess(t('login.awaitingApproval'));
             setMode('login'); 
           }
         }
@@ -186,37 +217,52 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
         setError(err.message || "An authentication error occurred.");
       } finally { setLoading(false); }
     } else {
-      setLoading(false);
-      setError("Cloud configuration required for email auth.");
+      try {
+        if (mode === 'login') {
+          onLocalLogin?.(await signInLocal(users, email, password));
+        } else {
+          const newUser = await registerLocalAccount(users, { name, email, secret: password });
+          if (newUser.status === UserStatus.APPROVED) {
+            onLocalLogin?.(newUser);
+          } else {
+            setSuccess(t('login.localPending'));
+            setMode('login');
+          }
+        }
+      } catch (err: any) {
+        setError(err.message || "An authentication error occurred.");
+      } finally { setLoading(false); }
     }
   };
 
+  const isLocal = !isFirebaseConfigured || forceLocal;
+
   const handleForgotPassword = async () => {
-    if (!email) { setError("Please enter your email."); setLoading(false); return; }
+    if (!email) { setError(t('login.enterEmail')); setLoading(false); return; }
     try {
       if (auth) {
         await sendPasswordResetEmail(auth, email);
-        setSuccess("A password reset link has been dispatched.");
+        setSuccess(t('login.resetSent'));
         setError(null);
       }
     } catch (err: any) { 
-      setError(err.message || "Failed to send reset email."); 
+      setError(err.message || t('login.resetFailed')); 
     } finally { setLoading(false); }
   };
 
   const handleConfirmReset = async () => {
-    if (password !== confirmPass) { setError("Passwords do not match."); setLoading(false); return; }
-    if (password.length < 6) { setError("Password must be at least 6 characters."); setLoading(false); return; }
+    if (password !== confirmPass) { setError(t('login.passwordMismatch')); setLoading(false); return; }
+    if (password.length < 6) { setError(t('login.passwordTooShort', { min: 6 })); setLoading(false); return; }
     
     try {
       if (auth && oobCode) {
         await confirmPasswordReset(auth, oobCode, password);
-        setSuccess("Password updated! Please sign in.");
+        setSuccess(t('login.passwordUpdated'));
         setError(null);
         setMode('login');
       }
     } catch (err: any) { 
-      setError(err.message || "Failed to update password."); 
+      setError(err.message || t('login.updateFailed')); 
     } finally { setLoading(false); }
   };
 
@@ -233,11 +279,11 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
             <i className={`fas ${mode === 'forgotPassword' || mode === 'resetConfirm' ? 'fa-key' : 'fa-cross'}`}></i>
           </div>
           <h1 className="text-3xl font-bold text-gray-900 tracking-tight">
-            {mode === 'resetConfirm' ? 'Set New Password' : (mode === 'forgotPassword' ? 'Reset Password' : 'HarvestHub')}
+            {mode === 'resetConfirm' ? t('login.setNewPassword') : (mode === 'forgotPassword' ? t('login.resetPassword') : 'HarvestHub')}
           </h1>
           <p className="text-xs font-bold text-gray-500 uppercase tracking-widest mt-2 flex items-center justify-center gap-2">
             <span className={`w-1.5 h-1.5 rounded-full ${isFirebaseConfigured ? 'bg-green-500' : 'bg-gray-300'}`}></span>
-            {isFirebaseConfigured ? 'Secure Cloud Access' : 'Local Mode Only'}
+            {isFirebaseConfigured ? t('login.secureCloud') : t('common.localModeOnly')}
           </p>
         </div>
 
@@ -309,21 +355,21 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
         )}
 
         <div className="space-y-6">
-          {(mode === 'login' || mode === 'signup') && (
+          {(mode === 'login' || mode === 'signup') && !isLocal && (
             <button 
               onClick={handleGoogleLogin}
               disabled={loading}
               className="w-full py-3 bg-white border border-gray-200 text-gray-700 font-bold rounded-xl shadow-sm hover:bg-gray-50 transition-all flex items-center justify-center gap-3 active:scale-95 disabled:opacity-50"
             >
               <img src="https://www.gstatic.com/firebasejs/ui/2.0.0/images/02/20/google_g.svg" className="w-5 h-5" alt="Google" />
-              Sign in with Google
+              {t('login.google')}
             </button>
           )}
 
-          {(mode === 'login' || mode === 'signup') && (
+          {(mode === 'login' || mode === 'signup') && !isLocal && (
             <div className="relative flex items-center justify-center">
               <div className="flex-grow border-t border-gray-100"></div>
-              <span className="flex-shrink mx-4 text-[10px] font-black text-gray-300 uppercase tracking-widest">Or email access</span>
+              <span className="flex-shrink mx-4 text-[10px] font-black text-gray-300 uppercase tracking-widest">{t('login.orEmail')}</span>
               <div className="flex-grow border-t border-gray-100"></div>
             </div>
           )}
@@ -331,14 +377,14 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
           <form onSubmit={handleAction} className="space-y-4">
             {mode === 'signup' && (
               <div className="space-y-1">
-                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Your Full Name</label>
-                <input required type="text" value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Bro. John Smith" className="w-full px-4 py-3 rounded-xl border border-gray-200 outline-none focus:ring-2 focus:ring-blue-500 transition-all" />
+                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">{t('login.fullName')}</label>
+                <input required type="text" value={name} onChange={e => setName(e.target.value)} placeholder={t('login.namePlaceholder')} className="w-full px-4 py-3 rounded-xl border border-gray-200 outline-none focus:ring-2 focus:ring-blue-500 transition-all" />
               </div>
             )}
             
             {(mode === 'login' || mode === 'signup' || mode === 'forgotPassword') && (
               <div className="space-y-1">
-                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Email Address</label>
+                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">{t('login.email')}</label>
                 <input required type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="pastor@church.com" className="w-full px-4 py-3 rounded-xl border border-gray-200 outline-none focus:ring-2 focus:ring-blue-500 transition-all" />
               </div>
             )}
@@ -346,12 +392,12 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
             {mode !== 'forgotPassword' && (
               <div className="space-y-4">
                 <div className="space-y-1">
-                  <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Password</label>
-                  <input required type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="••••••••" className="w-full px-4 py-3 rounded-xl border border-gray-200 outline-none focus:ring-2 focus:ring-blue-500 transition-all" />
+                  <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">{isLocal ? t('login.passwordOrPin') : t('login.password')}</label>
+                  <input required type="password" minLength={isLocal && mode === 'signup' ? MIN_SECRET_LENGTH : undefined} value={password} onChange={e => setPassword(e.target.value)} placeholder="••••••••" className="w-full px-4 py-3 rounded-xl border border-gray-200 outline-none focus:ring-2 focus:ring-blue-500 transition-all" />
                 </div>
                 {mode === 'resetConfirm' && (
                   <div className="space-y-1">
-                    <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Confirm Password</label>
+                    <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">{t('login.confirmPassword')}</label>
                     <input required type="password" value={confirmPass} onChange={e => setConfirmPass(e.target.value)} placeholder="••••••••" className="w-full px-4 py-3 rounded-xl border border-gray-200 outline-none focus:ring-2 focus:ring-blue-500 transition-all" />
                   </div>
                 )}
@@ -360,7 +406,7 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
             
             <button type="submit" disabled={loading} className="w-full py-4 bg-blue-600 text-white font-bold rounded-xl shadow-xl hover:bg-blue-700 disabled:opacity-50 transition-all flex items-center justify-center gap-3 active:scale-95">
               {loading ? <i className="fas fa-spinner fa-spin"></i> : (
-                mode === 'login' ? 'Sign In' : (mode === 'signup' ? 'Register Account' : 'Confirm Action')
+                mode === 'login' ? t('login.signIn') : (mode === 'signup' ? t('login.register') : t('login.confirm'))
               )}
             </button>
           </form>
@@ -369,24 +415,37 @@ const Login: React.FC<LoginProps> = ({ onLocalLogin, onGoToCloud }) => {
         <div className="text-center pt-4 flex flex-col gap-4">
           {mode === 'login' ? (
             <div className="space-y-4">
-              <button onClick={() => setMode('signup')} className="text-sm text-blue-600 font-bold hover:underline">New laborer? Create Account</button>
-              <div className="pt-2">
-                <button onClick={() => setMode('forgotPassword')} className="text-[10px] text-gray-400 font-bold hover:text-blue-600 uppercase tracking-tighter">
-                  Forgot Password?
-                </button>
-              </div>
+              <button onClick={() => setMode('signup')} className="text-sm text-blue-600 font-bold hover:underline">{t('login.createAccount')}</button>
+              {/* Local accounts have no email to send a reset link to. */}
+              {!isLocal && (
+                <div className="pt-2">
+                  <button onClick={() => setMode('forgotPassword')} className="text-[10px] text-gray-400 font-bold hover:text-blue-600 uppercase tracking-tighter">
+                    {t('login.forgotPassword')}
+                  </button>
+                </div>
+              )}
             </div>
           ) : (
             <button onClick={() => { setMode('login'); setError(null); setSuccess(null); }} className="text-sm text-blue-600 font-bold hover:underline flex items-center justify-center gap-2">
               <i className="fas fa-arrow-left text-[10px]"></i>
-              Back to Login
+              {t('login.backToLogin')}
             </button>
           )}
 
-          <div className="pt-4 border-t border-gray-50">
+          <div className="pt-4 border-t border-gray-50 flex items-center justify-center gap-6">
             <button onClick={onGoToCloud} className="text-[10px] text-gray-400 font-bold hover:text-gray-600 flex items-center justify-center gap-2 uppercase tracking-widest">
-              <i className="fas fa-cog"></i> Advanced Settings
+              <i className="fas fa-cog"></i> {t('login.advancedSettings')}
             </button>
+            <label className="text-[10px] text-gray-400 font-bold flex items-center gap-2 uppercase tracking-widest">
+              <i className="fas fa-language"></i>
+              <select
+                value={language}
+                onChange={e => setUILanguage(e.target.value)}
+                className="bg-transparent outline-none font-bold uppercase tracking-widest hover:text-gray-600 cursor-pointer"
+              >
+                {UI_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.nativeName}</option>)}
+              </select>
+            </label>
           </div>
         </div>
       </div>
@@ -1,15 +1,31 @@
 
-import React, { useState, useRef } from 'react';
-import { User, Prospect, HungerLevel } from '../types';
-import { analyzePreachingNotes } from '../services/geminiService';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { User, Prospect, HungerLevel, AIReview, PhotoRef, AudioRef } from '../types';
+import { analyzePreachingNotes } from '../services/aiService';
+import { PhotoStore } from '../services/photoStore';
+import { AudioStore } from '../services/audioStore';
+import { findDuplicates } from '../services/duplicates';
+import { DuplicateCandidate } from '../services/dataRepository';
+import { PHONE_COUNTRIES, getDefaultCountry, setDefaultCountry, parsePhone } from '../services/phone';
+import { LANGUAGES, DEFAULT_LANGUAGE, useTranslation } from '../services/i18n';
+import { isAIBlocked } from '../services/redaction';
+import VoiceNoteRecorder from './VoiceNoteRecorder';
 
 interface NewOutreachProps {
-  onSave: (prospect: Prospect) => void;
+  onSave: (prospect: Prospect) => Promise<void> | void;
   currentUser: User;
+  photoStore: PhotoStore;
+  audioStore: AudioStore;
+  prospects: Prospect[];
+  // Looks beyond the loaded pages for records with the same name or phone.
+  findMatches: (candidates: DuplicateCandidate[]) => Promise<Prospect[]>;
+  onOpenProspect: (id: string) => void;
 }
 
-const NewOutreach: React.FC<NewOutreachProps> = ({ onSave, currentUser }) => {
+const NewOutreach: React.FC<NewOutreachProps> = ({ onSave, currentUser, photoStore, audioStore, prospects, findMatches, onOpenProspect }) => {
+  const { t } = useTranslation();
   const [loading, setLoading] = useState(false);
+  const [prospectId] = useState(() => crypto.randomUUID());
   const [formData, setFormData] = useState({
     name: '',
     phone: '',
@@ -17,14 +33,45 @@ const NewOutreach: React.FC<NewOutreachProps> = ({ onSave, currentUser }) => {
     manualAddress: '',
     notes: '',
     signifiedForBaptism: false,
+    sensitiveNotes: false,
+    preferredLanguage: currentUser.preferredLanguage || DEFAULT_LANGUAGE,
   });
+  const [phoneCountry, setPhoneCountry] = useState(getDefaultCountry);
+  const [phoneError, setPhoneError] = useState<string | null>(null);
   const [coords, setCoords] = useState<{ lat: number, lng: number } | null>(null);
-  const [photo, setPhoto] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<PhotoRef[]>([]);
+  const [uploadingPhotos, setUploadingPhotos] = useState(0);
+  const [voiceNotes, setVoiceNotes] = useState<AudioRef[]>([]);
+  const [voiceBusy, setVoiceBusy] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Warn while typing; the preacher decides whether it is really the same person.
+  const worthChecking = formData.name.trim().length >= 3 || formData.phone.replace(/\D/g, '').length >= 7;
+  const [storedMatches, setStoredMatches] = useState<Prospect[]>([]);
+  useEffect(() => {
+    if (!worthChecking) {
+      setStoredMatches([]);
+      return;
+    }
+    let cancelled = false;
+    // Wait for a pause in typing before asking the backend.
+    const timer = setTimeout(() => {
+      findMatches([{ name: formData.name, phone: formData.phone }])
+        .then(matches => { if (!cancelled) setStoredMatches(matches); })
+        .catch(e => console.error("Duplicate lookup failed", e));
+    }, 400);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [formData.name, formData.phone, worthChecking]);
+
+  const possibleDuplicates = useMemo(() => {
+    if (!worthChecking) return [];
+    const candidates = [...prospects, ...storedMatches.filter(m => !prospects.some(p => p.id === m.id))];
+    return findDuplicates({ name: formData.name, phone: formData.phone, ...(coords ? { coordinates: coords } : {}) }, candidates).slice(0, 3);
+  }, [formData.name, formData.phone, coords, prospects, storedMatches, worthChecking]);
+
   const handleGetLocation = () => {
     if (!navigator.geolocation) {
-      alert("Geolocation is not supported by your browser");
+      alert(t('outreach.noGeolocation'));
       return;
     }
     navigator.geolocation.getCurrentPosition(
@@ -32,51 +79,96 @@ const NewOutreach: React.FC<NewOutreachProps> = ({ onSave, currentUser }) => {
         setCoords({ lat: pos.coords.latitude, lng: pos.coords.longitude });
       },
       (err) => {
-        alert("Error getting location: " + err.message);
+        alert(t('outreach.locationError', { message: err.message }));
       }
     );
   };
 
-  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setPhoto(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    for (const file of files) {
+      setUploadingPhotos(n => n + 1);
+      try {
+        const stored = await photoStore.put(file, `prospects/${prospectId}`);
+        setPhotos(prev => [...prev, stored]);
+      } catch (err) {
+        console.error(err);
+        alert(t('common.photoFailed'));
+      } finally {
+        setUploadingPhotos(n => n - 1);
+      }
     }
   };
 
+  const handleRemovePhoto = (target: PhotoRef) => {
+    setPhotos(prev => prev.filter(p => p.id !== target.id));
+    photoStore.remove(target).catch(err => console.error("Failed to delete photo", err));
+  };
+
+  // Transcripts are appended so the preacher can correct them before the AI review runs on save.
+  const handleTranscript = (text: string) => {
+    setFormData(prev => ({ ...prev, notes: prev.notes.trim() ? `${prev.notes.trimEnd()}\n\n${text}` : text }));
+  };
+
+  const handleCountryChange = (code: string) => {
+    setPhoneCountry(code);
+    setDefaultCountry(code);
+    setPhoneError(null);
+  };
+
+  const validatePhone = () => {
+    const result = parsePhone(formData.phone, phoneCountry);
+    setPhoneError(result.error || null);
+    return result;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const parsedPhone = validatePhone();
+    if (parsedPhone.error) return;
     setLoading(true);
 
-    try {
-      const aiResult = await analyzePreachingNotes(formData.notes);
+    // Offline (or AI failure): save now and let the outbox run the review once we're back online.
+    // Notes kept from the AI get no review at all.
+    const aiBlocked = isAIBlocked(formData.sensitiveNotes);
+    let aiResult: AIReview | undefined;
+    if (navigator.onLine && !aiBlocked) {
+      try {
+        aiResult = await analyzePreachingNotes(formData.notes, { prospectName: formData.name, sensitive: formData.sensitiveNotes });
+      } catch (err) {
+        console.error(err);
+      }
+    }
 
+    try {
       // Create object without 'undefined' keys to satisfy Firestore
       const newProspect: Prospect = {
-        id: crypto.randomUUID(),
+        id: prospectId,
         name: formData.name,
-        phone: formData.phone,
+        phone: formData.phone.trim(),
+        phoneE164: parsedPhone.e164,
         preachingNotes: formData.notes,
-        aiReview: aiResult,
         followUps: [],
         timestamp: new Date().toISOString(),
         preacherName: currentUser.name,
+        createdByUserId: currentUser.id,
         status: 'New',
         signifiedForBaptism: formData.signifiedForBaptism,
+        preferredLanguage: formData.preferredLanguage,
         // Conditional spreads ensure keys only exist if they have values
+        ...(formData.sensitiveNotes ? { sensitiveNotes: true } : {}),
+        ...(aiResult ? { aiReview: aiResult } : aiBlocked ? {} : { aiReviewPending: true }),
         ...(formData.addressMode === 'manual' && formData.manualAddress ? { manualAddress: formData.manualAddress } : {}),
         ...(formData.addressMode === 'gps' && coords ? { coordinates: coords } : {}),
-        ...(photo ? { photoUrl: photo } : {})
+        ...(photos.length > 0 ? { photos } : {}),
+        ...(voiceNotes.length > 0 ? { voiceNotes } : {})
       };
 
-      onSave(newProspect);
+      await onSave(newProspect);
     } catch (err) {
       console.error(err);
-      alert("Something went wrong analyzing the notes. Attempting to save without AI review.");
+      alert(t('outreach.saveFailed'));
     } finally {
       setLoading(false);
     }
@@ -85,39 +177,89 @@ const NewOutreach: React.FC<NewOutreachProps> = ({ onSave, currentUser }) => {
   return (
     <div className="space-y-6">
       <header>
-        <h1 className="text-2xl font-bold text-gray-900">New Outreach Entry</h1>
-        <p className="text-gray-500">Log information for a person you just preached to.</p>
+        <h1 className="text-2xl font-bold text-gray-900">{t('outreach.title')}</h1>
+        <p className="text-gray-500">{t('outreach.subtitle')}</p>
       </header>
 
       <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
         <div className="p-6 md:p-8 space-y-8">
           {/* Basic Info Section */}
           <div className="space-y-4">
-            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Prospect Details</h3>
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">{t('outreach.details')}</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Full Name</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('outreach.fullName')}</label>
                 <input 
                   required
                   type="text" 
                   value={formData.name}
                   onChange={e => setFormData({...formData, name: e.target.value})}
                   className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
-                  placeholder="Enter prospect name"
+                  placeholder={t('outreach.namePlaceholder')}
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Phone Number</label>
-                <input 
-                  required
-                  type="tel" 
-                  value={formData.phone}
-                  onChange={e => setFormData({...formData, phone: e.target.value})}
-                  className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all"
-                  placeholder="+1 (555) 000-0000"
-                />
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('outreach.phone')}</label>
+                <div className="flex gap-2">
+                  <select
+                    value={phoneCountry}
+                    onChange={e => handleCountryChange(e.target.value)}
+                    title={t('outreach.countryHint')}
+                    className="px-2 py-2 rounded-xl border border-gray-200 bg-white text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                  >
+                    {PHONE_COUNTRIES.map(c => (
+                      <option key={c.code} value={c.code}>{c.code} +{c.dialCode}</option>
+                    ))}
+                  </select>
+                  <input 
+                    required
+                    type="tel" 
+                    value={formData.phone}
+                    onChange={e => { setFormData({...formData, phone: e.target.value}); setPhoneError(null); }}
+                    onBlur={() => formData.phone.trim() && validatePhone()}
+                    className={`w-full px-4 py-2 rounded-xl border focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all ${phoneError ? 'border-red-300' : 'border-gray-200'}`}
+                    placeholder="+1 (555) 000-0000"
+                  />
+                </div>
+                {phoneError && <p className="text-xs text-red-600 mt-1">{phoneError}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t('common.language')}</label>
+                <select
+                  value={formData.preferredLanguage}
+                  onChange={e => setFormData({...formData, preferredLanguage: e.target.value})}
+                  className="w-full px-4 py-2 rounded-xl border border-gray-200 bg-white focus:ring-2 focus:ring-blue-500 outline-none transition-all"
+                >
+                  {LANGUAGES.map(l => (
+                    <option key={l.code} value={l.code}>{l.nativeName}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">{t('outreach.languageHint')}</p>
               </div>
             </div>
+            {possibleDuplicates.length > 0 && (
+              <div className="p-4 bg-amber-50 border border-amber-100 rounded-xl space-y-2">
+                <p className="text-xs font-bold text-amber-800 flex items-center gap-2">
+                  <i className="fas fa-user-friends"></i>
+                  {t('outreach.possibleDuplicate')}
+                </p>
+                {possibleDuplicates.map(match => (
+                  <div key={match.prospect.id} className="flex items-center justify-between gap-3 text-xs">
+                    <div className="text-amber-900">
+                      <span className="font-semibold">{match.prospect.name}</span>
+                      <span className="text-amber-700"> · {match.prospect.phone} · {match.reasons.join(', ')}</span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => onOpenProspect(match.prospect.id)}
+                      className="shrink-0 text-amber-800 font-bold hover:underline"
+                    >
+                      {t('common.open')}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="pt-2">
               <label className="flex items-center gap-3 cursor-pointer group">
                 <input 
@@ -127,29 +269,43 @@ const NewOutreach: React.FC<NewOutreachProps> = ({ onSave, currentUser }) => {
                   className="w-5 h-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                 />
                 <span className="text-sm font-semibold text-gray-700 group-hover:text-blue-600 transition-colors">
-                  Signified for Baptism interest during encounter
+                  {t('outreach.baptism')}
                 </span>
               </label>
+              <label className="flex items-center gap-3 cursor-pointer group mt-3">
+                <input 
+                  type="checkbox" 
+                  checked={formData.sensitiveNotes}
+                  onChange={e => setFormData({...formData, sensitiveNotes: e.target.checked})}
+                  className="w-5 h-5 rounded border-gray-300 text-amber-600 focus:ring-amber-500"
+                />
+                <span className="text-sm font-semibold text-gray-700 group-hover:text-amber-600 transition-colors">
+                  {t('outreach.sensitive')}
+                </span>
+              </label>
+              {isAIBlocked(formData.sensitiveNotes) && (
+                <p className="text-[10px] text-amber-600 mt-1 ml-8">{t('outreach.sensitiveBlocked')}</p>
+              )}
             </div>
           </div>
 
           {/* Location Section */}
           <div className="space-y-4">
-            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Location Information</h3>
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">{t('outreach.location')}</h3>
             <div className="flex gap-2 p-1 bg-gray-100 rounded-xl w-fit">
               <button 
                 type="button"
                 onClick={() => setFormData({...formData, addressMode: 'gps'})}
                 className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${formData.addressMode === 'gps' ? 'bg-white shadow-sm text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
               >
-                Live GPS
+                {t('outreach.liveGps')}
               </button>
               <button 
                 type="button"
                 onClick={() => setFormData({...formData, addressMode: 'manual'})}
                 className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${formData.addressMode === 'manual' ? 'bg-white shadow-sm text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
               >
-                Manual Address
+                {t('outreach.manualAddress')}
               </button>
             </div>
 
@@ -161,7 +317,7 @@ const NewOutreach: React.FC<NewOutreachProps> = ({ onSave, currentUser }) => {
                   className="px-4 py-2 bg-blue-50 text-blue-600 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-blue-100 transition-colors"
                 >
                   <i className="fas fa-location-arrow"></i>
-                  Fetch GPS Coordinates
+                  {t('outreach.fetchGps')}
                 </button>
                 {coords ? (
                   <p className="text-sm text-green-600 font-medium">
@@ -169,7 +325,7 @@ const NewOutreach: React.FC<NewOutreachProps> = ({ onSave, currentUser }) => {
                     {coords.lat.toFixed(5)}, {coords.lng.toFixed(5)}
                   </p>
                 ) : (
-                  <p className="text-sm text-gray-400 italic">No coordinates captured yet</p>
+                  <p className="text-sm text-gray-400 italic">{t('outreach.noCoordinates')}</p>
                 )}
               </div>
             ) : (
@@ -178,7 +334,7 @@ const NewOutreach: React.FC<NewOutreachProps> = ({ onSave, currentUser }) => {
                 value={formData.manualAddress}
                 onChange={e => setFormData({...formData, manualAddress: e.target.value})}
                 className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all min-h-[100px]"
-                placeholder="Enter physical address, house number, or landmarks..."
+                placeholder={t('outreach.addressPlaceholder')}
               />
             )}
           </div>
@@ -186,31 +342,61 @@ const NewOutreach: React.FC<NewOutreachProps> = ({ onSave, currentUser }) => {
           {/* Multimedia and Notes */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             <div className="space-y-4">
-              <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Preaching Summary</h3>
+              <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">{t('outreach.summary')}</h3>
               <textarea 
                 required
                 value={formData.notes}
                 onChange={e => setFormData({...formData, notes: e.target.value})}
                 className="w-full px-4 py-2 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all min-h-[200px]"
-                placeholder="Briefly describe the conversation, spiritual responses, and specific prayer points..."
+                placeholder={t('outreach.notesPlaceholder')}
               />
               <p className="text-xs text-gray-400 italic">
-                <i className="fas fa-magic mr-1"></i> Gemini AI will analyze these notes to suggest follow-up steps.
+                <i className="fas fa-magic mr-1"></i> {t('outreach.aiHint')}
+                {!navigator.onLine && ` ${t('outreach.offlineHint')}`}
               </p>
+              <VoiceNoteRecorder
+                audioStore={audioStore}
+                folder={`prospects/${prospectId}/voice`}
+                language={formData.preferredLanguage}
+                clips={voiceNotes}
+                onClipsChange={setVoiceNotes}
+                onTranscript={handleTranscript}
+                onBusyChange={setVoiceBusy}
+                sensitive={formData.sensitiveNotes}
+              />
             </div>
 
             <div className="space-y-4">
-              <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Location Photo</h3>
+              <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">{t('outreach.photos')}</h3>
+              {photos.length > 0 && (
+                <div className="grid grid-cols-3 gap-2">
+                  {photos.map(p => (
+                    <div key={p.id} className="relative aspect-square rounded-xl overflow-hidden border border-gray-100 group">
+                      <img src={p.thumbnail} alt="Outreach" className="w-full h-full object-cover" />
+                      <button
+                        type="button"
+                        onClick={() => handleRemovePhoto(p)}
+                        className="absolute top-1 right-1 w-6 h-6 bg-black/50 text-white rounded-full text-[10px] opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        <i className="fas fa-times"></i>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div 
                 onClick={() => fileInputRef.current?.click()}
                 className="group relative w-full aspect-video bg-gray-50 border-2 border-dashed border-gray-200 rounded-2xl flex flex-col items-center justify-center cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-all overflow-hidden"
               >
-                {photo ? (
-                  <img src={photo} alt="Outreach" className="w-full h-full object-cover" />
+                {uploadingPhotos > 0 ? (
+                  <>
+                    <i className="fas fa-spinner fa-spin text-3xl text-blue-400 mb-2"></i>
+                    <p className="text-sm text-blue-500">{t('outreach.compressing')}</p>
+                  </>
                 ) : (
                   <>
                     <i className="fas fa-camera text-3xl text-gray-300 group-hover:text-blue-400 mb-2"></i>
-                    <p className="text-sm text-gray-400 group-hover:text-blue-500">Tap to capture or upload</p>
+                    <p className="text-sm text-gray-400 group-hover:text-blue-500">{photos.length > 0 ? t('outreach.addPhoto') : t('outreach.capturePhoto')}</p>
                   </>
                 )}
                 <input 
@@ -218,6 +404,7 @@ const NewOutreach: React.FC<NewOutreachProps> = ({ onSave, currentUser }) => {
                   ref={fileInputRef} 
                   onChange={handlePhotoChange} 
                   accept="image/*" 
+                  multiple
                   className="hidden" 
                 />
               </div>
@@ -230,22 +417,22 @@ const NewOutreach: React.FC<NewOutreachProps> = ({ onSave, currentUser }) => {
             type="button"
             className="px-6 py-2 text-gray-600 font-semibold hover:bg-gray-100 rounded-xl transition-all"
           >
-            Cancel
+            {t('common.cancel')}
           </button>
           <button 
             type="submit"
-            disabled={loading}
+            disabled={loading || uploadingPhotos > 0 || voiceBusy}
             className="px-10 py-2 bg-blue-600 text-white font-bold rounded-xl shadow-lg shadow-blue-200 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
           >
             {loading ? (
               <>
                 <i className="fas fa-spinner fa-spin"></i>
-                AI Analyzing...
+                {t('outreach.analyzing')}
               </>
             ) : (
               <>
                 <i className="fas fa-save"></i>
-                Save Entry
+                {t('outreach.save')}
               </>
             )}
           </button>
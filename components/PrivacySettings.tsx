@@ -0,0 +1,145 @@
+
+import React, { useState, useEffect } from 'react';
+import { AIPrivacySettings, User, UserRole } from '../types';
+import { Repositories } from '../services/dataRepository';
+import { DEFAULT_AI_PRIVACY, createRedactionSession } from '../services/redaction';
+
+interface PrivacySettingsProps {
+  repos: Repositories;
+  currentUser: User;
+}
+
+const TOGGLES: { key: keyof AIPrivacySettings, label: string, description: string }[] = [
+  { key: 'redactPhones', label: 'Phone numbers', description: 'Any run of seven or more digits, in any format.' },
+  { key: 'redactEmails', label: 'Email addresses', description: 'Anything shaped like name@example.com.' },
+  { key: 'redactAddresses', label: 'Street addresses', description: 'House numbers with a street, and the address recorded for the contact.' },
+  { key: 'redactNames', label: 'Other people\'s names', description: 'Family members, friends and team members. The contact\'s own name is kept so drafts can greet them.' }
+];
+
+const SAMPLE_NOTES = 'Prayed with Maria at 12 Oak Street. Her son David (555-201-7788) asked us to email him at david@example.com. We read John 3:16.';
+
+const PrivacySettings: React.FC<PrivacySettingsProps> = ({ repos, currentUser }) => {
+  const [saved, setSaved] = useState<AIPrivacySettings>(DEFAULT_AI_PRIVACY);
+  const [draft, setDraft] = useState<AIPrivacySettings | null>(null);
+  const [termsText, setTermsText] = useState<string | null>(null);
+  const [sample, setSample] = useState(SAMPLE_NOTES);
+  const [isSaving, setIsSaving] = useState(false);
+  // Organization documents can only be changed by its SuperAdmins.
+  const canEdit = currentUser.role === UserRole.SUPER_ADMIN;
+
+  useEffect(() => {
+    return repos.organizations.subscribe([repos.orgId],
+      (organizations) => setSaved({ ...DEFAULT_AI_PRIVACY, ...organizations[0]?.aiPrivacy }),
+      (error) => console.error("Organization listener failed", error)
+    );
+  }, [repos]);
+
+  const settings = draft ?? saved;
+  const terms = termsText ?? (settings.customTerms || []).join('\n');
+  const parsedTerms = terms.split('\n').map(t => t.trim()).filter(Boolean);
+  const effective: AIPrivacySettings = { ...settings, customTerms: parsedTerms };
+
+  const update = (changes: Partial<AIPrivacySettings>) => setDraft({ ...settings, ...changes });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await repos.organizations.update(repos.orgId, { aiPrivacy: effective });
+      setDraft(null);
+      setTermsText(null);
+    } catch (e) {
+      console.error("Failed to save privacy settings", e);
+      alert("Could not save the privacy settings. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDirty = draft !== null || termsText !== null;
+
+  return (
+    <div className="space-y-8 animate-in slide-in-from-right-4 duration-300">
+      <div className="bg-blue-50 p-5 rounded-3xl border border-blue-100 flex gap-4">
+        <div className="w-10 h-10 bg-white rounded-xl flex items-center justify-center text-blue-600 shrink-0 shadow-sm">
+          <i className="fas fa-user-shield"></i>
+        </div>
+        <div className="text-xs text-blue-800 leading-relaxed">
+          <p className="font-bold mb-1">AI Privacy</p>
+          <p>Before notes go to the AI assistant, the details chosen below are replaced with placeholders such as [PHONE_1], and put back into what the AI writes. These settings apply to everyone in this congregation.</p>
+          {!canEdit && <p className="mt-1 font-medium">Only SuperAdmins can change them.</p>}
+        </div>
+      </div>
+
+      <section className="space-y-3">
+        <h3 className="font-bold text-gray-800">Mask Before Sending</h3>
+        {TOGGLES.map(toggle => (
+          <label key={toggle.key} className={`flex items-start gap-3 p-3 rounded-2xl border border-gray-100 ${canEdit ? 'cursor-pointer hover:border-gray-200' : 'opacity-70'}`}>
+            <input
+              type="checkbox"
+              checked={!!settings[toggle.key]}
+              disabled={!canEdit}
+              onChange={e => update({ [toggle.key]: e.target.checked })}
+              className="mt-0.5 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>
+              <span className="block text-sm font-bold text-gray-800">{toggle.label}</span>
+              <span className="block text-[10px] text-gray-500 mt-0.5">{toggle.description}</span>
+            </span>
+          </label>
+        ))}
+        <div className="space-y-2 pt-2">
+          <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">Always Mask These Words</label>
+          <textarea
+            value={terms}
+            disabled={!canEdit}
+            onChange={e => setTermsText(e.target.value)}
+            placeholder="One per line, e.g. a neighborhood or a family name"
+            className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all min-h-[80px] disabled:opacity-70"
+          />
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="font-bold text-gray-800">Sensitive Notes</h3>
+        <label className={`flex items-start gap-3 p-3 rounded-2xl border border-gray-100 ${canEdit ? 'cursor-pointer hover:border-gray-200' : 'opacity-70'}`}>
+          <input
+            type="checkbox"
+            checked={settings.blockSensitive}
+            disabled={!canEdit}
+            onChange={e => update({ blockSensitive: e.target.checked })}
+            className="mt-0.5 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>
+            <span className="block text-sm font-bold text-gray-800">Turn off AI for notes marked sensitive</span>
+            <span className="block text-[10px] text-gray-500 mt-0.5">Preachers can mark a contact's notes as sensitive, for confessions or health and family matters. Nothing about that contact is then sent to the AI, voice notes included. Voice notes of other contacts are sent as audio and cannot be masked.</span>
+          </span>
+        </label>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="font-bold text-gray-800">Try It</h3>
+        <textarea
+          value={sample}
+          onChange={e => setSample(e.target.value)}
+          className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none transition-all min-h-[80px]"
+        />
+        <pre className="p-4 bg-gray-900 text-gray-100 rounded-xl text-xs leading-relaxed whitespace-pre-wrap font-mono">
+          {createRedactionSession([], effective).redact(sample)}
+        </pre>
+      </section>
+
+      {canEdit && (
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className={`w-full py-4 font-bold rounded-2xl shadow-xl transition-all flex items-center justify-center gap-3 ${!isDirty ? 'bg-green-600 text-white' : 'bg-blue-600 text-white hover:bg-blue-700 active:scale-95'}`}
+        >
+          <i className={`fas ${isSaving ? 'fa-spinner fa-spin' : !isDirty ? 'fa-check-circle' : 'fa-save'}`}></i>
+          {!isDirty ? 'Settings Saved' : 'Save Privacy Settings'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PrivacySettings;
@@ -0,0 +1,210 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { PromptTemplate, PromptTemplateVersion, User } from '../types';
+import { Repositories } from '../services/dataRepository';
+import { AI_FEATURES, AIFeature } from '../services/aiProvider';
+import { getAISettings } from '../services/aiService';
+import {
+  DEFAULT_PROMPTS, PROMPT_VARIABLES, renderTemplate, sampleVariables,
+  unknownVariables, missingRequiredVariables, nextTemplateVersion
+} from '../services/promptTemplates';
+
+interface PromptTemplateEditorProps {
+  repos: Repositories;
+  currentUser: User;
+}
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ repos, currentUser }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [feature, setFeature] = useState<AIFeature>(AI_FEATURES[0].key);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    return repos.prompts.subscribe(setTemplates, (error) => console.error("Prompt template listener failed", error));
+  }, [repos]);
+
+  const stored = templates.find(t => t.feature === feature);
+  const current = stored?.text ?? DEFAULT_PROMPTS[feature];
+  const text = draft ?? current;
+  const isDirty = draft !== null && draft !== current;
+  const unknown = unknownVariables(feature, text);
+  const missing = missingRequiredVariables(feature, text);
+
+  const selectFeature = (next: AIFeature) => {
+    if (isDirty && !confirm("Discard your unsaved changes to this prompt?")) return;
+    setFeature(next);
+    setDraft(null);
+  };
+
+  // Inserts at the cursor so variables land where the admin is typing.
+  const insertVariable = (name: string) => {
+    const placeholder = `{{${name}}}`;
+    const el = textareaRef.current;
+    const start = el ? el.selectionStart : text.length;
+    const end = el ? el.selectionEnd : text.length;
+    setDraft(text.slice(0, start) + placeholder + text.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const saveText = async (next: string) => {
+    setIsSaving(true);
+    try {
+      await repos.prompts.put(nextTemplateVersion(feature, next, stored, currentUser));
+      setDraft(null);
+    } catch (e) {
+      console.error("Failed to save prompt template", e);
+      alert("Could not save this prompt. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!text.trim()) {
+      alert("The prompt cannot be empty.");
+      return;
+    }
+    if (unknown.length > 0) {
+      alert(`These variables do not exist for this feature: ${unknown.map(n => `{{${n}}}`).join(', ')}`);
+      return;
+    }
+    if (missing.length > 0 && !confirm(`This prompt no longer uses ${missing.map(n => `{{${n}}}`).join(', ')}, so the AI will not see that information. Save anyway?`)) return;
+    saveText(text.trim());
+  };
+
+  // Resetting saves the default as a new version, so the edited wording stays in the history.
+  const handleReset = () => {
+    if (!confirm("Replace this prompt with the built-in default? The current wording stays in the version history.")) return;
+    saveText(DEFAULT_PROMPTS[feature]);
+  };
+
+  const handleRestore = (version: PromptTemplateVersion) => {
+    if (isDirty && !confirm("Discard your unsaved changes to this prompt?")) return;
+    setDraft(version.text);
+  };
+
+  const usesDefault = current === DEFAULT_PROMPTS[feature];
+
+  return (
+    <div className="space-y-8 animate-in slide-in-from-right-4 duration-300">
+      <div className="bg-blue-50 p-5 rounded-3xl border border-blue-100 flex gap-4">
+        <div className="w-10 h-10 bg-white rounded-xl flex items-center justify-center text-blue-600 shrink-0 shadow-sm">
+          <i className="fas fa-pen-fancy"></i>
+        </div>
+        <div className="text-xs text-blue-800 leading-relaxed">
+          <p className="font-bold mb-1">AI Prompts</p>
+          <p>Adjust the tone, doctrinal emphasis and length of what Gemini writes for your whole congregation. Variables in double braces are filled in for each request.</p>
+          {getAISettings().provider === 'local' && (
+            <p className="mt-1 font-medium">This device uses the Offline Assistant, which does not use prompts.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {AI_FEATURES.map(f => (
+          <button
+            key={f.key}
+            onClick={() => selectFeature(f.key)}
+            className={`px-3 py-1.5 rounded-xl text-xs font-bold border transition-all ${feature === f.key ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-500 hover:border-gray-300'}`}
+          >
+            {f.label}
+            {templates.some(t => t.feature === f.key && t.text !== DEFAULT_PROMPTS[f.key]) && <i className="fas fa-circle text-[5px] ml-1.5 align-middle text-blue-500"></i>}
+          </button>
+        ))}
+      </div>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold text-gray-800">Prompt</h3>
+          <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider">
+            {stored ? `Version ${stored.version} · ${stored.updatedByName || 'Unknown'} · ${new Date(stored.updatedAt).toLocaleDateString()}` : 'Built-in default'}
+          </p>
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={e => setDraft(e.target.value)}
+          spellCheck={false}
+          className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl text-xs font-mono leading-relaxed focus:ring-2 focus:ring-blue-500 outline-none transition-all min-h-[220px]"
+        />
+        <div className="flex flex-wrap gap-2">
+          {PROMPT_VARIABLES[feature].map(variable => (
+            <button
+              key={variable.name}
+              onClick={() => insertVariable(variable.name)}
+              title={variable.description}
+              className={`px-2 py-1 rounded-lg text-[10px] font-mono border transition-all ${missing.includes(variable.name) ? 'border-amber-300 bg-amber-50 text-amber-700' : 'border-gray-200 bg-white text-gray-600 hover:border-blue-300 hover:text-blue-600'}`}
+            >
+              {`{{${variable.name}}}`}
+            </button>
+          ))}
+        </div>
+        {unknown.length > 0 && (
+          <p className="text-[10px] text-red-600 font-medium">Unknown variables: {unknown.map(n => `{{${n}}}`).join(', ')}</p>
+        )}
+        {missing.length > 0 && (
+          <p className="text-[10px] text-amber-600 font-medium">Not used, so the AI will not see it: {missing.map(n => `{{${n}}}`).join(', ')}</p>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="font-bold text-gray-800">Preview</h3>
+        <p className="text-[10px] text-gray-400">Filled in with sample values.</p>
+        <pre className="p-4 bg-gray-900 text-gray-100 rounded-xl text-xs leading-relaxed whitespace-pre-wrap font-mono max-h-72 overflow-y-auto">
+          {renderTemplate(text, sampleVariables(feature))}
+        </pre>
+      </section>
+
+      <div className="flex flex-wrap justify-end gap-2 pt-4 border-t border-gray-100">
+        {!usesDefault && (
+          <button onClick={handleReset} disabled={isSaving} className="mr-auto px-4 py-2 text-xs font-bold text-gray-400 hover:text-red-500 uppercase tracking-tighter">
+            Reset to default
+          </button>
+        )}
+        {isDirty && (
+          <button onClick={() => setDraft(null)} className="px-4 py-2 text-gray-500 hover:text-gray-700 font-medium">Discard Changes</button>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="px-6 py-2 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 disabled:opacity-60 flex items-center gap-2"
+        >
+          {isSaving && <i className="fas fa-spinner fa-spin"></i>}
+          Save Prompt
+        </button>
+      </div>
+
+      {stored?.history && stored.history.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="font-bold text-gray-800">Version History</h3>
+          <ul className="space-y-2">
+            {stored.history.map(version => (
+              <li key={version.version} className="p-3 rounded-2xl border border-gray-100 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-xs font-bold text-gray-700">
+                    Version {version.version}
+                    {version.text === DEFAULT_PROMPTS[feature] && <span className="ml-2 text-[10px] text-gray-400 font-bold uppercase">Default</span>}
+                  </p>
+                  <p className="text-[10px] text-gray-400 truncate">
+                    {version.updatedByName || 'Unknown'} · {new Date(version.updatedAt).toLocaleString()} · {version.text.slice(0, 80)}
+                  </p>
+                </div>
+                <button onClick={() => handleRestore(version)} className="px-3 py-1.5 text-xs font-bold text-blue-600 hover:bg-blue-50 rounded-lg shrink-0">
+                  Load
+                </button>
+              </li>
+            ))}
+          </ul>
+          <p className="text-[10px] text-gray-400">Loading a version puts it in the editor; save it to make it current again.</p>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
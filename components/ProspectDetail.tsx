@@ -1,64 +1,231 @@
 
-import React, { useState } from 'react';
-import { Prospect, User, HungerLevel, FollowUp, UserRole } from '../types';
-import { generateFollowUpMessage } from '../services/geminiService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Prospect, User, HungerLevel, FollowUp, UserRole, PhotoRef, AudioRef, AuditEntry, AIReviewSnapshot, LessonSeries } from '../types';
+import { generateFollowUpMessage, analyzePreachingNotes, reassessProspect } from '../services/aiService';
+import { PhotoStore } from '../services/photoStore';
+import { AudioStore } from '../services/audioStore';
+import { ConflictError, AuditLog } from '../services/dataRepository';
+import { findDuplicates } from '../services/duplicates';
+import { toE164, contactLinks } from '../services/phone';
+import { lookupPassage } from '../services/scripture';
+import { studyProgress, progressPercent } from '../services/lessons';
+import { LANGUAGES, DEFAULT_LANGUAGE, STATUS_LABELS, HUNGER_LABELS, FIELD_LABELS, Translate, describeConflict, useTranslation } from '../services/i18n';
+import { TranslationKey } from '../services/translations';
+import { isAIBlocked } from '../services/redaction';
+import { AIQuotaError } from '../services/aiUsage';
+import VoiceNoteRecorder from './VoiceNoteRecorder';
+import VoiceNotePlayer from './VoiceNotePlayer';
 
 interface ProspectDetailProps {
   prospect: Prospect;
   onBack: () => void;
-  onUpdate: (updated: Prospect) => void;
+  onPatch: (updates: Partial<Prospect>, expected?: Partial<Prospect>) => Promise<void>;
+  onAddFollowUp: (followUp: FollowUp) => Promise<void>;
+  onMerge: (sourceId: string) => Promise<void>;
+  candidates: Prospect[];
+  onOpenProspect: (id: string) => void;
   currentUser: User;
   allUsers?: User[];
+  photoStore: PhotoStore;
+  audioStore: AudioStore;
+  auditLog: AuditLog;
+  lessonSeries?: LessonSeries[];
 }
 
-const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpdate, currentUser, allUsers = [] }) => {
+const HUNGER_RANK: Record<HungerLevel, number> = {
+  [HungerLevel.LOW]: 1,
+  [HungerLevel.MEDIUM]: 2,
+  [HungerLevel.HIGH]: 3
+};
+
+const describeTrend = (history: AIReviewSnapshot[]): { label: TranslationKey, icon: string } => {
+  const change = HUNGER_RANK[history[history.length - 1].hungerLevel] - HUNGER_RANK[history[0].hungerLevel];
+  if (change > 0) return { label: 'detail.trendGrowing', icon: 'fa-arrow-trend-up' };
+  if (change < 0) return { label: 'detail.trendCooling', icon: 'fa-arrow-trend-down' };
+  return { label: 'detail.trendSteady', icon: 'fa-arrows-left-right' };
+};
+
+const formatAuditValue = (value: any, t: Translate): string => {
+  if (value === null || value === undefined || value === '') return t('audit.none');
+  if (typeof value === 'boolean') return value ? t('audit.yes') : t('audit.no');
+  if (Array.isArray(value)) return t(value.length === 1 ? 'audit.items.one' : 'audit.items.other', { count: value.length });
+  if (typeof value === 'object') {
+    const hunger: TranslationKey | undefined = HUNGER_LABELS[value.hungerLevel as HungerLevel];
+    if (value.hungerLevel) return t('audit.hunger', { level: hunger ? t(hunger) : value.hungerLevel });
+    return value.seriesId ? t('audit.enrolled') : t('audit.updated');
+  }
+  return String(value);
+};
+
+const describeAuditEntry = (entry: AuditEntry, t: Translate) => {
+  if (entry.action === 'created') return t('audit.created');
+  if (entry.action === 'followUp') return t('audit.followUp');
+  if (entry.action === 'merged') {
+    return t(entry.field === 'mergedInto' ? 'audit.mergedInto' : 'audit.mergedFrom', { name: formatAuditValue(entry.after, t) });
+  }
+  const label = FIELD_LABELS[entry.field || ''] ? t(FIELD_LABELS[entry.field || '']) : entry.field;
+  return `${label}: ${formatAuditValue(entry.before, t)} → ${formatAuditValue(entry.after, t)}`;
+};
+
+const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect: storedProspect, onBack, onPatch, onAddFollowUp, onMerge, candidates, onOpenProspect, currentUser, allUsers = [], photoStore, audioStore, auditLog, lessonSeries = [] }) => {
+  const { t } = useTranslation();
   const [isAddingFollowUp, setIsAddingFollowUp] = useState(false);
   const [followUpNotes, setFollowUpNotes] = useState('');
+  const [lessonsTaught, setLessonsTaught] = useState<string[]>([]);
+  const [followUpVoiceNotes, setFollowUpVoiceNotes] = useState<AudioRef[]>([]);
+  const [voiceBusy, setVoiceBusy] = useState(false);
+  const [enrollSeriesId, setEnrollSeriesId] = useState('');
   
   const [isDrafting, setIsDrafting] = useState(false);
   const [draftedMessage, setDraftedMessage] = useState<string | null>(null);
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  // Edits show immediately and are rolled back if the write is rejected.
+  const [optimistic, setOptimistic] = useState<Partial<Prospect>>({});
+  const [conflict, setConflict] = useState<{ updates: Partial<Prospect>, current: Partial<Prospect> } | null>(null);
+  const prospect: Prospect = { ...storedProspect, ...optimistic };
+  // The organization may keep notes marked sensitive away from the AI entirely.
+  const aiBlocked = isAIBlocked(prospect.sensitiveNotes);
+
+  const [history, setHistory] = useState<AuditEntry[]>([]);
+  useEffect(() => {
+    return auditLog.subscribe(storedProspect.id, setHistory, (error) => console.error("History listener failed", error));
+  }, [auditLog, storedProspect.id]);
+
+  const applyChange = async (updates: Partial<Prospect>, force = false) => {
+    const expected = (Object.keys(updates) as (keyof Prospect)[])
+      .reduce((acc, key) => ({ ...acc, [key]: storedProspect[key] }), {} as Partial<Prospect>);
+    setOptimistic(prev => ({ ...prev, ...updates }));
+    setConflict(null);
+    try {
+      await onPatch(updates, force ? undefined : expected);
+    } catch (e) {
+      if (e instanceof ConflictError) {
+        setConflict({ updates, current: e.current });
+      } else {
+        console.error("Failed to save change", e);
+        alert(t('detail.saveFailed'));
+      }
+    } finally {
+      setOptimistic(prev => {
+        const next = { ...prev };
+        (Object.keys(updates) as (keyof Prospect)[]).forEach(key => delete next[key]);
+        return next;
+      });
+    }
+  };
 
-  const handleAddFollowUp = () => {
+  const handleAddFollowUp = async () => {
     const newFollowUp: FollowUp = {
       id: crypto.randomUUID(),
       date: new Date().toISOString(),
       notes: followUpNotes,
       preacherName: currentUser.name,
+      ...(lessonsTaught.length > 0 ? { completedLessonIds: lessonsTaught } : {}),
+      ...(followUpVoiceNotes.length > 0 ? { voiceNotes: followUpVoiceNotes } : {})
     };
 
-    const updatedProspect: Prospect = {
-      ...prospect,
-      followUps: [newFollowUp, ...prospect.followUps],
-      status: 'Followed Up'
-    };
-
-    onUpdate(updatedProspect);
     setFollowUpNotes('');
+    setLessonsTaught([]);
+    setFollowUpVoiceNotes([]);
+    setIsAddingFollowUp(false);
+    try {
+      await onAddFollowUp(newFollowUp);
+    } catch (e) {
+      console.error("Failed to save follow-up", e);
+      setFollowUpNotes(newFollowUp.notes);
+      setLessonsTaught(newFollowUp.completedLessonIds || []);
+      setFollowUpVoiceNotes(newFollowUp.voiceNotes || []);
+      setIsAddingFollowUp(true);
+      alert(t('detail.followUpFailed'));
+    }
+  };
+
+  // Clips recorded for a follow-up that is never saved would otherwise be left in storage.
+  const handleCancelFollowUp = () => {
+    followUpVoiceNotes.forEach(clip => audioStore.remove(clip).catch(err => console.error("Failed to delete voice note", err)));
+    setFollowUpVoiceNotes([]);
     setIsAddingFollowUp(false);
   };
 
+  const handleFollowUpTranscript = (text: string) => {
+    setFollowUpNotes(prev => prev.trim() ? `${prev.trimEnd()}\n\n${text}` : text);
+  };
+
+  // Drafting again while a draft is shown asks for a different one, so it skips the cached answer.
   const handleDraftMessage = async () => {
+    const bypassCache = draftedMessage !== null;
     setIsDrafting(true);
     setDraftedMessage(null);
     try {
-      const msg = await generateFollowUpMessage(prospect, currentUser.name);
+      const msg = await generateFollowUpMessage(prospect, currentUser.name, { bypassCache });
       setDraftedMessage(msg);
     } catch (e) {
-      alert("AI failed to draft message. Please try again.");
+      alert(t(e instanceof AIQuotaError ? 'common.aiQuota' : 'detail.draftFailed'));
     } finally {
       setIsDrafting(false);
     }
   };
 
+  const handleRunReview = async () => {
+    setIsReviewing(true);
+    try {
+      const aiReview = await analyzePreachingNotes(prospect.preachingNotes, { prospectName: prospect.name, sensitive: prospect.sensitiveNotes });
+      await applyChange({ aiReview, aiReviewPending: false });
+    } catch (e) {
+      alert(t(e instanceof AIQuotaError ? 'common.aiQuota' : 'detail.reviewFailed'));
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  // The first review is backdated to the first conversation so the trend starts where the notes do.
+  const handleReassess = async () => {
+    setIsReviewing(true);
+    try {
+      const aiReview = await reassessProspect(prospect);
+      const history = prospect.aiReviewHistory?.length
+        ? prospect.aiReviewHistory
+        : prospect.aiReview ? [{ ...prospect.aiReview, assessedAt: prospect.timestamp, followUpCount: 0 }] : [];
+      const snapshot: AIReviewSnapshot = { ...aiReview, assessedAt: new Date().toISOString(), followUpCount: prospect.followUps.length };
+      await applyChange({ aiReview, aiReviewPending: false, aiReviewHistory: [...history, snapshot] });
+    } catch (e) {
+      alert(t(e instanceof AIQuotaError ? 'common.aiQuota' : 'detail.reassessFailed'));
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  const passage = useMemo(() => prospect.aiReview ? lookupPassage(prospect.aiReview.suggestedVerse) : null, [prospect.aiReview?.suggestedVerse]);
+
+  const progress = studyProgress(prospect, lessonSeries);
+
+  const handleEnroll = () => {
+    if (!enrollSeriesId) return;
+    applyChange({ study: { seriesId: enrollSeriesId, enrolledAt: new Date().toISOString() } });
+    setEnrollSeriesId('');
+  };
+
+  const handleUnenroll = () => {
+    if (!confirm(t('detail.endStudyConfirm'))) return;
+    applyChange({ study: undefined });
+  };
+
+  const toggleLessonTaught = (lessonId: string) => {
+    setLessonsTaught(prev => prev.includes(lessonId) ? prev.filter(id => id !== lessonId) : [...prev, lessonId]);
+  };
+
+  const reviewHistory = prospect.aiReviewHistory || [];
+  const trend = reviewHistory.length > 1 ? describeTrend(reviewHistory) : null;
+
   const handleAssign = (userId: string) => {
     if (!userId) {
-      onUpdate({ ...prospect, assignedToUserId: undefined, assignedToUserName: undefined });
+      applyChange({ assignedToUserId: undefined, assignedToUserName: undefined });
       return;
     }
     const target = allUsers.find(u => u.id === userId);
     if (target) {
-      onUpdate({ 
-        ...prospect, 
+      applyChange({ 
         assignedToUserId: target.id, 
         assignedToUserName: target.name 
       });
@@ -71,20 +238,52 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
       'Followed Up': 'Member',
       'Member': 'New'
     };
-    onUpdate({ ...prospect, status: nextStatusMap[prospect.status] });
+    applyChange({ status: nextStatusMap[prospect.status] });
   };
 
   const handleToggleBaptism = () => {
-    onUpdate({ ...prospect, signifiedForBaptism: !prospect.signifiedForBaptism });
+    applyChange({ signifiedForBaptism: !prospect.signifiedForBaptism });
+  };
+
+  const handleToggleSensitive = () => {
+    applyChange({ sensitiveNotes: !prospect.sensitiveNotes });
+  };
+
+  const handleOpenPhoto = async (photo: PhotoRef) => {
+    const url = await photoStore.getUrl(photo);
+    if (url) {
+      window.open(url, '_blank');
+    } else {
+      alert(t('detail.photoDeviceOnly'));
+    }
   };
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
-    alert("Message copied to clipboard!");
+    alert(t('detail.copied'));
   };
 
+  const phoneE164 = prospect.phoneE164 || toE164(prospect.phone);
+  const links = phoneE164 ? contactLinks(phoneE164) : null;
+
   const canAssign = currentUser.role === UserRole.ADMIN || currentUser.role === UserRole.SUPER_ADMIN;
 
+  const duplicates = useMemo(() => findDuplicates(storedProspect, candidates), [storedProspect, candidates]);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+
+  const handleMerge = async (source: Prospect) => {
+    if (!confirm(t('detail.mergeConfirm', { name: source.name, phone: source.phone }))) return;
+    setMergingId(source.id);
+    try {
+      await onMerge(source.id);
+    } catch (e) {
+      console.error("Merge failed", e);
+      alert(t('detail.mergeFailed'));
+    } finally {
+      setMergingId(null);
+    }
+  };
+
   return (
     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
       <nav className="flex items-center justify-between mb-8">
@@ -93,7 +292,7 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
           className="flex items-center gap-2 text-gray-500 hover:text-blue-600 font-medium transition-colors"
         >
           <i className="fas fa-arrow-left"></i>
-          Back to list
+          {t('detail.backToList')}
         </button>
         <div className="flex gap-2">
           {canAssign && (
@@ -104,9 +303,9 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
                 onChange={(e) => handleAssign(e.target.value)}
                 className="text-xs font-bold text-gray-700 outline-none bg-transparent"
               >
-                <option value="">No Assignment</option>
+                <option value="">{t('detail.noAssignment')}</option>
                 {allUsers.filter(u => u.status === 'Approved').map(u => (
-                  <option key={u.id} value={u.id}>Assign: {u.name}</option>
+                  <option key={u.id} value={u.id}>{t('detail.assignOption', { name: u.name })}</option>
                 ))}
               </select>
             </div>
@@ -120,18 +319,43 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
             }`}
           >
             <i className={`fas fa-water ${prospect.signifiedForBaptism ? 'animate-pulse' : ''}`}></i>
-            {prospect.signifiedForBaptism ? 'Baptism Candidate' : 'Mark for Baptism'}
+            {prospect.signifiedForBaptism ? t('detail.baptismCandidate') : t('detail.markForBaptism')}
+          </button>
+          <button 
+            onClick={handleToggleSensitive}
+            title={t('detail.sensitiveHint')}
+            className={`px-4 py-2 border rounded-xl text-sm font-semibold transition-all flex items-center gap-2 ${
+              prospect.sensitiveNotes 
+                ? 'bg-amber-50 border-amber-200 text-amber-700 shadow-inner' 
+                : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <i className="fas fa-user-shield"></i>
+            {prospect.sensitiveNotes ? t('detail.sensitive') : t('detail.markSensitive')}
           </button>
           <button 
             onClick={handleToggleStatus}
             className="px-4 py-2 border border-gray-200 rounded-xl text-sm font-semibold hover:bg-gray-50 transition-all flex items-center gap-2"
           >
             <i className="fas fa-sync-alt"></i>
-            Status: <span className="text-blue-600 font-bold">{prospect.status}</span>
+            {t('detail.status')} <span className="text-blue-600 font-bold">{t(STATUS_LABELS[prospect.status])}</span>
           </button>
         </div>
       </nav>
 
+      {conflict && (
+        <div className="p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-2xl flex flex-col md:flex-row md:items-center justify-between gap-3 animate-in fade-in duration-300">
+          <div className="flex items-center gap-3 text-sm">
+            <i className="fas fa-code-branch text-lg"></i>
+            <p><span className="font-bold">{t('detail.conflictTitle')}</span> {t('detail.conflictBody', { changes: describeConflict(t, conflict.current) })}</p>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button onClick={() => setConflict(null)} className="px-4 py-2 bg-white border border-amber-200 rounded-xl text-xs font-bold hover:bg-amber-100">{t('detail.keepTheirs')}</button>
+            <button onClick={() => applyChange(conflict.updates, true)} className="px-4 py-2 bg-amber-600 text-white rounded-xl text-xs font-bold hover:bg-amber-700">{t('detail.applyMine')}</button>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Left: Info Card */}
         <div className="lg:col-span-2 space-y-8">
@@ -151,7 +375,7 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
                     <h1 className="text-3xl font-bold text-gray-900">{prospect.name}</h1>
                     {prospect.assignedToUserName && (
                       <span className="px-2 py-0.5 bg-blue-50 text-blue-600 rounded text-[10px] font-black uppercase tracking-widest border border-blue-100">
-                        <i className="fas fa-user-check mr-1"></i> Assigned to {prospect.assignedToUserName}
+                        <i className="fas fa-user-check mr-1"></i> {t('detail.assignedTo', { name: prospect.assignedToUserName })}
                       </span>
                     )}
                   </div>
@@ -159,15 +383,41 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
                     <i className="fas fa-phone-alt text-blue-500"></i>
                     {prospect.phone}
                   </p>
+                  {links ? (
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      <a href={links.call} className="px-3 py-1.5 bg-blue-50 text-blue-700 rounded-xl text-xs font-bold flex items-center gap-2 hover:bg-blue-100">
+                        <i className="fas fa-phone"></i> {t('detail.call')}
+                      </a>
+                      <a href={links.sms} className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-xl text-xs font-bold flex items-center gap-2 hover:bg-gray-200">
+                        <i className="fas fa-comment-dots"></i> {t('detail.text')}
+                      </a>
+                      <a href={links.whatsapp} target="_blank" rel="noopener noreferrer" className="px-3 py-1.5 bg-green-50 text-green-700 rounded-xl text-xs font-bold flex items-center gap-2 hover:bg-green-100">
+                        <i className="fab fa-whatsapp"></i> WhatsApp
+                      </a>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-amber-600 mt-2">{t('detail.unrecognizedNumber')}</p>
+                  )}
+                  <label className="flex items-center gap-2 mt-3 text-xs font-bold text-gray-500">
+                    <i className="fas fa-language text-blue-500"></i>
+                    {t('common.language')}
+                    <select
+                      value={prospect.preferredLanguage || DEFAULT_LANGUAGE}
+                      onChange={e => applyChange({ preferredLanguage: e.target.value })}
+                      className="px-2 py-1 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-700 outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.nativeName}</option>)}
+                    </select>
+                  </label>
                   <div className="flex flex-wrap gap-2 mt-4">
                     <span className={`px-3 py-1 rounded-full text-xs font-bold uppercase ${
                       prospect.status === 'Member' ? 'bg-green-100 text-green-600' : 'bg-blue-100 text-blue-600'
                     }`}>
-                      {prospect.status}
+                      {t(STATUS_LABELS[prospect.status])}
                     </span>
                     {prospect.signifiedForBaptism && (
                       <span className="px-3 py-1 rounded-full bg-cyan-100 text-cyan-700 text-xs font-bold uppercase flex items-center gap-1">
-                        <i className="fas fa-tint"></i> Ready for Baptism
+                        <i className="fas fa-tint"></i> {t('detail.readyForBaptism')}
                       </span>
                     )}
                   </div>
@@ -175,11 +425,12 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
                 <div className="flex flex-col gap-2">
                    <button 
                     onClick={handleDraftMessage}
-                    disabled={isDrafting}
+                    disabled={isDrafting || aiBlocked}
+                    title={aiBlocked ? t('detail.aiBlocked') : undefined}
                     className="bg-indigo-600 text-white px-5 py-3 rounded-2xl font-bold text-sm shadow-lg shadow-indigo-100 flex items-center gap-2 hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50"
                    >
                      {isDrafting ? <i className="fas fa-sparkles fa-spin"></i> : <i className="fas fa-sparkles"></i>}
-                     Draft Follow-up
+                     {t('detail.draftFollowUp')}
                    </button>
                 </div>
               </div>
@@ -189,7 +440,7 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="text-indigo-800 font-bold text-sm flex items-center gap-2">
                       <i className="fas fa-magic"></i>
-                      Gemini Outreach Suggestion
+                      {t('detail.suggestion')}
                     </h3>
                     <button 
                       onClick={() => setDraftedMessage(null)}
@@ -201,13 +452,21 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
                   <p className="text-sm text-indigo-700 italic leading-relaxed whitespace-pre-wrap">
                     "{draftedMessage}"
                   </p>
-                  <div className="mt-4 flex justify-end">
+                  <div className="mt-4 flex justify-end gap-2">
+                    <button
+                      onClick={handleDraftMessage}
+                      disabled={isDrafting}
+                      className="text-indigo-600 px-4 py-2 rounded-xl text-xs font-bold hover:bg-white transition-all flex items-center gap-2 disabled:opacity-50"
+                    >
+                      <i className="fas fa-redo"></i>
+                      {t('detail.regenerate')}
+                    </button>
                     <button 
                       onClick={() => copyToClipboard(draftedMessage)}
                       className="bg-white text-indigo-600 px-4 py-2 rounded-xl text-xs font-bold shadow-sm hover:shadow-md transition-all flex items-center gap-2"
                     >
                       <i className="fas fa-copy"></i>
-                      Copy to Clipboard
+                      {t('detail.copy')}
                     </button>
                   </div>
                 </div>
@@ -215,27 +474,42 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8 pt-8 border-t border-gray-100">
                 <section className="space-y-4">
-                  <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Encounter Notes</h3>
+                  <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">{t('detail.encounterNotes')}</h3>
                   <div className="p-4 bg-gray-50 rounded-xl text-gray-700 leading-relaxed text-sm italic">
                     "{prospect.preachingNotes}"
                   </div>
+                  {prospect.voiceNotes && prospect.voiceNotes.length > 0 && (
+                    <div className="space-y-2">
+                      {prospect.voiceNotes.map(clip => (
+                        <VoiceNotePlayer key={clip.id} clip={clip} audioStore={audioStore} />
+                      ))}
+                    </div>
+                  )}
                   <div className="text-xs text-gray-400 flex items-center gap-4">
-                    <span><i className="fas fa-user mr-1"></i> Preached by {prospect.preacherName}</span>
+                    <span><i className="fas fa-user mr-1"></i> {t('detail.preachedBy', { name: prospect.preacherName })}</span>
                     <span><i className="fas fa-calendar mr-1"></i> {new Date(prospect.timestamp).toLocaleDateString()}</span>
                   </div>
                 </section>
 
                 <section className="space-y-4">
-                  <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">Location</h3>
-                  {prospect.photoUrl && (
+                  <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-widest">{t('detail.location')}</h3>
+                  {prospect.photos && prospect.photos.length > 0 ? (
+                    <div className="grid grid-cols-3 gap-2">
+                      {prospect.photos.map(photo => (
+                        <button key={photo.id} onClick={() => handleOpenPhoto(photo)} className="aspect-square rounded-xl overflow-hidden shadow-sm border border-gray-100 hover:ring-2 hover:ring-blue-400 transition-all">
+                          <img src={photo.thumbnail} alt="Location" className="w-full h-full object-cover" />
+                        </button>
+                      ))}
+                    </div>
+                  ) : prospect.photoUrl && (
                     <img src={prospect.photoUrl} alt="Location" className="w-full h-40 object-cover rounded-xl shadow-sm border border-gray-100" />
                   )}
                   <div className="p-4 bg-blue-50 rounded-xl border border-blue-100 flex gap-3 items-start">
                     <i className="fas fa-map-marker-alt text-blue-500 mt-1"></i>
                     <div className="text-sm">
-                      <p className="font-semibold text-blue-900">Address Recorded:</p>
+                      <p className="font-semibold text-blue-900">{t('detail.addressRecorded')}</p>
                       <p className="text-blue-700 mt-1">
-                        {prospect.manualAddress || (prospect.coordinates ? `${prospect.coordinates.lat.toFixed(5)}, ${prospect.coordinates.lng.toFixed(5)}` : 'No location data')}
+                        {prospect.manualAddress || (prospect.coordinates ? `${prospect.coordinates.lat.toFixed(5)}, ${prospect.coordinates.lng.toFixed(5)}` : t('detail.noLocation'))}
                       </p>
                     </div>
                   </div>
@@ -244,37 +518,125 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
             </div>
           </div>
 
+          <div className="bg-white rounded-[2rem] shadow-sm border border-gray-100 p-6 md:p-8">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold text-gray-900">{t('detail.bibleStudy')}</h2>
+              {prospect.study && (
+                <button onClick={handleUnenroll} className="text-xs font-bold text-gray-400 hover:text-red-500">{t('detail.endStudy')}</button>
+              )}
+            </div>
+            {progress ? (
+              <div className="space-y-4">
+                <div>
+                  <div className="flex justify-between items-baseline mb-2">
+                    <p className="font-semibold text-gray-800">{progress.series.title}</p>
+                    <p className="text-xs font-bold text-gray-400">{t('detail.lessonProgress', { completed: progress.completed, total: progress.total })}</p>
+                  </div>
+                  <div className="h-2.5 bg-gray-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 rounded-full transition-all" style={{ width: `${progressPercent(progress)}%` }}></div>
+                  </div>
+                </div>
+                <ol className="space-y-2">
+                  {progress.series.lessons.map((lesson, index) => {
+                    const doneOn = progress.completedOn[lesson.id];
+                    return (
+                      <li key={lesson.id} className="flex items-center gap-3 text-sm">
+                        <div className={`w-6 h-6 rounded-full flex items-center justify-center shrink-0 text-[10px] font-black ${doneOn ? 'bg-indigo-500 text-white' : lesson.id === progress.nextLesson?.id ? 'bg-indigo-50 text-indigo-600 ring-2 ring-indigo-200' : 'bg-gray-100 text-gray-400'}`}>
+                          {doneOn ? <i className="fas fa-check"></i> : index + 1}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className={`truncate ${doneOn ? 'text-gray-500' : 'text-gray-800 font-medium'}`}>{lesson.title}</p>
+                          {lesson.scripture && <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider">{lesson.scripture}</p>}
+                        </div>
+                        {doneOn && <span className="text-[10px] text-gray-400 shrink-0">{new Date(doneOn).toLocaleDateString()}</span>}
+                      </li>
+                    );
+                  })}
+                </ol>
+              </div>
+            ) : prospect.study ? (
+              <p className="text-sm text-gray-400">{t('detail.studyRemoved')}</p>
+            ) : lessonSeries.length > 0 ? (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <select
+                  value={enrollSeriesId}
+                  onChange={e => setEnrollSeriesId(e.target.value)}
+                  className="flex-1 px-4 py-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">{t('detail.chooseSeries')}</option>
+                  {lessonSeries.map(series => (
+                    <option key={series.id} value={series.id}>{t('detail.seriesOption', { title: series.title, count: series.lessons.length })}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleEnroll}
+                  disabled={!enrollSeriesId}
+                  className="px-5 py-2.5 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  {t('detail.enroll')}
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-400">{t('detail.noSeries')}</p>
+            )}
+          </div>
+
           <div className="bg-white rounded-[2rem] shadow-sm border border-gray-100 overflow-hidden">
             <div className="p-6 md:p-8">
               <div className="flex justify-between items-center mb-6">
-                <h2 className="text-xl font-bold text-gray-900">Follow-up History</h2>
+                <h2 className="text-xl font-bold text-gray-900">{t('detail.followUpHistory')}</h2>
                 <button 
                   onClick={() => setIsAddingFollowUp(true)}
                   className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-bold flex items-center gap-2 hover:bg-blue-700 shadow-md transition-all"
                 >
-                  <i className="fas fa-plus"></i> Add Log
+                  <i className="fas fa-plus"></i> {t('detail.addLog')}
                 </button>
               </div>
 
               {isAddingFollowUp && (
                 <div className="mb-8 p-6 bg-gray-50 rounded-2xl border border-gray-200 animate-in slide-in-from-top-2 duration-300">
-                  <h3 className="text-sm font-bold text-gray-700 mb-3">Log New Follow-up Interaction</h3>
+                  <h3 className="text-sm font-bold text-gray-700 mb-3">{t('detail.logFollowUp')}</h3>
                   <textarea 
                     value={followUpNotes}
                     onChange={e => setFollowUpNotes(e.target.value)}
                     className="w-full p-4 rounded-xl border border-gray-200 outline-none focus:ring-2 focus:ring-blue-500 min-h-[120px] mb-4"
-                    placeholder="Describe what happened during this visit/call..."
+                    placeholder={t('detail.followUpPlaceholder')}
                   />
+                  <div className="mb-4">
+                    <VoiceNoteRecorder
+                      audioStore={audioStore}
+                      folder={`prospects/${prospect.id}/voice`}
+                      language={prospect.preferredLanguage || DEFAULT_LANGUAGE}
+                      clips={followUpVoiceNotes}
+                      onClipsChange={setFollowUpVoiceNotes}
+                      onTranscript={handleFollowUpTranscript}
+                      onBusyChange={setVoiceBusy}
+                      sensitive={prospect.sensitiveNotes}
+                    />
+                  </div>
+                  {progress && progress.completed < progress.total && (
+                    <div className="mb-4 space-y-2">
+                      <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{t('detail.lessonsTaught')}</p>
+                      <div className="flex flex-wrap gap-2">
+                        {progress.series.lessons.filter(l => !progress.completedOn[l.id]).map(lesson => (
+                          <label key={lesson.id} className={`px-3 py-1.5 rounded-xl border text-xs font-medium cursor-pointer flex items-center gap-2 transition-all ${lessonsTaught.includes(lesson.id) ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'bg-white border-gray-200 text-gray-600'}`}>
+                            <input type="checkbox" checked={lessonsTaught.includes(lesson.id)} onChange={() => toggleLessonTaught(lesson.id)} className="accent-indigo-600" />
+                            {lesson.title}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   <div className="flex justify-end gap-2">
-                    <button onClick={() => setIsAddingFollowUp(false)} className="px-4 py-2 text-gray-500 hover:text-gray-700 font-medium">Cancel</button>
-                    <button onClick={handleAddFollowUp} className="px-6 py-2 bg-blue-600 text-white rounded-xl font-bold">Save Log</button>
+                    <button onClick={handleCancelFollowUp} disabled={voiceBusy} className="px-4 py-2 text-gray-500 hover:text-gray-700 font-medium disabled:opacity-50">{t('common.cancel')}</button>
+                    <button onClick={handleAddFollowUp} disabled={voiceBusy} className="px-6 py-2 bg-blue-600 text-white rounded-xl font-bold disabled:opacity-50">{t('detail.saveLog')}</button>
                   </div>
                 </div>
               )}
 
               <div className="space-y-6">
                 {prospect.followUps.length > 0 ? (
-                  prospect.followUps.map((fu) => (
+                  [...prospect.followUps].sort((a, b) => b.date.localeCompare(a.date)).map((fu) => (
                     <div key={fu.id} className="relative pl-8 border-l-2 border-gray-100 pb-2">
                       <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-blue-100 border-2 border-blue-500"></div>
                       <div className="flex justify-between items-start mb-2">
@@ -282,12 +644,25 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
                         <p className="text-[10px] bg-gray-100 px-2 py-0.5 rounded font-bold text-gray-500">{fu.preacherName}</p>
                       </div>
                       <p className="text-gray-700 text-sm leading-relaxed">{fu.notes}</p>
+                      {fu.voiceNotes && fu.voiceNotes.length > 0 && (
+                        <div className="mt-2 space-y-2">
+                          {fu.voiceNotes.map(clip => (
+                            <VoiceNotePlayer key={clip.id} clip={clip} audioStore={audioStore} />
+                          ))}
+                        </div>
+                      )}
+                      {progress && fu.completedLessonIds?.some(id => progress.series.lessons.some(l => l.id === id)) && (
+                        <p className="mt-2 text-xs text-indigo-600 font-medium">
+                          <i className="fas fa-book-open mr-1.5"></i>
+                          {progress.series.lessons.filter(l => fu.completedLessonIds!.includes(l.id)).map(l => l.title).join(', ')}
+                        </p>
+                      )}
                     </div>
                   ))
                 ) : (
                   <div className="text-center py-10 text-gray-400">
                     <i className="fas fa-history text-4xl mb-3 opacity-20"></i>
-                    <p>No follow-ups recorded yet.</p>
+                    <p>{t('detail.noFollowUps')}</p>
                   </div>
                 )}
               </div>
@@ -298,16 +673,61 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
         {/* Right: AI Analysis Panel */}
         <div className="space-y-6">
           <section className="bg-gradient-to-br from-blue-600 to-indigo-700 rounded-[2rem] p-8 shadow-xl text-white">
-            <h2 className="text-lg font-bold mb-6 flex items-center gap-2">
-              <i className="fas fa-brain"></i>
-              Gemini AI Review
-            </h2>
-            
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-lg font-bold flex items-center gap-2">
+                <i className="fas fa-brain"></i>
+                {t('detail.aiReview')}
+              </h2>
+              {prospect.aiReview && !aiBlocked && (
+                <button
+                  onClick={handleReassess}
+                  disabled={isReviewing}
+                  title={t('detail.reassessHint')}
+                  className="px-3 py-1.5 bg-white/10 hover:bg-white/20 border border-white/10 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-60 flex items-center gap-2"
+                >
+                  <i className={`fas ${isReviewing ? 'fa-spinner fa-spin' : 'fa-rotate'}`}></i>
+                  {isReviewing ? t('detail.assessing') : t('detail.reassess')}
+                </button>
+              )}
+            </div>
+
+            {prospect.aiReviewPending && (
+              <div className="mb-6 p-4 bg-white/10 rounded-2xl border border-white/10 text-xs flex items-center gap-3">
+                <i className="fas fa-cloud-upload-alt text-blue-200"></i>
+                <p className="opacity-90">{t('detail.reviewQueued')}</p>
+              </div>
+            )}
+
+            {aiBlocked && (
+              <div className="mb-6 p-4 bg-white/10 rounded-2xl border border-white/10 text-xs flex items-center gap-3">
+                <i className="fas fa-user-shield text-blue-200"></i>
+                <p className="opacity-90">{t('detail.aiBlocked')}</p>
+              </div>
+            )}
+
+            {!prospect.aiReview && !prospect.aiReviewPending && !aiBlocked && (
+              <div className="p-5 bg-white/10 rounded-2xl border border-white/10 space-y-4">
+                <div className="flex items-center gap-3 text-xs">
+                  <i className="fas fa-plug-circle-exclamation text-blue-200"></i>
+                  <p className="opacity-90">{t('detail.reviewMissing')}</p>
+                </div>
+                <button
+                  onClick={handleRunReview}
+                  disabled={isReviewing}
+                  className="w-full py-2.5 bg-white text-blue-700 rounded-xl text-xs font-bold hover:bg-blue-50 transition-all disabled:opacity-60 flex items-center justify-center gap-2"
+                >
+                  <i className={`fas ${isReviewing ? 'fa-spinner fa-spin' : 'fa-redo'}`}></i>
+                  {isReviewing ? t('detail.reviewing') : t('detail.runReview')}
+                </button>
+              </div>
+            )}
+
+            {prospect.aiReview && (
             <div className="space-y-6">
               <div className="bg-white/10 p-5 rounded-2xl backdrop-blur-sm border border-white/10">
-                <p className="text-xs font-black text-blue-200 uppercase tracking-widest mb-1">Spiritual Hunger</p>
+                <p className="text-xs font-black text-blue-200 uppercase tracking-widest mb-1">{t('detail.spiritualHunger')}</p>
                 <div className="flex items-center gap-3">
-                  <span className="text-2xl font-bold">{prospect.aiReview?.hungerLevel}</span>
+                  <span className="text-2xl font-bold">{t(HUNGER_LABELS[prospect.aiReview.hungerLevel])}</span>
                   <div className="flex gap-1.5">
                     {[1, 2, 3].map(i => (
                       <div key={i} className={`w-2 h-5 rounded-full ${
@@ -319,43 +739,126 @@ const ProspectDetail: React.FC<ProspectDetailProps> = ({ prospect, onBack, onUpd
                 </div>
               </div>
 
-              <div className="space-y-2">
-                <p className="text-xs font-black text-blue-200 uppercase tracking-widest">Suggested Verse</p>
-                <div className="p-4 bg-white/10 rounded-2xl backdrop-blur-sm border border-white/5 italic text-sm leading-relaxed">
-                  "{prospect.aiReview?.suggestedVerse}"
+              {trend && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs font-black text-blue-200 uppercase tracking-widest">{t('detail.hungerOverTime')}</p>
+                    <span className="text-[10px] font-bold flex items-center gap-1.5 opacity-90">
+                      <i className={`fas ${trend.icon}`}></i>
+                      {t(trend.label)}
+                    </span>
+                  </div>
+                  <div className="flex items-end gap-2 h-16">
+                    {reviewHistory.map((snapshot, i) => (
+                      <div
+                        key={`${snapshot.assessedAt}-${i}`}
+                        className="flex-1 flex flex-col items-center justify-end gap-1 h-full"
+                        title={t(snapshot.followUpCount === 1 ? 'detail.snapshot.one' : 'detail.snapshot.other', { level: t(HUNGER_LABELS[snapshot.hungerLevel]), count: snapshot.followUpCount })}
+                      >
+                        <div className="w-full max-w-[1.5rem] bg-blue-300 rounded-md" style={{ height: `${HUNGER_RANK[snapshot.hungerLevel] * 33}%` }}></div>
+                        <span className="text-[9px] opacity-70">{new Date(snapshot.assessedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+                      </div>
+                    ))}
+                  </div>
                 </div>
+              )}
+
+              <div className="space-y-2">
+                <p className="text-xs font-black text-blue-200 uppercase tracking-widest">{t('detail.suggestedVerse')}</p>
+                {passage ? (
+                  <div className="p-4 bg-white/10 rounded-2xl backdrop-blur-sm border border-white/5 space-y-2">
+                    <p className="text-sm font-bold">{passage.reference} <span className="text-[10px] font-black text-blue-200 ml-1">{passage.translation}</span></p>
+                    <p className="italic text-sm leading-relaxed opacity-90">
+                      {passage.verses.map(v => (
+                        <span key={v.verse}>{passage.verses.length > 1 && <sup className="text-[9px] not-italic text-blue-200 mr-0.5">{v.verse}</sup>}{v.text} </span>
+                      ))}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="p-4 bg-white/10 rounded-2xl backdrop-blur-sm border border-white/5 space-y-2">
+                    <p className="italic text-sm leading-relaxed">"{prospect.aiReview?.suggestedVerse}"</p>
+                    <p className="text-[10px] text-blue-200">{t('detail.verseNotBundled')}</p>
+                  </div>
+                )}
               </div>
 
               <div className="space-y-2">
-                <p className="text-xs font-black text-blue-200 uppercase tracking-widest">Next Strategy</p>
+                <p className="text-xs font-black text-blue-200 uppercase tracking-widest">{t('detail.nextStrategy')}</p>
                 <p className="text-sm font-medium leading-relaxed opacity-90">
                   {prospect.aiReview?.suggestedNextAction}
                 </p>
               </div>
 
               <div className="pt-4 border-t border-white/10">
-                <p className="text-xs font-black text-blue-200 uppercase tracking-widest mb-2">Executive Summary</p>
+                <p className="text-xs font-black text-blue-200 uppercase tracking-widest mb-2">{t('detail.executiveSummary')}</p>
                 <p className="text-xs text-blue-100 opacity-80 leading-relaxed italic">
                   "{prospect.aiReview?.summary}"
                 </p>
               </div>
             </div>
+            )}
+          </section>
+
+          {duplicates.length > 0 && (
+            <section className="bg-amber-50 p-6 rounded-[2rem] border border-amber-100 shadow-sm">
+              <h2 className="text-xs font-black text-amber-700 mb-4 uppercase tracking-widest">{t('detail.possibleDuplicates')}</h2>
+              <ul className="space-y-3">
+                {duplicates.map(match => (
+                  <li key={match.prospect.id} className="text-sm">
+                    <button onClick={() => onOpenProspect(match.prospect.id)} className="font-semibold text-amber-900 hover:underline">
+                      {match.prospect.name}
+                    </button>
+                    <p className="text-[10px] text-amber-700 font-bold uppercase tracking-wider mt-0.5">
+                      {match.reasons.join(' · ')} · {t('detail.byPreacher', { name: match.prospect.preacherName })}
+                    </p>
+                    {canAssign && (
+                      <button
+                        onClick={() => handleMerge(match.prospect)}
+                        disabled={mergingId !== null}
+                        className="mt-2 px-3 py-1.5 bg-white border border-amber-200 rounded-lg text-xs font-bold text-amber-800 hover:bg-amber-100 flex items-center gap-2 disabled:opacity-50"
+                      >
+                        {mergingId === match.prospect.id ? <i className="fas fa-spinner fa-spin"></i> : <i className="fas fa-compress-alt"></i>}
+                        {t('detail.mergeInto')}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm">
+            <h2 className="text-xs font-black text-gray-400 mb-4 uppercase tracking-widest">{t('detail.history')}</h2>
+            {history.length > 0 ? (
+              <ul className="space-y-3 max-h-80 overflow-y-auto pr-1">
+                {history.map(entry => (
+                  <li key={entry.id} className="text-sm border-l-2 border-gray-100 pl-3">
+                    <p className="text-gray-700">{describeAuditEntry(entry, t)}</p>
+                    <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider mt-0.5">
+                      {entry.actorName} · {new Date(entry.timestamp).toLocaleString()}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-400">{t('detail.noChanges')}</p>
+            )}
           </section>
 
           <section className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm">
-            <h2 className="text-xs font-black text-gray-400 mb-4 uppercase tracking-widest">Team Reminders</h2>
+            <h2 className="text-xs font-black text-gray-400 mb-4 uppercase tracking-widest">{t('detail.teamReminders')}</h2>
             <ul className="space-y-4">
               <li className="flex gap-3 items-start text-sm">
                 <div className="w-6 h-6 rounded-lg bg-green-50 flex items-center justify-center shrink-0 mt-0.5 text-green-600">
                   <i className="fas fa-check text-xs"></i>
                 </div>
-                <p className="text-gray-600">Call within 48 hours of initial preaching.</p>
+                <p className="text-gray-600">{t('detail.reminderCall')}</p>
               </li>
               <li className="flex gap-3 items-start text-sm">
                 <div className="w-6 h-6 rounded-lg bg-blue-50 flex items-center justify-center shrink-0 mt-0.5 text-blue-600">
                   <i className="fas fa-info text-xs"></i>
                 </div>
-                <p className="text-gray-600">Bring a Welcome Bible if hunger is "High".</p>
+                <p className="text-gray-600">{t('detail.reminderBible')}</p>
               </li>
             </ul>
           </section>
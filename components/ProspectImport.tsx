@@ -0,0 +1,228 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { Prospect, User } from '../types';
+import { parseCsv } from '../services/csv';
+import { IMPORT_FIELDS, ImportField, ColumnMapping, guessMapping, buildImportRows } from '../services/prospectImport';
+import { DuplicateCandidate } from '../services/dataRepository';
+
+interface ProspectImportProps {
+  existing: Prospect[];
+  // Looks beyond the loaded pages for records with the same name or phone.
+  findMatches: (candidates: DuplicateCandidate[]) => Promise<Prospect[]>;
+  currentUser: User;
+  onImport: (prospects: Prospect[]) => Promise<void>;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+const ProspectImport: React.FC<ProspectImportProps> = ({ existing, findMatches, currentUser, onImport, onClose }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [runAnalysis, setRunAnalysis] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [storedMatches, setStoredMatches] = useState<Prospect[]>([]);
+  const [checkingDirectory, setCheckingDirectory] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      alert("This file has no rows to import. The first line must be column headings.");
+      return;
+    }
+    setFileName(file.name);
+    setHeaders(headerRow);
+    setRows(dataRows);
+    setMapping(guessMapping(headerRow));
+    setStep('map');
+  };
+
+  // The loaded pages are only part of the directory, so look the whole file up before previewing it.
+  useEffect(() => {
+    if (step !== 'preview' || !mapping) return;
+    const cell = (cells: string[], field: ImportField) => mapping[field] >= 0 ? (cells[mapping[field]] || '').trim() : '';
+    let cancelled = false;
+    setCheckingDirectory(true);
+    findMatches(rows.map(cells => ({ name: cell(cells, 'name'), phone: cell(cells, 'phone') })))
+      .then(matches => { if (!cancelled) setStoredMatches(matches); })
+      .catch(e => console.error("Duplicate lookup failed", e))
+      .finally(() => { if (!cancelled) setCheckingDirectory(false); });
+    return () => { cancelled = true; };
+  }, [step, rows, mapping]);
+
+  const directory = useMemo(() => (
+    [...existing, ...storedMatches.filter(m => !existing.some(p => p.id === m.id))]
+  ), [existing, storedMatches]);
+
+  const preview = useMemo(() => (
+    mapping ? buildImportRows(rows, mapping, { preacherName: currentUser.name, createdByUserId: currentUser.id }, directory) : []
+  ), [rows, mapping, currentUser.name, currentUser.id, directory]);
+
+  const toImport = preview.filter(r => r.errors.length === 0 && !(skipDuplicates && r.duplicateOf));
+  const invalidCount = preview.filter(r => r.errors.length > 0).length;
+  const duplicateCount = preview.filter(r => r.errors.length === 0 && r.duplicateOf).length;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await onImport(toImport.map(r => runAnalysis && r.prospect.preachingNotes.trim()
+        ? { ...r.prospect, aiReviewPending: true }
+        : r.prospect));
+      onClose();
+    } catch (e: any) {
+      console.error("Import failed", e);
+      alert(`Import stopped: ${e.message}`);
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-gray-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="w-full max-w-3xl bg-white rounded-[2.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300 flex flex-col max-h-[90vh]">
+        <div className="bg-blue-600 p-6 text-center relative shrink-0">
+          <button onClick={onClose} className="absolute top-4 right-6 text-white/50 hover:text-white transition-colors">
+            <i className="fas fa-times text-xl"></i>
+          </button>
+          <div className="w-12 h-12 bg-white/20 rounded-2xl flex items-center justify-center text-white text-2xl mx-auto mb-2">
+            <i className="fas fa-file-csv"></i>
+          </div>
+          <h2 className="text-xl font-bold text-white">Import Contact Cards</h2>
+          <p className="text-xs text-white/70 mt-1">
+            {step === 'upload' ? 'Step 1 of 3 · Choose a CSV file' : step === 'map' ? 'Step 2 of 3 · Match your columns' : 'Step 3 of 3 · Review and import'}
+          </p>
+        </div>
+
+        <div className="p-8 space-y-6 overflow-y-auto">
+          {step === 'upload' && (
+            <label className="block border-2 border-dashed border-gray-200 rounded-3xl p-12 text-center cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition-all">
+              <i className="fas fa-cloud-upload-alt text-4xl text-blue-500 mb-3"></i>
+              <p className="font-bold text-gray-800">Choose a spreadsheet export (.csv)</p>
+              <p className="text-xs text-gray-500 mt-1">The first row should contain column headings such as Name, Phone, Notes.</p>
+              <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+            </label>
+          )}
+
+          {step === 'map' && mapping && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-500">
+                <span className="font-bold text-gray-800">{fileName}</span> · {rows.length} rows. Pick which column holds each detail.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-2">
+                    <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest ml-1">
+                      {field.label}{field.required && ' *'}
+                    </label>
+                    <select
+                      value={mapping[field.key]}
+                      onChange={e => setMapping({ ...mapping, [field.key as ImportField]: Number(e.target.value) })}
+                      className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                      <option value={-1}>{field.key === 'preacherName' ? `Not in file (use ${currentUser.name})` : 'Not in file'}</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between pt-2">
+                <button onClick={() => setStep('upload')} className="px-4 py-2 text-gray-500 hover:text-gray-700 font-medium">Back</button>
+                <button
+                  onClick={() => setStep('preview')}
+                  disabled={mapping.name < 0}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-xl font-bold disabled:opacity-50"
+                >
+                  Preview
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="p-3 bg-green-50 rounded-2xl">
+                  <p className="text-2xl font-bold text-green-600">{toImport.length}</p>
+                  <p className="text-[10px] font-bold text-green-700 uppercase tracking-widest">Ready</p>
+                </div>
+                <div className="p-3 bg-amber-50 rounded-2xl">
+                  <p className="text-2xl font-bold text-amber-600">{duplicateCount}</p>
+                  <p className="text-[10px] font-bold text-amber-700 uppercase tracking-widest">Possible Duplicates</p>
+                </div>
+                <div className="p-3 bg-red-50 rounded-2xl">
+                  <p className="text-2xl font-bold text-red-600">{invalidCount}</p>
+                  <p className="text-[10px] font-bold text-red-700 uppercase tracking-widest">Will Be Skipped</p>
+                </div>
+              </div>
+
+              <div className="border border-gray-100 rounded-2xl overflow-hidden max-h-72 overflow-y-auto">
+                <table className="w-full text-left text-xs">
+                  <thead className="bg-gray-50 text-gray-500 uppercase font-bold tracking-wider sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2">Line</th>
+                      <th className="px-3 py-2">Name</th>
+                      <th className="px-3 py-2">Phone</th>
+                      <th className="px-3 py-2">Preacher</th>
+                      <th className="px-3 py-2">Check</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.map(row => (
+                      <tr key={row.line} className={row.errors.length ? 'bg-red-50/50' : row.duplicateOf ? 'bg-amber-50/50' : ''}>
+                        <td className="px-3 py-2 text-gray-400">{row.line}</td>
+                        <td className="px-3 py-2 font-semibold text-gray-800">{row.prospect.name || '—'}</td>
+                        <td className="px-3 py-2 text-gray-600">{row.prospect.phone}</td>
+                        <td className="px-3 py-2 text-gray-600">{row.prospect.preacherName}</td>
+                        <td className="px-3 py-2">
+                          {row.errors.length > 0 ? (
+                            <span className="text-red-600 font-medium">{row.errors.join(', ')}</span>
+                          ) : row.duplicateOf ? (
+                            <span className="text-amber-600 font-medium">Matches {row.duplicateOf}</span>
+                          ) : (
+                            <i className="fas fa-check text-green-500"></i>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-3 text-sm text-gray-700">
+                  <input type="checkbox" checked={skipDuplicates} onChange={e => setSkipDuplicates(e.target.checked)} className="w-4 h-4 rounded" />
+                  Skip rows that match someone already in the directory
+                </label>
+                <label className="flex items-center gap-3 text-sm text-gray-700">
+                  <input type="checkbox" checked={runAnalysis} onChange={e => setRunAnalysis(e.target.checked)} className="w-4 h-4 rounded" />
+                  Queue a Gemini review for every imported contact with notes
+                </label>
+              </div>
+
+              <div className="flex justify-between pt-2">
+                <button onClick={() => setStep('map')} disabled={isImporting} className="px-4 py-2 text-gray-500 hover:text-gray-700 font-medium">Back</button>
+                <button
+                  onClick={handleImport}
+                  disabled={isImporting || checkingDirectory || toImport.length === 0}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-xl font-bold flex items-center gap-2 disabled:opacity-50"
+                >
+                  {(isImporting || checkingDirectory) && <i className="fas fa-spinner fa-spin"></i>}
+                  {checkingDirectory ? 'Checking for duplicates...' : `Import ${toImport.length} Contacts`}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProspectImport;
@@ -1,26 +1,113 @@
 
-import React, { useState } from 'react';
-import { Prospect, HungerLevel } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Prospect, HungerLevel, User, LessonSeries } from '../types';
+import ProspectImport from './ProspectImport';
+import { prospectsToCsv, prospectsToVCard } from '../services/prospectExport';
+import { downloadFile } from '../services/download';
+import { studyProgress, progressPercent } from '../services/lessons';
+import { DuplicateCandidate } from '../services/dataRepository';
 
 interface ProspectListProps {
   prospects: Prospect[];
+  lessonSeries?: LessonSeries[];
   onSelectProspect: (id: string) => void;
+  currentUser: User;
+  onImport: (prospects: Prospect[]) => Promise<void>;
+  findMatches: (candidates: DuplicateCandidate[]) => Promise<Prospect[]>;
+  // Every record in scope, for exports that must not stop at the loaded pages.
+  loadAll: () => Promise<Prospect[]>;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-const ProspectList: React.FC<ProspectListProps> = ({ prospects, onSelectProspect }) => {
+// Rows are a fixed height so only the visible slice of a long directory is rendered.
+const ROW_HEIGHT = 73;
+const OVERSCAN = 8;
+
+const ProspectList: React.FC<ProspectListProps> = ({ prospects, lessonSeries = [], onSelectProspect, currentUser, onImport, findMatches, loadAll, hasMore = false, onLoadMore }) => {
+  const [showImport, setShowImport] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterHunger, setFilterHunger] = useState<'ALL' | HungerLevel | 'BAPTISM'>('ALL');
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Compare digits only so "(555) 123" finds "+1 555-123-4567".
+  const searchDigits = searchTerm.replace(/\D/g, '');
 
-  const filtered = prospects.filter(p => {
+  const matchesFilters = (p: Prospect) => {
     const matchesSearch = p.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                          p.phone.includes(searchTerm);
+                          (searchDigits.length > 0 && (p.phoneE164 || p.phone).replace(/\D/g, '').includes(searchDigits));
     if (filterHunger === 'BAPTISM') return matchesSearch && p.signifiedForBaptism;
     const matchesHunger = filterHunger === 'ALL' || p.aiReview?.hungerLevel === filterHunger;
     return matchesSearch && matchesHunger;
-  });
+  };
+
+  const filtered = prospects.filter(matchesFilters);
+  const isFiltering = searchTerm.trim() !== '' || filterHunger !== 'ALL';
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+
+  useEffect(() => {
+    const measure = () => { if (scrollRef.current) setViewportHeight(scrollRef.current.clientHeight); };
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [searchTerm, filterHunger]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(filtered.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = filtered.slice(firstRow, lastRow);
+
+  // Fetch the next page once the user scrolls near the end of what is loaded. Search and filters
+  // only see loaded pages, so a page with no matches is followed by the next one until the view fills.
+  useEffect(() => {
+    if (hasMore && lastRow >= filtered.length - OVERSCAN) onLoadMore?.();
+  }, [hasMore, lastRow, filtered.length, prospects.length]);
+
+  const renderStudyProgress = (p: Prospect) => {
+    const progress = studyProgress(p, lessonSeries);
+    if (!progress) return null;
+    return (
+      <div className="mt-1.5 flex items-center gap-2" title={`${progress.series.title}: ${progress.completed} of ${progress.total} lessons`}>
+        <div className="w-16 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+          <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${progressPercent(progress)}%` }}></div>
+        </div>
+        <span className="text-[10px] font-bold text-gray-400">{progress.completed}/{progress.total}</span>
+      </div>
+    );
+  };
+
+  // Exports the whole filtered directory, not just the pages loaded so far.
+  const handleExport = async (format: 'csv' | 'vcf') => {
+    setIsExporting(true);
+    try {
+      const rows = hasMore ? (await loadAll()).filter(matchesFilters) : filtered;
+      const stamp = new Date().toISOString().slice(0, 10);
+      if (format === 'csv') {
+        downloadFile(prospectsToCsv(rows), `prospects-${stamp}.csv`, 'text/csv;charset=utf-8');
+      } else {
+        downloadFile(prospectsToVCard(rows), `prospects-${stamp}.vcf`, 'text/vcard;charset=utf-8');
+      }
+    } catch (e: any) {
+      console.error("Export failed", e);
+      alert(`Export failed: ${e.message}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   return (
     <div className="space-y-6">
+      {showImport && (
+        <ProspectImport existing={prospects} findMatches={findMatches} currentUser={currentUser} onImport={onImport} onClose={() => setShowImport(false)} />
+      )}
+
       <header className="flex flex-col md:flex-row md:items-end justify-between gap-4">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Prospect Directory</h1>
@@ -49,13 +136,44 @@ const ProspectList: React.FC<ProspectListProps> = ({ prospects, onSelectProspect
             <option value={HungerLevel.MEDIUM}>Medium Hunger</option>
             <option value={HungerLevel.LOW}>Low Hunger</option>
           </select>
+          <button
+            onClick={() => setShowImport(true)}
+            className="px-4 py-2 border border-gray-200 rounded-xl bg-white font-medium text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+          >
+            <i className="fas fa-file-import text-blue-600"></i>
+            Import CSV
+          </button>
+          <div className="flex border border-gray-200 rounded-xl bg-white overflow-hidden text-sm font-medium text-gray-700">
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={filtered.length === 0 || isExporting}
+              title={hasMore ? 'Export everyone matching these filters to CSV' : `Export ${filtered.length} shown to CSV`}
+              className="px-4 py-2 hover:bg-gray-50 flex items-center gap-2 disabled:opacity-50"
+            >
+              <i className="fas fa-file-csv text-green-600"></i>
+              CSV
+            </button>
+            <button
+              onClick={() => handleExport('vcf')}
+              disabled={filtered.length === 0 || isExporting}
+              title={hasMore ? 'Export everyone matching these filters as phone contacts' : `Export ${filtered.length} shown as phone contacts`}
+              className="px-4 py-2 hover:bg-gray-50 border-l border-gray-200 flex items-center gap-2 disabled:opacity-50"
+            >
+              <i className="fas fa-address-card text-blue-600"></i>
+              vCard
+            </button>
+          </div>
         </div>
       </header>
 
       <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
-        <div className="overflow-x-auto">
+        <div
+          ref={scrollRef}
+          onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+          className="overflow-x-auto overflow-y-auto max-h-[70vh]"
+        >
           <table className="w-full text-left">
-            <thead className="bg-gray-50 text-gray-500 uppercase text-xs font-bold tracking-wider">
+            <thead className="bg-gray-50 text-gray-500 uppercase text-xs font-bold tracking-wider sticky top-0 z-10">
               <tr>
                 <th className="px-6 py-4">Person</th>
                 <th className="px-6 py-4">Outreach Info</th>
@@ -65,8 +183,9 @@ const ProspectList: React.FC<ProspectListProps> = ({ prospects, onSelectProspect
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
-              {filtered.map((p) => (
-                <tr key={p.id} className="hover:bg-gray-50 transition-colors group">
+              {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }} aria-hidden="true"></tr>}
+              {visibleRows.map((p) => (
+                <tr key={p.id} style={{ height: ROW_HEIGHT }} className="hover:bg-gray-50 transition-colors group">
                   <td className="px-6 py-4">
                     <div className="flex items-center gap-3">
                       <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center text-blue-700 font-bold relative">
@@ -112,6 +231,7 @@ const ProspectList: React.FC<ProspectListProps> = ({ prospects, onSelectProspect
                     }`}>
                       {p.status}
                     </span>
+                    {renderStudyProgress(p)}
                   </td>
                   <td className="px-6 py-4">
                     <button 
@@ -124,13 +244,29 @@ const ProspectList: React.FC<ProspectListProps> = ({ prospects, onSelectProspect
                   </td>
                 </tr>
               ))}
+              {lastRow < filtered.length && <tr style={{ height: (filtered.length - lastRow) * ROW_HEIGHT }} aria-hidden="true"></tr>}
             </tbody>
           </table>
         </div>
+        {hasMore && (
+          <button
+            onClick={onLoadMore}
+            className="w-full py-3 text-sm font-semibold text-blue-600 hover:bg-blue-50 border-t border-gray-100 flex items-center justify-center gap-2"
+          >
+            <i className="fas fa-chevron-down text-xs"></i>
+            Load older entries
+          </button>
+        )}
+        {isFiltering && hasMore && (
+          <p className="px-4 py-2 text-xs text-amber-700 bg-amber-50 border-t border-amber-100 flex items-center gap-2">
+            <i className="fas fa-info-circle"></i>
+            Results are limited to the {prospects.length} records loaded so far; older entries load as you scroll.
+          </p>
+        )}
         {filtered.length === 0 && (
           <div className="text-center py-20 text-gray-400">
             <i className="fas fa-search text-5xl mb-4 opacity-10"></i>
-            <p className="text-lg">No prospects found matching your criteria.</p>
+            <p className="text-lg">{hasMore ? 'No matches among the records loaded so far.' : 'No prospects found matching your criteria.'}</p>
           </div>
         )}
       </div>
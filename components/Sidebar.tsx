@@ -1,32 +1,62 @@
 
 import React, { useState } from 'react';
-import { User, UserRole } from '../types';
+import { User, UserRole, Organization } from '../types';
 import { isFirebaseConfigured } from '../services/firebase';
+import { approvedOrgIds, organizationName } from '../services/organizations';
 import InviteModal from './InviteModal';
+import { InvitationRepository } from '../services/dataRepository';
+import { useTranslation } from '../services/i18n';
 
 interface SidebarProps {
   activeTab: 'dashboard' | 'new' | 'people' | 'users' | 'profile' | 'cloud';
   setActiveTab: (tab: string) => void;
   onLogout: () => void;
   user: User;
+  pendingSyncCount?: number;
+  organizations: Organization[];
+  activeOrgId: string;
+  onSwitchOrganization: (orgId: string) => void;
+  onCreateOrganization: (name: string) => Promise<void>;
+  invitations: InvitationRepository;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onLogout, user }) => {
+const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onLogout, user, pendingSyncCount = 0, organizations, activeOrgId, onSwitchOrganization, onCreateOrganization, invitations }) => {
+  const { t } = useTranslation();
   const [showInvite, setShowInvite] = useState(false);
+  const [newOrgName, setNewOrgName] = useState<string | null>(null);
+  const [isCreatingOrg, setIsCreatingOrg] = useState(false);
+
+  const memberOf = approvedOrgIds(user);
+  const canCreateOrg = user.role === UserRole.SUPER_ADMIN;
+
+  const handleCreateOrg = async () => {
+    const name = newOrgName?.trim();
+    if (!name) return;
+    setIsCreatingOrg(true);
+    try {
+      await onCreateOrganization(name);
+      setNewOrgName(null);
+    } catch (e: any) {
+      console.error("Create congregation failed", e);
+      alert(t('sidebar.createCongregationFailed', { message: e.message }));
+    } finally {
+      setIsCreatingOrg(false);
+    }
+  };
 
   const tabs = [
-    { id: 'dashboard', icon: 'fa-chart-pie', label: 'Dashboard' },
-    { id: 'new', icon: 'fa-plus-circle', label: 'New Outreach', tourId: 'tour-tab-new' },
-    { id: 'people', icon: 'fa-users', label: 'Prospects', tourId: 'tour-tab-people' },
-    { id: 'users', icon: 'fa-user-shield', label: user.role === UserRole.TEAM_MEMBER ? 'Our Team' : 'Team Directory', tourId: 'tour-tab-users' },
+    { id: 'dashboard', icon: 'fa-chart-pie', label: t('sidebar.dashboard') },
+    { id: 'new', icon: 'fa-plus-circle', label: t('sidebar.newOutreach'), tourId: 'tour-tab-new' },
+    { id: 'people', icon: 'fa-users', label: t('sidebar.prospects'), tourId: 'tour-tab-people' },
+    { id: 'users', icon: 'fa-user-shield', label: user.role === UserRole.TEAM_MEMBER ? t('sidebar.ourTeam') : t('sidebar.teamDirectory'), tourId: 'tour-tab-users' },
   ] as { id: string, icon: string, label: string, tourId?: string }[];
 
   // Add settings/cloud tab for Admins
   if (user.role !== UserRole.TEAM_MEMBER) {
-    tabs.push({ id: 'cloud', icon: 'fa-cog', label: 'Settings', tourId: 'tour-tab-settings' });
+    tabs.push({ id: 'cloud', icon: 'fa-cog', label: t('sidebar.settings'), tourId: 'tour-tab-settings' });
   }
 
-  tabs.push({ id: 'profile', icon: 'fa-user-circle', label: 'My Profile' });
+  tabs.push({ id: 'profile', icon: 'fa-user-circle', label: t('sidebar.profile') });
 
   return (
     <>
@@ -38,14 +68,68 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onLogout, us
             </div>
             <span className="hidden md:block font-bold text-xl text-gray-800 truncate">HarvestHub</span>
           </div>
+          {pendingSyncCount > 0 && (
+            <span
+              className="hidden md:flex items-center gap-1 px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full text-[10px] font-black"
+              title={t(pendingSyncCount === 1 ? 'sidebar.pendingSync.one' : 'sidebar.pendingSync.other', { count: pendingSyncCount })}
+            >
+              <i className="fas fa-cloud-upload-alt"></i>
+              {pendingSyncCount}
+            </span>
+          )}
           <div className="hidden md:block">
             <div 
               className={`w-3 h-3 rounded-full transition-all duration-500 ${isFirebaseConfigured ? 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.6)] animate-pulse' : 'bg-amber-500'}`}
-              title={isFirebaseConfigured ? 'Cloud Connected' : 'Local Mode Only'}
+              title={isFirebaseConfigured ? t('sidebar.cloudConnected') : t('common.localModeOnly')}
             ></div>
           </div>
         </div>
 
+        {(memberOf.length > 1 || canCreateOrg) && (
+          <div className="hidden md:block px-6 space-y-2">
+            <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{t('sidebar.congregation')}</label>
+            <div className="flex items-center gap-2">
+              <select
+                value={activeOrgId}
+                onChange={(e) => onSwitchOrganization(e.target.value)}
+                className="flex-1 min-w-0 px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-sm font-semibold text-gray-700 outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {memberOf.map(orgId => (
+                  <option key={orgId} value={orgId}>{organizationName(organizations, orgId)}</option>
+                ))}
+              </select>
+              {canCreateOrg && newOrgName === null && (
+                <button
+                  onClick={() => setNewOrgName('')}
+                  title={t('sidebar.startCongregation')}
+                  className="w-9 h-9 shrink-0 rounded-xl bg-gray-50 border border-gray-200 text-gray-500 hover:text-blue-600 hover:border-blue-200 transition-all"
+                >
+                  <i className="fas fa-plus text-xs"></i>
+                </button>
+              )}
+            </div>
+            {newOrgName !== null && (
+              <div className="flex items-center gap-2">
+                <input
+                  autoFocus
+                  value={newOrgName}
+                  onChange={(e) => setNewOrgName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleCreateOrg(); if (e.key === 'Escape') setNewOrgName(null); }}
+                  placeholder={t('sidebar.congregationName')}
+                  className="flex-1 min-w-0 px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={handleCreateOrg}
+                  disabled={isCreatingOrg || !newOrgName.trim()}
+                  className="w-9 h-9 shrink-0 rounded-xl bg-blue-600 text-white disabled:opacity-50"
+                >
+                  {isCreatingOrg ? <i className="fas fa-spinner fa-spin text-xs"></i> : <i className="fas fa-check text-xs"></i>}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         <nav className="flex-1 mt-6 px-3 space-y-1">
           {tabs.map((tab) => (
             <button
@@ -70,7 +154,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onLogout, us
               className="w-full flex items-center gap-3 p-3 rounded-xl text-blue-600 bg-blue-50/50 hover:bg-blue-50 transition-all group"
             >
               <i className="fas fa-paper-plane text-lg group-hover:rotate-12 transition-transform shrink-0"></i>
-              <span className="hidden md:block font-bold text-sm">Invite Team</span>
+              <span className="hidden md:block font-bold text-sm">{t('common.inviteTeam')}</span>
             </button>
           </div>
         </nav>
@@ -97,7 +181,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onLogout, us
             className="w-full flex items-center gap-3 p-3 rounded-xl text-red-500 hover:bg-red-50 transition-all"
           >
             <i className="fas fa-sign-out-alt text-lg shrink-0"></i>
-            <span className="hidden md:block font-medium">Log Out</span>
+            <span className="hidden md:block font-medium">{t('sidebar.logOut')}</span>
           </button>
         </div>
       </aside>
@@ -106,6 +190,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onLogout, us
         <InviteModal 
           onClose={() => setShowInvite(false)} 
           currentUser={user} 
+          invitations={invitations}
           onNavigateToSettings={() => {
             setActiveTab('cloud');
             setShowInvite(false);
@@ -0,0 +1,72 @@
+
+import React from 'react';
+import { Prospect } from '../types';
+import { OutboxEntry, OutboxOperation } from '../services/outbox';
+import { describeConflict, useTranslation } from '../services/i18n';
+
+interface SyncIssuesProps {
+  // Outbox entries set aside because the backend refused them or they conflict with a newer change.
+  entries: OutboxEntry[];
+  prospects: Prospect[];
+  onRetry: (seq: number, overwrite?: boolean) => void;
+  onDiscard: (seq: number) => void;
+}
+
+const SyncIssues: React.FC<SyncIssuesProps> = ({ entries, prospects, onRetry, onDiscard }) => {
+  const { t } = useTranslation();
+  if (entries.length === 0) return null;
+
+  const describe = (op: OutboxOperation) => {
+    const nameOf = (id: string) => prospects.find(p => p.id === id)?.name || t('sync.unknownPerson');
+    switch (op.type) {
+      case 'addProspect': return t('sync.addProspect', { name: op.prospect.name });
+      case 'updateProspect': return t('sync.updateProspect', { name: op.prospect.name });
+      case 'patchProspect': return t('sync.patchProspect', { name: nameOf(op.prospectId) });
+      case 'addFollowUp': return t('sync.addFollowUp', { name: nameOf(op.prospectId) });
+      case 'removeProspect': return t('sync.removeProspect', { name: nameOf(op.prospectId) });
+      case 'mergeProspects': return t('sync.mergeProspects', { name: nameOf(op.targetId) });
+      case 'analyzeProspect': return t('sync.analyzeProspect', { name: op.prospectName || nameOf(op.prospectId) });
+    }
+  };
+
+  const handleDiscard = (seq: number) => {
+    if (confirm(t('sync.discardConfirm'))) onDiscard(seq);
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-red-50 border border-red-200 text-red-800 rounded-2xl shadow-sm space-y-3 animate-in fade-in duration-300">
+      <div className="flex items-center gap-3 text-sm">
+        <i className="fas fa-exclamation-triangle text-xl"></i>
+        <div>
+          <p className="font-bold">{t(entries.length === 1 ? 'sync.setAsideTitle.one' : 'sync.setAsideTitle.other', { count: entries.length })}</p>
+          <p className="opacity-80">{t('sync.setAsideBody')}</p>
+        </div>
+      </div>
+      <ul className="space-y-2">
+        {entries.map(entry => (
+          <li key={entry.seq} className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-3 bg-white border border-red-100 rounded-xl">
+            <div className="text-sm min-w-0">
+              <p className="font-bold truncate">{describe(entry.op)}</p>
+              {entry.conflict
+                ? <p className="text-xs opacity-70">{t('sync.conflict', { changes: describeConflict(t, entry.conflict) })}</p>
+                : entry.lastError && <p className="text-xs opacity-70 truncate">{entry.lastError}</p>}
+            </div>
+            {entry.conflict ? (
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => onDiscard(entry.seq!)} className="px-4 py-2 bg-white border border-red-200 rounded-xl text-xs font-bold hover:bg-red-100">{t('detail.keepTheirs')}</button>
+                <button onClick={() => onRetry(entry.seq!, true)} className="px-4 py-2 bg-red-600 text-white rounded-xl text-xs font-bold hover:bg-red-700">{t('detail.applyMine')}</button>
+              </div>
+            ) : (
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => handleDiscard(entry.seq!)} className="px-4 py-2 bg-white border border-red-200 rounded-xl text-xs font-bold hover:bg-red-100">{t('sync.discard')}</button>
+                <button onClick={() => onRetry(entry.seq!)} className="px-4 py-2 bg-red-600 text-white rounded-xl text-xs font-bold hover:bg-red-700">{t('sync.retry')}</button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SyncIssues;
@@ -1,30 +1,41 @@
 
 import React, { useState, useRef } from 'react';
-import { User } from '../types';
+import { User, PhotoRef } from '../types';
+import { PhotoStore } from '../services/photoStore';
+import { LANGUAGES, DEFAULT_LANGUAGE, isUILanguage } from '../services/i18n';
 
 interface UserProfileProps {
   user: User;
   onUpdate: (updates: Partial<User>) => Promise<void>;
+  photoStore: PhotoStore;
 }
 
-const UserProfile: React.FC<UserProfileProps> = ({ user, onUpdate }) => {
+const UserProfile: React.FC<UserProfileProps> = ({ user, onUpdate, photoStore }) => {
   const [loading, setLoading] = useState(false);
+  const [uploadingPhoto, setUploadingPhoto] = useState(false);
   const [success, setSuccess] = useState(false);
   const [formData, setFormData] = useState({
     name: user.name,
     phone: user.phone || '',
-    photoUrl: user.photoUrl || ''
+    photoUrl: user.photoUrl || '',
+    photo: user.photo as PhotoRef | undefined,
+    preferredLanguage: user.preferredLanguage || DEFAULT_LANGUAGE
   });
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // The avatar shown across the app is the stored thumbnail; the full image lives in the photo store.
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setFormData(prev => ({ ...prev, photoUrl: reader.result as string }));
-      };
-      reader.readAsDataURL(file);
+    if (!file) return;
+    setUploadingPhoto(true);
+    try {
+      const stored = await photoStore.put(file, `users/${user.id}`);
+      setFormData(prev => ({ ...prev, photoUrl: stored.thumbnail, photo: stored }));
+    } catch (err) {
+      console.error(err);
+      alert("Could not process that photo. Please try another image.");
+    } finally {
+      setUploadingPhoto(false);
     }
   };
 
@@ -65,7 +76,9 @@ const UserProfile: React.FC<UserProfileProps> = ({ user, onUpdate }) => {
           <div className="bg-white p-8 rounded-3xl border border-gray-100 shadow-xl text-center space-y-6">
             <div className="relative inline-block group">
               <div className="w-32 h-32 rounded-3xl bg-blue-600 flex items-center justify-center text-white text-5xl font-bold overflow-hidden shadow-2xl border-4 border-white">
-                {formData.photoUrl ? (
+                {uploadingPhoto ? (
+                  <i className="fas fa-spinner fa-spin text-3xl"></i>
+                ) : formData.photoUrl ? (
                   <img src={formData.photoUrl} alt={user.name} className="w-full h-full object-cover" />
                 ) : (
                   user.name.charAt(0)
@@ -141,6 +154,22 @@ const UserProfile: React.FC<UserProfileProps> = ({ user, onUpdate }) => {
                 />
               </div>
 
+              <div className="space-y-2 md:col-span-2">
+                <label className="text-sm font-bold text-gray-700 block ml-1">Preferred Language</label>
+                <select
+                  value={formData.preferredLanguage}
+                  onChange={e => setFormData(prev => ({ ...prev, preferredLanguage: e.target.value }))}
+                  className="w-full px-5 py-3 rounded-2xl border border-gray-200 bg-white outline-none focus:ring-4 focus:ring-blue-50 transition-all"
+                >
+                  {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.nativeName}</option>)}
+                </select>
+                <p className="text-xs text-gray-400 ml-1">
+                  {isUILanguage(formData.preferredLanguage)
+                    ? 'Used for the app on every device you sign in on, and for invitations you draft.'
+                    : 'Used for invitations you draft. The app itself is not yet translated into this language, so it stays in English.'}
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-bold text-gray-400 block ml-1">Email Address (Locked)</label>
                 <input 
@@ -172,7 +201,7 @@ const UserProfile: React.FC<UserProfileProps> = ({ user, onUpdate }) => {
               
               <button 
                 type="submit"
-                disabled={loading}
+                disabled={loading || uploadingPhoto}
                 className="px-8 py-3 bg-blue-600 text-white font-bold rounded-2xl shadow-xl shadow-blue-100 hover:bg-blue-700 disabled:opacity-50 transition-all active:scale-95 flex items-center gap-2"
               >
                 {loading ? (
@@ -0,0 +1,44 @@
+
+import React, { useState, useEffect } from 'react';
+import { AudioRef } from '../types';
+import { AudioStore } from '../services/audioStore';
+import { formatDuration } from '../services/voiceRecorder';
+import { useTranslation } from '../services/i18n';
+
+interface VoiceNotePlayerProps {
+  clip: AudioRef;
+  audioStore: AudioStore;
+}
+
+const VoiceNotePlayer: React.FC<VoiceNotePlayerProps> = ({ clip, audioStore }) => {
+  const { t } = useTranslation();
+  // undefined while resolving, null when this device has no copy of the clip.
+  const [url, setUrl] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    audioStore.getUrl(clip)
+      .then(resolved => { if (!cancelled) setUrl(resolved); })
+      .catch(err => {
+        console.error("Failed to load voice note", err);
+        if (!cancelled) setUrl(null);
+      });
+    return () => { cancelled = true; };
+  }, [clip.id, audioStore]);
+
+  return (
+    <div className="flex items-center gap-3 p-2 bg-gray-50 border border-gray-100 rounded-xl">
+      <i className="fas fa-microphone text-blue-400 text-sm ml-1"></i>
+      {url ? (
+        <audio controls preload="none" src={url} className="h-8 flex-1 min-w-0"></audio>
+      ) : url === null ? (
+        <p className="text-xs text-gray-400 italic flex-1">{t('voice.deviceOnly')}</p>
+      ) : (
+        <i className="fas fa-spinner fa-spin text-gray-300 text-xs flex-1"></i>
+      )}
+      <span className="text-[10px] font-bold text-gray-400 mr-1">{formatDuration(clip.durationMs)}</span>
+    </div>
+  );
+};
+
+export default VoiceNotePlayer;
@@ -0,0 +1,199 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { AudioRef } from '../types';
+import { AudioStore } from '../services/audioStore';
+import { getAIProvider, transcribeVoiceNote } from '../services/aiService';
+import { ActiveRecording, MAX_RECORDING_MS, isRecordingSupported, startRecording, formatDuration } from '../services/voiceRecorder';
+import { TranslationKey } from '../services/translations';
+import { isAIBlocked } from '../services/redaction';
+import { AIQuotaError } from '../services/aiUsage';
+import { useTranslation } from '../services/i18n';
+import VoiceNotePlayer from './VoiceNotePlayer';
+
+interface VoiceNoteRecorderProps {
+  audioStore: AudioStore;
+  // Storage folder for the clips, e.g. "prospects/<id>/voice".
+  folder: string;
+  // What the preacher and the prospect mostly spoke, passed on to transcription.
+  language: string;
+  clips: AudioRef[];
+  onClipsChange: (update: (clips: AudioRef[]) => AudioRef[]) => void;
+  // Receives each transcript so the form can append it to the notes the preacher is editing.
+  onTranscript: (text: string) => void;
+  onBusyChange?: (busy: boolean) => void;
+  // Notes marked sensitive; the organization may keep their recordings away from the AI.
+  sensitive?: boolean;
+}
+
+type Phase = 'idle' | 'recording' | 'processing';
+
+const VoiceNoteRecorder: React.FC<VoiceNoteRecorderProps> = ({ audioStore, folder, language, clips, onClipsChange, onTranscript, onBusyChange, sensitive }) => {
+  const { t } = useTranslation();
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [notice, setNotice] = useState<{ key: TranslationKey, ok: boolean } | null>(null);
+  const activeRef = useRef<ActiveRecording | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  const clearTimer = () => {
+    if (timerRef.current !== null) window.clearInterval(timerRef.current);
+    timerRef.current = null;
+  };
+
+  // Leaving the form mid-recording releases the microphone.
+  useEffect(() => () => {
+    clearTimer();
+    activeRef.current?.cancel();
+  }, []);
+
+  const setBusy = (next: Phase) => {
+    setPhase(next);
+    onBusyChange?.(next !== 'idle');
+  };
+
+  const handleStart = async () => {
+    if (!isRecordingSupported()) {
+      alert(t('voice.unsupported'));
+      return;
+    }
+    setNotice(null);
+    try {
+      // The offline provider can only offer what the browser heard while recording.
+      activeRef.current = await startRecording(language, getAIProvider().id === 'local' && !isAIBlocked(sensitive));
+    } catch (e) {
+      console.error("Could not start recording", e);
+      alert(t('voice.micDenied'));
+      return;
+    }
+    const startedAt = Date.now();
+    setElapsedMs(0);
+    setBusy('recording');
+    timerRef.current = window.setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      setElapsedMs(elapsed);
+      if (elapsed >= MAX_RECORDING_MS) handleStop();
+    }, 500);
+  };
+
+  const handleDiscard = () => {
+    clearTimer();
+    activeRef.current?.cancel();
+    activeRef.current = null;
+    setBusy('idle');
+  };
+
+  const handleStop = async () => {
+    const active = activeRef.current;
+    if (!active) return;
+    activeRef.current = null;
+    clearTimer();
+    setBusy('processing');
+    try {
+      const recording = await active.stop();
+      let stored: AudioRef;
+      try {
+        stored = await audioStore.put(recording.blob, folder, recording.durationMs);
+      } catch (e) {
+        console.error("Failed to store voice note", e);
+        alert(t('voice.saveFailed'));
+        return;
+      }
+      onClipsChange(prev => [...prev, stored]);
+
+      if (isAIBlocked(sensitive)) {
+        setNotice({ key: 'voice.blocked', ok: false });
+        return;
+      }
+      if (!navigator.onLine && getAIProvider().id !== 'local') {
+        setNotice({ key: 'voice.offline', ok: false });
+        return;
+      }
+      try {
+        const text = (await transcribeVoiceNote(recording, language, sensitive)).trim();
+        if (text) onTranscript(text);
+        setNotice(text ? { key: 'voice.transcriptAdded', ok: true } : { key: 'voice.noSpeech', ok: false });
+      } catch (e) {
+        console.error(e);
+        setNotice({ key: e instanceof AIQuotaError ? 'common.aiQuota' : 'voice.unavailable', ok: false });
+      }
+    } catch (e) {
+      console.error("Recording failed", e);
+      alert(t('voice.saveFailed'));
+    } finally {
+      setBusy('idle');
+    }
+  };
+
+  const handleRemove = (clip: AudioRef) => {
+    onClipsChange(prev => prev.filter(c => c.id !== clip.id));
+    audioStore.remove(clip).catch(err => console.error("Failed to delete voice note", err));
+  };
+
+  return (
+    <div className="space-y-3">
+      {phase === 'recording' ? (
+        <div className="flex items-center gap-3 p-3 bg-red-50 border border-red-100 rounded-xl">
+          <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse shrink-0"></span>
+          <span className="text-sm font-semibold text-red-700 flex-1">
+            {t('voice.recording', { elapsed: formatDuration(elapsedMs), max: formatDuration(MAX_RECORDING_MS) })}
+          </span>
+          <button type="button" onClick={handleDiscard} className="px-3 py-1.5 text-xs font-bold text-gray-500 hover:text-gray-700">
+            {t('voice.discard')}
+          </button>
+          <button type="button" onClick={handleStop} className="px-3 py-1.5 bg-red-600 text-white text-xs font-bold rounded-lg hover:bg-red-700 flex items-center gap-2">
+            <i className="fas fa-stop"></i>
+            {t('voice.stop')}
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={handleStart}
+          disabled={phase === 'processing'}
+          className="px-4 py-2 bg-blue-50 text-blue-600 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-blue-100 transition-colors disabled:opacity-60"
+        >
+          {phase === 'processing' ? (
+            <>
+              <i className="fas fa-spinner fa-spin"></i>
+              {t('voice.transcribing')}
+            </>
+          ) : (
+            <>
+              <i className="fas fa-microphone"></i>
+              {t('voice.record')}
+            </>
+          )}
+        </button>
+      )}
+
+      {notice && (
+        <p className={`text-xs ${notice.ok ? 'text-green-600' : 'text-amber-700'}`}>
+          <i className={`fas ${notice.ok ? 'fa-check-circle' : 'fa-exclamation-circle'} mr-1`}></i>
+          {t(notice.key)}
+        </p>
+      )}
+
+      {clips.length > 0 && (
+        <ul className="space-y-2">
+          {clips.map(clip => (
+            <li key={clip.id} className="flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <VoiceNotePlayer clip={clip} audioStore={audioStore} />
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRemove(clip)}
+                title={t('voice.remove')}
+                className="p-2 text-gray-400 hover:text-red-500"
+              >
+                <i className="fas fa-times text-xs"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default VoiceNoteRecorder;
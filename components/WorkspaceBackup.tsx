@@ -0,0 +1,226 @@
+
+import React, { useState, useRef } from 'react';
+import { User, UserRole } from '../types';
+import { Repositories, createLocalRepositories } from '../services/dataRepository';
+import { exportWorkspace, downloadArchive, parseArchive, restoreWorkspace, RestoreMode, RestoreSummary, WorkspaceArchive } from '../services/backup';
+
+interface WorkspaceBackupProps {
+  repos: Repositories;
+  currentUser: User;
+}
+
+const WorkspaceBackup: React.FC<WorkspaceBackupProps> = ({ repos, currentUser }) => {
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [pending, setPending] = useState<{ archive: WorkspaceArchive, rejected: number, fileName: string } | null>(null);
+  const [busy, setBusy] = useState<'export' | 'restore' | 'migrate' | 'adopt' | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const actor = { id: currentUser.id, name: currentUser.name };
+
+  const describeSummary = (summary: RestoreSummary) =>
+    `Restored ${summary.prospects} contacts, ${summary.users} team members, ${summary.invitations} invitations, ${summary.lessonSeries} study series, ${summary.promptTemplates} prompt templates and ${summary.media} photos and voice notes.`
+    + (summary.organizationSettings ? ' Restored the congregation\'s AI privacy and quota settings.' : '')
+    + (summary.removed ? ` Removed ${summary.removed} contacts not in the backup.` : '')
+    + (summary.skipped ? ` Kept ${summary.skipped} existing records.` : '')
+    + (summary.refused ? ` ${summary.refused} changes need a SuperAdmin: admin roles or congregation settings.` : '');
+
+  const handleExport = async () => {
+    setBusy('export');
+    try {
+      downloadArchive(await exportWorkspace(repos));
+    } catch (e: any) {
+      console.error("Backup export failed", e);
+      alert(`Backup failed: ${e.message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setResult(null);
+    try {
+      setPending({ ...parseArchive(await file.text()), fileName: file.name });
+    } catch (err: any) {
+      setPending(null);
+      alert(err.message);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pending) return;
+    if (restoreMode === 'replace' && !confirm("Replace will overwrite matching records and delete contacts that are not in this backup. Continue?")) return;
+    setBusy('restore');
+    try {
+      const summary = await restoreWorkspace(repos, pending.archive, restoreMode, actor);
+      setResult(describeSummary(summary));
+      setPending(null);
+    } catch (e: any) {
+      console.error("Restore failed", e);
+      alert(`Restore failed: ${e.message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Records entered before the cloud was connected still live in this browser's storage.
+  const handleMigrateLocal = async () => {
+    setBusy('migrate');
+    try {
+      const archive = await exportWorkspace(createLocalRepositories());
+      if (archive.prospects.length === 0 && archive.users.length === 0) {
+        alert("No local-mode records were found on this device.");
+        return;
+      }
+      const summary = await restoreWorkspace(repos, archive, 'merge', actor);
+      setResult(describeSummary(summary));
+    } catch (e: any) {
+      console.error("Local migration failed", e);
+      alert(`Migration failed: ${e.message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Cloud records written before congregations existed have no orgId, so no congregation's queries can find them.
+  const handleAdoptUnscoped = async () => {
+    setBusy('adopt');
+    try {
+      const count = await repos.organizations.adoptUnscoped();
+      setResult(count ? `Filed ${count} older records under the main congregation.` : "Every record already belongs to a congregation.");
+    } catch (e: any) {
+      console.error("Organization backfill failed", e);
+      alert(`Could not update older records: ${e.message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8 animate-in slide-in-from-right-4 duration-300">
+      <div className="bg-blue-50 p-5 rounded-3xl border border-blue-100 flex gap-4">
+        <div className="w-10 h-10 bg-white rounded-xl flex items-center justify-center text-blue-600 shrink-0 shadow-sm">
+          <i className="fas fa-archive"></i>
+        </div>
+        <div className="text-xs text-blue-800 leading-relaxed">
+          <p className="font-bold mb-1">Workspace Backup</p>
+          <p>Download every contact, team member, invitation, study series, AI prompt template (with its earlier versions), the congregation's AI privacy and quota settings, and the email settings as a single JSON file. Keep it somewhere safe; a cleared browser cannot be recovered any other way.</p>
+          <p className="mt-2">Photos and voice notes stored only on this device are included. Those already uploaded to the cloud stay in Firebase Storage and are not copied into the file. Each contact's change history is saved for reference but is not restored: restored records start a new history. The AI usage report is not backed up.</p>
+        </div>
+      </div>
+
+      <section className="space-y-3">
+        <h3 className="font-bold text-gray-800">Export</h3>
+        <button
+          onClick={handleExport}
+          disabled={busy !== null}
+          className="w-full py-4 bg-blue-600 text-white font-bold rounded-2xl shadow-xl hover:bg-blue-700 transition-all flex items-center justify-center gap-3 active:scale-95 disabled:opacity-50"
+        >
+          {busy === 'export' ? <i className="fas fa-spinner fa-spin"></i> : <i className="fas fa-download"></i>}
+          Download Backup
+        </button>
+      </section>
+
+      <section className="space-y-4">
+        <h3 className="font-bold text-gray-800">Restore</h3>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileSelected} className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy !== null}
+          className="w-full py-3 bg-gray-100 text-gray-600 font-bold rounded-2xl hover:bg-gray-200 transition-all flex items-center justify-center gap-3 text-xs disabled:opacity-50"
+        >
+          <i className="fas fa-file-upload"></i>
+          Choose Backup File
+        </button>
+
+        {pending && (
+          <div className="p-5 bg-gray-50 rounded-2xl border border-gray-200 space-y-4">
+            <div className="text-xs text-gray-600 space-y-1">
+              <p className="font-bold text-gray-800 truncate">{pending.fileName}</p>
+              <p>
+                {pending.archive.prospects.length} contacts · {pending.archive.users.length} team members · {pending.archive.invitations.length} invitations · {(pending.archive.lessonSeries || []).length} study series · {(pending.archive.promptTemplates || []).length} prompt templates · {(pending.archive.media || []).length} photos and voice notes
+                {pending.archive.exportedAt && ` · exported ${new Date(pending.archive.exportedAt).toLocaleDateString()}`}
+              </p>
+              {pending.rejected > 0 && (
+                <p className="text-amber-600 font-medium">{pending.rejected} damaged records will be skipped.</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              {(['merge', 'replace'] as RestoreMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setRestoreMode(mode)}
+                  className={`p-3 rounded-xl border text-left transition-all ${restoreMode === mode ? 'border-blue-500 bg-white shadow-sm' : 'border-gray-200 hover:border-gray-300'}`}
+                >
+                  <p className="text-xs font-bold text-gray-800 capitalize">{mode}</p>
+                  <p className="text-[10px] text-gray-500 leading-snug mt-1">
+                    {mode === 'merge' ? 'Add missing records, keep everything already here.' : 'Make this workspace match the backup exactly.'}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setPending(null)} className="px-4 py-2 text-gray-500 hover:text-gray-700 font-medium text-sm">Cancel</button>
+              <button
+                onClick={handleRestore}
+                disabled={busy !== null}
+                className={`px-6 py-2 text-white rounded-xl font-bold text-sm flex items-center gap-2 disabled:opacity-50 ${restoreMode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+              >
+                {busy === 'restore' && <i className="fas fa-spinner fa-spin"></i>}
+                Restore
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {repos.mode === 'firestore' && (
+        <section className="space-y-3">
+          <h3 className="font-bold text-gray-800">Bring Over Local Records</h3>
+          <p className="text-xs text-gray-500 leading-relaxed">
+            Contacts entered on this device before the cloud was connected are still stored in the browser. Copy them into this Firebase project; existing cloud records are kept. Local team members cannot be moved as accounts: those already in the cloud keep their place, and the others are invited to sign up.
+          </p>
+          <button
+            onClick={handleMigrateLocal}
+            disabled={busy !== null}
+            className="w-full py-3 bg-gray-100 text-gray-600 font-bold rounded-2xl hover:bg-gray-200 transition-all flex items-center justify-center gap-3 text-xs disabled:opacity-50"
+          >
+            {busy === 'migrate' ? <i className="fas fa-spinner fa-spin"></i> : <i className="fas fa-cloud-upload-alt"></i>}
+            Upload Local-Mode Data
+          </button>
+        </section>
+      )}
+
+      {repos.mode === 'firestore' && currentUser.role === UserRole.SUPER_ADMIN && (
+        <section className="space-y-3">
+          <h3 className="font-bold text-gray-800">Records From Before Congregations</h3>
+          <p className="text-xs text-gray-500 leading-relaxed">
+            Contacts, team members and invitations saved by earlier versions of the app are not filed under any congregation yet. Run this once, as the workspace owner, to move them into the main congregation.
+          </p>
+          <button
+            onClick={handleAdoptUnscoped}
+            disabled={busy !== null}
+            className="w-full py-3 bg-gray-100 text-gray-600 font-bold rounded-2xl hover:bg-gray-200 transition-all flex items-center justify-center gap-3 text-xs disabled:opacity-50"
+          >
+            {busy === 'adopt' ? <i className="fas fa-spinner fa-spin"></i> : <i className="fas fa-church"></i>}
+            File Older Records
+          </button>
+        </section>
+      )}
+
+      {result && (
+        <div className="p-4 bg-green-50 text-green-700 text-xs font-medium rounded-2xl border border-green-100 flex items-start gap-3">
+          <i className="fas fa-check-circle mt-0.5"></i>
+          <p>{result}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceBackup;
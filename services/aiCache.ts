@@ -0,0 +1,60 @@
+
+/**
+ * AI answers kept on this device, keyed by a SHA-256 hash of everything that
+ * shaped the request: feature, provider, model, prompt wording and inputs.
+ * Inputs are hashed after redaction, so cached answers hold placeholders
+ * rather than personal details, and are restored for each request like fresh ones.
+ */
+const AI_CACHE_KEY = 'harvest_hub_ai_cache';
+const MAX_ENTRIES = 200;
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+}
+
+const load = (): Record<string, CacheEntry> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(AI_CACHE_KEY) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+const save = (entries: Record<string, CacheEntry>) => {
+  try {
+    localStorage.setItem(AI_CACHE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    // A full storage quota only costs us the cache.
+    console.error("Failed to save AI cache", e);
+  }
+};
+
+export const cacheKey = async (parts: unknown[]): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const readCache = <T>(key: string): T | undefined => {
+  const entry = load()[key];
+  return entry && entry.expiresAt > Date.now() ? entry.value as T : undefined;
+};
+
+// Expired entries go first, then the oldest, once the cache is full.
+export const writeCache = (key: string, value: unknown, ttlMs: number) => {
+  const now = Date.now();
+  const live = Object.entries(load())
+    .filter(([k, entry]) => k !== key && entry.expiresAt > now)
+    .sort(([, a], [, b]) => b.storedAt - a.storedAt)
+    .slice(0, MAX_ENTRIES - 1);
+  save(Object.fromEntries([[key, { value, storedAt: now, expiresAt: now + ttlMs }], ...live]));
+};
+
+export const cachedAnswerCount = () => {
+  const now = Date.now();
+  return Object.values(load()).filter(entry => entry.expiresAt > now).length;
+};
+
+export const clearAICache = () => localStorage.removeItem(AI_CACHE_KEY);
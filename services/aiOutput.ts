@@ -0,0 +1,100 @@
+
+import { AIReview, HungerLevel } from '../types';
+import { InviteDraft } from './aiProvider';
+import { normalizeReference } from './scripture';
+
+/**
+ * Checks for everything that comes back from an AI provider. Structured
+ * answers are validated field by field and enum values are mapped onto the
+ * app's own, so nothing a model invents reaches stored records.
+ */
+
+// The response came back but does not have the shape we asked for.
+export class AIOutputError extends Error {
+  code = 'ai-output';
+  constructor(message: string, public raw?: unknown) {
+    super(message);
+  }
+}
+
+// No usable answer after retrying; screens show this instead of a made-up result.
+export class AIUnavailableError extends Error {
+  code = 'ai-unavailable';
+  constructor(public cause?: unknown) {
+    super("The AI assistant is unavailable right now. Please try again later.");
+  }
+}
+
+const HUNGER_SYNONYMS: Record<string, HungerLevel> = {
+  'very high': HungerLevel.HIGH,
+  'extremely high': HungerLevel.HIGH,
+  'strong': HungerLevel.HIGH,
+  'moderate': HungerLevel.MEDIUM,
+  'average': HungerLevel.MEDIUM,
+  'mid': HungerLevel.MEDIUM,
+  'some': HungerLevel.MEDIUM,
+  'very low': HungerLevel.LOW,
+  'minimal': HungerLevel.LOW,
+  'none': HungerLevel.LOW,
+  'weak': HungerLevel.LOW
+};
+
+// Accepts case and wording variants such as "high" or "Very High"; anything else is null.
+export const normalizeHungerLevel = (value: unknown): HungerLevel | null => {
+  if (typeof value !== 'string') return null;
+  const level = value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+  return Object.values(HungerLevel).find(h => h.toLowerCase() === level) || HUNGER_SYNONYMS[level] || null;
+};
+
+const requireText = (value: unknown, field: string, raw: unknown): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new AIOutputError(`AI response is missing "${field}".`, raw);
+  return value.trim();
+};
+
+// Suggested verses must name a real book, chapter and verse; they are stored in canonical form ("Jn 3.16" becomes "John 3:16").
+const requireReference = (value: unknown, raw: unknown): string => {
+  const reference = normalizeReference(requireText(value, 'suggestedVerse', raw));
+  if (!reference) throw new AIOutputError(`"${String(value)}" is not a scripture reference.`, raw);
+  return reference;
+};
+
+const parseJson = (text: string | undefined): Record<string, unknown> => {
+  try {
+    const value = JSON.parse(text || '');
+    if (value && typeof value === 'object' && !Array.isArray(value)) return value;
+  } catch (e) {
+    // Reported below with the raw text attached.
+  }
+  throw new AIOutputError("AI response is not a JSON object.", text);
+};
+
+export const parseAIReview = (text: string | undefined): AIReview => {
+  const raw = parseJson(text);
+  const hungerLevel = normalizeHungerLevel(raw.hungerLevel);
+  if (!hungerLevel) throw new AIOutputError(`Unrecognized hunger level "${String(raw.hungerLevel)}".`, raw);
+  return {
+    hungerLevel,
+    suggestedVerse: requireReference(raw.suggestedVerse, raw),
+    suggestedNextAction: requireText(raw.suggestedNextAction, 'suggestedNextAction', raw),
+    summary: requireText(raw.summary, 'summary', raw)
+  };
+};
+
+export const parseInviteDraft = (text: string | undefined): InviteDraft => {
+  const raw = parseJson(text);
+  return {
+    subject: requireText(raw.subject, 'subject', raw),
+    body: requireText(raw.body, 'body', raw)
+  };
+};
+
+export const requireAnswer = (text: string | undefined): string => requireText(text, 'text', text);
+
+// Rate limits, server hiccups, dropped connections and malformed answers are worth another try; bad keys and bad requests are not.
+export const isTransientAIError = (e: any) => {
+  if (e instanceof AIOutputError) return true;
+  // fetch reports a dropped connection as a TypeError; other TypeErrors are bugs and would fail again.
+  if (e instanceof TypeError) return /fetch|network/i.test(e.message);
+  const status = typeof e?.status === 'number' ? e.status : Number(e?.code);
+  return status === 408 || status === 429 || (status >= 500 && status < 600);
+};
@@ -0,0 +1,69 @@
+
+import { AIReview, UserRole, Prospect } from '../types';
+import { Passage } from './scripture';
+
+export type AIFeature = 'analyzeNotes' | 'reassess' | 'strategy' | 'followUpMessage' | 'inviteDraft' | 'transcribe';
+
+export type AIProviderId = 'gemini' | 'local';
+
+export interface StrategyStats {
+  total: number;
+  baptism: number;
+  highHunger: number;
+}
+
+export interface InviteDraft {
+  subject: string;
+  body: string;
+}
+
+export interface AudioClip {
+  blob: Blob;
+  mimeType: string;
+  // What the browser's own speech recognition heard while recording, if it ran.
+  liveTranscript?: string;
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  outputTokens?: number;
+}
+
+// Called once per request the provider makes, for the usage ledger.
+export type UsageReporter = (usage: TokenUsage) => void;
+
+/**
+ * Everything the app asks of an AI. Each call names the model to use, which
+ * providers without model choice ignore, and may pass a reporter for the
+ * tokens it used, which providers without token counts ignore.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  analyzeNotes: (notes: string, model: string, onUsage?: UsageReporter) => Promise<AIReview>;
+  // Reviews the first conversation and every follow-up since, weighing the latest visits most.
+  reassess: (prospect: Prospect, model: string, onUsage?: UsageReporter) => Promise<AIReview>;
+  strategy: (stats: StrategyStats, model: string, onUsage?: UsageReporter) => Promise<string>;
+  // `passage` is the bundled text of the suggested verse, when we have it, so drafts quote it exactly.
+  // `language` is a code from services/i18n that the draft is written in.
+  followUpMessage: (prospect: Prospect, preacherName: string, passage: Passage | null, language: string, model: string, onUsage?: UsageReporter) => Promise<string>;
+  inviteDraft: (inviterName: string, role: UserRole, customNotes: string | undefined, language: string, model: string, onUsage?: UsageReporter) => Promise<InviteDraft>;
+  // Turns a voice note into text for the preacher to edit; `language` is what was mostly spoken.
+  transcribe: (clip: AudioClip, language: string, model: string, onUsage?: UsageReporter) => Promise<string>;
+}
+
+// The conversation history in the order it happened, one dated entry per visit.
+export const prospectTimeline = (prospect: Prospect) => [
+  { date: prospect.timestamp, preacherName: prospect.preacherName, notes: prospect.preachingNotes },
+  ...[...prospect.followUps].sort((a, b) => a.date.localeCompare(b.date))
+];
+
+export const AI_FEATURES: { key: AIFeature, label: string, defaultModel: string }[] = [
+  { key: 'analyzeNotes', label: 'Outreach note review', defaultModel: 'gemini-3-flash-preview' },
+  { key: 'reassess', label: 'Follow-up re-assessment', defaultModel: 'gemini-3-flash-preview' },
+  { key: 'strategy', label: 'Weekly harvest strategy', defaultModel: 'gemini-3-pro-preview' },
+  { key: 'followUpMessage', label: 'Follow-up message drafts', defaultModel: 'gemini-3-flash-preview' },
+  { key: 'inviteDraft', label: 'Team invitation emails', defaultModel: 'gemini-3-flash-preview' },
+  { key: 'transcribe', label: 'Voice note transcription', defaultModel: 'gemini-2.5-flash' }
+];
+
+export const GEMINI_MODELS = ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
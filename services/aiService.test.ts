@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AIUsageEntry } from '../types';
+import { getSoulWinningStrategy } from './aiService';
+import { setAIUsageContext } from './aiUsage';
+
+// The offline assistant answers without an API key, and the cache and settings live in localStorage.
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); }
+  };
+};
+
+describe('the AI answer cache', () => {
+  let ledger: AIUsageEntry[];
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    localStorage.setItem('harvest_hub_ai_config', JSON.stringify({ provider: 'local' }));
+    ledger = [];
+    setAIUsageContext({ actor: { id: 'u1', name: 'Preacher' }, record: async (entry) => { ledger.push(entry); } });
+  });
+
+  const stats = { total: 12, baptism: 3, highHunger: 4 };
+
+  it('answers a repeated request from the cache', async () => {
+    const first = await getSoulWinningStrategy(stats);
+    expect(await getSoulWinningStrategy(stats)).toBe(first);
+    expect(ledger.map(e => e.cached)).toEqual([false, true]);
+  });
+
+  it('asks the provider again when the cache is bypassed, and keeps the new answer', async () => {
+    await getSoulWinningStrategy(stats);
+    await getSoulWinningStrategy(stats, { bypassCache: true });
+    await getSoulWinningStrategy(stats);
+    expect(ledger.map(e => e.cached)).toEqual([false, false, true]);
+  });
+});
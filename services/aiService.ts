@@ -0,0 +1,214 @@
+
+import { AIReview, UserRole, Prospect } from '../types';
+import { AIFeature, AIProvider, AIProviderId, AI_FEATURES, StrategyStats, InviteDraft, AudioClip, TokenUsage, UsageReporter, prospectTimeline } from './aiProvider';
+import { createGeminiProvider } from './geminiService';
+import { localAiProvider } from './localAiProvider';
+import { AIUnavailableError, isTransientAIError } from './aiOutput';
+import { lookupPassage } from './scripture';
+import { DEFAULT_LANGUAGE, resolveLanguage } from './i18n';
+import { AIBlockedError, RedactionSession, createRedactionSession, isAIBlocked } from './redaction';
+import { getPromptTemplate } from './promptTemplates';
+import { cacheKey, readCache, writeCache } from './aiCache';
+import { checkQuota, recordUsage } from './aiUsage';
+
+/**
+ * The app's single entry point for AI. Which provider answers, and with which
+ * model per feature, is a per-device setting managed in Settings. Personal
+ * details in notes are masked before every request and restored in the
+ * answer, following the organization's privacy settings. Every request is
+ * recorded in the usage ledger, and repeats of a recent request are answered
+ * from this device's cache.
+ */
+export interface AISettings {
+  provider: AIProviderId;
+  // Overrides the key the app was built with.
+  apiKey?: string;
+  models: Record<AIFeature, string>;
+}
+
+const AI_CONFIG_KEY = 'harvest_hub_ai_config';
+
+const BUILD_API_KEY = process.env.API_KEY || '';
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  models: AI_FEATURES.reduce((acc, feature) => ({ ...acc, [feature.key]: feature.defaultModel }), {} as Record<AIFeature, string>)
+};
+
+export const getAISettings = (): AISettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AI_CONFIG_KEY) || 'null');
+    if (!saved) return DEFAULT_AI_SETTINGS;
+    return {
+      provider: saved.provider === 'local' ? 'local' : 'gemini',
+      ...(typeof saved.apiKey === 'string' && saved.apiKey ? { apiKey: saved.apiKey } : {}),
+      models: { ...DEFAULT_AI_SETTINGS.models, ...saved.models }
+    };
+  } catch (e) {
+    console.error("Failed to load AI settings", e);
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(AI_CONFIG_KEY, JSON.stringify(settings));
+};
+
+export const hasGeminiKey = (settings: AISettings = getAISettings()) => !!(settings.apiKey || BUILD_API_KEY);
+
+let cachedGemini: { apiKey: string, provider: AIProvider } | null = null;
+
+// Without any API key Gemini cannot answer, so the offline provider does.
+export const getAIProvider = (settings: AISettings = getAISettings()): AIProvider => {
+  const apiKey = settings.apiKey || BUILD_API_KEY;
+  if (settings.provider === 'local' || !apiKey) return localAiProvider;
+  if (cachedGemini?.apiKey !== apiKey) cachedGemini = { apiKey, provider: createGeminiProvider(apiKey) };
+  return cachedGemini.provider;
+};
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 800;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long an answer is reused for the same inputs. Transcripts are not cached; every recording is new.
+const CACHE_TTL_MS: Partial<Record<AIFeature, number>> = {
+  analyzeNotes: 7 * 24 * HOUR_MS,
+  reassess: 7 * 24 * HOUR_MS,
+  strategy: 12 * HOUR_MS,
+  followUpMessage: 24 * HOUR_MS,
+  inviteDraft: 24 * HOUR_MS
+};
+
+// For answers the user asked to have again: `bypassCache` skips the cached one and replaces it.
+export interface AIRequestOptions {
+  bypassCache?: boolean;
+}
+
+/**
+ * Transient failures are retried with exponential backoff; whatever is left
+ * surfaces as AIUnavailableError. `cacheInputs` is everything besides the
+ * model and prompt wording that decides the answer, already redacted.
+ */
+const run = async <T>(feature: AIFeature, call: (provider: AIProvider, model: string, onUsage: UsageReporter) => Promise<T>, cacheInputs?: unknown, options: AIRequestOptions = {}): Promise<T> => {
+  const settings = getAISettings();
+  const provider = getAIProvider(settings);
+  const model = settings.models[feature];
+  const ledgerModel = provider.id === 'local' ? 'offline' : model;
+
+  const ttl = CACHE_TTL_MS[feature];
+  const key = ttl && cacheInputs !== undefined
+    ? await cacheKey([feature, provider.id, model, provider.id === 'local' ? null : getPromptTemplate(feature), cacheInputs])
+    : null;
+  const cached = key && !options.bypassCache ? readCache<T>(key) : undefined;
+  if (cached !== undefined) {
+    recordUsage({ feature, provider: provider.id, model: ledgerModel, latencyMs: 0, cached: true, ok: true });
+    return cached;
+  }
+  if (provider.id !== 'local') checkQuota();
+
+  // Retries are billed too, so their tokens add up.
+  let tokens: TokenUsage | undefined;
+  const onUsage: UsageReporter = (usage) => {
+    tokens = {
+      promptTokens: (tokens?.promptTokens || 0) + (usage.promptTokens || 0),
+      outputTokens: (tokens?.outputTokens || 0) + (usage.outputTokens || 0)
+    };
+  };
+  const startedAt = Date.now();
+  const finish = (ok: boolean) => recordUsage({ feature, provider: provider.id, model: ledgerModel, ...tokens, latencyMs: Date.now() - startedAt, cached: false, ok });
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await call(provider, model, onUsage);
+      finish(true);
+      if (key) writeCache(key, result, ttl);
+      return result;
+    } catch (e) {
+      if (attempt >= MAX_ATTEMPTS || !isTransientAIError(e)) {
+        finish(false);
+        console.error(`AI ${feature} failed after ${attempt} attempt${attempt === 1 ? '' : 's'}`, e);
+        throw new AIUnavailableError(e);
+      }
+      await wait(BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250);
+    }
+  }
+};
+
+const restoreReview = (review: AIReview, session: RedactionSession): AIReview => ({
+  ...review,
+  suggestedNextAction: session.restore(review.suggestedNextAction),
+  summary: session.restore(review.summary)
+});
+
+// Known values are masked first so the same placeholders replace them inside the notes.
+const redactProspect = (prospect: Prospect, session: RedactionSession): Prospect => {
+  const phone = session.mask(prospect.phone, 'PHONE');
+  const manualAddress = prospect.manualAddress ? session.mask(prospect.manualAddress, 'ADDRESS') : undefined;
+  const preacherName = session.mask(prospect.preacherName, 'NAME');
+  const followUpPreachers = prospect.followUps.map(fu => session.mask(fu.preacherName, 'NAME'));
+  return {
+    ...prospect,
+    phone,
+    phoneE164: undefined,
+    manualAddress,
+    coordinates: undefined,
+    preacherName,
+    assignedToUserName: undefined,
+    preachingNotes: session.redact(prospect.preachingNotes),
+    followUps: prospect.followUps.map((fu, i) => ({ ...fu, preacherName: followUpPreachers[i], notes: session.redact(fu.notes) }))
+  };
+};
+
+const ensureAllowed = (sensitive?: boolean) => {
+  if (isAIBlocked(sensitive)) throw new AIBlockedError();
+};
+
+// `prospectName` stays readable in the request; `sensitive` notes may be kept from the AI entirely.
+export const analyzePreachingNotes = async (notes: string, options: { prospectName?: string, sensitive?: boolean } = {}): Promise<AIReview> => {
+  ensureAllowed(options.sensitive);
+  const session = createRedactionSession(options.prospectName ? [options.prospectName] : []);
+  const redacted = session.redact(notes);
+  const review = await run('analyzeNotes', (provider, model, onUsage) => provider.analyzeNotes(redacted, model, onUsage), redacted);
+  return restoreReview(review, session);
+};
+
+export const reassessProspect = async (prospect: Prospect): Promise<AIReview> => {
+  ensureAllowed(prospect.sensitiveNotes);
+  const session = createRedactionSession([prospect.name]);
+  const redacted = redactProspect(prospect, session);
+  const review = await run('reassess', (provider, model, onUsage) => provider.reassess(redacted, model, onUsage), [redacted.name, prospectTimeline(redacted)]);
+  return restoreReview(review, session);
+};
+
+export const getSoulWinningStrategy = (stats: StrategyStats, options?: AIRequestOptions): Promise<string> =>
+  run('strategy', (provider, model, onUsage) => provider.strategy(stats, model, onUsage), stats, options);
+
+// Drafts follow the prospect's preferred language. The bundled verses are KJV, so they are only quoted in English drafts.
+export const generateFollowUpMessage = async (prospect: Prospect, preacherName: string, options?: AIRequestOptions): Promise<string> => {
+  ensureAllowed(prospect.sensitiveNotes);
+  const language = resolveLanguage(prospect.preferredLanguage).code;
+  const passage = language === DEFAULT_LANGUAGE ? lookupPassage(prospect.aiReview?.suggestedVerse || 'John 3:16') : null;
+  const session = createRedactionSession([prospect.name]);
+  const sender = session.mask(preacherName, 'NAME');
+  const redacted = redactProspect(prospect, session);
+  const cacheInputs = [redacted.name, prospectTimeline(redacted), redacted.aiReview, sender, passage?.reference, language];
+  return session.restore(await run('followUpMessage', (provider, model, onUsage) => provider.followUpMessage(redacted, sender, passage, language, model, onUsage), cacheInputs, options));
+};
+
+export const generateInviteDraft = async (inviterName: string, role: UserRole, customNotes?: string, language: string = DEFAULT_LANGUAGE): Promise<InviteDraft> => {
+  const session = createRedactionSession();
+  const inviter = session.mask(inviterName, 'NAME');
+  const notes = customNotes ? session.redact(customNotes) : customNotes;
+  const code = resolveLanguage(language).code;
+  const draft = await run('inviteDraft', (provider, model, onUsage) => provider.inviteDraft(inviter, role, notes, code, model, onUsage), [inviter, role, notes, code]);
+  return { subject: session.restore(draft.subject), body: session.restore(draft.body) };
+};
+
+// Audio cannot be masked, so sensitive notes are the only protection here.
+export const transcribeVoiceNote = async (clip: AudioClip, language: string = DEFAULT_LANGUAGE, sensitive = false): Promise<string> => {
+  ensureAllowed(sensitive);
+  return run('transcribe', (provider, model, onUsage) => provider.transcribe(clip, resolveLanguage(language).code, model, onUsage));
+};
@@ -0,0 +1,108 @@
+
+import { AIQuotaSettings, AIUsageEntry, AuditActor } from '../types';
+
+/**
+ * The AI usage ledger and daily quotas. App tells this module who is signed
+ * in, the organization's quotas and today's ledger entries for that member;
+ * aiService records every request here and asks before calling a paid provider.
+ */
+export interface AIUsageContext {
+  actor: AuditActor;
+  quotas?: AIQuotaSettings;
+  record: (entry: AIUsageEntry) => Promise<void>;
+}
+
+export class AIQuotaError extends Error {
+  code = 'ai-quota';
+  constructor(public limit: number) {
+    super(`You have used all ${limit} of today's AI requests. The limit resets tomorrow.`);
+  }
+}
+
+// Quotas follow the member's own calendar day, not UTC.
+export const localDay = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// The last `count` local dates, today first.
+export const recentDays = (count: number, from: Date = new Date()) =>
+  Array.from({ length: count }, (_, i) => localDay(new Date(from.getFullYear(), from.getMonth(), from.getDate() - i)));
+
+// Cached answers and the offline assistant cost nothing, so they never count.
+export const countsTowardQuota = (entry: AIUsageEntry) => !entry.cached && entry.provider !== 'local';
+
+export const dailyLimitFor = (userId: string, quotas?: AIQuotaSettings): number | undefined =>
+  quotas?.userLimits?.[userId] ?? quotas?.dailyLimit;
+
+let context: AIUsageContext | null = null;
+let todaysEntries: AIUsageEntry[] = [];
+// Recorded on this device but not yet seen back from the ledger, so quick repeats still count.
+let unconfirmed: AIUsageEntry[] = [];
+
+export const setAIUsageContext = (next: AIUsageContext | null) => {
+  context = next;
+  if (!next) {
+    todaysEntries = [];
+    unconfirmed = [];
+  }
+};
+
+export const setTodaysUsage = (entries: AIUsageEntry[]) => {
+  todaysEntries = entries;
+  unconfirmed = unconfirmed.filter(e => !entries.some(entry => entry.id === e.id));
+};
+
+export const requestsToday = (userId: string) => {
+  const today = localDay();
+  return [...todaysEntries, ...unconfirmed].filter(e => e.userId === userId && e.day === today && countsTowardQuota(e)).length;
+};
+
+// Throws before a paid request once the signed-in member has used up today's quota.
+export const checkQuota = () => {
+  if (!context) return;
+  const limit = dailyLimitFor(context.actor.id, context.quotas);
+  if (limit !== undefined && requestsToday(context.actor.id) >= limit) throw new AIQuotaError(limit);
+};
+
+// The ledger write runs in the background; a failed write never fails the request.
+export const recordUsage = (usage: Omit<AIUsageEntry, 'id' | 'userId' | 'userName' | 'timestamp' | 'day'>) => {
+  if (!context) return;
+  const now = new Date();
+  const entry: AIUsageEntry = {
+    id: crypto.randomUUID(),
+    userId: context.actor.id,
+    userName: context.actor.name,
+    timestamp: now.toISOString(),
+    day: localDay(now),
+    ...usage
+  };
+  if (countsTowardQuota(entry)) unconfirmed = [...unconfirmed, entry];
+  context.record(entry).catch(e => console.error("Failed to record AI usage", e));
+};
+
+export interface UsageSummary {
+  key: string;
+  requests: number;
+  cached: number;
+  failed: number;
+  promptTokens: number;
+  outputTokens: number;
+  // Over requests that reached a provider; cached answers would drag it toward zero.
+  averageLatencyMs: number;
+}
+
+export const summarizeUsage = (entries: AIUsageEntry[], keyOf: (entry: AIUsageEntry) => string): UsageSummary[] => {
+  const groups = new Map<string, AIUsageEntry[]>();
+  entries.forEach(entry => groups.set(keyOf(entry), [...(groups.get(keyOf(entry)) || []), entry]));
+  return [...groups.entries()].map(([key, group]) => {
+    const called = group.filter(e => !e.cached);
+    return {
+      key,
+      requests: group.length,
+      cached: group.length - called.length,
+      failed: group.filter(e => !e.ok).length,
+      promptTokens: group.reduce((sum, e) => sum + (e.promptTokens || 0), 0),
+      outputTokens: group.reduce((sum, e) => sum + (e.outputTokens || 0), 0),
+      averageLatencyMs: called.length > 0 ? Math.round(called.reduce((sum, e) => sum + e.latencyMs, 0) / called.length) : 0
+    };
+  }).sort((a, b) => b.requests - a.requests);
+};
@@ -0,0 +1,160 @@
+
+import { FirebaseStorage, ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { AudioRef } from '../types';
+import { openKeyedStore, KeyedStore } from './indexedDb';
+
+export interface AudioStore {
+  put: (clip: Blob, folder: string, durationMs: number) => Promise<AudioRef>;
+  getUrl: (clip: AudioRef) => Promise<string | null>;
+  remove: (clip: AudioRef) => Promise<void>;
+  /** Uploads clips kept on this device when they could not reach the cloud; returns how many went up. */
+  uploadPending: () => Promise<number>;
+  /** The file behind a `local` reference, for backups; null once this device no longer has it. */
+  readLocal: (clip: AudioRef) => Promise<Blob | null>;
+  /** Keeps a restored file on this device under its original path; cloud stores queue it for upload. */
+  keepLocal: (path: string, file: Blob) => Promise<void>;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav'
+};
+
+// Recorders report types such as "audio/webm;codecs=opus"; the record keeps the plain type.
+const baseType = (blob: Blob) => (blob.type || 'audio/webm').split(';')[0];
+
+const newPath = (folder: string, mimeType: string) => `${folder}/${crypto.randomUUID()}.${EXTENSIONS[mimeType] || 'audio'}`;
+
+const buildRef = (backend: AudioRef['backend'], path: string, mimeType: string, durationMs: number, url?: string): AudioRef => ({
+  id: path.split('/').pop()!,
+  backend,
+  path,
+  ...(url ? { url } : {}),
+  mimeType,
+  durationMs: Math.round(durationMs),
+  createdAt: new Date().toISOString()
+});
+
+// --- IndexedDB (local mode, and fallback when an upload cannot reach the cloud) ---
+
+let localClips: Promise<KeyedStore | null> | null = null;
+const getLocalClips = () => localClips ??= openKeyedStore('harvest_hub_audio', 'clips');
+const objectUrls = new Map<string, string>();
+
+const putLocalClip = async (path: string, blob: Blob) => {
+  const db = await getLocalClips();
+  if (!db) throw new Error("Local audio storage is unavailable in this browser.");
+  await db.run('readwrite', store => store.put(blob, path));
+};
+
+const getLocalClip = async (path: string): Promise<Blob | undefined> => {
+  const db = await getLocalClips();
+  return db ? db.run<Blob | undefined>('readonly', store => store.get(path)) : undefined;
+};
+
+const getLocalUrl = async (path: string): Promise<string | null> => {
+  if (objectUrls.has(path)) return objectUrls.get(path)!;
+  const blob = await getLocalClip(path);
+  if (!blob) return null;
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(path, url);
+  return url;
+};
+
+const removeLocalClip = async (path: string) => {
+  const db = await getLocalClips();
+  if (db) await db.run('readwrite', store => store.delete(path));
+  const url = objectUrls.get(path);
+  if (url) { URL.revokeObjectURL(url); objectUrls.delete(path); }
+};
+
+export const createLocalAudioStore = (): AudioStore => ({
+  put: async (clip, folder, durationMs) => {
+    const mimeType = baseType(clip);
+    const path = newPath(folder, mimeType);
+    await putLocalClip(path, clip);
+    return buildRef('local', path, mimeType, durationMs);
+  },
+  getUrl: (clip) => getLocalUrl(clip.path),
+  remove: (clip) => removeLocalClip(clip.path),
+  uploadPending: async () => 0,
+  readLocal: async (clip) => (await getLocalClip(clip.path)) || null,
+  keepLocal: (path, file) => putLocalClip(path, file)
+});
+
+// --- Firebase Storage ---
+
+// Clips that failed to upload, retried to the same path like photos.
+const PENDING_UPLOADS_KEY = 'harvest_hub_pending_audio_uploads';
+
+const loadPendingUploads = (): string[] => {
+  try {
+    const paths = JSON.parse(localStorage.getItem(PENDING_UPLOADS_KEY) || '[]');
+    return Array.isArray(paths) ? paths : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const savePendingUploads = (paths: string[]) => {
+  if (paths.length) localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(paths));
+  else localStorage.removeItem(PENDING_UPLOADS_KEY);
+};
+
+export const createFirebaseAudioStore = (storage: FirebaseStorage): AudioStore => ({
+  put: async (clip, folder, durationMs) => {
+    const mimeType = baseType(clip);
+    const path = newPath(folder, mimeType);
+    try {
+      if (!navigator.onLine) throw new Error("Device is offline.");
+      const objectRef = ref(storage, path);
+      await uploadBytes(objectRef, clip, { contentType: mimeType });
+      return buildRef('firebase', path, mimeType, durationMs, await getDownloadURL(objectRef));
+    } catch (e) {
+      // Same fallback as photos: the clip stays playable on this device until the upload is retried.
+      console.error("Voice note upload failed, keeping local copy", e);
+      await putLocalClip(path, clip);
+      savePendingUploads([...loadPendingUploads(), path]);
+      return buildRef('local', path, mimeType, durationMs);
+    }
+  },
+  getUrl: async (clip) => {
+    if (clip.backend === 'local') return (await getLocalUrl(clip.path)) || getDownloadURL(ref(storage, clip.path)).catch(() => null);
+    return clip.url || getDownloadURL(ref(storage, clip.path));
+  },
+  remove: async (clip) => {
+    if (clip.backend === 'local') {
+      savePendingUploads(loadPendingUploads().filter(path => path !== clip.path));
+      await removeLocalClip(clip.path);
+      await deleteObject(ref(storage, clip.path)).catch((e) => {
+        if (e?.code !== 'storage/object-not-found') console.error("Could not remove uploaded voice note", e);
+      });
+      return;
+    }
+    await deleteObject(ref(storage, clip.path));
+  },
+  uploadPending: async () => {
+    let uploaded = 0;
+    for (const path of loadPendingUploads()) {
+      if (!navigator.onLine) break;
+      const clip = await getLocalClip(path);
+      try {
+        if (clip) await uploadBytes(ref(storage, path), clip, { contentType: baseType(clip) });
+      } catch (e) {
+        console.error("Voice note upload retry failed", e);
+        break;
+      }
+      savePendingUploads(loadPendingUploads().filter(p => p !== path));
+      if (clip) uploaded++;
+    }
+    return uploaded;
+  },
+  readLocal: async (clip) => (await getLocalClip(clip.path)) || null,
+  keepLocal: async (path, file) => {
+    await putLocalClip(path, file);
+    if (!loadPendingUploads().includes(path)) savePendingUploads([...loadPendingUploads(), path]);
+  }
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { Invitation, LessonSeries, Organization, PromptTemplate, Prospect, User, UserRole, UserStatus } from '../types';
+import { Repositories } from './dataRepository';
+import { DEFAULT_ORG_ID } from './organizations';
+import { BACKUP_FORMAT, BACKUP_VERSION, WorkspaceArchive, restoreWorkspace } from './backup';
+
+const CREATED_AT = '2024-01-01T00:00:00.000Z';
+
+const member = (id: string, email: string, role = UserRole.TEAM_MEMBER, status = UserStatus.APPROVED): User => ({
+  id, name: id, email, role, status, createdAt: CREATED_AT,
+  memberships: { [DEFAULT_ORG_ID]: { role, status } }, orgIds: [DEFAULT_ORG_ID]
+});
+
+const archiveOf = (users: User[]): WorkspaceArchive => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: CREATED_AT,
+  source: 'local',
+  orgId: DEFAULT_ORG_ID,
+  prospects: [],
+  users,
+  invitations: [],
+  lessonSeries: [],
+  settings: {}
+});
+
+// A cloud workspace as the security rules let an admin see it: accounts are read, never written whole.
+const cloudRepos = (liveUsers: User[], refuse: (userId: string) => boolean = () => false, liveTemplates: PromptTemplate[] = []) => {
+  const calls = {
+    put: [] as User[], memberships: [] as string[], invitations: [] as Invitation[],
+    templates: [] as PromptTemplate[], settings: [] as Partial<Organization>[], media: [] as [string, string][]
+  };
+  const repos = {
+    mode: 'firestore',
+    orgId: DEFAULT_ORG_ID,
+    prospects: { subscribe: (onChange: (items: Prospect[]) => void) => { onChange([]); return () => {}; } },
+    users: {
+      subscribe: (onChange: (items: User[]) => void) => { onChange(liveUsers); return () => {}; },
+      get: async () => { throw Object.assign(new Error("Missing or insufficient permissions."), { code: 'permission-denied' }); },
+      put: async (user: User) => { calls.put.push(user); },
+      setMembership: async (userId: string) => {
+        if (refuse(userId)) throw Object.assign(new Error("Missing or insufficient permissions."), { code: 'permission-denied' });
+        calls.memberships.push(userId);
+      }
+    },
+    invitations: {
+      list: async () => [],
+      put: async (invitation: Invitation) => { calls.invitations.push(invitation); }
+    },
+    lessons: { subscribe: (onChange: (items: LessonSeries[]) => void) => { onChange([]); return () => {}; } },
+    prompts: {
+      subscribe: (onChange: (items: PromptTemplate[]) => void) => { onChange(liveTemplates); return () => {}; },
+      put: async (template: PromptTemplate) => { calls.templates.push(template); }
+    },
+    organizations: {
+      subscribe: (_orgIds: string[], onChange: (items: Organization[]) => void) => { onChange([]); return () => {}; },
+      update: async (_orgId: string, updates: Partial<Organization>) => { calls.settings.push(updates); }
+    },
+    photos: { keepLocal: async (path: string, file: Blob) => { calls.media.push([path, await file.text()]); } },
+    audio: { keepLocal: async (path: string, file: Blob) => { calls.media.push([path, await file.text()]); } }
+  } as unknown as Repositories;
+  return { repos, calls };
+};
+
+const actor = { id: 'admin', name: 'Admin' };
+
+describe('restoring into the cloud', () => {
+  it('never writes whole accounts, restoring memberships and inviting everyone else', async () => {
+    const { repos, calls } = cloudRepos([member('admin', 'admin@example.org', UserRole.ADMIN), member('cloud-uid', 'known@example.org')]);
+    const summary = await restoreWorkspace(repos, archiveOf([
+      member('local-uuid', 'Known@example.org'),
+      member('stranger', 'new@example.org', UserRole.ADMIN),
+      member('waiting', 'waiting@example.org', UserRole.TEAM_MEMBER, UserStatus.PENDING)
+    ]), 'replace', actor);
+
+    expect(calls.put).toEqual([]);
+    expect(calls.memberships).toEqual(['cloud-uid']);
+    expect(calls.invitations.map(i => [i.email, i.role, i.orgId])).toEqual([['new@example.org', UserRole.ADMIN, DEFAULT_ORG_ID]]);
+    expect(summary).toMatchObject({ users: 1, invitations: 1, skipped: 1, refused: 0 });
+  });
+
+  it('merge leaves existing members alone and does not invite anyone twice', async () => {
+    const { repos, calls } = cloudRepos([member('cloud-uid', 'known@example.org')]);
+    const archive = archiveOf([member('cloud-uid', 'known@example.org'), member('stranger', 'new@example.org')]);
+    archive.invitations = [{ id: 'sent', email: 'NEW@example.org', role: UserRole.TEAM_MEMBER, invitedBy: 'Admin', sentAt: CREATED_AT, status: 'Sent' }];
+    const summary = await restoreWorkspace(repos, archive, 'merge', actor);
+
+    expect(calls.memberships).toEqual([]);
+    expect(calls.invitations.map(i => i.id)).toEqual(['sent']);
+    expect(summary).toMatchObject({ users: 0, invitations: 1, skipped: 2 });
+  });
+
+  it('counts roles the restoring admin may not grant instead of stopping partway', async () => {
+    const { repos, calls } = cloudRepos([member('a', 'a@example.org'), member('b', 'b@example.org')], userId => userId === 'a');
+    const summary = await restoreWorkspace(repos, archiveOf([member('a', 'a@example.org', UserRole.ADMIN), member('b', 'b@example.org')]), 'replace', actor);
+
+    expect(calls.memberships).toEqual(['b']);
+    expect(summary).toMatchObject({ users: 1, refused: 1 });
+  });
+
+  it('restores prompt templates over the live ones, congregation settings and files kept on the device', async () => {
+    const live: PromptTemplate = { id: 'live-template', orgId: DEFAULT_ORG_ID, feature: 'followUpDraft', text: 'Live', version: 3, updatedAt: CREATED_AT };
+    const { repos, calls } = cloudRepos([], () => false, [live]);
+    const archive = archiveOf([]);
+    archive.promptTemplates = [{ ...live, id: 'archived-template', orgId: 'elsewhere', text: 'Archived', version: 2, history: [{ version: 1, text: 'First', updatedAt: CREATED_AT }] }];
+    archive.organizationSettings = { aiQuotas: { dailyLimit: 20 } };
+    archive.media = [{ kind: 'audio', path: 'prospects/p1/voice/clip.webm', dataUrl: 'data:audio/webm;base64,aGVsbG8=' }];
+    const summary = await restoreWorkspace(repos, archive, 'replace', actor);
+
+    expect(calls.templates).toEqual([{ ...archive.promptTemplates[0], id: 'live-template', orgId: DEFAULT_ORG_ID }]);
+    expect(calls.settings).toEqual([{ aiQuotas: { dailyLimit: 20 } }]);
+    expect(calls.media).toEqual([['prospects/p1/voice/clip.webm', 'hello']]);
+    expect(summary).toMatchObject({ promptTemplates: 1, media: 1, organizationSettings: true });
+  });
+});
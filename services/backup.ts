@@ -0,0 +1,376 @@
+
+import { Prospect, User, Invitation, AuditActor, AuditEntry, LessonSeries, UserStatus, PromptTemplate, Organization } from '../types';
+import { Repositories, RepositoryError, RepositoryMode, Unsubscribe, safeStringify, withoutCredential } from './dataRepository';
+import { readProspect, readUser } from './schema';
+import { downloadFile } from './download';
+import { DEFAULT_ORG_ID, membershipIn, membershipUpdate } from './organizations';
+
+export const BACKUP_FORMAT = 'harvest-hub-backup';
+export const BACKUP_VERSION = 1;
+
+// Device settings worth carrying between workspaces. Cloud keys are left out
+// on purpose so restoring an archive never re-points the app at another project.
+const SETTINGS_KEYS = ['harvest_hub_email_config'];
+
+// A contact's photo or voice note that lives only on this device, carried as a data URL.
+// Files already uploaded stay in Cloud Storage and are not copied into archives.
+export interface ArchivedMedia {
+  kind: 'photo' | 'audio';
+  path: string;
+  dataUrl: string;
+}
+
+export type OrganizationSettings = Pick<Organization, 'aiPrivacy' | 'aiQuotas'>;
+
+export interface WorkspaceArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: RepositoryMode;
+  // The organization exported; archives from before organizations belong to the default one.
+  orgId?: string;
+  prospects: Prospect[];
+  users: User[];
+  invitations: Invitation[];
+  // Absent from archives made before study series existed.
+  lessonSeries?: LessonSeries[];
+  // Absent from archives made before they were backed up.
+  promptTemplates?: PromptTemplate[];
+  organizationSettings?: OrganizationSettings;
+  media?: ArchivedMedia[];
+  // Kept for the record only: history is written by whoever made each change, so it cannot be restored.
+  history?: AuditEntry[];
+  settings: Record<string, string>;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  prospects: number;
+  users: number;
+  invitations: number;
+  lessonSeries: number;
+  promptTemplates: number;
+  media: number;
+  // Whether the congregation's AI privacy or quota settings were restored.
+  organizationSettings: boolean;
+  removed: number;
+  skipped: number;
+  // Changes the restoring admin's role may not make: admin roles restored by an Admin,
+  // or congregation settings, which only a SuperAdmin saves.
+  refused: number;
+}
+
+const sameEmail = (email: string) => email.trim().toLowerCase();
+
+// Subscriptions are the only way to list prospects and users, so take the first emission.
+const readOnce = <T>(subscribe: (onChange: (items: T[]) => void, onError?: (error: RepositoryError) => void) => Unsubscribe) =>
+  new Promise<T[]>((resolve, reject) => {
+    let settled = false;
+    let unsubscribe: Unsubscribe | null = null;
+    const finish = (action: () => void) => {
+      if (settled) return;
+      settled = true;
+      action();
+      unsubscribe?.();
+    };
+    unsubscribe = subscribe(
+      (items) => finish(() => resolve(items)),
+      (error) => finish(() => reject(new Error(error.message)))
+    );
+    // Local stores emit synchronously, before unsubscribe was assigned.
+    if (settled) unsubscribe();
+  });
+
+const readOrganization = async (repos: Repositories) => (await readOnce<Organization>(
+  (onChange, onError) => repos.organizations.subscribe([repos.orgId], onChange, onError)
+))[0];
+
+const toDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Profile photos are left out: they belong to accounts, which a cloud restore does not write.
+const archiveMedia = async (repos: Repositories, prospects: Prospect[]): Promise<ArchivedMedia[]> => {
+  const photos = prospects.flatMap(p => p.photos || []).filter(photo => photo.backend === 'local');
+  const clips = prospects
+    .flatMap(p => [...(p.voiceNotes || []), ...p.followUps.flatMap(f => f.voiceNotes || [])])
+    .filter(clip => clip.backend === 'local');
+  const read = async (kind: ArchivedMedia['kind'], path: string, file: Promise<Blob | null>): Promise<ArchivedMedia[]> => {
+    const blob = await file;
+    return blob ? [{ kind, path, dataUrl: await toDataUrl(blob) }] : [];
+  };
+  const items = await Promise.all([
+    ...photos.map(photo => read('photo', photo.path, repos.photos.readLocal(photo))),
+    ...clips.map(clip => read('audio', clip.path, repos.audio.readLocal(clip)))
+  ]);
+  return items.flat();
+};
+
+export const exportWorkspace = async (repos: Repositories): Promise<WorkspaceArchive> => {
+  const [prospects, users, invitations, lessonSeries, promptTemplates, organization] = await Promise.all([
+    readOnce<Prospect>(repos.prospects.subscribe),
+    readOnce<User>(repos.users.subscribe),
+    repos.invitations.list(),
+    readOnce<LessonSeries>(repos.lessons.subscribe),
+    readOnce<PromptTemplate>(repos.prompts.subscribe),
+    readOrganization(repos)
+  ]);
+  const [history, media] = await Promise.all([
+    Promise.all(prospects.map(p => readOnce<AuditEntry>((onChange, onError) => repos.audit.subscribe(p.id, onChange, onError)))),
+    archiveMedia(repos, prospects)
+  ]);
+  const settings = SETTINGS_KEYS.reduce((acc, key) => {
+    const value = localStorage.getItem(key);
+    return value === null ? acc : { ...acc, [key]: value };
+  }, {} as Record<string, string>);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: repos.mode,
+    orgId: repos.orgId,
+    prospects,
+    users: users.map(withoutCredential),
+    invitations,
+    lessonSeries,
+    promptTemplates,
+    organizationSettings: {
+      ...(organization?.aiPrivacy ? { aiPrivacy: organization.aiPrivacy } : {}),
+      ...(organization?.aiQuotas ? { aiQuotas: organization.aiQuotas } : {})
+    },
+    media,
+    history: history.flat(),
+    settings
+  };
+};
+
+export const downloadArchive = (archive: WorkspaceArchive) => {
+  downloadFile(safeStringify(archive), `harvest-hub-backup-${archive.exportedAt.slice(0, 10)}.json`, 'application/json');
+};
+
+/**
+ * Parses an archive file and runs every record through the schema migrations,
+ * so backups taken by older versions of the app restore cleanly.
+ */
+export const parseArchive = (text: string): { archive: WorkspaceArchive, rejected: number } => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error("This file is not valid JSON.");
+  }
+  if (!raw || raw.format !== BACKUP_FORMAT) throw new Error("This file is not a Harvest Hub backup.");
+  if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of the app. Please update before restoring it.");
+  }
+
+  const list = (value: unknown) => Array.isArray(value) ? value : [];
+  const prospects = list(raw.prospects).map(readProspect);
+  const users = list(raw.users).map(readUser);
+  const invitations = list(raw.invitations).filter((i: any) => i && typeof i.id === 'string' && typeof i.email === 'string');
+  const lessonSeries = list(raw.lessonSeries).filter((s: any) => s && typeof s.id === 'string' && typeof s.title === 'string' && Array.isArray(s.lessons));
+  const promptTemplates = list(raw.promptTemplates).filter((t: any) => t && typeof t.id === 'string' && typeof t.feature === 'string' && typeof t.text === 'string');
+  const media = list(raw.media).filter((m: any) => m && (m.kind === 'photo' || m.kind === 'audio') && typeof m.path === 'string' && typeof m.dataUrl === 'string' && m.dataUrl.startsWith('data:'));
+  const history = list(raw.history).filter((e: any) => e && typeof e.id === 'string' && typeof e.prospectId === 'string');
+  const organizationSettings = raw.organizationSettings && typeof raw.organizationSettings === 'object' ? raw.organizationSettings : {};
+  const valid = <T>(items: (T | null)[]) => items.filter((item): item is T => item !== null);
+
+  return {
+    archive: {
+      format: BACKUP_FORMAT,
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      source: raw.source,
+      orgId: typeof raw.orgId === 'string' ? raw.orgId : DEFAULT_ORG_ID,
+      prospects: valid(prospects),
+      users: valid(users),
+      invitations,
+      lessonSeries,
+      promptTemplates,
+      organizationSettings: {
+        ...(organizationSettings.aiPrivacy && typeof organizationSettings.aiPrivacy === 'object' ? { aiPrivacy: organizationSettings.aiPrivacy } : {}),
+        ...(organizationSettings.aiQuotas && typeof organizationSettings.aiQuotas === 'object' ? { aiQuotas: organizationSettings.aiQuotas } : {})
+      },
+      media,
+      history,
+      settings: raw.settings && typeof raw.settings === 'object' ? raw.settings : {}
+    },
+    rejected: prospects.filter(p => !p).length
+      + users.filter(u => !u).length
+      + list(raw.invitations).length - invitations.length
+      + list(raw.lessonSeries).length - lessonSeries.length
+      + list(raw.promptTemplates).length - promptTemplates.length
+      + list(raw.media).length - media.length
+  };
+};
+
+/**
+ * Merge only adds records the workspace does not have yet; live copies win.
+ * Replace overwrites matching records and removes prospects missing from the
+ * archive. Users are never removed, and the restoring admin's own account is
+ * left untouched so a restore cannot lock them out. Everything is restored
+ * into the open organization, whichever one it was exported from; people keep
+ * their memberships elsewhere.
+ *
+ * In the cloud, accounts belong to Firebase Auth and only their owners write
+ * them: archived members who already belong here, matched by id or email, get
+ * their membership back, and approved ones who don't are invited again.
+ * Photos and voice notes from the archive are kept on this device and, in the
+ * cloud, queued for upload. Change history is never restored.
+ */
+export const restoreWorkspace = async (repos: Repositories, archive: WorkspaceArchive, mode: RestoreMode, actor: AuditActor): Promise<RestoreSummary> => {
+  const [currentProspects, currentUsers, currentInvitations, currentSeries, currentTemplates, organization] = await Promise.all([
+    readOnce<Prospect>(repos.prospects.subscribe),
+    readOnce<User>(repos.users.subscribe),
+    repos.invitations.list(),
+    readOnce<LessonSeries>(repos.lessons.subscribe),
+    readOnce<PromptTemplate>(repos.prompts.subscribe),
+    readOrganization(repos)
+  ]);
+  const summary: RestoreSummary = {
+    prospects: 0, users: 0, invitations: 0, lessonSeries: 0, promptTemplates: 0, media: 0,
+    organizationSettings: false, removed: 0, skipped: 0, refused: 0
+  };
+  const existingProspects = new Set(currentProspects.map(p => p.id));
+  const existingUsers = new Set(currentUsers.map(u => u.id));
+  const existingInvitations = new Set(currentInvitations.map(i => i.id));
+  const existingSeries = new Set(currentSeries.map(s => s.id));
+
+  const fromOrg = archive.orgId || DEFAULT_ORG_ID;
+
+  for (const archived of archive.prospects) {
+    const prospect = { ...archived, orgId: repos.orgId };
+    if (!existingProspects.has(prospect.id)) {
+      await repos.prospects.add(prospect, { actor });
+    } else if (mode === 'replace') {
+      await repos.prospects.update(prospect, { actor });
+    } else {
+      summary.skipped++;
+      continue;
+    }
+    summary.prospects++;
+  }
+
+  if (mode === 'replace') {
+    const keep = new Set(archive.prospects.map(p => p.id));
+    for (const prospect of currentProspects.filter(p => !keep.has(p.id))) {
+      await repos.prospects.remove(prospect.id);
+      summary.removed++;
+    }
+  }
+
+  // Invitations go first so a member invited again below is not invited twice.
+  const invitedEmails = new Set(currentInvitations.map(i => sameEmail(i.email)));
+  for (const invitation of archive.invitations) {
+    if (existingInvitations.has(invitation.id) && mode === 'merge') {
+      summary.skipped++;
+      continue;
+    }
+    await repos.invitations.put({ ...invitation, orgId: repos.orgId });
+    invitedEmails.add(sameEmail(invitation.email));
+    summary.invitations++;
+  }
+
+  for (const user of archive.users) {
+    const membership = membershipIn(user, fromOrg);
+    if (!membership || user.id === actor.id) {
+      summary.skipped++;
+      continue;
+    }
+    if (repos.mode !== 'firestore') {
+      if (existingUsers.has(user.id) && mode === 'merge') {
+        summary.skipped++;
+        continue;
+      }
+      const live = await repos.users.get(user.id);
+      // Archives made before credentials were left out may still carry one; the live account keeps its own.
+      const base = { ...withoutCredential(user), memberships: live?.memberships || {}, ...(live?.credential ? { credential: live.credential } : {}) };
+      await repos.users.put({ ...base, ...membershipUpdate(base, repos.orgId, membership) });
+      summary.users++;
+      continue;
+    }
+
+    const live = currentUsers.find(u => u.id === user.id) || currentUsers.find(u => sameEmail(u.email) === sameEmail(user.email));
+    if (live) {
+      if (live.id === actor.id || mode === 'merge') {
+        summary.skipped++;
+        continue;
+      }
+      try {
+        await repos.users.setMembership(live.id, membership, user.team ? { team: user.team } : undefined);
+        summary.users++;
+      } catch (e: any) {
+        if (e?.code !== 'permission-denied') throw e;
+        summary.refused++;
+      }
+    } else if (membership.status === UserStatus.APPROVED && user.email && !invitedEmails.has(sameEmail(user.email))) {
+      await repos.invitations.put({
+        id: crypto.randomUUID(),
+        email: user.email,
+        role: membership.role,
+        invitedBy: actor.name,
+        sentAt: new Date().toISOString(),
+        status: 'Restored',
+        orgId: repos.orgId
+      });
+      invitedEmails.add(sameEmail(user.email));
+      summary.invitations++;
+    } else {
+      summary.skipped++;
+    }
+  }
+
+  for (const series of archive.lessonSeries || []) {
+    if (existingSeries.has(series.id) && mode === 'merge') {
+      summary.skipped++;
+      continue;
+    }
+    await repos.lessons.put({ ...series, orgId: repos.orgId });
+    summary.lessonSeries++;
+  }
+
+  // Each feature has one template per organization, so archived ones take the place of the live ones.
+  for (const template of archive.promptTemplates || []) {
+    const live = currentTemplates.find(t => t.feature === template.feature);
+    if (live && mode === 'merge') {
+      summary.skipped++;
+      continue;
+    }
+    await repos.prompts.put({ ...template, id: live?.id || template.id, orgId: repos.orgId });
+    summary.promptTemplates++;
+  }
+
+  const archivedSettings = archive.organizationSettings || {};
+  const settingsUpdate: OrganizationSettings = {
+    ...(archivedSettings.aiPrivacy && (mode === 'replace' || !organization?.aiPrivacy) ? { aiPrivacy: archivedSettings.aiPrivacy } : {}),
+    ...(archivedSettings.aiQuotas && (mode === 'replace' || !organization?.aiQuotas) ? { aiQuotas: archivedSettings.aiQuotas } : {})
+  };
+  if (Object.keys(settingsUpdate).length > 0) {
+    try {
+      await repos.organizations.update(repos.orgId, settingsUpdate);
+      summary.organizationSettings = true;
+    } catch (e: any) {
+      if (e?.code !== 'permission-denied') throw e;
+      summary.refused++;
+    }
+  }
+
+  // Files go back under their original paths, which the restored records point at.
+  for (const item of archive.media || []) {
+    const file = await (await fetch(item.dataUrl)).blob();
+    await (item.kind === 'photo' ? repos.photos : repos.audio).keepLocal(item.path, file);
+    summary.media++;
+  }
+
+  Object.entries(archive.settings).forEach(([key, value]) => {
+    if (!SETTINGS_KEYS.includes(key) || typeof value !== 'string') return;
+    if (mode === 'replace' || localStorage.getItem(key) === null) localStorage.setItem(key, value);
+  });
+
+  return summary;
+};
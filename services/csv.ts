@@ -0,0 +1,51 @@
+
+/**
+ * RFC 4180 style parsing: quoted fields may contain commas, doubled quotes and
+ * line breaks. Spreadsheet exports are the main source, so a leading BOM and
+ * trailing blank lines are tolerated.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Cells that spreadsheets would run as formulas. Phone numbers like +1 555 are left alone.
+const FORMULA_PREFIX = /^[=@\t\r]|^[+\-](?![\d\s()]+$)/;
+
+const escapeCell = (value: string) => {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = (rows: (string | number | boolean | null | undefined)[][]): string =>
+  rows.map(row => row.map(cell => escapeCell(cell === null || cell === undefined ? '' : String(cell))).join(',')).join('\r\n');
@@ -0,0 +1,959 @@
+
+import { Firestore, collection, onSnapshot, doc, updateDoc, query, orderBy, getDoc, getDocs, getCountFromServer, setDoc, deleteDoc, runTransaction, arrayUnion, deleteField, writeBatch, DocumentReference, where, or, and, limit, startAfter, endAt, QueryConstraint, QueryDocumentSnapshot, Query } from 'firebase/firestore';
+import { FirebaseStorage } from 'firebase/storage';
+import { Prospect, User, FollowUp, HungerLevel, AuditActor, AuditEntry, Invitation, UserStatus, UserRole, Organization, OrgMembership, LessonSeries, PromptTemplate, AIUsageEntry } from '../types';
+import { PhotoStore, createFirebasePhotoStore, createLocalPhotoStore } from './photoStore';
+import { AudioStore, createFirebaseAudioStore, createLocalAudioStore } from './audioStore';
+import { readProspect, readUser, stampProspect, stampUser, needsUpgrade } from './schema';
+import { combineProspects, normalizeName, normalizePhone } from './duplicates';
+import { toE164 } from './phone';
+import { DEFAULT_ORG_ID, DEFAULT_ORG_NAME, orgOf, membershipIn, membershipUpdate, organizationName } from './organizations';
+
+export type Unsubscribe = () => void;
+
+export interface RepositoryError {
+  code?: string;
+  message: string;
+}
+
+export interface WriteOptions {
+  actor?: AuditActor;
+}
+
+export interface PatchOptions extends WriteOptions {
+  expected?: Partial<Prospect>;
+}
+
+export interface MergeOptions extends WriteOptions {
+  // Whether the merger may change the assignment, which only admins can.
+  canAssign?: boolean;
+}
+
+export interface ProspectQuery {
+  /** Limit to prospects assigned to or created by this user. */
+  visibleTo?: string;
+  pageSize?: number;
+}
+
+export interface ProspectPage {
+  items: Prospect[];
+  hasMore: boolean;
+}
+
+// Figures over every record in scope, whichever pages are loaded.
+export interface ProspectSummary {
+  total: number;
+  baptismInterests: number;
+  highHunger: number;
+  followedUp: number;
+}
+
+export type DuplicateCandidate = Pick<Prospect, 'name' | 'phone'>;
+
+export interface PagedSubscription {
+  loadMore: () => void;
+  unsubscribe: Unsubscribe;
+}
+
+export interface UserQuery {
+  approvedOnly?: boolean;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+
+export const matchesProspectQuery = (prospect: Prospect, scope: ProspectQuery) =>
+  !scope.visibleTo || prospect.assignedToUserId === scope.visibleTo || prospect.createdByUserId === scope.visibleTo;
+
+export const summarizeProspects = (prospects: Prospect[]): ProspectSummary => ({
+  total: prospects.length,
+  baptismInterests: prospects.filter(p => p.signifiedForBaptism).length,
+  highHunger: prospects.filter(p => p.aiReview?.hungerLevel === HungerLevel.HIGH).length,
+  followedUp: prospects.filter(p => p.status === 'Followed Up').length
+});
+
+/**
+ * Every mutation appends to the prospect's audit log in the same write.
+ * Writes without an actor are attributed to SYSTEM_ACTOR; the Firestore rules
+ * reject those, so cloud writes must pass one. Reads only see the
+ * repositories' organization, and new records are filed under it.
+ */
+export interface ProspectRepository {
+  /** The whole organization; for admin tools like backup, not for screens. */
+  subscribe: (onChange: (prospects: Prospect[]) => void, onError?: (error: RepositoryError) => void) => Unsubscribe;
+  /** Newest first, one page at a time; `loadMore` extends the live window. */
+  subscribePage: (scope: ProspectQuery, onChange: (page: ProspectPage) => void, onError?: (error: RepositoryError) => void) => PagedSubscription;
+  add: (prospect: Prospect, options?: WriteOptions) => Promise<void>;
+  update: (prospect: Prospect, options?: WriteOptions) => Promise<void>;
+  /**
+   * Field-level update. When `expected` is given, the write only lands if those
+   * fields still hold the values the caller last saw; otherwise ConflictError.
+   */
+  patch: (prospectId: string, updates: Partial<Prospect>, options?: PatchOptions) => Promise<void>;
+  addFollowUp: (prospectId: string, followUp: FollowUp, options?: WriteOptions) => Promise<void>;
+  remove: (prospectId: string) => Promise<void>;
+  /** Folds `sourceId` into `targetId`; the source stays behind as a redirect. */
+  merge: (targetId: string, sourceId: string, options?: MergeOptions) => Promise<void>;
+  /** Every record in scope at once, newest first and merged-away ones excluded; for exports, not screens. */
+  list: (scope: ProspectQuery) => Promise<Prospect[]>;
+  /** Counts over every record in scope, merged-away ones excluded, rather than the loaded pages. */
+  summarize: (scope: ProspectQuery) => Promise<ProspectSummary>;
+  /**
+   * Records anywhere in scope that may be the same person as one of the candidates,
+   * for duplicate checks beyond the loaded pages. Callers still score them with findDuplicates.
+   */
+  findMatches: (candidates: DuplicateCandidate[], scope: ProspectQuery) => Promise<Prospect[]>;
+}
+
+export interface AuditLog {
+  subscribe: (prospectId: string, onChange: (entries: AuditEntry[]) => void, onError?: (error: RepositoryError) => void) => Unsubscribe;
+}
+
+export interface UserRepository {
+  /** Members of the repositories' organization; `approvedOnly` checks their membership there. */
+  subscribe: (onChange: (users: User[]) => void, onError?: (error: RepositoryError) => void, scope?: UserQuery) => Unsubscribe;
+  get: (userId: string) => Promise<User | null>;
+  update: (userId: string, updates: Partial<User>) => Promise<void>;
+  /** Writes the whole record, creating it if needed. */
+  put: (user: User) => Promise<void>;
+  /** Searches every organization; in the cloud only the workspace owner may. Pass the email trimmed and lower-cased. */
+  findByEmail: (email: string) => Promise<User | null>;
+  isEmpty: () => Promise<boolean>;
+  /** Writes a new account. The first one also claims the workspace and sets up the main congregation in the same write. */
+  register: (user: User, isFirstUser: boolean) => Promise<void>;
+  /** Asks to join `orgId` as a pending member; false when the user already belongs to it. */
+  requestMembership: (user: User, orgId: string, role: UserRole) => Promise<boolean>;
+  /** Sets the user's role and status in the repositories' organization, with any other admin-managed fields. */
+  setMembership: (userId: string, membership: OrgMembership, updates?: Partial<User>) => Promise<void>;
+}
+
+export interface InvitationRepository {
+  /** Newest first. */
+  subscribe: (onChange: (invitations: Invitation[]) => void, onError?: (error: RepositoryError) => void) => Unsubscribe;
+  list: () => Promise<Invitation[]>;
+  put: (invitation: Invitation) => Promise<void>;
+}
+
+export interface LessonSeriesRepository {
+  subscribe: (onChange: (series: LessonSeries[]) => void, onError?: (error: RepositoryError) => void) => Unsubscribe;
+  put: (series: LessonSeries) => Promise<void>;
+  remove: (seriesId: string) => Promise<void>;
+}
+
+export interface PromptTemplateRepository {
+  subscribe: (onChange: (templates: PromptTemplate[]) => void, onError?: (error: RepositoryError) => void) => Unsubscribe;
+  /** Replaces the organization's template for `template.feature`; its history travels inside the record. */
+  put: (template: PromptTemplate) => Promise<void>;
+}
+
+export interface UsageQuery {
+  // Local dates (YYYY-MM-DD); Firestore takes at most 30 per query.
+  days: string[];
+  // Limits the entries to one member's requests.
+  userId?: string;
+}
+
+export interface AIUsageLog {
+  /** Entries for the given days, newest first. */
+  subscribe: (scope: UsageQuery, onChange: (entries: AIUsageEntry[]) => void, onError?: (error: RepositoryError) => void) => Unsubscribe;
+  add: (entry: AIUsageEntry) => Promise<void>;
+}
+
+export interface OrganizationRepository {
+  /** The organizations with these ids. The default organization may have no document. */
+  subscribe: (orgIds: string[], onChange: (organizations: Organization[]) => void, onError?: (error: RepositoryError) => void) => Unsubscribe;
+  /** Creates the organization with `owner` as its approved SuperAdmin. */
+  create: (organization: Organization, owner: User) => Promise<void>;
+  /** Saves organization settings; the default organization's document is created on first save. */
+  update: (orgId: string, updates: Partial<Organization>) => Promise<void>;
+  /** Files records written before organizations under the default one; returns how many changed. */
+  adoptUnscoped: () => Promise<number>;
+}
+
+export interface Repositories {
+  mode: RepositoryMode;
+  orgId: string;
+  prospects: ProspectRepository;
+  users: UserRepository;
+  photos: PhotoStore;
+  audio: AudioStore;
+  audit: AuditLog;
+  invitations: InvitationRepository;
+  lessons: LessonSeriesRepository;
+  prompts: PromptTemplateRepository;
+  usage: AIUsageLog;
+  organizations: OrganizationRepository;
+}
+
+export type RepositoryMode = 'firestore' | 'local' | 'memory';
+
+export class ConflictError extends Error {
+  code = 'conflict';
+  constructor(public current: Partial<Prospect>) {
+    super("This record was changed by someone else before your edit was saved.");
+  }
+}
+
+const byTitle = (a: { title: string }, b: { title: string }) => a.title.localeCompare(b.title);
+const newestFirst = (a: { timestamp: string }, b: { timestamp: string }) => b.timestamp.localeCompare(a.timestamp);
+const bySentAt = (a: Invitation, b: Invitation) => b.sentAt.localeCompare(a.sentAt);
+
+// The main congregation's document, set up by the workspace's first account.
+const defaultOrganization = (owner: User): Organization => ({
+  id: DEFAULT_ORG_ID,
+  name: DEFAULT_ORG_NAME,
+  createdAt: owner.createdAt,
+  createdByUserId: owner.id
+});
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export const SYSTEM_ACTOR: AuditActor = { id: 'system', name: 'System' };
+
+// Bookkeeping fields that would only add noise to a person's history.
+const UNAUDITED_FIELDS = ['id', 'schemaVersion', 'aiReviewPending', 'aiReviewHistory', 'assignedToUserId', 'followUps'];
+
+const createAuditEntry = (prospectId: string, actor: AuditActor = SYSTEM_ACTOR, details: Pick<AuditEntry, 'action'> & Partial<AuditEntry>): AuditEntry => ({
+  id: crypto.randomUUID(),
+  prospectId,
+  actorId: actor.id,
+  actorName: actor.name,
+  timestamp: new Date().toISOString(),
+  ...details
+});
+
+// One entry per field whose value actually changed.
+const diffToAudit = (prospectId: string, actor: AuditActor | undefined, before: Partial<Prospect>, updates: Partial<Prospect>): AuditEntry[] => {
+  return (Object.keys(updates) as (keyof Prospect)[])
+    .filter(key => !UNAUDITED_FIELDS.includes(key) && !sameValue(before[key], updates[key]))
+    .map(key => createAuditEntry(prospectId, actor, {
+      action: 'updated',
+      field: key,
+      before: before[key] ?? null,
+      after: updates[key] ?? null
+    }));
+};
+
+const followUpAudit = (prospectId: string, actor: AuditActor | undefined, before: Partial<Prospect>, followUp: FollowUp): AuditEntry[] => [
+  createAuditEntry(prospectId, actor, { action: 'followUp', field: 'followUps', after: followUp.notes }),
+  ...diffToAudit(prospectId, actor, before, { status: 'Followed Up' })
+];
+
+const mergeAudit = (target: Prospect, source: Prospect, actor: AuditActor | undefined, combined: Partial<Prospect>): AuditEntry[] => [
+  createAuditEntry(target.id, actor, { action: 'merged', field: 'mergedFrom', before: source.id, after: source.name }),
+  ...diffToAudit(target.id, actor, target, combined),
+  createAuditEntry(source.id, actor, { action: 'merged', field: 'mergedInto', before: target.id, after: target.name })
+];
+
+// Returns the current values of any expected fields that no longer match.
+const findConflicts = (current: Partial<Prospect>, expected?: Partial<Prospect>): Partial<Prospect> | null => {
+  if (!expected) return null;
+  const changed = (Object.keys(expected) as (keyof Prospect)[]).filter(key => !sameValue(current[key], expected[key]));
+  if (changed.length === 0) return null;
+  return changed.reduce((acc, key) => ({ ...acc, [key]: current[key] }), {} as Partial<Prospect>);
+};
+
+// Local sign-in hashes stay on the device that made them: never in the cloud or a backup file.
+export const withoutCredential = ({ credential, ...user }: User): User => user;
+
+/**
+ * Enhanced Scrubbing: Aggressively strips any object that isn't a plain literal
+ * and handles circular references using a WeakSet.
+ */
+export const scrub = (obj: any, seen = new WeakSet()): any => {
+  if (obj === null || typeof obj !== 'object') return obj;
+
+  // Prevent circularity crash
+  if (seen.has(obj)) return undefined;
+
+  if (Array.isArray(obj)) {
+    seen.add(obj);
+    return obj.map(item => scrub(item, seen)).filter(v => v !== undefined);
+  }
+
+  // Strict check for Plain Old JavaScript Objects (POJOs)
+  // This correctly identifies and strips Leaflet (Q$1), Firebase, or DOM objects.
+  const isPlain = Object.prototype.toString.call(obj) === '[object Object]' &&
+                  (obj.constructor === Object || obj.constructor === undefined);
+
+  if (!isPlain) return undefined;
+
+  seen.add(obj);
+  const clean: any = {};
+  let hasProperties = false;
+
+  for (const key in obj) {
+    if (Object.prototype.hasOwnProperty.call(obj, key)) {
+      const val = scrub(obj[key], seen);
+      if (val !== undefined) {
+        clean[key] = val;
+        hasProperties = true;
+      }
+    }
+  }
+
+  return hasProperties ? clean : {};
+};
+
+// Final defense for JSON serialization
+export const safeStringify = (obj: any): string => {
+  try {
+    return JSON.stringify(scrub(obj));
+  } catch (e) {
+    console.error("Critical stringify failure:", e);
+    return "{}";
+  }
+};
+
+// Drops records that fail migration/validation so one bad document can't break a view.
+const decodeAll = <T>(raws: unknown[], decode: (raw: unknown) => T | null): T[] =>
+  raws.map(decode).filter((item): item is T => item !== null);
+
+// --- Firestore ---
+
+export interface CloudBackend {
+  db: Firestore;
+  storage: FirebaseStorage;
+}
+
+// Older clients wrote prospects and invitations without an orgId; adoptUnscoped backfills them.
+const inOrg = (orgId: string) => where('orgId', '==', orgId);
+
+// Firestore `in` filters take at most 30 values.
+const IN_QUERY_LIMIT = 30;
+
+const chunk = <T>(values: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(values.length / size) }, (_, i) => values.slice(i * size, (i + 1) * size));
+
+export const createFirestoreRepositories = ({ db, storage }: CloudBackend, orgId: string = DEFAULT_ORG_ID): Repositories => {
+  const scopedProspects = (scope: ProspectQuery): Query => scope.visibleTo
+    ? query(collection(db, 'prospects'), and(inOrg(orgId), or(where('assignedToUserId', '==', scope.visibleTo), where('createdByUserId', '==', scope.visibleTo))))
+    : query(collection(db, 'prospects'), inOrg(orgId));
+
+  const prospects: ProspectRepository = {
+    subscribe: (onChange, onError) => {
+      const q = query(collection(db, 'prospects'), inOrg(orgId), orderBy('timestamp', 'desc'));
+      return onSnapshot(q,
+        (snapshot) => onChange(decodeAll(snapshot.docs.map(d => ({ ...d.data(), id: d.id })), readProspect)),
+        (error) => onError?.(error)
+      );
+    },
+    subscribePage: (scope, onChange, onError) => {
+      const pageSize = scope.pageSize || DEFAULT_PAGE_SIZE;
+      // Needs the (orgId, timestamp) composite indexes in firestore.indexes.json; without them Firestore answers failed-precondition.
+      const scoped = scopedProspects(scope);
+
+      // Each page is its own listener. Once a later page is requested, the one before it is
+      // pinned to end at its last document, so new records arriving at the top grow the first
+      // page instead of pushing documents into the gap between pages.
+      type Page = { items: Prospect[], last?: QueryDocumentSnapshot, full: boolean, unsubscribe: Unsubscribe };
+      const pages: Page[] = [];
+      const anchors: QueryDocumentSnapshot[] = [];
+      let closed = false;
+
+      const emit = () => {
+        const seen = new Set<string>();
+        const items = pages.flatMap(p => p.items).filter(p => !seen.has(p.id) && !!seen.add(p.id));
+        onChange({ items, hasMore: pages[pages.length - 1]?.full ?? false });
+      };
+
+      const listen = (index: number) => {
+        const constraints: QueryConstraint[] = [orderBy('timestamp', 'desc')];
+        if (index > 0) constraints.push(startAfter(anchors[index - 1]));
+        constraints.push(anchors[index] ? endAt(anchors[index]) : limit(pageSize));
+        pages[index]?.unsubscribe();
+        // Keep showing the previous items while the re-bounded listener catches up.
+        const page: Page = { items: pages[index]?.items || [], full: false, unsubscribe: () => {} };
+        pages[index] = page;
+        page.unsubscribe = onSnapshot(query(scoped, ...constraints),
+          (snapshot) => {
+            page.items = decodeAll(snapshot.docs.map(d => ({ ...d.data(), id: d.id })), readProspect);
+            page.last = snapshot.docs[snapshot.docs.length - 1];
+            page.full = !anchors[index] && snapshot.size >= pageSize;
+            emit();
+          },
+          (error) => onError?.(error)
+        );
+      };
+
+      listen(0);
+      return {
+        loadMore: () => {
+          const index = pages.length - 1;
+          const current = pages[index];
+          if (closed || !current?.full || !current.last) return;
+          anchors[index] = current.last;
+          listen(index);
+          listen(index + 1);
+        },
+        unsubscribe: () => {
+          closed = true;
+          pages.forEach(p => p.unsubscribe());
+        }
+      };
+    },
+    add: async (prospect, options) => {
+      const batch = writeBatch(db);
+      batch.set(doc(db, 'prospects', prospect.id), scrub(stampProspect({ ...prospect, orgId: prospect.orgId || orgId })));
+      recordAudit(batch, [createAuditEntry(prospect.id, options?.actor, { action: 'created' })]);
+      await batch.commit();
+    },
+    update: async (prospect, options) => {
+      const ref = doc(db, 'prospects', prospect.id);
+      await runTransaction(db, async (tx) => {
+        const before = ((await tx.get(ref)).data() || {}) as Partial<Prospect>;
+        tx.set(ref, scrub(stampProspect(prospect)));
+        recordAudit(tx, diffToAudit(prospect.id, options?.actor, before, prospect));
+      });
+    },
+    patch: async (prospectId, updates, options) => {
+      const ref = doc(db, 'prospects', prospectId);
+      // undefined means "clear this field", which Firestore needs spelled out.
+      const payload = Object.fromEntries(Object.entries(updates).map(([key, value]) => [key, value === undefined ? deleteField() : scrub(value)]));
+      await runTransaction(db, async (tx) => {
+        const before = ((await tx.get(ref)).data() || {}) as Partial<Prospect>;
+        const conflicts = findConflicts(before, options?.expected);
+        if (conflicts) throw new ConflictError(conflicts);
+        tx.update(ref, payload);
+        recordAudit(tx, diffToAudit(prospectId, options?.actor, before, updates));
+      });
+    },
+    addFollowUp: async (prospectId, followUp, options) => {
+      const ref = doc(db, 'prospects', prospectId);
+      await runTransaction(db, async (tx) => {
+        const before = ((await tx.get(ref)).data() || {}) as Partial<Prospect>;
+        // arrayUnion appends server-side, so concurrent follow-ups from two preachers both survive.
+        tx.update(ref, { followUps: arrayUnion(scrub(followUp)), status: 'Followed Up' });
+        recordAudit(tx, followUpAudit(prospectId, options?.actor, before, followUp));
+      });
+    },
+    remove: async (prospectId) => {
+      await deleteDoc(doc(db, 'prospects', prospectId));
+    },
+    merge: async (targetId, sourceId, options) => {
+      const targetRef = doc(db, 'prospects', targetId);
+      const sourceRef = doc(db, 'prospects', sourceId);
+      await runTransaction(db, async (tx) => {
+        const [targetSnap, sourceSnap] = [await tx.get(targetRef), await tx.get(sourceRef)];
+        const target = readProspect({ ...targetSnap.data(), id: targetId });
+        const source = readProspect({ ...sourceSnap.data(), id: sourceId });
+        if (!target || !source) throw new Error("One of these records no longer exists.");
+        const combined = combineProspects(target, source, options?.canAssign);
+        tx.update(targetRef, Object.fromEntries(Object.entries(combined).map(([key, value]) => [key, value === undefined ? deleteField() : scrub(value)])));
+        tx.update(sourceRef, { mergedIntoId: targetId });
+        recordAudit(tx, mergeAudit(target, source, options?.actor, combined));
+      });
+    },
+    list: async (scope) => {
+      const snapshot = await getDocs(query(scopedProspects(scope), orderBy('timestamp', 'desc')));
+      return decodeAll(snapshot.docs.map(d => ({ ...d.data(), id: d.id })), readProspect).filter(p => !p.mergedIntoId);
+    },
+    // The counts are equality filters and need no extra indexes. Reading merged records needs
+    // the (orgId, mergedIntoId) composite indexes in firestore.indexes.json.
+    summarize: async (scope) => {
+      const scoped = scopedProspects(scope);
+      const count = async (...filters: QueryConstraint[]) => (await getCountFromServer(query(scoped, ...filters))).data().count;
+      const [total, baptismInterests, highHunger, followedUp, merged] = await Promise.all([
+        count(),
+        count(where('signifiedForBaptism', '==', true)),
+        count(where('aiReview.hungerLevel', '==', HungerLevel.HIGH)),
+        count(where('status', '==', 'Followed Up')),
+        getDocs(query(scoped, where('mergedIntoId', '!=', null)))
+      ]);
+      // Merged-away records stay behind as redirects. There are few, so read them and take them back out.
+      const redirects = summarizeProspects(decodeAll(merged.docs.map(d => ({ ...d.data(), id: d.id })), readProspect));
+      return {
+        total: total - redirects.total,
+        baptismInterests: baptismInterests - redirects.baptismInterests,
+        highHunger: highHunger - redirects.highHunger,
+        followedUp: followedUp - redirects.followedUp
+      };
+    },
+    // Firestore only compares exact values, so this finds the same name or phone; near-misses are
+    // caught among the loaded pages. Team members' queries are disjunctions, which allow half as many values.
+    findMatches: async (candidates, scope) => {
+      const scoped = scopedProspects(scope);
+      const size = scope.visibleTo ? IN_QUERY_LIMIT / 2 : IN_QUERY_LIMIT;
+      const unique = (values: (string | null)[]) => [...new Set(values.map(v => v?.trim()).filter((v): v is string => !!v))];
+      const lookups: [string, string[]][] = [
+        ['name', unique(candidates.map(c => c.name))],
+        ['phone', unique(candidates.map(c => c.phone))],
+        ['phoneE164', unique(candidates.map(c => toE164(c.phone)))]
+      ];
+      const snapshots = await Promise.all(lookups.flatMap(([field, values]) =>
+        chunk(values, size).map(part => getDocs(query(scoped, where(field, 'in', part))))
+      ));
+      const found = new Map<string, Prospect>();
+      snapshots.forEach(snapshot => decodeAll(snapshot.docs.map(d => ({ ...d.data(), id: d.id })), readProspect)
+        .forEach(p => { if (!p.mergedIntoId) found.set(p.id, p); }));
+      return [...found.values()];
+    }
+  };
+
+  // History lives in an append-only subcollection, written alongside the change it describes.
+  const recordAudit = (writer: { set: (ref: DocumentReference, data: AuditEntry) => unknown }, entries: AuditEntry[]) => {
+    entries.forEach(entry => writer.set(doc(db, 'prospects', entry.prospectId, 'history', entry.id), scrub(entry)));
+  };
+
+  const audit: AuditLog = {
+    subscribe: (prospectId, onChange, onError) => {
+      const q = query(collection(db, 'prospects', prospectId, 'history'), orderBy('timestamp', 'desc'));
+      return onSnapshot(q,
+        (snapshot) => onChange(snapshot.docs.map(d => ({ ...d.data(), id: d.id } as AuditEntry))),
+        (error) => onError?.(error)
+      );
+    }
+  };
+
+  const users: UserRepository = {
+    subscribe: (onChange, onError, scope) => {
+      const q = scope?.approvedOnly
+        ? query(collection(db, 'users'), where(`memberships.${orgId}.status`, '==', UserStatus.APPROVED))
+        : query(collection(db, 'users'), where('orgIds', 'array-contains', orgId));
+      return onSnapshot(q,
+        (snapshot) => onChange(decodeAll(snapshot.docs.map(d => ({ ...d.data(), id: d.id })), readUser)),
+        (error) => onError?.(error)
+      );
+    },
+    get: async (userId) => {
+      const userDoc = await getDoc(doc(db, 'users', userId));
+      return userDoc.exists() ? readUser({ ...userDoc.data(), id: userDoc.id }) : null;
+    },
+    update: async (userId, updates) => {
+      await updateDoc(doc(db, 'users', userId), scrub(updates));
+    },
+    put: async (user) => {
+      await setDoc(doc(db, 'users', user.id), scrub(stampUser(withoutCredential(user))));
+    },
+    findByEmail: async (email) => {
+      const snapshot = await getDocs(query(collection(db, 'users'), where('email', '==', email), limit(1)));
+      return snapshot.empty ? null : readUser({ ...snapshot.docs[0].data(), id: snapshot.docs[0].id });
+    },
+    // The first account claims settings/owner; the security rules keep the user directory from strangers.
+    isEmpty: async () => !(await getDoc(doc(db, 'settings', 'owner'))).exists(),
+    register: async (user, isFirstUser) => {
+      const batch = writeBatch(db);
+      batch.set(doc(db, 'users', user.id), scrub(stampUser(withoutCredential(user))));
+      if (isFirstUser) {
+        batch.set(doc(db, 'settings', 'owner'), { userId: user.id });
+        const { id, ...organization } = defaultOrganization(user);
+        batch.set(doc(db, 'organizations', id), scrub(organization));
+      }
+      await batch.commit();
+    },
+    requestMembership: async (user, joinOrgId, role) => {
+      if (membershipIn(user, joinOrgId)) return false;
+      await updateDoc(doc(db, 'users', user.id), {
+        ...scrub(membershipUpdate(user, joinOrgId, { role, status: UserStatus.PENDING })),
+        membershipOrg: joinOrgId
+      });
+      return true;
+    },
+    setMembership: async (userId, membership, updates) => {
+      const ref = doc(db, 'users', userId);
+      await runTransaction(db, async (tx) => {
+        const current = readUser({ ...(await tx.get(ref)).data(), id: userId });
+        if (!current) throw new Error("This account no longer exists.");
+        // membershipOrg tells the security rules which organization's admins may make this change.
+        tx.update(ref, { ...scrub({ ...updates, ...membershipUpdate(current, orgId, membership) }), membershipOrg: orgId });
+      });
+    }
+  };
+
+  const invitations: InvitationRepository = {
+    // Sorted here rather than in the query, which would need a composite index.
+    subscribe: (onChange, onError) => onSnapshot(query(collection(db, 'invitations'), inOrg(orgId)),
+      (snapshot) => onChange(snapshot.docs.map(d => ({ ...d.data(), id: d.id } as Invitation)).sort(bySentAt)),
+      (error) => onError?.(error)
+    ),
+    list: async () => {
+      const snapshot = await getDocs(query(collection(db, 'invitations'), inOrg(orgId)));
+      return snapshot.docs.map(d => ({ ...d.data(), id: d.id } as Invitation));
+    },
+    put: async (invitation) => {
+      const { id, ...data } = invitation;
+      await setDoc(doc(db, 'invitations', id), scrub({ ...data, orgId: data.orgId || orgId }));
+    }
+  };
+
+  const lessons: LessonSeriesRepository = {
+    subscribe: (onChange, onError) => onSnapshot(query(collection(db, 'lessonSeries'), inOrg(orgId)),
+      (snapshot) => onChange(snapshot.docs.map(d => ({ ...d.data(), id: d.id } as LessonSeries)).sort(byTitle)),
+      (error) => onError?.(error)
+    ),
+    put: async (series) => {
+      const { id, ...data } = series;
+      await setDoc(doc(db, 'lessonSeries', id), scrub({ ...data, orgId: data.orgId || orgId }));
+    },
+    remove: async (seriesId) => {
+      await deleteDoc(doc(db, 'lessonSeries', seriesId));
+    }
+  };
+
+  const prompts: PromptTemplateRepository = {
+    subscribe: (onChange, onError) => onSnapshot(query(collection(db, 'promptTemplates'), inOrg(orgId)),
+      (snapshot) => onChange(snapshot.docs.map(d => ({ ...d.data(), id: d.id } as PromptTemplate))),
+      (error) => onError?.(error)
+    ),
+    put: async (template) => {
+      const { id, ...data } = template;
+      await setDoc(doc(db, 'promptTemplates', id), scrub({ ...data, orgId: data.orgId || orgId }));
+    }
+  };
+
+  const usage: AIUsageLog = {
+    // Equality filters only, so the query needs no composite index.
+    subscribe: (scope, onChange, onError) => {
+      if (scope.days.length === 0) {
+        onChange([]);
+        return () => {};
+      }
+      const filters = [inOrg(orgId), where('day', 'in', scope.days.slice(0, IN_QUERY_LIMIT))];
+      if (scope.userId) filters.push(where('userId', '==', scope.userId));
+      return onSnapshot(query(collection(db, 'aiUsage'), ...filters),
+        (snapshot) => onChange(snapshot.docs.map(d => ({ ...d.data(), id: d.id } as AIUsageEntry)).sort(newestFirst)),
+        (error) => onError?.(error)
+      );
+    },
+    add: async (entry) => {
+      const { id, ...data } = entry;
+      await setDoc(doc(db, 'aiUsage', id), scrub({ ...data, orgId: data.orgId || orgId }));
+    }
+  };
+
+  const organizations: OrganizationRepository = {
+    subscribe: (orgIds, onChange, onError) => {
+      if (orgIds.length === 0) {
+        onChange([]);
+        return () => {};
+      }
+      // One listener per congregation: the rules let members read their own congregations' documents, not query across them.
+      const loaded = new Map<string, Organization>();
+      const unsubscribes = orgIds.map(id => onSnapshot(doc(db, 'organizations', id),
+        (snapshot) => {
+          if (snapshot.exists()) loaded.set(id, { ...snapshot.data(), id } as Organization);
+          else loaded.delete(id);
+          onChange(orgIds.flatMap(orgId => loaded.get(orgId) || []));
+        },
+        (error) => onError?.(error)
+      ));
+      return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    },
+    create: async (organization, owner) => {
+      const { id, ...data } = organization;
+      const batch = writeBatch(db);
+      batch.set(doc(db, 'organizations', id), scrub(data));
+      batch.update(doc(db, 'users', owner.id), {
+        ...scrub(membershipUpdate(owner, id, { role: UserRole.SUPER_ADMIN, status: UserStatus.APPROVED })),
+        membershipOrg: id
+      });
+      await batch.commit();
+    },
+    update: async (orgId, updates) => {
+      const { id, ...data } = updates;
+      const fields = scrub(data);
+      // Each setting is replaced whole; a deep merge would keep limits and terms that were removed.
+      await setDoc(doc(db, 'organizations', orgId), fields, { mergeFields: Object.keys(fields) });
+    },
+    adoptUnscoped: async () => {
+      // There is no query for a missing field, so this reads everything once.
+      const [prospectDocs, invitationDocs, userDocs] = await Promise.all(
+        ['prospects', 'invitations', 'users'].map(name => getDocs(collection(db, name)))
+      );
+      const writes: { ref: DocumentReference, data: Record<string, unknown> }[] = [
+        ...[...prospectDocs.docs, ...invitationDocs.docs]
+          .filter(d => !d.data().orgId)
+          .map(d => ({ ref: d.ref, data: { orgId: DEFAULT_ORG_ID } })),
+        ...userDocs.docs
+          .filter(d => !d.data().memberships)
+          .flatMap(d => {
+            const user = readUser({ ...d.data(), id: d.id });
+            return user ? [{ ref: d.ref, data: { memberships: user.memberships, orgIds: user.orgIds, membershipOrg: DEFAULT_ORG_ID } }] : [];
+          })
+      ];
+      // Batches are capped at 500 writes.
+      for (let i = 0; i < writes.length; i += 400) {
+        const batch = writeBatch(db);
+        writes.slice(i, i + 400).forEach(w => batch.update(w.ref, scrub(w.data)));
+        await batch.commit();
+      }
+      return writes.length;
+    }
+  };
+
+  return { mode: 'firestore', orgId, prospects, users, photos: createFirebasePhotoStore(storage), audio: createFirebaseAudioStore(storage), audit, invitations, lessons, prompts, usage, organizations };
+};
+
+// --- Key/value backed (localStorage and in-memory) ---
+
+interface KeyValueStore {
+  read: (key: string) => string | null;
+  write: (key: string, value: string) => void;
+  remove: (key: string) => void;
+  watch?: (key: string, onExternalChange: () => void) => Unsubscribe;
+}
+
+const PROSPECTS_KEY = 'evangelism_prospects';
+const USERS_KEY = 'evangelism_users';
+const AUDIT_KEY = 'evangelism_audit';
+const INVITATIONS_KEY = 'evangelism_invitations';
+const ORGANIZATIONS_KEY = 'evangelism_organizations';
+const LESSON_SERIES_KEY = 'evangelism_lesson_series';
+const PROMPT_TEMPLATES_KEY = 'evangelism_prompt_templates';
+const AI_USAGE_KEY = 'evangelism_ai_usage';
+// Browser storage is small, so the local ledger only keeps what the usage report can show.
+const AI_USAGE_RETENTION_DAYS = 31;
+
+/**
+ * Builds a list-backed collection over a single store key. Listeners are
+ * notified in-process on every write, and across tabs when the store supports it.
+ */
+const createListCollection = <T extends { id: string }>(store: KeyValueStore, key: string, decode: (raw: unknown) => T | null = raw => raw as T, kind?: 'prospect' | 'user') => {
+  const listeners = new Set<(items: T[]) => void>();
+
+  const load = (): T[] => {
+    const raw = store.read(key);
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) return [];
+      const items = decodeAll(parsed, decode);
+      // Persist upgraded records so migrations only run once per browser.
+      if (kind && parsed.some(p => needsUpgrade(p, kind))) store.write(key, safeStringify(items));
+      return items;
+    } catch (e) {
+      store.remove(key);
+      return [];
+    }
+  };
+
+  const save = (items: T[]) => {
+    store.write(key, safeStringify(items));
+    listeners.forEach(listener => listener(items));
+  };
+
+  const subscribe = (onChange: (items: T[]) => void): Unsubscribe => {
+    listeners.add(onChange);
+    onChange(load());
+    const unwatch = store.watch?.(key, () => onChange(load())) || (() => {});
+    return () => { listeners.delete(onChange); unwatch(); };
+  };
+
+  return { load, save, subscribe };
+};
+
+const createKeyValueRepositories = (store: KeyValueStore, mode: RepositoryMode, orgId: string): Repositories => {
+  const prospectList = createListCollection<Prospect>(store, PROSPECTS_KEY, readProspect, 'prospect');
+  const userList = createListCollection<User>(store, USERS_KEY, readUser, 'user');
+  const auditList = createListCollection<AuditEntry>(store, AUDIT_KEY);
+  const invitationList = createListCollection<Invitation>(store, INVITATIONS_KEY);
+  const organizationList = createListCollection<Organization>(store, ORGANIZATIONS_KEY);
+  const lessonSeriesList = createListCollection<LessonSeries>(store, LESSON_SERIES_KEY);
+  const promptTemplateList = createListCollection<PromptTemplate>(store, PROMPT_TEMPLATES_KEY);
+  const usageList = createListCollection<AIUsageEntry>(store, AI_USAGE_KEY);
+
+  const ownProspects = (items: Prospect[]) => items.filter(p => orgOf(p) === orgId);
+
+  const recordAudit = (entries: AuditEntry[]) => {
+    if (entries.length > 0) auditList.save([...auditList.load(), ...entries.map(e => scrub(e))]);
+  };
+  const findProspect = (prospectId: string) => prospectList.load().find(p => p.id === prospectId) || {};
+
+  const prospects: ProspectRepository = {
+    subscribe: (onChange) => prospectList.subscribe(items => onChange(ownProspects(items))),
+    subscribePage: (scope, onChange) => {
+      const pageSize = scope.pageSize || DEFAULT_PAGE_SIZE;
+      let pageCount = 1;
+      let latest: Prospect[] = [];
+      const emit = () => {
+        const visible = latest
+          .filter(p => matchesProspectQuery(p, scope))
+          .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+        onChange({ items: visible.slice(0, pageCount * pageSize), hasMore: visible.length > pageCount * pageSize });
+      };
+      const unsubscribe = prospectList.subscribe((items) => { latest = ownProspects(items); emit(); });
+      return { loadMore: () => { pageCount++; emit(); }, unsubscribe };
+    },
+    add: async (prospect, options) => {
+      prospectList.save([scrub(stampProspect({ ...prospect, orgId: prospect.orgId || orgId })), ...prospectList.load()]);
+      recordAudit([createAuditEntry(prospect.id, options?.actor, { action: 'created' })]);
+    },
+    update: async (prospect, options) => {
+      const before = findProspect(prospect.id);
+      const data = scrub(stampProspect(prospect));
+      prospectList.save(prospectList.load().map(p => p.id === prospect.id ? data : p));
+      recordAudit(diffToAudit(prospect.id, options?.actor, before, prospect));
+    },
+    patch: async (prospectId, updates, options) => {
+      const before = findProspect(prospectId);
+      const conflicts = findConflicts(before, options?.expected);
+      if (conflicts) throw new ConflictError(conflicts);
+      prospectList.save(prospectList.load().map(p => p.id === prospectId ? scrub({ ...p, ...updates }) : p));
+      recordAudit(diffToAudit(prospectId, options?.actor, before, updates));
+    },
+    addFollowUp: async (prospectId, followUp, options) => {
+      const before = findProspect(prospectId);
+      prospectList.save(prospectList.load().map(p => p.id === prospectId
+        ? { ...p, followUps: [...p.followUps, scrub(followUp)], status: 'Followed Up' as const }
+        : p));
+      recordAudit(followUpAudit(prospectId, options?.actor, before, followUp));
+    },
+    remove: async (prospectId) => {
+      prospectList.save(prospectList.load().filter(p => p.id !== prospectId));
+    },
+    merge: async (targetId, sourceId, options) => {
+      const items = prospectList.load();
+      const target = items.find(p => p.id === targetId);
+      const source = items.find(p => p.id === sourceId);
+      if (!target || !source) throw new Error("One of these records no longer exists.");
+      const combined = combineProspects(target, source, options?.canAssign);
+      prospectList.save(items.map(p =>
+        p.id === targetId ? scrub({ ...p, ...combined }) :
+        p.id === sourceId ? { ...p, mergedIntoId: targetId } : p
+      ));
+      recordAudit(mergeAudit(target, source, options?.actor, combined));
+    },
+    list: async (scope) => ownProspects(prospectList.load())
+      .filter(p => !p.mergedIntoId && matchesProspectQuery(p, scope))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp)),
+    summarize: async (scope) => summarizeProspects(ownProspects(prospectList.load()).filter(p => !p.mergedIntoId && matchesProspectQuery(p, scope))),
+    findMatches: async (candidates, scope) => {
+      const names = new Set(candidates.map(c => normalizeName(c.name)).filter(Boolean));
+      const phones = new Set(candidates.map(c => normalizePhone(toE164(c.phone) || c.phone)).filter(phone => phone.length >= 7));
+      return ownProspects(prospectList.load()).filter(p => !p.mergedIntoId && matchesProspectQuery(p, scope)
+        && (names.has(normalizeName(p.name)) || phones.has(normalizePhone(p.phoneE164 || p.phone))));
+    }
+  };
+
+  const audit: AuditLog = {
+    subscribe: (prospectId, onChange) => auditList.subscribe(entries => onChange(
+      entries.filter(e => e.prospectId === prospectId).sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    ))
+  };
+
+  const users: UserRepository = {
+    subscribe: (onChange, _onError, scope) => userList.subscribe(items => onChange(items.filter(u => {
+      const membership = membershipIn(u, orgId);
+      return membership && (!scope?.approvedOnly || membership.status === UserStatus.APPROVED);
+    }))),
+    get: async (userId) => userList.load().find(u => u.id === userId) || null,
+    update: async (userId, updates) => {
+      const data = scrub(updates);
+      userList.save(userList.load().map(u => u.id === userId ? { ...u, ...data } : u));
+    },
+    put: async (user) => {
+      const data = scrub(stampUser(user));
+      userList.save([...userList.load().filter(u => u.id !== user.id), data]);
+    },
+    findByEmail: async (email) => userList.load().find(u => u.email.trim().toLowerCase() === email) || null,
+    isEmpty: async () => userList.load().length === 0,
+    setMembership: async (userId, membership, updates) => {
+      userList.save(userList.load().map(u => u.id === userId ? { ...u, ...scrub({ ...updates, ...membershipUpdate(u, orgId, membership) }) } : u));
+    },
+    register: async (user, isFirstUser) => {
+      userList.save([...userList.load().filter(u => u.id !== user.id), scrub(stampUser(user))]);
+      if (isFirstUser && !organizationList.load().some(o => o.id === DEFAULT_ORG_ID)) {
+        organizationList.save([...organizationList.load(), scrub(defaultOrganization(user))]);
+      }
+    },
+    requestMembership: async (user, joinOrgId, role) => {
+      if (membershipIn(user, joinOrgId)) return false;
+      const membership = { role, status: UserStatus.PENDING };
+      userList.save(userList.load().map(u => u.id === user.id ? { ...u, ...scrub(membershipUpdate(u, joinOrgId, membership)) } : u));
+      return true;
+    }
+  };
+
+  const invitations: InvitationRepository = {
+    subscribe: (onChange) => invitationList.subscribe(items => onChange(items.filter(i => orgOf(i) === orgId).sort(bySentAt))),
+    list: async () => invitationList.load().filter(i => orgOf(i) === orgId),
+    put: async (invitation) => {
+      invitationList.save([...invitationList.load().filter(i => i.id !== invitation.id), scrub({ ...invitation, orgId: invitation.orgId || orgId })]);
+    }
+  };
+
+  const lessons: LessonSeriesRepository = {
+    subscribe: (onChange) => lessonSeriesList.subscribe(items => onChange(items.filter(s => orgOf(s) === orgId).sort(byTitle))),
+    put: async (series) => {
+      lessonSeriesList.save([...lessonSeriesList.load().filter(s => s.id !== series.id), scrub({ ...series, orgId: series.orgId || orgId })]);
+    },
+    remove: async (seriesId) => {
+      lessonSeriesList.save(lessonSeriesList.load().filter(s => s.id !== seriesId));
+    }
+  };
+
+  const prompts: PromptTemplateRepository = {
+    subscribe: (onChange) => promptTemplateList.subscribe(items => onChange(items.filter(t => orgOf(t) === orgId))),
+    put: async (template) => {
+      promptTemplateList.save([...promptTemplateList.load().filter(t => t.id !== template.id), scrub({ ...template, orgId: template.orgId || orgId })]);
+    }
+  };
+
+  const usage: AIUsageLog = {
+    subscribe: (scope, onChange) => usageList.subscribe(items => onChange(items
+      .filter(e => orgOf(e) === orgId && scope.days.includes(e.day) && (!scope.userId || e.userId === scope.userId))
+      .sort(newestFirst)
+    )),
+    add: async (entry) => {
+      const cutoff = new Date(Date.now() - AI_USAGE_RETENTION_DAYS * 86400000).toISOString();
+      usageList.save([...usageList.load().filter(e => e.timestamp >= cutoff), scrub({ ...entry, orgId: entry.orgId || orgId })]);
+    }
+  };
+
+  const organizations: OrganizationRepository = {
+    subscribe: (orgIds, onChange) => organizationList.subscribe(items => onChange(items.filter(o => orgIds.includes(o.id)))),
+    create: async (organization, owner) => {
+      organizationList.save([...organizationList.load(), scrub(organization)]);
+      const membership = { role: UserRole.SUPER_ADMIN, status: UserStatus.APPROVED };
+      userList.save(userList.load().map(u => u.id === owner.id ? { ...u, ...scrub(membershipUpdate(u, organization.id, membership)) } : u));
+    },
+    update: async (orgId, updates) => {
+      const { id, ...data } = updates;
+      const existing = organizationList.load().find(o => o.id === orgId);
+      const organization = existing || { id: orgId, name: organizationName([], orgId), createdAt: new Date().toISOString() };
+      organizationList.save([...organizationList.load().filter(o => o.id !== orgId), scrub({ ...organization, ...data })]);
+    },
+    // Stored records are upgraded, orgId included, whenever they are loaded.
+    adoptUnscoped: async () => 0
+  };
+
+  return { mode, orgId, prospects, users, photos: createLocalPhotoStore(), audio: createLocalAudioStore(), audit, invitations, lessons, prompts, usage, organizations };
+};
+
+const browserStore: KeyValueStore = {
+  read: (key) => localStorage.getItem(key),
+  write: (key, value) => localStorage.setItem(key, value),
+  remove: (key) => localStorage.removeItem(key),
+  watch: (key, onExternalChange) => {
+    const handler = (e: StorageEvent) => { if (e.key === key) onExternalChange(); };
+    window.addEventListener('storage', handler);
+    return () => window.removeEventListener('storage', handler);
+  }
+};
+
+const createMemoryStore = (seed: Record<string, string> = {}): KeyValueStore => {
+  const data = new Map(Object.entries(seed));
+  return {
+    read: (key) => data.get(key) ?? null,
+    write: (key, value) => { data.set(key, value); },
+    remove: (key) => { data.delete(key); }
+  };
+};
+
+export const createLocalRepositories = (orgId: string = DEFAULT_ORG_ID): Repositories => createKeyValueRepositories(browserStore, 'local', orgId);
+
+export const createMemoryRepositories = (seed?: { prospects?: Prospect[], users?: User[] }, orgId: string = DEFAULT_ORG_ID): Repositories => {
+  const store = createMemoryStore({
+    ...(seed?.prospects ? { [PROSPECTS_KEY]: safeStringify(seed.prospects) } : {}),
+    ...(seed?.users ? { [USERS_KEY]: safeStringify(seed.users) } : {})
+  });
+  return createKeyValueRepositories(store, 'memory', orgId);
+};
+
+/**
+ * Picks the backend once for the lifetime of a connection, bound to one
+ * organization. Components receive the resulting repositories and never
+ * branch on cloud vs. local, or filter by organization, themselves.
+ */
+export const createRepositories = (cloud?: CloudBackend, orgId: string = DEFAULT_ORG_ID): Repositories => {
+  return cloud ? createFirestoreRepositories(cloud, orgId) : createLocalRepositories(orgId);
+};
@@ -0,0 +1,11 @@
+
+// Hands generated text to the browser as a file download.
+export const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
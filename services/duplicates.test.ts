@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { Prospect } from '../types';
+import { combineProspects } from './duplicates';
+
+const prospect = (id: string, fields: Partial<Prospect> = {}): Prospect => ({
+  id,
+  name: 'Maria Lopez',
+  phone: '',
+  preachingNotes: '',
+  followUps: [],
+  timestamp: '2024-03-01T10:00:00.000Z',
+  preacherName: 'Ana',
+  status: 'New',
+  signifiedForBaptism: false,
+  ...fields
+});
+
+describe('combineProspects', () => {
+  it('takes the normalized number along with a phone from the source record', () => {
+    const combined = combineProspects(prospect('target'), prospect('source', { phone: '(555) 010-2233', phoneE164: '+15550102233' }));
+    expect(combined).toMatchObject({ phone: '(555) 010-2233', phoneE164: '+15550102233' });
+  });
+
+  it("keeps the target's number when both records have one", () => {
+    const combined = combineProspects(
+      prospect('target', { phone: '555 010 9999', phoneE164: '+15550109999' }),
+      prospect('source', { phone: '(555) 010-2233', phoneE164: '+15550102233' })
+    );
+    expect(combined).toMatchObject({ phone: '555 010 9999', phoneE164: '+15550109999' });
+  });
+
+  it('leaves the assignment out unless the merger may assign', () => {
+    const source = prospect('source', { assignedToUserId: 'u2', assignedToUserName: 'Ben' });
+    expect(combineProspects(prospect('target'), source)).not.toHaveProperty('assignedToUserId');
+    expect(combineProspects(prospect('target'), source)).not.toHaveProperty('assignedToUserName');
+    expect(combineProspects(prospect('target'), source, true)).toMatchObject({ assignedToUserId: 'u2', assignedToUserName: 'Ben' });
+  });
+});
@@ -0,0 +1,123 @@
+
+import { Prospect } from '../types';
+
+export interface DuplicateMatch {
+  prospect: Prospect;
+  score: number;
+  reasons: string[];
+}
+
+// Country codes and trunk prefixes vary between entries, so compare the trailing digits.
+const PHONE_MATCH_DIGITS = 9;
+const NAME_MATCH_THRESHOLD = 0.8;
+const NEARBY_METERS = 150;
+const REPORT_THRESHOLD = 0.6;
+
+export const normalizePhone = (phone: string) => phone.replace(/\D/g, '').slice(-PHONE_MATCH_DIGITS);
+
+export const normalizeName = (name: string) => name
+  .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase().replace(/[^a-z\s]/g, '').split(/\s+/).filter(Boolean).sort().join(' ');
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for identical names, regardless of word order, accents or punctuation.
+export const nameSimilarity = (a: string, b: string) => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+};
+
+export const distanceMeters = (a: { lat: number, lng: number }, b: { lat: number, lng: number }) => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Scores existing prospects against a new or edited entry. A matching phone is
+ * strong evidence on its own; a similar name only counts with a second signal
+ * unless it is a near-exact match.
+ */
+export const findDuplicates = (candidate: Pick<Prospect, 'name' | 'phone'> & Partial<Pick<Prospect, 'id' | 'coordinates' | 'phoneE164'>>, prospects: Prospect[]): DuplicateMatch[] => {
+  const phone = normalizePhone(candidate.phoneE164 || candidate.phone || '');
+
+  return prospects
+    .filter(p => p.id !== candidate.id && !p.mergedIntoId)
+    .map(p => {
+      const reasons: string[] = [];
+      let score = 0;
+      if (phone.length >= 7 && normalizePhone(p.phoneE164 || p.phone) === phone) {
+        score += 0.7;
+        reasons.push('Same phone number');
+      }
+      const similarity = nameSimilarity(candidate.name || '', p.name);
+      if (similarity >= NAME_MATCH_THRESHOLD) {
+        score += similarity >= 0.95 ? 0.6 : 0.4;
+        reasons.push(similarity >= 0.95 ? 'Same name' : 'Similar name');
+      }
+      if (candidate.coordinates && p.coordinates && distanceMeters(candidate.coordinates, p.coordinates) <= NEARBY_METERS) {
+        score += 0.2;
+        reasons.push('Met nearby');
+      }
+      return { prospect: p, score: Math.min(1, score), reasons };
+    })
+    .filter(m => m.score >= REPORT_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+};
+
+const STATUS_RANK: Record<Prospect['status'], number> = { 'New': 0, 'Followed Up': 1, 'Member': 2 };
+
+/**
+ * Folds `source` into `target`. The target's values win where both are set;
+ * notes and follow-ups from both records are kept. Assignment is admin-only,
+ * so unless `canAssign` the target keeps its own and the result leaves it out.
+ */
+export const combineProspects = (target: Prospect, source: Prospect, canAssign = false): Partial<Prospect> => {
+  const followUps = [...target.followUps, ...source.followUps.filter(f => !target.followUps.some(t => t.id === f.id))]
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const photos = [...(target.photos || []), ...(source.photos || []).filter(p => !target.photos?.some(t => t.id === p.id))];
+  const voiceNotes = [...(target.voiceNotes || []), ...(source.voiceNotes || []).filter(v => !target.voiceNotes?.some(t => t.id === v.id))];
+  const aiReviewHistory = [...(target.aiReviewHistory || []), ...(source.aiReviewHistory || [])]
+    .sort((a, b) => a.assessedAt.localeCompare(b.assessedAt));
+  const sourceNotes = source.preachingNotes.trim();
+  const preachingNotes = sourceNotes && sourceNotes !== target.preachingNotes.trim()
+    ? `${target.preachingNotes}\n\n— Merged from ${source.preacherName}'s entry (${source.timestamp.slice(0, 10)}) —\n${sourceNotes}`
+    : target.preachingNotes;
+  const assignment = target.assignedToUserId ? target : source;
+  // The normalized number belongs with whichever phone is kept.
+  const phoneFrom = target.phone ? target : source;
+
+  return {
+    phone: phoneFrom.phone,
+    phoneE164: phoneFrom.phoneE164,
+    manualAddress: target.manualAddress || source.manualAddress,
+    preferredLanguage: target.preferredLanguage || source.preferredLanguage,
+    coordinates: target.coordinates || source.coordinates,
+    preachingNotes,
+    followUps,
+    photos: photos.length > 0 ? photos : undefined,
+    voiceNotes: voiceNotes.length > 0 ? voiceNotes : undefined,
+    aiReview: target.aiReview || source.aiReview,
+    aiReviewHistory: aiReviewHistory.length > 0 ? aiReviewHistory : undefined,
+    study: target.study || source.study,
+    status: STATUS_RANK[source.status] > STATUS_RANK[target.status] ? source.status : target.status,
+    signifiedForBaptism: target.signifiedForBaptism || source.signifiedForBaptism,
+    ...(target.sensitiveNotes || source.sensitiveNotes ? { sensitiveNotes: true } : {}),
+    ...(canAssign ? { assignedToUserId: assignment.assignedToUserId, assignedToUserName: assignment.assignedToUserName } : {}),
+    timestamp: source.timestamp < target.timestamp ? source.timestamp : target.timestamp
+  };
+};
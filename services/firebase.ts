@@ -2,6 +2,7 @@
 import { initializeApp, FirebaseApp, getApp, getApps, deleteApp } from "firebase/app";
 import { getAuth, GoogleAuthProvider, Auth, setPersistence, browserLocalPersistence } from "firebase/auth";
 import { getFirestore, Firestore } from "firebase/firestore";
+import { getStorage, FirebaseStorage } from "firebase/storage";
 
 export interface FirebaseConfig {
   apiKey: string;
@@ -39,6 +40,7 @@ export const isFirebaseConfigured = !!activeConfig?.apiKey;
 let app: FirebaseApp | undefined;
 let auth: Auth | undefined;
 let db: Firestore | undefined;
+let storage: FirebaseStorage | undefined;
 let googleProvider: GoogleAuthProvider | undefined;
 
 export const initFirebase = async (config: FirebaseConfig) => {
@@ -50,13 +52,14 @@ export const initFirebase = async (config: FirebaseConfig) => {
     app = initializeApp(config);
     auth = getAuth(app);
     db = getFirestore(app);
+    storage = getStorage(app);
     googleProvider = new GoogleAuthProvider();
     
     // Ensure persistence is set for long-running sessions
     await setPersistence(auth, browserLocalPersistence);
     
     localStorage.setItem('harvest_hub_cloud_config', JSON.stringify(config));
-    return { auth, db, googleProvider };
+    return { auth, db, storage, googleProvider };
   } catch (error) {
     console.error("Firebase initialization failed:", error);
     return null;
@@ -67,4 +70,4 @@ if (isFirebaseConfigured && activeConfig) {
   initFirebase(activeConfig);
 }
 
-export { app, auth, db, googleProvider };
+export { app, auth, db, storage, googleProvider };
@@ -0,0 +1,290 @@
+
+import { describe, it, beforeAll, beforeEach, afterAll } from 'vitest';
+import { initializeTestEnvironment, assertFails, assertSucceeds, RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { Firestore, doc, getDoc, getDocs, setDoc, updateDoc, deleteDoc, collection, query, where, limit, writeBatch } from 'firebase/firestore';
+import { UserRole, UserStatus } from '../types';
+import { DEFAULT_ORG_ID } from './organizations';
+import { generateFirestoreRules } from './firestoreRules';
+
+/**
+ * Runs the generated rules against the Firestore emulator; `npm run test:rules`
+ * starts it. Without the emulator (plain `npm test`) the suite is skipped.
+ * Accounts cover each role and status in the main congregation, plus an admin
+ * of another congregation and a signed-in stranger with no profile yet.
+ */
+const OTHER_ORG_ID = 'other';
+const CREATED_AT = '2024-01-01T00:00:00.000Z';
+
+const profile = (name: string, role: UserRole, status: UserStatus, orgId = DEFAULT_ORG_ID) => ({
+  name,
+  email: `${name}@example.org`,
+  role,
+  status,
+  memberships: { [orgId]: { role, status } },
+  orgIds: [orgId],
+  createdAt: CREATED_AT
+});
+
+const PROFILES = {
+  owner: profile('owner', UserRole.SUPER_ADMIN, UserStatus.APPROVED),
+  admin: profile('admin', UserRole.ADMIN, UserStatus.APPROVED),
+  member: profile('member', UserRole.TEAM_MEMBER, UserStatus.APPROVED),
+  pending: profile('pending', UserRole.TEAM_MEMBER, UserStatus.PENDING),
+  rejected: profile('rejected', UserRole.TEAM_MEMBER, UserStatus.REJECTED),
+  outsider: profile('outsider', UserRole.ADMIN, UserStatus.APPROVED, OTHER_ORG_ID)
+};
+
+type Account = keyof typeof PROFILES | 'stranger';
+
+const PROSPECTS = {
+  mine: { name: 'Assigned to member', orgId: DEFAULT_ORG_ID, createdByUserId: 'member', assignedToUserId: 'member' },
+  theirs: { name: 'Assigned to admin', orgId: DEFAULT_ORG_ID, createdByUserId: 'admin', assignedToUserId: 'admin' },
+  elsewhere: { name: 'Other congregation', orgId: OTHER_ORG_ID, createdByUserId: 'outsider', assignedToUserId: 'outsider' }
+};
+
+let env: RulesTestEnvironment;
+
+const describeRules = describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST);
+
+const as = (account: Account): Firestore => env.authenticatedContext(account).firestore() as unknown as Firestore;
+
+const membershipChange = (user: keyof typeof PROFILES, orgId: string, membership: { role: UserRole, status: UserStatus }, status?: UserStatus) => {
+  const current = PROFILES[user];
+  return {
+    memberships: { ...current.memberships, [orgId]: membership },
+    orgIds: current.orgIds.includes(orgId) ? current.orgIds : [...current.orgIds, orgId],
+    status: status || current.status,
+    membershipOrg: orgId
+  };
+};
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: 'demo-harvest-hub',
+    firestore: { rules: generateFirestoreRules() }
+  });
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await env.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore() as unknown as Firestore;
+    await setDoc(doc(db, 'settings', 'owner'), { userId: 'owner' });
+    await setDoc(doc(db, 'organizations', DEFAULT_ORG_ID), { name: 'Main Congregation', createdAt: CREATED_AT, createdByUserId: 'owner' });
+    await setDoc(doc(db, 'organizations', OTHER_ORG_ID), { name: 'Other', createdAt: CREATED_AT, createdByUserId: 'outsider' });
+    for (const [id, data] of Object.entries(PROFILES)) await setDoc(doc(db, 'users', id), data);
+    for (const [id, data] of Object.entries(PROSPECTS)) await setDoc(doc(db, 'prospects', id), data);
+  });
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+describeRules('prospect access by role, status and congregation', () => {
+  const visible: Record<Account, (keyof typeof PROSPECTS)[]> = {
+    owner: ['mine', 'theirs', 'elsewhere'],
+    admin: ['mine', 'theirs'],
+    member: ['mine'],
+    pending: [],
+    rejected: [],
+    outsider: ['elsewhere'],
+    stranger: []
+  };
+
+  for (const [account, allowed] of Object.entries(visible) as [Account, (keyof typeof PROSPECTS)[]][]) {
+    for (const prospectId of Object.keys(PROSPECTS) as (keyof typeof PROSPECTS)[]) {
+      const expected = allowed.includes(prospectId);
+      it(`${account} ${expected ? 'can' : 'cannot'} read ${prospectId}`, async () => {
+        const read = getDoc(doc(as(account), 'prospects', prospectId));
+        await (expected ? assertSucceeds(read) : assertFails(read));
+      });
+    }
+  }
+
+  it('nobody reads prospects signed out', async () => {
+    await assertFails(getDoc(doc(env.unauthenticatedContext().firestore() as unknown as Firestore, 'prospects', 'mine')));
+  });
+
+  it('only admins reassign a prospect', async () => {
+    await assertFails(updateDoc(doc(as('member'), 'prospects', 'mine'), { assignedToUserId: 'admin' }));
+    await assertSucceeds(updateDoc(doc(as('admin'), 'prospects', 'mine'), { assignedToUserId: 'admin' }));
+  });
+
+  it('an admin cannot move a prospect to another congregation', async () => {
+    await assertFails(updateDoc(doc(as('admin'), 'prospects', 'mine'), { orgId: OTHER_ORG_ID }));
+  });
+});
+
+describeRules('invitations', () => {
+  const invitation = { email: 'new@example.org', role: UserRole.TEAM_MEMBER, invitedBy: 'x', sentAt: CREATED_AT, status: 'Sent', orgId: DEFAULT_ORG_ID };
+  const canInvite: Record<Account, boolean> = { owner: true, admin: true, member: false, pending: false, rejected: false, outsider: false, stranger: false };
+
+  for (const [account, expected] of Object.entries(canInvite) as [Account, boolean][]) {
+    it(`${account} ${expected ? 'can' : 'cannot'} invite to the main congregation`, async () => {
+      const write = setDoc(doc(as(account), 'invitations', `from-${account}`), invitation);
+      await (expected ? assertSucceeds(write) : assertFails(write));
+    });
+  }
+});
+
+describeRules('account status', () => {
+  it('a pending member cannot approve themselves', async () => {
+    await assertFails(updateDoc(doc(as('pending'), 'users', 'pending'),
+      membershipChange('pending', DEFAULT_ORG_ID, { role: UserRole.TEAM_MEMBER, status: UserStatus.APPROVED }, UserStatus.APPROVED)));
+  });
+
+  it('a pending member cannot turn a join request into an approved account', async () => {
+    await assertFails(updateDoc(doc(as('pending'), 'users', 'pending'),
+      membershipChange('pending', OTHER_ORG_ID, { role: UserRole.TEAM_MEMBER, status: UserStatus.PENDING }, UserStatus.APPROVED)));
+  });
+
+  it('a pending member may ask to join another congregation', async () => {
+    await assertSucceeds(updateDoc(doc(as('pending'), 'users', 'pending'),
+      membershipChange('pending', OTHER_ORG_ID, { role: UserRole.TEAM_MEMBER, status: UserStatus.PENDING })));
+  });
+
+  it('a rejected member may ask to join another congregation, becoming pending', async () => {
+    await assertSucceeds(updateDoc(doc(as('rejected'), 'users', 'rejected'),
+      membershipChange('rejected', OTHER_ORG_ID, { role: UserRole.TEAM_MEMBER, status: UserStatus.PENDING }, UserStatus.PENDING)));
+  });
+
+  it('a member edits their profile but not their role', async () => {
+    await assertSucceeds(updateDoc(doc(as('member'), 'users', 'member'), { name: 'Renamed' }));
+    await assertFails(updateDoc(doc(as('member'), 'users', 'member'), { role: UserRole.SUPER_ADMIN }));
+  });
+
+  it('admins approve team members, but only SuperAdmins grant admin roles', async () => {
+    await assertSucceeds(updateDoc(doc(as('admin'), 'users', 'pending'),
+      membershipChange('pending', DEFAULT_ORG_ID, { role: UserRole.TEAM_MEMBER, status: UserStatus.APPROVED }, UserStatus.APPROVED)));
+    await assertFails(updateDoc(doc(as('admin'), 'users', 'member'),
+      membershipChange('member', DEFAULT_ORG_ID, { role: UserRole.ADMIN, status: UserStatus.APPROVED })));
+    await assertSucceeds(updateDoc(doc(as('owner'), 'users', 'member'),
+      membershipChange('member', DEFAULT_ORG_ID, { role: UserRole.ADMIN, status: UserStatus.APPROVED })));
+  });
+
+  it("another congregation's admin cannot approve members here", async () => {
+    await assertFails(updateDoc(doc(as('outsider'), 'users', 'pending'),
+      membershipChange('pending', DEFAULT_ORG_ID, { role: UserRole.TEAM_MEMBER, status: UserStatus.APPROVED }, UserStatus.APPROVED)));
+  });
+});
+
+describeRules('sign-up', () => {
+  it('a new account starts out pending', async () => {
+    await assertSucceeds(setDoc(doc(as('stranger'), 'users', 'stranger'), profile('stranger', UserRole.TEAM_MEMBER, UserStatus.PENDING)));
+  });
+
+  it('a new account cannot claim ownership once the workspace has an owner', async () => {
+    const db = as('stranger');
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'users', 'stranger'), profile('stranger', UserRole.SUPER_ADMIN, UserStatus.APPROVED));
+    batch.set(doc(db, 'settings', 'owner'), { userId: 'stranger' });
+    await assertFails(batch.commit());
+  });
+
+  it('sign-up learns whether the workspace is empty without reading the user directory', async () => {
+    await assertSucceeds(getDoc(doc(as('stranger'), 'settings', 'owner')));
+    await assertFails(getDocs(query(collection(as('stranger'), 'users'), limit(1))));
+  });
+});
+
+describeRules('the user directory', () => {
+  for (const account of ['pending', 'rejected', 'stranger'] as Account[]) {
+    it(`${account} cannot list or search accounts`, async () => {
+      await assertFails(getDocs(collection(as(account), 'users')));
+      await assertFails(getDocs(query(collection(as(account), 'users'), where('email', '==', 'owner@example.org'), limit(1))));
+    });
+  }
+
+  it('an unapproved member still reads their own profile', async () => {
+    await assertSucceeds(getDoc(doc(as('pending'), 'users', 'pending')));
+    await assertFails(getDoc(doc(as('pending'), 'users', 'owner')));
+  });
+
+  const everyoneHere = (account: Account) =>
+    getDocs(query(collection(as(account), 'users'), where('orgIds', 'array-contains', DEFAULT_ORG_ID)));
+  const approvedHere = (account: Account) =>
+    getDocs(query(collection(as(account), 'users'), where(`memberships.${DEFAULT_ORG_ID}.status`, '==', UserStatus.APPROVED)));
+
+  it('admins list everyone in their congregation; members list its approved members', async () => {
+    await assertSucceeds(everyoneHere('admin'));
+    await assertSucceeds(approvedHere('member'));
+    await assertFails(everyoneHere('member'));
+  });
+
+  it('nobody but the owner lists accounts across congregations', async () => {
+    await assertSucceeds(getDocs(collection(as('owner'), 'users')));
+    await assertFails(getDocs(collection(as('admin'), 'users')));
+    await assertFails(getDocs(collection(as('outsider'), 'users')));
+  });
+
+  it("another congregation's admin cannot list or read this one's members", async () => {
+    await assertFails(everyoneHere('outsider'));
+    await assertFails(approvedHere('outsider'));
+    await assertFails(getDoc(doc(as('outsider'), 'users', 'member')));
+    await assertFails(getDoc(doc(as('outsider'), 'users', 'pending')));
+  });
+
+  it('members read approved colleagues; only admins read pending accounts', async () => {
+    await assertSucceeds(getDoc(doc(as('member'), 'users', 'admin')));
+    await assertFails(getDoc(doc(as('member'), 'users', 'pending')));
+    await assertSucceeds(getDoc(doc(as('admin'), 'users', 'pending')));
+    await assertFails(getDoc(doc(as('member'), 'users', 'outsider')));
+  });
+});
+
+describeRules('congregation documents', () => {
+  it('members and applicants read their own congregation', async () => {
+    await assertSucceeds(getDoc(doc(as('member'), 'organizations', DEFAULT_ORG_ID)));
+    await assertSucceeds(getDoc(doc(as('pending'), 'organizations', DEFAULT_ORG_ID)));
+    await assertFails(getDoc(doc(as('rejected'), 'organizations', DEFAULT_ORG_ID)));
+  });
+
+  it("an outsider cannot read or list another congregation's settings", async () => {
+    await assertFails(getDoc(doc(as('outsider'), 'organizations', DEFAULT_ORG_ID)));
+    await assertFails(getDocs(collection(as('outsider'), 'organizations')));
+    await assertFails(getDocs(collection(as('member'), 'organizations')));
+  });
+});
+
+describeRules('founding congregations', () => {
+  const found = (account: keyof typeof PROFILES, orgId: string) => {
+    const db = as(account);
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'organizations', orgId), { name: 'New', createdAt: CREATED_AT, createdByUserId: account });
+    batch.update(doc(db, 'users', account), membershipChange(account, orgId, { role: UserRole.SUPER_ADMIN, status: UserStatus.APPROVED }));
+    return batch.commit();
+  };
+
+  it('an approved member founds a new congregation as its SuperAdmin', async () => {
+    await assertSucceeds(found('member', 'new'));
+  });
+
+  it('an unapproved account cannot found a congregation', async () => {
+    await assertFails(found('pending', 'new'));
+  });
+
+  it('nobody founds the main congregation, even before it has a document', async () => {
+    await env.withSecurityRulesDisabled(context => deleteDoc(doc(context.firestore() as unknown as Firestore, 'organizations', DEFAULT_ORG_ID)));
+    await assertFails(found('member', DEFAULT_ORG_ID));
+    await assertFails(found('pending', DEFAULT_ORG_ID));
+  });
+});
+
+describeRules('audit history', () => {
+  const entry = (actorId: string) => ({ prospectId: 'mine', actorId, actorName: actorId, action: 'updated', timestamp: CREATED_AT });
+
+  it('members record history for prospects they can see, as themselves', async () => {
+    await assertSucceeds(setDoc(doc(as('member'), 'prospects', 'mine', 'history', 'a'), entry('member')));
+  });
+
+  it('clients cannot write entries attributed to the system', async () => {
+    await assertFails(setDoc(doc(as('member'), 'prospects', 'mine', 'history', 'a'), entry('system')));
+  });
+
+  it('history cannot be written for prospects out of reach', async () => {
+    await assertFails(setDoc(doc(as('outsider'), 'prospects', 'mine', 'history', 'a'), entry('outsider')));
+    await assertFails(setDoc(doc(as('pending'), 'prospects', 'mine', 'history', 'a'), entry('pending')));
+    await assertFails(setDoc(doc(as('member'), 'prospects', 'theirs', 'history', 'a'), { ...entry('member'), prospectId: 'theirs' }));
+  });
+});
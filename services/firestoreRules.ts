@@ -0,0 +1,259 @@
+
+import { UserRole, UserStatus } from '../types';
+import { DEFAULT_ORG_ID } from './organizations';
+
+// Profile fields a member may change on their own record. Role and status are
+// only ever changed by admins.
+const SELF_EDITABLE_USER_FIELDS = ['name', 'phone', 'photoUrl', 'photo', 'team', 'preferredLanguage', 'hasSeenTour', 'schemaVersion'];
+
+// Fields an organization's admins manage on other members' records. `membershipOrg` names
+// the one organization whose membership is being changed, so the rules know whose admins to ask.
+const MEMBERSHIP_FIELDS = ['memberships', 'orgIds', 'status', 'membershipOrg', 'team'];
+
+// Assignment, authorship and filing stay with admins so a team member cannot widen their own scope.
+const ADMIN_ONLY_PROSPECT_FIELDS = ['assignedToUserId', 'assignedToUserName', 'createdByUserId', 'orgId'];
+
+const ADMIN_ROLES = [UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+// Rules cannot loop, so profile reads check this many of the caller's congregations.
+export const MAX_SHARED_ORGS = 10;
+
+const list = (values: string[]) => `[${values.map(v => `'${v}'`).join(', ')}]`;
+
+/**
+ * The canonical Firestore rules for this app, derived from UserRole and
+ * UserStatus so the two cannot drift apart. Shown in CloudSetup for admins to
+ * paste into Firebase Console > Firestore > Rules.
+ */
+export const generateFirestoreRules = (): string => `rules_version = '2';
+
+// Generated by Harvest Hub. Roles: ${Object.values(UserRole).join(', ')}.
+// Roles are held per congregation (organization); only ${UserStatus.APPROVED} members of a
+// congregation can read or write its data.
+service cloud.firestore {
+  match /databases/{database}/documents {
+
+    function signedIn() {
+      return request.auth != null;
+    }
+
+    function userPath(uid) {
+      return /databases/$(database)/documents/users/$(uid);
+    }
+
+    function profile() {
+      return get(userPath(request.auth.uid)).data;
+    }
+
+    function orgPath(orgId) {
+      return /databases/$(database)/documents/organizations/$(orgId);
+    }
+
+    // Account-level: approved by at least one congregation.
+    function isApproved() {
+      return signedIn() && exists(userPath(request.auth.uid)) && profile().status == '${UserStatus.APPROVED}';
+    }
+
+    // The workspace owner spans every congregation, e.g. to file records from before organizations.
+    function isOwner() {
+      return signedIn() && get(/databases/$(database)/documents/settings/owner).data.userId == request.auth.uid;
+    }
+
+    // Profiles from before organizations hold a single role and status for the main congregation.
+    function membershipsOf(data) {
+      return data.get('memberships', { '${DEFAULT_ORG_ID}': { 'role': data.role, 'status': data.status } });
+    }
+
+    function isApprovedIn(orgId) {
+      return isApproved() && orgId in membershipsOf(profile())
+        && membershipsOf(profile())[orgId].status == '${UserStatus.APPROVED}';
+    }
+
+    function isAdminIn(orgId) {
+      return isApprovedIn(orgId) && membershipsOf(profile())[orgId].role in ${list(ADMIN_ROLES)};
+    }
+
+    function isSuperAdminIn(orgId) {
+      return isApprovedIn(orgId) && membershipsOf(profile())[orgId].role == '${UserRole.SUPER_ADMIN}';
+    }
+
+    // Pending members may still see the congregation they asked to join.
+    function hasAskedToJoin(orgId) {
+      return signedIn() && exists(userPath(request.auth.uid))
+        && membershipsOf(profile()).get(orgId, { 'status': '' }).status == '${UserStatus.PENDING}';
+    }
+
+    // Another account's profile is visible through a congregation the caller is approved in:
+    // admins see everyone who belongs to it, others only its approved members. Directory queries
+    // must be limited to one congregation (orgIds array-contains, or its approved status).
+    function seesProfileThrough(data, orgs, i) {
+      return orgs.size() > i && isApprovedIn(orgs[i])
+        && ((isAdminIn(orgs[i]) && orgs[i] in data.orgIds) || data.memberships[orgs[i]].status == '${UserStatus.APPROVED}');
+    }
+
+    function canSeeProfile(data) {
+      let orgs = profile().get('orgIds', ['${DEFAULT_ORG_ID}']);
+      return isOwner() || (isApproved() && (
+        ${Array.from({ length: MAX_SHARED_ORGS }, (_, i) => `seesProfileThrough(data, orgs, ${i})`).join('\n        || ')}));
+    }
+
+    function orgOf(data) {
+      return data.get('orgId', '${DEFAULT_ORG_ID}');
+    }
+
+    function changes(keys) {
+      return request.resource.data.diff(resource.data).affectedKeys().hasAny(keys);
+    }
+
+    function canSeeProspect(data) {
+      return isOwner() || isAdminIn(orgOf(data))
+        || (isApprovedIn(orgOf(data)) && (data.assignedToUserId == request.auth.uid || data.createdByUserId == request.auth.uid));
+    }
+
+    // A membership write touches one congregation's entry and nothing outside MEMBERSHIP_FIELDS.
+    function changesOneMembership() {
+      let orgId = request.resource.data.membershipOrg;
+      return request.resource.data.diff(resource.data).affectedKeys().hasOnly(${list(MEMBERSHIP_FIELDS)})
+        && request.resource.data.memberships.diff(resource.data.get('memberships', {})).affectedKeys().hasOnly([orgId])
+        && request.resource.data.orgIds.hasAll([orgId]);
+    }
+
+    function membershipAfter() {
+      return request.resource.data.memberships[request.resource.data.membershipOrg];
+    }
+
+    // Admins manage team members; only SuperAdmins grant or change admin roles.
+    function canManageMembership() {
+      let orgId = request.resource.data.membershipOrg;
+      let before = membershipsOf(resource.data).get(orgId, { 'role': '${UserRole.TEAM_MEMBER}' });
+      return isOwner() || isSuperAdminIn(orgId)
+        || (isAdminIn(orgId) && membershipAfter().role == '${UserRole.TEAM_MEMBER}' && before.role == '${UserRole.TEAM_MEMBER}');
+    }
+
+    // Anyone may ask to join a congregation; the request starts out pending.
+    function requestsToJoin() {
+      return !(request.resource.data.membershipOrg in membershipsOf(resource.data))
+        && membershipAfter().status == '${UserStatus.PENDING}';
+    }
+
+    // The creator of a congregation becomes its first SuperAdmin in the same write. The main
+    // congregation may have no document yet, but it belongs to the workspace owner, never a founder.
+    function foundsOrganization() {
+      let orgId = request.resource.data.membershipOrg;
+      return orgId != '${DEFAULT_ORG_ID}'
+        && !exists(orgPath(orgId))
+        && getAfter(orgPath(orgId)).data.createdByUserId == request.auth.uid
+        && membershipAfter().role == '${UserRole.SUPER_ADMIN}';
+    }
+
+    function newAccountMembership() {
+      let data = request.resource.data;
+      return data.orgIds.size() == 1 && data.memberships.keys().hasOnly(data.orgIds) ? data.memberships[data.orgIds[0]] : null;
+    }
+
+    // The first account claims ownership in the same batch as its profile. Sign-up reads this,
+    // not the users collection, to learn whether anyone has registered yet.
+    // Workspaces created before these rules: add settings/owner { userId: <your uid> } in the console first.
+    match /settings/owner {
+      allow read: if signedIn();
+      allow create: if signedIn()
+        && request.resource.data.userId == request.auth.uid
+        && getAfter(userPath(request.auth.uid)).data.role == '${UserRole.SUPER_ADMIN}';
+      allow update, delete: if false;
+    }
+
+    match /users/{userId} {
+      allow get: if (signedIn() && request.auth.uid == userId) || canSeeProfile(resource.data);
+      allow list: if canSeeProfile(resource.data);
+
+      allow create: if signedIn() && request.auth.uid == userId && newAccountMembership() != null && (
+        (request.resource.data.status == '${UserStatus.PENDING}'
+            && newAccountMembership().status == '${UserStatus.PENDING}'
+            && request.resource.data.role in ${list(Object.values(UserRole))})
+        || (request.resource.data.status == '${UserStatus.APPROVED}'
+            && request.resource.data.role == '${UserRole.SUPER_ADMIN}'
+            && newAccountMembership().role == '${UserRole.SUPER_ADMIN}'
+            && !exists(/databases/$(database)/documents/settings/owner)
+            && getAfter(/databases/$(database)/documents/settings/owner).data.userId == request.auth.uid)
+      );
+
+      allow update: if
+        (isApproved() && request.auth.uid == userId
+          && request.resource.data.diff(resource.data).affectedKeys().hasOnly(${list(SELF_EDITABLE_USER_FIELDS)}))
+        // The account-level status is one of MEMBERSHIP_FIELDS for admins; a member's own request
+        // may at most move it to pending, never to approved.
+        || (signedIn() && request.auth.uid == userId && changesOneMembership()
+            && (!changes(['status']) || request.resource.data.status == '${UserStatus.PENDING}')
+            && (requestsToJoin() || foundsOrganization()))
+        || (isApproved() && (request.auth.uid != userId || isOwner()) && changesOneMembership() && canManageMembership());
+
+      allow delete: if isOwner() && request.auth.uid != userId;
+    }
+
+    match /prospects/{prospectId} {
+      allow read: if canSeeProspect(resource.data);
+      allow create: if isApprovedIn(orgOf(request.resource.data))
+        && (isAdminIn(orgOf(request.resource.data)) || request.resource.data.createdByUserId == request.auth.uid);
+      allow update: if canSeeProspect(resource.data)
+        && (isOwner() || (isAdminIn(orgOf(resource.data)) && orgOf(request.resource.data) == orgOf(resource.data))
+            || !changes(${list(ADMIN_ONLY_PROSPECT_FIELDS)}));
+      allow delete: if isOwner() || isAdminIn(orgOf(resource.data));
+
+      // Audit trail: append-only, attributed to the writer. Entries are written in the same batch
+      // as the change they describe, so the prospect is checked as it stands after the write.
+      match /history/{entryId} {
+        allow read: if canSeeProspect(get(/databases/$(database)/documents/prospects/$(prospectId)).data);
+        allow create: if canSeeProspect(getAfter(/databases/$(database)/documents/prospects/$(prospectId)).data)
+          && request.resource.data.prospectId == prospectId
+          && request.resource.data.actorId == request.auth.uid;
+        allow update, delete: if false;
+      }
+    }
+
+    match /invitations/{invitationId} {
+      allow read: if isOwner() || isAdminIn(orgOf(resource.data));
+      allow create: if isAdminIn(orgOf(request.resource.data));
+      allow update: if (isOwner() || isAdminIn(orgOf(resource.data))) && orgOf(request.resource.data) == orgOf(resource.data);
+      allow delete: if isSuperAdminIn(orgOf(resource.data));
+    }
+
+    match /lessonSeries/{seriesId} {
+      allow read: if isApprovedIn(orgOf(resource.data));
+      allow create: if isAdminIn(orgOf(request.resource.data));
+      allow update: if isAdminIn(orgOf(resource.data)) && orgOf(request.resource.data) == orgOf(resource.data);
+      allow delete: if isAdminIn(orgOf(resource.data));
+    }
+
+    match /promptTemplates/{templateId} {
+      allow read: if isApprovedIn(orgOf(resource.data));
+      allow create: if isAdminIn(orgOf(request.resource.data));
+      allow update: if isAdminIn(orgOf(resource.data)) && orgOf(request.resource.data) == orgOf(resource.data);
+      allow delete: if false;
+    }
+
+    // The AI usage ledger: members log their own requests and read them back for quotas; admins see everyone's.
+    // Rules cannot count requests, so daily quotas are enforced by the app only, not here.
+    match /aiUsage/{entryId} {
+      allow read: if isAdminIn(orgOf(resource.data))
+        || (isApprovedIn(orgOf(resource.data)) && resource.data.userId == request.auth.uid);
+      allow create: if isApprovedIn(orgOf(request.resource.data)) && request.resource.data.userId == request.auth.uid;
+      allow update, delete: if false;
+    }
+
+    match /organizations/{orgId} {
+      allow get: if isOwner() || isApprovedIn(orgId) || hasAskedToJoin(orgId);
+      allow list: if isOwner();
+      // The app offers this to SuperAdmins; the creator joins as the new congregation's SuperAdmin.
+      allow create: if (orgId != '${DEFAULT_ORG_ID}' && isApproved() && request.resource.data.createdByUserId == request.auth.uid
+        && getAfter(userPath(request.auth.uid)).data.memberships[orgId].role == '${UserRole.SUPER_ADMIN}')
+        // The first account sets up the main congregation alongside its ownership claim.
+        || (orgId == '${DEFAULT_ORG_ID}' && !exists(/databases/$(database)/documents/settings/owner)
+            && getAfter(/databases/$(database)/documents/settings/owner).data.userId == request.auth.uid)
+        // Workspaces from before then get it when its settings are first saved.
+        || (orgId == '${DEFAULT_ORG_ID}' && isSuperAdminIn(orgId));
+      allow update: if isSuperAdminIn(orgId);
+      allow delete: if false;
+    }
+  }
+}
+`;
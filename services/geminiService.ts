@@ -1,115 +1,138 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { HungerLevel, AIReview, UserRole, Prospect } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-export const analyzePreachingNotes = async (notes: string): Promise<AIReview> => {
-  const model = 'gemini-3-flash-preview';
-  
-  const response = await ai.models.generateContent({
-    model,
-    contents: `Analyze the following preaching/evangelism notes and provide a structured review including spiritual hunger level, a relevant Bible verse, and suggested follow-up action. Notes: ${notes}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          hungerLevel: { type: Type.STRING, description: "Spiritual hunger level: Low, Medium, or High" },
-          suggestedVerse: { type: Type.STRING, description: "A relevant Bible verse for the next visit." },
-          suggestedNextAction: { type: Type.STRING, description: "Practical next step for follow-up." },
-          summary: { type: Type.STRING, description: "A 2-sentence executive summary of the encounter." }
-        },
-        required: ["hungerLevel", "suggestedVerse", "suggestedNextAction", "summary"]
-      },
-    },
-  });
-
-  try {
-    const result = JSON.parse(response.text || '{}');
-    return {
-      hungerLevel: (result.hungerLevel as HungerLevel) || HungerLevel.MEDIUM,
-      suggestedVerse: result.suggestedVerse || "John 3:16",
-      suggestedNextAction: result.suggestedNextAction || "Follow up next week with a gospel tract.",
-      summary: result.summary || "Conversation completed."
-    };
-  } catch (error) {
-    console.error("Failed to parse AI response", error);
-    return {
-      hungerLevel: HungerLevel.MEDIUM,
-      suggestedVerse: "Psalm 23:1",
-      suggestedNextAction: "Visit again and build relationship.",
-      summary: "Notes were captured successfully."
-    };
-  }
+import { HungerLevel } from "../types";
+import { AIProvider, UsageReporter, prospectTimeline } from "./aiProvider";
+import { passageText } from "./scripture";
+import { resolveLanguage } from "./i18n";
+import { parseAIReview, parseInviteDraft, requireAnswer } from "./aiOutput";
+import { renderPrompt } from "./promptTemplates";
+
+// One client per API key; aiService builds a new provider when the key in Settings changes.
+// Answers are validated here and throw instead of falling back, so aiService can retry.
+// Prompt wording comes from promptTemplates, which admins can edit; the response schemas stay here.
+const REVIEW_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    hungerLevel: { type: Type.STRING, format: "enum", enum: Object.values(HungerLevel), description: "Spiritual hunger level: Low, Medium, or High" },
+    suggestedVerse: { type: Type.STRING, description: "The reference of a relevant Bible verse for the next visit, such as \"John 3:16\" or \"Romans 6:3-4\", without the verse text." },
+    suggestedNextAction: { type: Type.STRING, description: "Practical next step for follow-up." },
+    summary: { type: Type.STRING, description: "A 2-sentence executive summary of the encounter." }
+  },
+  required: ["hungerLevel", "suggestedVerse", "suggestedNextAction", "summary"]
 };
 
-export const getSoulWinningStrategy = async (stats: { total: number, baptism: number, highHunger: number }): Promise<string> => {
-  const model = 'gemini-3-pro-preview';
-  
-  const prompt = `Based on the current church evangelism stats, provide a short, 3-point tactical "Harvest Strategy" for the week.
-    Stats: ${stats.total} total prospects, ${stats.baptism} people signified for baptism, ${stats.highHunger} people with high spiritual hunger.
-    Include a relevant scripture for the team's encouragement. Keep it under 150 words. Focus on how to transition people from interest to membership.`;
+// Audio goes to the model inline; recordings are capped well under the request size limit.
+const toBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
 
-  const response = await ai.models.generateContent({
-    model,
-    contents: prompt
-  });
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
 
-  return response.text || "Continue in faithful prayer and visitation. The Lord of the harvest will provide the increase.";
-};
+  const generate = async (request: Parameters<typeof ai.models.generateContent>[0], onUsage?: UsageReporter) => {
+    const response = await ai.models.generateContent(request);
+    onUsage?.({ promptTokens: response.usageMetadata?.promptTokenCount, outputTokens: response.usageMetadata?.candidatesTokenCount });
+    return response;
+  };
 
-export const generateFollowUpMessage = async (prospect: Prospect, preacherName: string): Promise<string> => {
-  const model = 'gemini-3-flash-preview';
-  
-  const prompt = `Write a gentle, personalized follow-up text message or short email for a church prospect.
-    Prospect Name: ${prospect.name}
-    Spiritual Hunger: ${prospect.aiReview?.hungerLevel || 'Unknown'}
-    Original Notes: ${prospect.preachingNotes}
-    Preacher Name: ${preacherName}
-    Include the suggested Bible verse: ${prospect.aiReview?.suggestedVerse || 'John 3:16'}
-    The tone should be encouraging, non-pressuring, and warm. 
-    If the hunger is 'High', make it more inviting for a personal Bible study.
-    Keep it concise (max 100 words).`;
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: prompt
-  });
-
-  return response.text || "Hello! It was great speaking with you recently. I've been thinking about our conversation and wanted to share a verse with you: John 3:16. God bless!";
-};
+  return {
+    id: 'gemini',
+
+    analyzeNotes: async (notes, model, onUsage) => {
+      const response = await generate({
+        model,
+        contents: renderPrompt('analyzeNotes', { notes }),
+        config: { responseMimeType: "application/json", responseSchema: REVIEW_SCHEMA },
+      }, onUsage);
+
+      return parseAIReview(response.text);
+    },
+
+    reassess: async (prospect, model, onUsage) => {
+      const timeline = prospectTimeline(prospect)
+        .map((visit, i) => `${i === 0 ? 'First conversation' : `Follow-up ${i}`} (${visit.date.slice(0, 10)}, ${visit.preacherName}): ${visit.notes}`)
+        .join('\n');
+      const response = await generate({
+        model,
+        contents: renderPrompt('reassess', { timeline, 'prospect.name': prospect.name, visitCount: prospect.followUps.length + 1 }),
+        config: { responseMimeType: "application/json", responseSchema: REVIEW_SCHEMA },
+      }, onUsage);
+
+      return parseAIReview(response.text);
+    },
+
+    strategy: async (stats, model, onUsage) => {
+      const prompt = renderPrompt('strategy', { 'stats.total': stats.total, 'stats.baptism': stats.baptism, 'stats.highHunger': stats.highHunger });
+
+      const response = await generate({
+        model,
+        contents: prompt
+      }, onUsage);
+
+      return requireAnswer(response.text);
+    },
+
+    followUpMessage: async (prospect, preacherName, passage, language, model, onUsage) => {
+      const prompt = renderPrompt('followUpMessage', {
+        language: resolveLanguage(language).englishName,
+        'prospect.name': prospect.name,
+        'prospect.notes': prospect.preachingNotes,
+        hungerLevel: prospect.aiReview?.hungerLevel || 'Unknown',
+        preacherName,
+        verse: prospect.aiReview?.suggestedVerse || 'John 3:16',
+        verseGuidance: passage
+          ? `quoted exactly as "${passageText(passage)}" (${passage.reference}, ${passage.translation})`
+          : 'quoted from a widely used Bible translation in that language, with the book name as that translation writes it'
+      });
+
+      const response = await generate({
+        model,
+        contents: prompt
+      }, onUsage);
+
+      return requireAnswer(response.text);
+    },
+
+    inviteDraft: async (inviterName, role, customNotes, language, model, onUsage) => {
+      const response = await generate({
+        model,
+        contents: renderPrompt('inviteDraft', {
+          language: resolveLanguage(language).englishName,
+          inviterName,
+          role,
+          notes: customNotes || 'Joining our evangelism and soul-winning team.'
+        }),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              subject: { type: Type.STRING },
+              body: { type: Type.STRING }
+            },
+            required: ["subject", "body"]
+          }
+        }
+      }, onUsage);
+
+      return parseInviteDraft(response.text);
+    },
+
+    transcribe: async (clip, language, model, onUsage) => {
+      const response = await generate({
+        model,
+        contents: [{
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType: clip.mimeType, data: await toBase64(clip.blob) } },
+            { text: renderPrompt('transcribe', { language: resolveLanguage(language).englishName }) }
+          ]
+        }]
+      }, onUsage);
 
-export const generateInviteDraft = async (inviterName: string, role: UserRole, customNotes?: string): Promise<{ subject: string, body: string }> => {
-  const model = 'gemini-3-flash-preview';
-  
-  const response = await ai.models.generateContent({
-    model,
-    contents: `Write a professional and encouraging church invitation email. 
-      Inviter: ${inviterName}
-      Invited as Role: ${role}
-      Additional Context: ${customNotes || 'Joining our evangelism and soul-winning team.'}
-      The email should explain that we use HarvestHub to track outreach and spiritual hunger.
-      Return a JSON object with 'subject' and 'body' fields.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          subject: { type: Type.STRING },
-          body: { type: Type.STRING }
-        },
-        required: ["subject", "body"]
-      }
+      return requireAnswer(response.text);
     }
-  });
-
-  try {
-    return JSON.parse(response.text || '{}');
-  } catch (error) {
-    return {
-      subject: `Invitation to join the Evangelism Team`,
-      body: `Hello,\n\n${inviterName} has invited you to join our church outreach team as a ${role}. Please use the link provided in the platform to register.`
-    };
-  }
+  };
 };
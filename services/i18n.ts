@@ -0,0 +1,128 @@
+
+import { useEffect, useState } from 'react';
+import { Prospect, HungerLevel } from '../types';
+import { CATALOGS, TranslationKey } from './translations';
+
+/**
+ * Languages the app works in. Any of them can be set as a prospect's or a
+ * user's preferred language so AI drafts are written in it; the interface is
+ * translated only where translations.ts has a catalog, and any string missing
+ * from a catalog falls back to English.
+ */
+export interface Language {
+  code: string;
+  // The language's own name, shown in pickers.
+  nativeName: string;
+  // The name AI prompts use.
+  englishName: string;
+}
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const LANGUAGES: Language[] = [
+  { code: 'en', nativeName: 'English', englishName: 'English' },
+  { code: 'es', nativeName: 'Español', englishName: 'Spanish' },
+  { code: 'fr', nativeName: 'Français', englishName: 'French' },
+  { code: 'pt', nativeName: 'Português', englishName: 'Portuguese' },
+  { code: 'ht', nativeName: 'Kreyòl ayisyen', englishName: 'Haitian Creole' },
+  { code: 'sw', nativeName: 'Kiswahili', englishName: 'Swahili' },
+  { code: 'yo', nativeName: 'Yorùbá', englishName: 'Yoruba' },
+  { code: 'tl', nativeName: 'Tagalog', englishName: 'Tagalog' }
+];
+
+export const isUILanguage = (code: string) => code in CATALOGS;
+
+export const UI_LANGUAGES = LANGUAGES.filter(l => isUILanguage(l.code));
+
+// Unknown or missing codes are treated as English.
+export const resolveLanguage = (code?: string): Language =>
+  LANGUAGES.find(l => l.code === code) || LANGUAGES[0];
+
+const UI_LANGUAGE_KEY = 'harvest_hub_language';
+
+// Before anyone signs in: the language last used on this device, then the browser's.
+const initialLanguage = (): string => {
+  const saved = typeof localStorage === 'undefined' ? null : localStorage.getItem(UI_LANGUAGE_KEY);
+  if (saved && isUILanguage(saved)) return saved;
+  const browser = typeof navigator === 'undefined' ? '' : (navigator.language || '').slice(0, 2).toLowerCase();
+  return isUILanguage(browser) ? browser : DEFAULT_LANGUAGE;
+};
+
+let uiLanguage = initialLanguage();
+const listeners = new Set<(language: string) => void>();
+
+export const getUILanguage = () => uiLanguage;
+
+// Languages without a catalog show the interface in English. Leaving it unset keeps the device's choice.
+export const setUILanguage = (code?: string) => {
+  if (!code) return;
+  const next = isUILanguage(code) ? code : DEFAULT_LANGUAGE;
+  localStorage.setItem(UI_LANGUAGE_KEY, next);
+  if (next === uiLanguage) return;
+  uiLanguage = next;
+  document.documentElement.lang = next;
+  listeners.forEach(listener => listener(next));
+};
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translate = (key: TranslationKey, params?: TranslationParams) => string;
+
+// Fills "{name}" placeholders; unknown placeholders are left as they are.
+const interpolate = (text: string, params?: TranslationParams) =>
+  params ? text.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : text;
+
+export const translate = (language: string, key: TranslationKey, params?: TranslationParams): string =>
+  interpolate(CATALOGS[language]?.[key] ?? CATALOGS[DEFAULT_LANGUAGE][key] ?? key, params);
+
+// Stored values stay in English; these are the keys they are shown with.
+export const STATUS_LABELS: Record<Prospect['status'], TranslationKey> = {
+  'New': 'status.new',
+  'Followed Up': 'status.followedUp',
+  'Member': 'status.member'
+};
+
+export const HUNGER_LABELS: Record<HungerLevel, TranslationKey> = {
+  [HungerLevel.HIGH]: 'hunger.high',
+  [HungerLevel.MEDIUM]: 'hunger.medium',
+  [HungerLevel.LOW]: 'hunger.low'
+};
+
+// Prospect fields as named in the audit trail and conflict notices.
+export const FIELD_LABELS: Record<string, TranslationKey> = {
+  status: 'audit.status',
+  signifiedForBaptism: 'audit.signifiedForBaptism',
+  assignedToUserName: 'audit.assignedToUserName',
+  aiReview: 'audit.aiReview',
+  study: 'audit.study',
+  photos: 'audit.photos',
+  voiceNotes: 'audit.voiceNotes',
+  sensitiveNotes: 'audit.sensitiveNotes',
+  preachingNotes: 'audit.preachingNotes',
+  phone: 'audit.phone',
+  preferredLanguage: 'audit.preferredLanguage',
+  manualAddress: 'audit.manualAddress',
+  coordinates: 'audit.coordinates',
+  timestamp: 'audit.timestamp',
+  name: 'audit.name'
+};
+
+// What someone else changed, for conflict notices.
+export const describeConflict = (t: Translate, current: Partial<Prospect>) =>
+  (Object.keys(current) as (keyof Prospect)[]).map(key => {
+    if (key === 'status') return t('detail.conflictStatus', { status: t(STATUS_LABELS[current.status!]) });
+    if (key === 'signifiedForBaptism') return current.signifiedForBaptism ? t('detail.conflictBaptismMarked') : t('detail.conflictBaptismCleared');
+    if (key === 'assignedToUserId') return current.assignedToUserId ? t('detail.conflictReassigned') : t('detail.conflictUnassigned');
+    return t('detail.conflictChanged', { field: FIELD_LABELS[key] ? t(FIELD_LABELS[key]) : key });
+  }).join(', ');
+
+// Re-renders the component when the interface language changes.
+export const useTranslation = (): { language: string, t: Translate } => {
+  const [language, setLanguage] = useState(uiLanguage);
+  useEffect(() => {
+    listeners.add(setLanguage);
+    setLanguage(uiLanguage);
+    return () => { listeners.delete(setLanguage); };
+  }, []);
+  return { language, t: (key, params) => translate(language, key, params) };
+};
@@ -0,0 +1,35 @@
+
+/**
+ * Minimal promise wrappers around IndexedDB. Each database here holds a single
+ * object store, so callers only name the database and store once.
+ */
+export interface KeyedStore {
+  run: <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => Promise<T>;
+}
+
+export const openKeyedStore = (dbName: string, storeName: string, options?: IDBObjectStoreParameters): Promise<KeyedStore | null> => {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+  const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(storeName, options);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  return dbPromise
+    .then((db): KeyedStore => ({
+      run: (mode, action) => new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = action(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+      })
+    }))
+    .catch((e) => {
+      console.error(`IndexedDB '${dbName}' unavailable`, e);
+      return null;
+    });
+};
@@ -0,0 +1,146 @@
+
+/**
+ * King James Version (public domain) text for the passages most used in
+ * personal evangelism, including every verse the offline assistant suggests.
+ * This is a selection, not the whole Bible: other references are still
+ * recognised, but shown without their text. Keys are canonical references as
+ * produced by formatReference.
+ */
+export const KJV_VERSES: Record<string, string> = {
+  'Genesis 1:1': 'In the beginning God created the heaven and the earth.',
+  'Joshua 1:9': 'Have not I commanded thee? Be strong and of a good courage; be not afraid, neither be thou dismayed: for the LORD thy God is with thee whithersoever thou goest.',
+  'Joshua 24:15': 'And if it seem evil unto you to serve the LORD, choose you this day whom ye will serve; whether the gods which your fathers served that were on the other side of the flood, or the gods of the Amorites, in whose land ye dwell: but as for me and my house, we will serve the LORD.',
+  'Psalm 23:1': 'The LORD is my shepherd; I shall not want.',
+  'Psalm 23:2': 'He maketh me to lie down in green pastures: he leadeth me beside the still waters.',
+  'Psalm 23:3': 'He restoreth my soul: he leadeth me in the paths of righteousness for his name\'s sake.',
+  'Psalm 23:4': 'Yea, though I walk through the valley of the shadow of death, I will fear no evil: for thou art with me; thy rod and thy staff they comfort me.',
+  'Psalm 23:5': 'Thou preparest a table before me in the presence of mine enemies: thou anointest my head with oil; my cup runneth over.',
+  'Psalm 23:6': 'Surely goodness and mercy shall follow me all the days of my life: and I will dwell in the house of the LORD for ever.',
+  'Psalm 34:18': 'The LORD is nigh unto them that are of a broken heart; and saveth such as be of a contrite spirit.',
+  'Psalm 46:1': 'God is our refuge and strength, a very present help in trouble.',
+  'Psalm 51:10': 'Create in me a clean heart, O God; and renew a right spirit within me.',
+  'Psalm 119:105': 'Thy word is a lamp unto my feet, and a light unto my path.',
+  'Psalm 147:3': 'He healeth the broken in heart, and bindeth up their wounds.',
+  'Proverbs 3:5': 'Trust in the LORD with all thine heart; and lean not unto thine own understanding.',
+  'Proverbs 3:6': 'In all thy ways acknowledge him, and he shall direct thy paths.',
+  'Ecclesiastes 12:13': 'Let us hear the conclusion of the whole matter: Fear God, and keep his commandments: for this is the whole duty of man.',
+  'Isaiah 1:18': 'Come now, and let us reason together, saith the LORD: though your sins be as scarlet, they shall be as white as snow; though they be red like crimson, they shall be as wool.',
+  'Isaiah 40:31': 'But they that wait upon the LORD shall renew their strength; they shall mount up with wings as eagles; they shall run, and not be weary; and they shall walk, and not faint.',
+  'Isaiah 41:10': 'Fear thou not; for I am with thee: be not dismayed; for I am thy God: I will strengthen thee; yea, I will help thee; yea, I will uphold thee with the right hand of my righteousness.',
+  'Isaiah 53:5': 'But he was wounded for our transgressions, he was bruised for our iniquities: the chastisement of our peace was upon him; and with his stripes we are healed.',
+  'Isaiah 53:6': 'All we like sheep have gone astray; we have turned every one to his own way; and the LORD hath laid on him the iniquity of us all.',
+  'Isaiah 55:6': 'Seek ye the LORD while he may be found, call ye upon him while he is near:',
+  'Jeremiah 29:11': 'For I know the thoughts that I think toward you, saith the LORD, thoughts of peace, and not of evil, to give you an expected end.',
+  'Lamentations 3:22': 'It is of the LORD\'s mercies that we are not consumed, because his compassions fail not.',
+  'Lamentations 3:23': 'They are new every morning: great is thy faithfulness.',
+  'Matthew 5:4': 'Blessed are they that mourn: for they shall be comforted.',
+  'Matthew 6:33': 'But seek ye first the kingdom of God, and his righteousness; and all these things shall be added unto you.',
+  'Matthew 6:34': 'Take therefore no thought for the morrow: for the morrow shall take thought for the things of itself. Sufficient unto the day is the evil thereof.',
+  'Matthew 7:7': 'Ask, and it shall be given you; seek, and ye shall find; knock, and it shall be opened unto you:',
+  'Matthew 7:21': 'Not every one that saith unto me, Lord, Lord, shall enter into the kingdom of heaven; but he that doeth the will of my Father which is in heaven.',
+  'Matthew 9:37': 'Then saith he unto his disciples, The harvest truly is plenteous, but the labourers are few;',
+  'Matthew 9:38': 'Pray ye therefore the Lord of the harvest, that he will send forth labourers into his harvest.',
+  'Matthew 10:32': 'Whosoever therefore shall confess me before men, him will I confess also before my Father which is in heaven.',
+  'Matthew 11:28': 'Come unto me, all ye that labour and are heavy laden, and I will give you rest.',
+  'Matthew 11:29': 'Take my yoke upon you, and learn of me; for I am meek and lowly in heart: and ye shall find rest unto your souls.',
+  'Matthew 11:30': 'For my yoke is easy, and my burden is light.',
+  'Matthew 16:18': 'And I say also unto thee, That thou art Peter, and upon this rock I will build my church; and the gates of hell shall not prevail against it.',
+  'Matthew 16:26': 'For what is a man profited, if he shall gain the whole world, and lose his own soul? or what shall a man give in exchange for his soul?',
+  'Matthew 28:19': 'Go ye therefore, and teach all nations, baptizing them in the name of the Father, and of the Son, and of the Holy Ghost:',
+  'Matthew 28:20': 'Teaching them to observe all things whatsoever I have commanded you: and, lo, I am with you alway, even unto the end of the world. Amen.',
+  'Mark 16:15': 'And he said unto them, Go ye into all the world, and preach the gospel to every creature.',
+  'Mark 16:16': 'He that believeth and is baptized shall be saved; but he that believeth not shall be damned.',
+  'Luke 13:3': 'I tell you, Nay: but, except ye repent, ye shall all likewise perish.',
+  'Luke 15:7': 'I say unto you, that likewise joy shall be in heaven over one sinner that repenteth, more than over ninety and nine just persons, which need no repentance.',
+  'Luke 19:10': 'For the Son of man is come to seek and to save that which was lost.',
+  'John 1:12': 'But as many as received him, to them gave he power to become the sons of God, even to them that believe on his name:',
+  'John 3:3': 'Jesus answered and said unto him, Verily, verily, I say unto thee, Except a man be born again, he cannot see the kingdom of God.',
+  'John 3:5': 'Jesus answered, Verily, verily, I say unto thee, Except a man be born of water and of the Spirit, he cannot enter into the kingdom of God.',
+  'John 3:16': 'For God so loved the world, that he gave his only begotten Son, that whosoever believeth in him should not perish, but have everlasting life.',
+  'John 3:17': 'For God sent not his Son into the world to condemn the world; but that the world through him might be saved.',
+  'John 8:32': 'And ye shall know the truth, and the truth shall make you free.',
+  'John 10:10': 'The thief cometh not, but for to steal, and to kill, and to destroy: I am come that they might have life, and that they might have it more abundantly.',
+  'John 11:25': 'Jesus said unto her, I am the resurrection, and the life: he that believeth in me, though he were dead, yet shall he live:',
+  'John 14:1': 'Let not your heart be troubled: ye believe in God, believe also in me.',
+  'John 14:2': 'In my Father\'s house are many mansions: if it were not so, I would have told you. I go to prepare a place for you.',
+  'John 14:3': 'And if I go and prepare a place for you, I will come again, and receive you unto myself; that where I am, there ye may be also.',
+  'John 14:6': 'Jesus saith unto him, I am the way, the truth, and the life: no man cometh unto the Father, but by me.',
+  'John 14:15': 'If ye love me, keep my commandments.',
+  'Acts 2:38': 'Then Peter said unto them, Repent, and be baptized every one of you in the name of Jesus Christ for the remission of sins, and ye shall receive the gift of the Holy Ghost.',
+  'Acts 2:41': 'Then they that gladly received his word were baptized: and the same day there were added unto them about three thousand souls.',
+  'Acts 2:42': 'And they continued stedfastly in the apostles\' doctrine and fellowship, and in breaking of bread, and in prayers.',
+  'Acts 3:19': 'Repent ye therefore, and be converted, that your sins may be blotted out, when the times of refreshing shall come from the presence of the Lord;',
+  'Acts 4:12': 'Neither is there salvation in any other: for there is none other name under heaven given among men, whereby we must be saved.',
+  'Acts 8:36': 'And as they went on their way, they came unto a certain water: and the eunuch said, See, here is water; what doth hinder me to be baptized?',
+  'Acts 8:37': 'And Philip said, If thou believest with all thine heart, thou mayest. And he answered and said, I believe that Jesus Christ is the Son of God.',
+  'Acts 8:38': 'And he commanded the chariot to stand still: and they went down both into the water, both Philip and the eunuch; and he baptized him.',
+  'Acts 17:30': 'And the times of this ignorance God winked at; but now commandeth all men every where to repent:',
+  'Acts 22:16': 'And now why tarriest thou? arise, and be baptized, and wash away thy sins, calling on the name of the Lord.',
+  'Romans 1:16': 'For I am not ashamed of the gospel of Christ: for it is the power of God unto salvation to every one that believeth; to the Jew first, and also to the Greek.',
+  'Romans 3:23': 'For all have sinned, and come short of the glory of God;',
+  'Romans 5:8': 'But God commendeth his love toward us, in that, while we were yet sinners, Christ died for us.',
+  'Romans 6:3': 'Know ye not, that so many of us as were baptized into Jesus Christ were baptized into his death?',
+  'Romans 6:4': 'Therefore we are buried with him by baptism into death: that like as Christ was raised up from the dead by the glory of the Father, even so we also should walk in newness of life.',
+  'Romans 6:23': 'For the wages of sin is death; but the gift of God is eternal life through Jesus Christ our Lord.',
+  'Romans 8:28': 'And we know that all things work together for good to them that love God, to them who are the called according to his purpose.',
+  'Romans 10:9': 'That if thou shalt confess with thy mouth the Lord Jesus, and shalt believe in thine heart that God hath raised him from the dead, thou shalt be saved.',
+  'Romans 10:10': 'For with the heart man believeth unto righteousness; and with the mouth confession is made unto salvation.',
+  'Romans 10:17': 'So then faith cometh by hearing, and hearing by the word of God.',
+  'Romans 12:1': 'I beseech you therefore, brethren, by the mercies of God, that ye present your bodies a living sacrifice, holy, acceptable unto God, which is your reasonable service.',
+  'Romans 12:2': 'And be not conformed to this world: but be ye transformed by the renewing of your mind, that ye may prove what is that good, and acceptable, and perfect, will of God.',
+  '1 Corinthians 10:13': 'There hath no temptation taken you but such as is common to man: but God is faithful, who will not suffer you to be tempted above that ye are able; but will with the temptation also make a way to escape, that ye may be able to bear it.',
+  '1 Corinthians 13:4': 'Charity suffereth long, and is kind; charity envieth not; charity vaunteth not itself, is not puffed up,',
+  '1 Corinthians 13:5': 'Doth not behave itself unseemly, seeketh not her own, is not easily provoked, thinketh no evil;',
+  '1 Corinthians 13:6': 'Rejoiceth not in iniquity, but rejoiceth in the truth;',
+  '1 Corinthians 13:7': 'Beareth all things, believeth all things, hopeth all things, endureth all things.',
+  '1 Corinthians 13:8': 'Charity never faileth: but whether there be prophecies, they shall fail; whether there be tongues, they shall cease; whether there be knowledge, it shall vanish away.',
+  '1 Corinthians 13:13': 'And now abideth faith, hope, charity, these three; but the greatest of these is charity.',
+  '1 Corinthians 15:3': 'For I delivered unto you first of all that which I also received, how that Christ died for our sins according to the scriptures;',
+  '1 Corinthians 15:4': 'And that he was buried, and that he rose again the third day according to the scriptures:',
+  '2 Corinthians 1:3': 'Blessed be God, even the Father of our Lord Jesus Christ, the Father of mercies, and the God of all comfort;',
+  '2 Corinthians 1:4': 'Who comforteth us in all our tribulation, that we may be able to comfort them which are in any trouble, by the comfort wherewith we ourselves are comforted of God.',
+  '2 Corinthians 5:17': 'Therefore if any man be in Christ, he is a new creature: old things are passed away; behold, all things are become new.',
+  '2 Corinthians 6:2': '(For he saith, I have heard thee in a time accepted, and in the day of salvation have I succoured thee: behold, now is the accepted time; behold, now is the day of salvation.)',
+  'Galatians 2:20': 'I am crucified with Christ: nevertheless I live; yet not I, but Christ liveth in me: and the life which I now live in the flesh I live by the faith of the Son of God, who loved me, and gave himself for me.',
+  'Galatians 3:26': 'For ye are all the children of God by faith in Christ Jesus.',
+  'Galatians 3:27': 'For as many of you as have been baptized into Christ have put on Christ.',
+  'Ephesians 2:8': 'For by grace are ye saved through faith; and that not of yourselves: it is the gift of God:',
+  'Ephesians 2:9': 'Not of works, lest any man should boast.',
+  'Ephesians 2:10': 'For we are his workmanship, created in Christ Jesus unto good works, which God hath before ordained that we should walk in them.',
+  'Ephesians 4:4': 'There is one body, and one Spirit, even as ye are called in one hope of your calling;',
+  'Ephesians 4:5': 'One Lord, one faith, one baptism,',
+  'Ephesians 4:6': 'One God and Father of all, who is above all, and through all, and in you all.',
+  'Philippians 4:6': 'Be careful for nothing; but in every thing by prayer and supplication with thanksgiving let your requests be made known unto God.',
+  'Philippians 4:7': 'And the peace of God, which passeth all understanding, shall keep your hearts and minds through Christ Jesus.',
+  'Philippians 4:13': 'I can do all things through Christ which strengtheneth me.',
+  'Philippians 4:19': 'But my God shall supply all your need according to his riches in glory by Christ Jesus.',
+  'Colossians 2:12': 'Buried with him in baptism, wherein also ye are risen with him through the faith of the operation of God, who hath raised him from the dead.',
+  '1 Timothy 2:4': 'Who will have all men to be saved, and to come unto the knowledge of the truth.',
+  '2 Timothy 2:15': 'Study to shew thyself approved unto God, a workman that needeth not to be ashamed, rightly dividing the word of truth.',
+  '2 Timothy 3:16': 'All scripture is given by inspiration of God, and is profitable for doctrine, for reproof, for correction, for instruction in righteousness:',
+  '2 Timothy 3:17': 'That the man of God may be perfect, throughly furnished unto all good works.',
+  'Titus 3:5': 'Not by works of righteousness which we have done, but according to his mercy he saved us, by the washing of regeneration, and renewing of the Holy Ghost;',
+  'Hebrews 4:12': 'For the word of God is quick, and powerful, and sharper than any twoedged sword, piercing even to the dividing asunder of soul and spirit, and of the joints and marrow, and is a discerner of the thoughts and intents of the heart.',
+  'Hebrews 5:9': 'And being made perfect, he became the author of eternal salvation unto all them that obey him;',
+  'Hebrews 10:24': 'And let us consider one another to provoke unto love and to good works:',
+  'Hebrews 10:25': 'Not forsaking the assembling of ourselves together, as the manner of some is; but exhorting one another: and so much the more, as ye see the day approaching.',
+  'Hebrews 11:6': 'But without faith it is impossible to please him: for he that cometh to God must believe that he is, and that he is a rewarder of them that diligently seek him.',
+  'Hebrews 13:5': 'Let your conversation be without covetousness; and be content with such things as ye have: for he hath said, I will never leave thee, nor forsake thee.',
+  'James 1:22': 'But be ye doers of the word, and not hearers only, deceiving your own selves.',
+  'James 2:24': 'Ye see then how that by works a man is justified, and not by faith only.',
+  'James 4:8': 'Draw nigh to God, and he will draw nigh to you. Cleanse your hands, ye sinners; and purify your hearts, ye double minded.',
+  'James 5:14': 'Is any sick among you? let him call for the elders of the church; and let them pray over him, anointing him with oil in the name of the Lord:',
+  'James 5:15': 'And the prayer of faith shall save the sick, and the Lord shall raise him up; and if he have committed sins, they shall be forgiven him.',
+  'James 5:16': 'Confess your faults one to another, and pray one for another, that ye may be healed. The effectual fervent prayer of a righteous man availeth much.',
+  '1 Peter 3:15': 'But sanctify the Lord God in your hearts: and be ready always to give an answer to every man that asketh you a reason of the hope that is in you with meekness and fear:',
+  '1 Peter 3:21': 'The like figure whereunto even baptism doth also now save us (not the putting away of the filth of the flesh, but the answer of a good conscience toward God,) by the resurrection of Jesus Christ:',
+  '1 Peter 5:7': 'Casting all your care upon him; for he careth for you.',
+  '2 Peter 3:9': 'The Lord is not slack concerning his promise, as some men count slackness; but is longsuffering to us-ward, not willing that any should perish, but that all should come to repentance.',
+  '1 John 1:7': 'But if we walk in the light, as he is in the light, we have fellowship one with another, and the blood of Jesus Christ his Son cleanseth us from all sin.',
+  '1 John 1:9': 'If we confess our sins, he is faithful and just to forgive us our sins, and to cleanse us from all unrighteousness.',
+  '1 John 4:8': 'He that loveth not knoweth not God; for God is love.',
+  '1 John 5:13': 'These things have I written unto you that believe on the name of the Son of God; that ye may know that ye have eternal life, and that ye may believe on the name of the Son of God.',
+  'Revelation 2:10': 'Fear none of those things which thou shalt suffer: behold, the devil shall cast some of you into prison, that ye may be tried; and ye shall have tribulation ten days: be thou faithful unto death, and I will give thee a crown of life.',
+  'Revelation 3:20': 'Behold, I stand at the door, and knock: if any man hear my voice, and open the door, I will come in to him, and will sup with him, and he with me.',
+  'Revelation 21:4': 'And God shall wipe away all tears from their eyes; and there shall be no more death, neither sorrow, nor crying, neither shall there be any more pain: for the former things are passed away.'
+};
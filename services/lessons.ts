@@ -0,0 +1,39 @@
+
+import { Prospect, LessonSeries, Lesson } from '../types';
+
+export interface StudyProgress {
+  series: LessonSeries;
+  // Lesson id to the date of the follow-up it was first taught in.
+  completedOn: Record<string, string>;
+  completed: number;
+  total: number;
+  nextLesson?: Lesson;
+}
+
+/**
+ * Where a prospect stands in their study series. Completion is read from the
+ * follow-ups, so merged records and replayed offline logs add up without a
+ * separate counter. Returns null when not enrolled or the series was deleted.
+ */
+export const studyProgress = (prospect: Prospect, seriesList: LessonSeries[]): StudyProgress | null => {
+  if (!prospect.study) return null;
+  const series = seriesList.find(s => s.id === prospect.study!.seriesId);
+  if (!series) return null;
+
+  const completedOn: Record<string, string> = {};
+  [...prospect.followUps]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(f => (f.completedLessonIds || []).forEach(id => { completedOn[id] = completedOn[id] || f.date; }));
+
+  const completed = series.lessons.filter(l => completedOn[l.id]).length;
+  return {
+    series,
+    completedOn,
+    completed,
+    total: series.lessons.length,
+    nextLesson: series.lessons.find(l => !completedOn[l.id])
+  };
+};
+
+export const progressPercent = (progress: StudyProgress) =>
+  progress.total === 0 ? 0 : Math.round((progress.completed / progress.total) * 100);
@@ -0,0 +1,194 @@
+
+import { HungerLevel, AIReview, UserRole } from '../types';
+import { AIProvider, InviteDraft, prospectTimeline } from './aiProvider';
+import { passageText } from './scripture';
+
+/**
+ * A rule-based stand-in for the AI that needs no network or API key. It reads
+ * outreach notes for common signals and fills in templates, so the same notes
+ * always give the same review.
+ */
+
+const HIGH_SIGNALS = [
+  'baptis', 'saved', 'salvation', 'bible study', 'study the bible', 'come to church', 'visit church', 'wants to know',
+  'asked about', 'accept', 'repent', 'ready', 'pray with', 'prayed', 'tears', 'cried', 'eager', 'hungry', 'invite us back'
+];
+
+const LOW_SIGNALS = [
+  'not interested', 'no time', 'busy', 'another church', 'already a member', 'atheist', 'rude', 'refused',
+  'closed the door', 'argued', 'do not come back', "don't come back", 'skeptical', 'hostile'
+];
+
+// First matching theme wins; the last entry is the fallback.
+const VERSE_THEMES: { words: string[], verse: string }[] = [
+  { words: ['baptis'], verse: 'Acts 2:38' },
+  { words: ['grief', 'died', 'death', 'funeral', 'loss', 'mourning'], verse: 'Matthew 5:4' },
+  { words: ['sick', 'illness', 'hospital', 'healing', 'pain'], verse: 'James 5:14-15' },
+  { words: ['worry', 'anxious', 'anxiety', 'fear', 'afraid', 'stress'], verse: 'Philippians 4:6-7' },
+  { words: ['sin', 'guilt', 'ashamed', 'shame', 'forgive', 'repent'], verse: '1 John 1:9' },
+  { words: ['family', 'marriage', 'husband', 'wife', 'children', 'kids'], verse: 'Joshua 24:15' },
+  { words: ['money', 'job', 'work', 'unemployed', 'debt', 'poor'], verse: 'Matthew 6:33' },
+  { words: ['lonely', 'alone', 'rejected'], verse: 'Hebrews 13:5' },
+  { words: [], verse: 'John 3:16' }
+];
+
+const NEXT_ACTIONS: Record<HungerLevel, string> = {
+  [HungerLevel.HIGH]: 'Arrange a home Bible study within the week and invite them to Sunday worship.',
+  [HungerLevel.MEDIUM]: 'Visit again within two weeks with a short study on the suggested verse.',
+  [HungerLevel.LOW]: 'Keep the door open with a friendly check-in and a gospel tract in a month.'
+};
+
+const countSignals = (text: string, signals: string[]) => signals.filter(signal => text.includes(signal)).length;
+
+const signalScore = (text: string) => countSignals(text, HIGH_SIGNALS) - countSignals(text, LOW_SIGNALS);
+
+const hungerFromScore = (score: number): HungerLevel => {
+  if (score >= 2) return HungerLevel.HIGH;
+  if (score <= -1) return HungerLevel.LOW;
+  return HungerLevel.MEDIUM;
+};
+
+const verseForNotes = (text: string) =>
+  (VERSE_THEMES.find(theme => theme.words.length === 0 || theme.words.some(word => text.includes(word))) || VERSE_THEMES[VERSE_THEMES.length - 1]).verse;
+
+// The first two sentences of the notes, trimmed to a readable length.
+const summarize = (notes: string) => {
+  const sentences = notes.replace(/\s+/g, ' ').trim().match(/[^.!?]+[.!?]*/g) || [];
+  const summary = sentences.slice(0, 2).join(' ').trim();
+  if (!summary) return 'No notes were recorded for this conversation.';
+  return summary.length > 240 ? `${summary.slice(0, 237).trimEnd()}...` : summary;
+};
+
+const reviewNotes = (notes: string, summarySource: string, score = signalScore(notes.toLowerCase())): AIReview => {
+  const text = notes.toLowerCase();
+  const hungerLevel = hungerFromScore(score);
+  return {
+    hungerLevel,
+    suggestedVerse: verseForNotes(text),
+    suggestedNextAction: NEXT_ACTIONS[hungerLevel],
+    summary: summarize(summarySource)
+  };
+};
+
+interface FollowUpDetails {
+  firstName: string;
+  preacherName: string;
+  reference: string;
+  quote?: string;
+  inviteToStudy: boolean;
+}
+
+interface DraftTemplates {
+  followUp: (details: FollowUpDetails) => string;
+  invite: (inviterName: string, role: UserRole, customNotes?: string) => InviteDraft;
+}
+
+// Drafts for the languages we have templates for; any other language gets English.
+const DRAFTS: Record<string, DraftTemplates> = {
+  en: {
+    followUp: ({ firstName, preacherName, reference, quote, inviteToStudy }) => {
+      const verse = quote ? `${reference} with you: "${quote}"` : `${reference} with you.`;
+      const invitation = inviteToStudy
+        ? 'I would love to sit down with you for a short Bible study this week, whenever suits you.'
+        : 'If you ever have questions or would like to talk again, I am glad to visit.';
+      return `Hello ${firstName}, this is ${preacherName}. It was a blessing to speak with you. I have been thinking about our conversation and wanted to share ${verse} ${invitation} God bless you!`;
+    },
+    invite: (inviterName, role, customNotes) => ({
+      subject: 'Invitation to join the Evangelism Team',
+      body: [
+        'Hello,',
+        `${inviterName} has invited you to join our church outreach team as a ${role}.`,
+        customNotes || 'We would love your help in our evangelism and soul-winning work.',
+        'We use HarvestHub to keep track of the people we meet and how they are growing. Please use the link in this email to register.',
+        'God bless,',
+        inviterName
+      ].join('\n\n')
+    })
+  },
+  es: {
+    followUp: ({ firstName, preacherName, reference, inviteToStudy }) => {
+      const invitation = inviteToStudy
+        ? 'Me encantaría reunirme con usted para un breve estudio bíblico esta semana, cuando le quede bien.'
+        : 'Si tiene preguntas o desea volver a conversar, con gusto le visito.';
+      return `Hola ${firstName}, soy ${preacherName}. Fue una bendición hablar con usted. He estado pensando en nuestra conversación y quería compartirle ${reference}. ${invitation} ¡Dios le bendiga!`;
+    },
+    invite: (inviterName, role, customNotes) => ({
+      subject: 'Invitación para unirse al equipo de evangelismo',
+      body: [
+        'Hola:',
+        `${inviterName} le ha invitado a unirse al equipo de evangelismo de nuestra iglesia como ${role}.`,
+        customNotes || 'Nos encantaría contar con su ayuda en la obra de evangelismo y de ganar almas.',
+        'Usamos HarvestHub para dar seguimiento a las personas que conocemos y a su crecimiento. Use el enlace de este correo para registrarse.',
+        'Bendiciones,',
+        inviterName
+      ].join('\n\n')
+    })
+  },
+  fr: {
+    followUp: ({ firstName, preacherName, reference, inviteToStudy }) => {
+      const invitation = inviteToStudy
+        ? "J'aimerais beaucoup vous retrouver pour une courte étude biblique cette semaine, quand cela vous convient."
+        : 'Si vous avez des questions ou souhaitez en reparler, je serai heureux de vous rendre visite.';
+      return `Bonjour ${firstName}, c'est ${preacherName}. Ce fut une bénédiction de parler avec vous. J'ai repensé à notre conversation et je voulais partager avec vous ${reference}. ${invitation} Que Dieu vous bénisse !`;
+    },
+    invite: (inviterName, role, customNotes) => ({
+      subject: "Invitation à rejoindre l'équipe d'évangélisation",
+      body: [
+        'Bonjour,',
+        `${inviterName} vous invite à rejoindre l'équipe d'évangélisation de notre église en tant que ${role}.`,
+        customNotes || "Nous serions heureux de votre aide dans l'œuvre d'évangélisation et pour gagner des âmes.",
+        'Nous utilisons HarvestHub pour suivre les personnes que nous rencontrons et leur croissance. Utilisez le lien de cet e-mail pour vous inscrire.',
+        'Que Dieu vous bénisse,',
+        inviterName
+      ].join('\n\n')
+    })
+  }
+};
+
+const draftsFor = (language: string) => DRAFTS[language] || DRAFTS.en;
+
+export const localAiProvider: AIProvider = {
+  id: 'local',
+
+  analyzeNotes: async (notes): Promise<AIReview> => reviewNotes(notes, notes),
+
+  // Signals in the latest visit count twice so recent interest outweighs the first conversation.
+  reassess: async (prospect): Promise<AIReview> => {
+    const visits = prospectTimeline(prospect);
+    const latest = visits[visits.length - 1];
+    const allNotes = visits.map(v => v.notes).join('\n');
+    const review = reviewNotes(allNotes, latest.notes, signalScore(allNotes.toLowerCase()) + signalScore(latest.notes.toLowerCase()));
+    const count = visits.length === 1 ? 'one conversation' : `${visits.length} conversations`;
+    return { ...review, summary: `After ${count} since ${prospect.timestamp.slice(0, 10)}: ${review.summary}` };
+  },
+
+  strategy: async (stats) => {
+    const points = [
+      stats.baptism > 0
+        ? `1. Prepare ${stats.baptism} ${stats.baptism === 1 ? 'person' : 'people'} who asked about baptism: schedule studies on Romans 6 and set a date with the elders.`
+        : '1. In every visit this week, ask plainly whether the person would like to study baptism.',
+      stats.highHunger > 0
+        ? `2. Visit the ${stats.highHunger} high-hunger ${stats.highHunger === 1 ? 'contact' : 'contacts'} first; pair each with a member who can bring them to worship.`
+        : '2. Revisit recent contacts with a short Bible study to find who is ready to go deeper.',
+      `3. Divide the ${stats.total} ${stats.total === 1 ? 'contact' : 'contacts'} among the team so no one goes a fortnight without a follow-up.`
+    ];
+    return `${points.join('\n')}\n\n"The harvest truly is plentiful, but the laborers are few." (Matthew 9:37)`;
+  },
+
+  followUpMessage: async (prospect, preacherName, passage, language) => {
+    const firstName = prospect.name.trim().split(/\s+/)[0] || prospect.name;
+    const reference = passage?.reference || prospect.aiReview?.suggestedVerse || 'John 3:16';
+    return draftsFor(language).followUp({
+      firstName,
+      preacherName,
+      reference,
+      quote: passage ? passageText(passage) : undefined,
+      inviteToStudy: prospect.aiReview?.hungerLevel === HungerLevel.HIGH
+    });
+  },
+
+  inviteDraft: async (inviterName, role, customNotes, language) => draftsFor(language).invite(inviterName, role, customNotes?.trim()),
+
+  // Recorded audio cannot be transcribed offline; the browser's live recognition is used when it ran, otherwise nothing.
+  transcribe: async (clip) => clip.liveTranscript?.trim() || ''
+};
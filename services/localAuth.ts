@@ -0,0 +1,123 @@
+
+import { User, UserRole, UserStatus, LocalCredential } from '../types';
+import { UserRepository } from './dataRepository';
+import { USER_SCHEMA_VERSION } from './schema';
+import { DEFAULT_ORG_ID } from './organizations';
+
+/**
+ * Accounts for local mode, where there is no Firebase Auth. Passwords and PINs
+ * are stored only as salted PBKDF2 hashes. Sessions expire outright after
+ * SESSION_TTL_MS and lock after LOCK_AFTER_MS without activity, so a shared
+ * church laptop left open does not stay signed in.
+ */
+const PBKDF2_ITERATIONS = 210000;
+const SALT_BYTES = 16;
+export const MIN_SECRET_LENGTH = 6;
+
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+export const LOCK_AFTER_MS = 15 * 60 * 1000;
+
+const SESSION_KEY = 'evangelism_session';
+
+export interface LocalSession {
+  userId: string;
+  issuedAt: number;
+  expiresAt: number;
+  lastActiveAt: number;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const derive = async (secret: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+export const hashSecret = async (secret: string): Promise<LocalCredential> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(secret, salt, PBKDF2_ITERATIONS);
+  return { algorithm: 'PBKDF2-SHA256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt), hash: toBase64(hash) };
+};
+
+export const verifySecret = async (secret: string, credential: LocalCredential): Promise<boolean> => {
+  if (credential.algorithm !== 'PBKDF2-SHA256') return false;
+  const expected = fromBase64(credential.hash);
+  const actual = await derive(secret, fromBase64(credential.salt), credential.iterations);
+  // Compare every byte so timing does not reveal how much of the hash matched.
+  let difference = expected.length ^ actual.length;
+  for (let i = 0; i < Math.min(expected.length, actual.length); i++) difference |= expected[i] ^ actual[i];
+  return difference === 0;
+};
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * The first local account owns the workspace; later ones wait for an admin,
+ * exactly like cloud sign-ups.
+ */
+export const registerLocalAccount = async (users: UserRepository, details: { name: string, email: string, secret: string }): Promise<User> => {
+  if (details.secret.length < MIN_SECRET_LENGTH) throw new Error(`Use at least ${MIN_SECRET_LENGTH} characters or digits.`);
+  if (await users.findByEmail(normalizeEmail(details.email))) throw new Error("An account with this email already exists on this device.");
+
+  const isFirstUser = await users.isEmpty();
+  const role = isFirstUser ? UserRole.SUPER_ADMIN : UserRole.TEAM_MEMBER;
+  const status = isFirstUser ? UserStatus.APPROVED : UserStatus.PENDING;
+  const user: User = {
+    id: crypto.randomUUID(),
+    name: details.name.trim(),
+    email: normalizeEmail(details.email),
+    role,
+    status,
+    memberships: { [DEFAULT_ORG_ID]: { role, status } },
+    orgIds: [DEFAULT_ORG_ID],
+    credential: await hashSecret(details.secret),
+    createdAt: new Date().toISOString(),
+    hasSeenTour: false,
+    schemaVersion: USER_SCHEMA_VERSION
+  };
+  await users.register(user, isFirstUser);
+  return user;
+};
+
+export const signInLocal = async (users: UserRepository, email: string, secret: string): Promise<User> => {
+  const user = await users.findByEmail(normalizeEmail(email));
+  // Same message for unknown accounts and wrong passwords.
+  if (!user?.credential || !(await verifySecret(secret, user.credential))) throw new Error("That email and password do not match an account on this device.");
+  if (user.status !== UserStatus.APPROVED) {
+    throw new Error(user.status === UserStatus.PENDING ? "Your account is still awaiting approval." : "This account has been restricted.");
+  }
+  return user;
+};
+
+export const startSession = (userId: string): LocalSession => {
+  const now = Date.now();
+  const session = { userId, issuedAt: now, expiresAt: now + SESSION_TTL_MS, lastActiveAt: now };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  return session;
+};
+
+// Null for missing, malformed (including the old whole-user format) or expired sessions.
+export const readSession = (): LocalSession | null => {
+  try {
+    const session = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+    if (!session || typeof session.userId !== 'string' || typeof session.expiresAt !== 'number') throw new Error("Unrecognized session");
+    if (session.expiresAt <= Date.now()) throw new Error("Session expired");
+    return session;
+  } catch (e) {
+    localStorage.removeItem(SESSION_KEY);
+    return null;
+  }
+};
+
+export const touchSession = () => {
+  const session = readSession();
+  if (session) localStorage.setItem(SESSION_KEY, JSON.stringify({ ...session, lastActiveAt: Date.now() }));
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+};
+
+export const isSessionIdle = (session: LocalSession) => Date.now() - session.lastActiveAt >= LOCK_AFTER_MS;
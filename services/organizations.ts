@@ -0,0 +1,54 @@
+
+import { User, OrgMembership, Organization, UserStatus } from '../types';
+
+/**
+ * Each congregation is an organization. Records written before organizations
+ * existed belong to DEFAULT_ORG_ID, which also needs no document of its own.
+ */
+export const DEFAULT_ORG_ID = 'default';
+export const DEFAULT_ORG_NAME = 'Main Congregation';
+
+const ACTIVE_ORG_KEY = 'harvest_hub_active_org';
+
+export const getActiveOrgId = (): string =>
+  (typeof localStorage === 'undefined' ? null : localStorage.getItem(ACTIVE_ORG_KEY)) || DEFAULT_ORG_ID;
+
+export const setActiveOrgId = (orgId: string) => {
+  localStorage.setItem(ACTIVE_ORG_KEY, orgId);
+};
+
+export const orgOf = (record: { orgId?: string }) => record.orgId || DEFAULT_ORG_ID;
+
+export const membershipIn = (user: User, orgId: string): OrgMembership | null => user.memberships?.[orgId] || null;
+
+export const approvedOrgIds = (user: User): string[] =>
+  Object.entries(user.memberships || {})
+    .filter(([, membership]) => membership.status === UserStatus.APPROVED)
+    .map(([orgId]) => orgId);
+
+/**
+ * The user as seen from one organization: role and status come from that
+ * membership, so role checks elsewhere need no knowledge of organizations.
+ * Null when the user does not belong to it.
+ */
+export const asMemberOf = (user: User, orgId: string): User | null => {
+  const membership = membershipIn(user, orgId);
+  return membership ? { ...user, role: membership.role, status: membership.status } : null;
+};
+
+// Account status summarizes the memberships: approved anywhere means the account may sign in.
+const summarizeStatus = (memberships: Record<string, OrgMembership>): UserStatus => {
+  const statuses = Object.values(memberships).map(m => m.status);
+  if (statuses.includes(UserStatus.APPROVED)) return UserStatus.APPROVED;
+  if (statuses.includes(UserStatus.PENDING)) return UserStatus.PENDING;
+  return UserStatus.REJECTED;
+};
+
+// The fields to write when one membership changes.
+export const membershipUpdate = (user: User, orgId: string, membership: OrgMembership): Pick<User, 'memberships' | 'orgIds' | 'status'> => {
+  const memberships = { ...user.memberships, [orgId]: membership };
+  return { memberships, orgIds: Object.keys(memberships), status: summarizeStatus(memberships) };
+};
+
+export const organizationName = (organizations: Organization[], orgId: string) =>
+  organizations.find(o => o.id === orgId)?.name || (orgId === DEFAULT_ORG_ID ? DEFAULT_ORG_NAME : 'Unnamed Congregation');
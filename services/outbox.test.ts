@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Prospect } from '../types';
+import { Repositories } from './dataRepository';
+import { createOutbox, flushOutbox } from './outbox';
+
+// Without IndexedDB the outbox keeps its entries in memory.
+const newRecord = { id: 'p1', name: 'Maria', phone: '', preachingNotes: '', followUps: [], timestamp: '2024-03-01T10:00:00.000Z', preacherName: 'Ana', status: 'New', signifiedForBaptism: false } as Prospect;
+
+const failingRepos = (error: unknown) => ({
+  prospects: { add: async () => { throw error; } },
+  photos: { uploadPending: async () => 0 },
+  audio: { uploadPending: async () => 0 }
+} as unknown as Repositories);
+
+const queued = async (error: unknown) => {
+  const outbox = createOutbox();
+  await outbox.enqueue({ type: 'addProspect', prospect: newRecord });
+  return { outbox, repos: failingRepos(error) };
+};
+
+const flushTimes = async (times: number, ...args: Parameters<typeof flushOutbox>) => {
+  for (let i = 0; i < times; i++) await flushOutbox(...args);
+};
+
+describe('replaying the outbox', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.clearAllTimers();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps retrying writes that could not reach the backend without counting them', async () => {
+    const { outbox, repos } = await queued(Object.assign(new Error('Could not reach Cloud Firestore backend.'), { code: 'unavailable' }));
+    await flushTimes(12, repos, outbox);
+    expect(outbox.entries()).toMatchObject([{ attempts: 0, retries: 12 }]);
+    expect(outbox.entries()[0].parked).toBeUndefined();
+  });
+
+  it('sets aside a write the backend refuses', async () => {
+    const { outbox, repos } = await queued(Object.assign(new Error('Missing or insufficient permissions.'), { code: 'permission-denied' }));
+    await flushOutbox(repos, outbox);
+    expect(outbox.entries()).toMatchObject([{ attempts: 1, parked: true }]);
+  });
+
+  it('sets aside a write that keeps failing on the backend', async () => {
+    const { outbox, repos } = await queued(Object.assign(new Error('Internal error.'), { code: 'internal' }));
+    await flushTimes(7, repos, outbox);
+    expect(outbox.entries()[0].parked).toBeUndefined();
+    await flushOutbox(repos, outbox);
+    expect(outbox.entries()).toMatchObject([{ attempts: 8, parked: true }]);
+  });
+
+  it('runs one flush at a time per outbox, not across outboxes', async () => {
+    const first = await queued(new Error('Internal error.'));
+    const second = await queued(new Error('Internal error.'));
+    const running = flushOutbox(first.repos, first.outbox);
+    expect(flushOutbox(first.repos, first.outbox)).toBe(running);
+    const other = flushOutbox(second.repos, second.outbox);
+    expect(other).not.toBe(running);
+    await Promise.all([running, other]);
+  });
+});
@@ -0,0 +1,351 @@
+
+import { Prospect, FollowUp, AuditActor } from '../types';
+import { Repositories, ProspectRepository, ProspectPage, Unsubscribe, ConflictError, WriteOptions, PatchOptions, MergeOptions, matchesProspectQuery } from './dataRepository';
+import { combineProspects } from './duplicates';
+import { orgOf } from './organizations';
+import { analyzePreachingNotes } from './aiService';
+import { AIUnavailableError } from './aiOutput';
+import { AIBlockedError } from './redaction';
+import { AIQuotaError } from './aiUsage';
+import { openKeyedStore } from './indexedDb';
+
+export type OutboxOperation =
+  | { type: 'addProspect'; prospect: Prospect; options?: WriteOptions }
+  | { type: 'updateProspect'; prospect: Prospect; options?: WriteOptions }
+  | { type: 'patchProspect'; prospectId: string; updates: Partial<Prospect>; options?: PatchOptions }
+  | { type: 'addFollowUp'; prospectId: string; followUp: FollowUp; options?: WriteOptions }
+  | { type: 'removeProspect'; prospectId: string }
+  | { type: 'mergeProspects'; targetId: string; sourceId: string; options?: MergeOptions }
+  | { type: 'analyzeProspect'; prospectId: string; notes: string; prospectName?: string; sensitive?: boolean; actor?: AuditActor };
+
+export interface OutboxEntry {
+  seq?: number;
+  op: OutboxOperation;
+  createdAt: string;
+  // Failures the backend answered; the entry is set aside after MAX_ATTEMPTS of them.
+  attempts: number;
+  // Every failed replay, network failures included; sets the backoff.
+  retries?: number;
+  lastError?: string;
+  // Set aside after a failure retrying cannot fix; waits for the user to retry or discard it.
+  parked?: boolean;
+  // Set aside because someone else changed the same fields first: their current values.
+  conflict?: Partial<Prospect>;
+}
+
+export interface Outbox {
+  entries: () => OutboxEntry[];
+  enqueue: (op: OutboxOperation) => Promise<void>;
+  remove: (seq: number) => Promise<void>;
+  /** Records a failed replay; `network` failures never reached the backend and do not count as attempts. */
+  markFailed: (seq: number, error: string, options?: { park?: boolean, network?: boolean }) => Promise<void>;
+  markConflict: (seq: number, current: Partial<Prospect>) => Promise<void>;
+  /** Puts a set-aside entry back in line; `overwrite` applies a conflicting edit over the newer values. */
+  retry: (seq: number, overwrite?: boolean) => Promise<void>;
+  subscribe: (onChange: (entries: OutboxEntry[]) => void) => Unsubscribe;
+  ready: Promise<void>;
+  /** Runs `flush` unless one is already running on this queue, which is returned instead; cancels a scheduled retry. */
+  runFlush: (flush: () => Promise<void>) => Promise<void>;
+  /** Calls `retry` after `delayMs`, unless another flush starts first. */
+  scheduleRetry: (retry: () => void, delayMs: number) => void;
+}
+
+/**
+ * Persisted, ordered queue of writes made while offline. Entries are cached in
+ * memory so the UI can overlay them synchronously; IndexedDB keeps them across
+ * reloads. Falls back to memory only when IndexedDB is unavailable.
+ */
+export const createOutbox = (): Outbox => {
+  let cache: OutboxEntry[] = [];
+  let nextMemorySeq = 1;
+  const listeners = new Set<(entries: OutboxEntry[]) => void>();
+  const notify = () => listeners.forEach(listener => listener(cache));
+
+  const dbPromise = openKeyedStore('harvest_hub_offline', 'outbox', { keyPath: 'seq', autoIncrement: true });
+
+  const ready = dbPromise.then(async (db) => {
+    if (!db) return;
+    cache = await db.run('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>);
+    notify();
+  });
+
+  const enqueue = async (op: OutboxOperation) => {
+    await ready;
+    const entry: OutboxEntry = { op, createdAt: new Date().toISOString(), attempts: 0 };
+    const db = await dbPromise;
+    entry.seq = db
+      ? Number(await db.run('readwrite', store => store.add(entry)))
+      : nextMemorySeq++;
+    cache = [...cache, entry];
+    notify();
+  };
+
+  const remove = async (seq: number) => {
+    const db = await dbPromise;
+    if (db) await db.run('readwrite', store => store.delete(seq));
+    cache = cache.filter(e => e.seq !== seq);
+    notify();
+  };
+
+  const replace = async (seq: number, change: (entry: OutboxEntry) => OutboxEntry) => {
+    const existing = cache.find(e => e.seq === seq);
+    if (!existing) return;
+    const updated = change(existing);
+    const db = await dbPromise;
+    if (db) await db.run('readwrite', store => store.put(updated));
+    cache = cache.map(e => e.seq === seq ? updated : e);
+    notify();
+  };
+
+  const markFailed = (seq: number, error: string, { park = false, network = false } = {}) =>
+    replace(seq, existing => ({
+      ...existing,
+      attempts: network ? existing.attempts : existing.attempts + 1,
+      retries: (existing.retries || 0) + 1,
+      lastError: error,
+      ...(park ? { parked: true } : {})
+    }));
+
+  const markConflict = (seq: number, current: Partial<Prospect>) =>
+    replace(seq, ({ lastError, ...existing }) => ({ ...existing, parked: true, conflict: current }));
+
+  const retry = (seq: number, overwrite = false) =>
+    replace(seq, ({ parked, lastError, conflict, retries, ...existing }) => ({
+      ...existing,
+      op: overwrite ? withoutExpected(existing.op) : existing.op,
+      attempts: 0
+    }));
+
+  const subscribe = (onChange: (entries: OutboxEntry[]) => void): Unsubscribe => {
+    listeners.add(onChange);
+    onChange(cache);
+    return () => { listeners.delete(onChange); };
+  };
+
+  // One replay at a time per queue, so entries are never sent twice or out of order.
+  let flushing: Promise<void> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const runFlush = (flush: () => Promise<void>) => {
+    if (flushing) return flushing;
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    flushing = flush().finally(() => { flushing = null; });
+    return flushing;
+  };
+
+  const scheduleRetry = (retry: () => void, delayMs: number) => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => { retryTimer = null; retry(); }, delayMs);
+  };
+
+  return { entries: () => cache, enqueue, remove, markFailed, markConflict, retry, subscribe, ready, runFlush, scheduleRetry };
+};
+
+// A patch without its expected values is applied whatever the record holds now.
+const withoutExpected = (op: OutboxOperation): OutboxOperation => {
+  if (op.type !== 'patchProspect' || !op.options?.expected) return op;
+  const { expected, ...options } = op.options;
+  return { ...op, options };
+};
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// Backend codes for writes that will be refused again as they stand, e.g. after losing access
+// or when the record was deleted. Anything else (network, quota, timeouts) may succeed later.
+const PERMANENT_CODES = ['permission-denied', 'not-found', 'invalid-argument', 'already-exists', 'failed-precondition', 'out-of-range', 'unimplemented'];
+
+const isPermanentFailure = (e: any) => PERMANENT_CODES.includes(e?.code);
+
+// The write never reached the backend, so it says nothing about whether it would be accepted.
+const NETWORK_CODES = ['unavailable', 'deadline-exceeded'];
+
+const isNetworkFailure = (e: any) => !isOnline() || NETWORK_CODES.includes(e?.code);
+
+// Transient failures are retried with exponential backoff. Network failures are retried for as
+// long as it takes; others are set aside once the backend has refused them MAX_ATTEMPTS times.
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+const retryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+// Apply queued creates/updates/removals on top of what the backend last reported.
+// Set-aside entries are left out: the backend refused them, so they are not shown as saved.
+const applyPending = (items: Prospect[], entries: OutboxEntry[]): Prospect[] => {
+  return entries.filter(e => !e.parked).reduce((acc, { op }) => {
+    if (op.type === 'addProspect') {
+      return acc.some(p => p.id === op.prospect.id) ? acc : [op.prospect, ...acc];
+    }
+    if (op.type === 'updateProspect') {
+      return acc.map(p => p.id === op.prospect.id ? op.prospect : p);
+    }
+    if (op.type === 'patchProspect') {
+      return acc.map(p => p.id === op.prospectId ? { ...p, ...op.updates } : p);
+    }
+    if (op.type === 'addFollowUp') {
+      return acc.map(p => p.id === op.prospectId && !p.followUps.some(f => f.id === op.followUp.id)
+        ? { ...p, followUps: [...p.followUps, op.followUp], status: 'Followed Up' as const }
+        : p);
+    }
+    if (op.type === 'removeProspect') {
+      return acc.filter(p => p.id !== op.prospectId);
+    }
+    if (op.type === 'mergeProspects') {
+      const target = acc.find(p => p.id === op.targetId);
+      const source = acc.find(p => p.id === op.sourceId);
+      if (!target || !source) return acc;
+      const combined = combineProspects(target, source, op.options?.canAssign);
+      return acc.map(p => p.id === op.targetId ? { ...p, ...combined } : p.id === op.sourceId ? { ...p, mergedIntoId: op.targetId } : p);
+    }
+    return acc;
+  }, items);
+};
+
+const replayOperation = async (base: ProspectRepository, op: OutboxOperation) => {
+  switch (op.type) {
+    case 'addProspect': return base.add(op.prospect, op.options);
+    case 'updateProspect': return base.update(op.prospect, op.options);
+    case 'patchProspect': return base.patch(op.prospectId, op.updates, op.options);
+    case 'addFollowUp': return base.addFollowUp(op.prospectId, op.followUp, op.options);
+    case 'removeProspect': return base.remove(op.prospectId);
+    case 'mergeProspects': return base.merge(op.targetId, op.sourceId, op.options);
+    case 'analyzeProspect': {
+      try {
+        const aiReview = await analyzePreachingNotes(op.notes, { prospectName: op.prospectName, sensitive: op.sensitive });
+        return base.patch(op.prospectId, { aiReview, aiReviewPending: false }, { actor: op.actor });
+      } catch (e) {
+        // The organization started keeping sensitive notes from the AI while this was queued, or today's quota ran out.
+        if (e instanceof AIBlockedError || e instanceof AIQuotaError) return base.patch(op.prospectId, { aiReviewPending: false }, { actor: op.actor });
+        // Online but the AI keeps failing: leave the record without a review (shown as unavailable) rather than hold up the queue.
+        if (!(e instanceof AIUnavailableError) || !isOnline()) throw e;
+        return base.patch(op.prospectId, { aiReviewPending: false }, { actor: op.actor });
+      }
+    }
+  }
+};
+
+/**
+ * Replays queued operations strictly in order. Stops at the first transient
+ * failure so a later update can never land before the create it depends on,
+ * and tries again after a backoff. Entries the backend refuses outright are
+ * set aside for the user instead of holding up the rest of the queue; ones
+ * that could not reach it wait however long the device stays offline.
+ */
+export const flushOutbox = (repos: Repositories, outbox: Outbox): Promise<void> => outbox.runFlush(async () => {
+  await outbox.ready;
+  for (const entry of [...outbox.entries()]) {
+    if (!isOnline()) break;
+    if (entry.parked) continue;
+    try {
+      await replayOperation(repos.prospects, entry.op);
+      await outbox.remove(entry.seq!);
+    } catch (e: any) {
+      if (e instanceof ConflictError) {
+        // Someone else changed the same field while we were offline; the user picks whose value stands.
+        console.warn("Queued edit conflicts with a newer change", entry.op, e.current);
+        await outbox.markConflict(entry.seq!, e.current);
+        continue;
+      }
+      const network = isNetworkFailure(e);
+      const park = !network && (isPermanentFailure(e) || entry.attempts + 1 >= MAX_ATTEMPTS);
+      console.error(park ? "Outbox replay refused, setting the entry aside" : "Outbox replay failed", e);
+      await outbox.markFailed(entry.seq!, e?.message || String(e), { park, network });
+      if (park) continue;
+      outbox.scheduleRetry(() => flushOutbox(repos, outbox), retryDelay((entry.retries || 0) + 1));
+      break;
+    }
+  }
+  // Photos and voice notes that could not be uploaded when taken go up on the same occasions.
+  if (isOnline()) {
+    await Promise.all([repos.photos.uploadPending(), repos.audio.uploadPending()])
+      .catch(e => console.error("Media upload retry failed", e));
+  }
+});
+
+/**
+ * Wraps repositories so prospect writes are queued instead of failing when the
+ * device is offline. Queued records are shown optimistically until replayed.
+ */
+export const withOutbox = (repos: Repositories, outbox: Outbox): Repositories => {
+  const queueOrWrite = async (op: OutboxOperation, write: () => Promise<void>) => {
+    // Set-aside entries wait for the user and do not hold up new writes.
+    if (isOnline() && outbox.entries().every(e => e.parked)) {
+      try {
+        await write();
+        return;
+      } catch (e) {
+        if (e instanceof ConflictError) throw e;
+        console.error("Write failed, queueing for later sync", e);
+      }
+    }
+    await outbox.enqueue(op);
+    if (isOnline()) flushOutbox(repos, outbox);
+  };
+
+  // The review is attributed to whoever saved the record, as the security rules require.
+  const queueAnalysis = async (prospect: Prospect, actor?: AuditActor) => {
+    if (!prospect.aiReviewPending) return;
+    await outbox.enqueue({
+      type: 'analyzeProspect',
+      prospectId: prospect.id,
+      notes: prospect.preachingNotes,
+      prospectName: prospect.name,
+      ...(prospect.sensitiveNotes ? { sensitive: true } : {}),
+      actor
+    });
+    if (isOnline()) flushOutbox(repos, outbox);
+  };
+
+  const prospects: ProspectRepository = {
+    subscribe: (onChange, onError) => {
+      let latest: Prospect[] = [];
+      let entries: OutboxEntry[] = outbox.entries();
+      const emit = () => onChange(applyPending(latest, entries).filter(p => orgOf(p) === repos.orgId));
+      const unsubBase = repos.prospects.subscribe((items) => { latest = items; emit(); }, onError);
+      const unsubOutbox = outbox.subscribe((next) => { entries = next; emit(); });
+      return () => { unsubBase(); unsubOutbox(); };
+    },
+    subscribePage: (scope, onChange, onError) => {
+      let latest: ProspectPage = { items: [], hasMore: false };
+      let entries: OutboxEntry[] = outbox.entries();
+      const emit = () => onChange({
+        ...latest,
+        items: applyPending(latest.items, entries).filter(p => orgOf(p) === repos.orgId && matchesProspectQuery(p, scope))
+      });
+      const base = repos.prospects.subscribePage(scope, (page) => { latest = page; emit(); }, onError);
+      const unsubOutbox = outbox.subscribe((next) => { entries = next; emit(); });
+      return { loadMore: base.loadMore, unsubscribe: () => { base.unsubscribe(); unsubOutbox(); } };
+    },
+    // Options ride along in the queued op so replayed writes keep the original actor.
+    // New records are filed now, so switching organizations before replay can't move them.
+    add: async (prospect, options) => {
+      const filed = { ...prospect, orgId: prospect.orgId || repos.orgId };
+      await queueOrWrite({ type: 'addProspect', prospect: filed, options }, () => repos.prospects.add(filed, options));
+      await queueAnalysis(filed, options?.actor);
+    },
+    update: (prospect, options) => queueOrWrite({ type: 'updateProspect', prospect, options }, () => repos.prospects.update(prospect, options)),
+    patch: (prospectId, updates, options) => queueOrWrite(
+      { type: 'patchProspect', prospectId, updates, options },
+      () => repos.prospects.patch(prospectId, updates, options)
+    ),
+    addFollowUp: (prospectId, followUp, options) => queueOrWrite(
+      { type: 'addFollowUp', prospectId, followUp, options },
+      () => repos.prospects.addFollowUp(prospectId, followUp, options)
+    ),
+    remove: (prospectId) => queueOrWrite({ type: 'removeProspect', prospectId }, () => repos.prospects.remove(prospectId)),
+    merge: (targetId, sourceId, options) => queueOrWrite(
+      { type: 'mergeProspects', targetId, sourceId, options },
+      () => repos.prospects.merge(targetId, sourceId, options)
+    ),
+    list: async (scope) => applyPending(await repos.prospects.list(scope), outbox.entries())
+      .filter(p => orgOf(p) === repos.orgId && matchesProspectQuery(p, scope) && !p.mergedIntoId),
+    // Reads go straight to the backend, so records still in the queue count once they sync.
+    summarize: (scope) => repos.prospects.summarize(scope),
+    findMatches: (candidates, scope) => repos.prospects.findMatches(candidates, scope)
+  };
+
+  return { ...repos, prospects };
+};
@@ -0,0 +1,93 @@
+
+/**
+ * Lightweight E.164 handling for the countries our congregations work in.
+ * Numbers typed in national form are resolved against a per-device default
+ * country; anything starting with + or 00 is taken as international.
+ */
+export interface PhoneCountry {
+  code: string;
+  name: string;
+  dialCode: string;
+  trunkPrefix?: string;
+  // Allowed lengths of the national significant number.
+  lengths: number[];
+}
+
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  { code: 'US', name: 'United States / Canada', dialCode: '1', lengths: [10] },
+  { code: 'GB', name: 'United Kingdom', dialCode: '44', trunkPrefix: '0', lengths: [9, 10] },
+  { code: 'NG', name: 'Nigeria', dialCode: '234', trunkPrefix: '0', lengths: [8, 10] },
+  { code: 'GH', name: 'Ghana', dialCode: '233', trunkPrefix: '0', lengths: [9] },
+  { code: 'KE', name: 'Kenya', dialCode: '254', trunkPrefix: '0', lengths: [9] },
+  { code: 'UG', name: 'Uganda', dialCode: '256', trunkPrefix: '0', lengths: [9] },
+  { code: 'TZ', name: 'Tanzania', dialCode: '255', trunkPrefix: '0', lengths: [9] },
+  { code: 'ZA', name: 'South Africa', dialCode: '27', trunkPrefix: '0', lengths: [9] },
+  { code: 'ZM', name: 'Zambia', dialCode: '260', trunkPrefix: '0', lengths: [9] },
+  { code: 'ZW', name: 'Zimbabwe', dialCode: '263', trunkPrefix: '0', lengths: [9] },
+  { code: 'CM', name: 'Cameroon', dialCode: '237', lengths: [9] },
+  { code: 'IN', name: 'India', dialCode: '91', trunkPrefix: '0', lengths: [10] },
+  { code: 'PH', name: 'Philippines', dialCode: '63', trunkPrefix: '0', lengths: [10] },
+  { code: 'AU', name: 'Australia', dialCode: '61', trunkPrefix: '0', lengths: [9] }
+];
+
+const DEFAULT_COUNTRY_KEY = 'harvest_hub_phone_country';
+const FALLBACK_COUNTRY = 'US';
+
+export const getDefaultCountry = (): string => {
+  const saved = typeof localStorage === 'undefined' ? null : localStorage.getItem(DEFAULT_COUNTRY_KEY);
+  return PHONE_COUNTRIES.some(c => c.code === saved) ? saved! : FALLBACK_COUNTRY;
+};
+
+export const setDefaultCountry = (code: string) => {
+  localStorage.setItem(DEFAULT_COUNTRY_KEY, code);
+};
+
+export type PhoneParseResult =
+  | { e164: string; error?: undefined }
+  | { e164?: undefined; error: string };
+
+const EXTENSION = /\s*(ext|x)\.?\s*\d+$/i;
+
+// Longest dial codes first so 234 is not mistaken for a number under code 2.
+const BY_DIAL_CODE = [...PHONE_COUNTRIES].sort((a, b) => b.dialCode.length - a.dialCode.length);
+
+export const parsePhone = (input: string, countryCode: string = getDefaultCountry()): PhoneParseResult => {
+  // Extensions are dropped; they can't be dialled from a link anyway.
+  const trimmed = input.trim().replace(EXTENSION, '');
+  if (!trimmed) return { error: 'Enter a phone number.' };
+  if (/[a-z]/i.test(trimmed)) return { error: 'Phone numbers can only contain digits.' };
+  const digits = trimmed.replace(/\D/g, '');
+
+  if (trimmed.startsWith('+') || trimmed.startsWith('00')) {
+    const international = trimmed.startsWith('00') ? digits.slice(2) : digits;
+    const country = BY_DIAL_CODE.find(c => international.startsWith(c.dialCode));
+    if (country && !country.lengths.includes(international.length - country.dialCode.length)) {
+      return { error: `That doesn't look like a complete ${country.name} number.` };
+    }
+    if (international.length < 8 || international.length > 15) return { error: 'International numbers must have 8 to 15 digits.' };
+    return { e164: `+${international}` };
+  }
+
+  const country = PHONE_COUNTRIES.find(c => c.code === countryCode) || PHONE_COUNTRIES[0];
+  let national = digits;
+  if (country.trunkPrefix && national.startsWith(country.trunkPrefix)) national = national.slice(country.trunkPrefix.length);
+  // People often type the country code without the +.
+  else if (national.startsWith(country.dialCode) && country.lengths.includes(national.length - country.dialCode.length)) {
+    national = national.slice(country.dialCode.length);
+  }
+  if (!country.lengths.includes(national.length)) {
+    return { error: `That doesn't look like a complete ${country.name} number. Add the country code if it is from elsewhere.` };
+  }
+  return { e164: `+${country.dialCode}${national}` };
+};
+
+// Best-effort normalization for stored data; null when the number cannot be trusted.
+export const toE164 = (input: string, countryCode?: string): string | null => {
+  return parsePhone(input, countryCode).e164 || null;
+};
+
+export const contactLinks = (e164: string) => ({
+  call: `tel:${e164}`,
+  sms: `sms:${e164}`,
+  whatsapp: `https://wa.me/${e164.slice(1)}`
+});
@@ -0,0 +1,193 @@
+
+import { FirebaseStorage, ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { PhotoRef } from '../types';
+import { openKeyedStore, KeyedStore } from './indexedDb';
+
+export interface PhotoStore {
+  put: (file: Blob, folder: string) => Promise<PhotoRef>;
+  getUrl: (photo: PhotoRef) => Promise<string | null>;
+  remove: (photo: PhotoRef) => Promise<void>;
+  /** Uploads photos kept on this device when they could not reach the cloud; returns how many went up. */
+  uploadPending: () => Promise<number>;
+  /** The file behind a `local` reference, for backups; null once this device no longer has it. */
+  readLocal: (photo: PhotoRef) => Promise<Blob | null>;
+  /** Keeps a restored file on this device under its original path; cloud stores queue it for upload. */
+  keepLocal: (path: string, file: Blob) => Promise<void>;
+}
+
+interface CompressedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+const FULL_MAX_DIMENSION = 1600;
+const FULL_QUALITY = 0.8;
+const THUMB_MAX_DIMENSION = 240;
+const THUMB_QUALITY = 0.7;
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+  img.onerror = () => { URL.revokeObjectURL(url); reject(new Error("Unable to read image file.")); };
+  img.src = url;
+});
+
+const drawScaled = (img: HTMLImageElement, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+/**
+ * Resizes a camera photo to at most FULL_MAX_DIMENSION on its long edge and
+ * re-encodes it as JPEG, alongside a small data-URL thumbnail for the record.
+ */
+export const compressImage = async (file: Blob): Promise<CompressedImage & { thumbnail: string }> => {
+  const img = await loadImage(file);
+  const full = drawScaled(img, FULL_MAX_DIMENSION);
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    full.toBlob(b => b ? resolve(b) : reject(new Error("Image compression failed.")), 'image/jpeg', FULL_QUALITY);
+  });
+  const thumbnail = drawScaled(img, THUMB_MAX_DIMENSION).toDataURL('image/jpeg', THUMB_QUALITY);
+  return { blob, width: full.width, height: full.height, thumbnail };
+};
+
+const buildRef = (backend: PhotoRef['backend'], path: string, image: CompressedImage, thumbnail: string, url?: string): PhotoRef => ({
+  id: path.split('/').pop()!,
+  backend,
+  path,
+  ...(url ? { url } : {}),
+  thumbnail,
+  width: image.width,
+  height: image.height,
+  createdAt: new Date().toISOString()
+});
+
+// --- IndexedDB (local mode, and fallback when an upload cannot reach the cloud) ---
+
+let localBlobs: Promise<KeyedStore | null> | null = null;
+const getLocalBlobs = () => localBlobs ??= openKeyedStore('harvest_hub_media', 'photos');
+const objectUrls = new Map<string, string>();
+
+const putLocalBlob = async (path: string, blob: Blob) => {
+  const db = await getLocalBlobs();
+  if (!db) throw new Error("Local photo storage is unavailable in this browser.");
+  await db.run('readwrite', store => store.put(blob, path));
+};
+
+const getLocalBlob = async (path: string): Promise<Blob | undefined> => {
+  const db = await getLocalBlobs();
+  return db ? db.run<Blob | undefined>('readonly', store => store.get(path)) : undefined;
+};
+
+const getLocalUrl = async (path: string): Promise<string | null> => {
+  if (objectUrls.has(path)) return objectUrls.get(path)!;
+  const blob = await getLocalBlob(path);
+  if (!blob) return null;
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(path, url);
+  return url;
+};
+
+const removeLocalBlob = async (path: string) => {
+  const db = await getLocalBlobs();
+  if (db) await db.run('readwrite', store => store.delete(path));
+  const url = objectUrls.get(path);
+  if (url) { URL.revokeObjectURL(url); objectUrls.delete(path); }
+};
+
+export const createLocalPhotoStore = (): PhotoStore => ({
+  put: async (file, folder) => {
+    const { thumbnail, ...image } = await compressImage(file);
+    const path = `${folder}/${crypto.randomUUID()}.jpg`;
+    await putLocalBlob(path, image.blob);
+    return buildRef('local', path, image, thumbnail);
+  },
+  getUrl: (photo) => getLocalUrl(photo.path),
+  remove: (photo) => removeLocalBlob(photo.path),
+  uploadPending: async () => 0,
+  readLocal: async (photo) => (await getLocalBlob(photo.path)) || null,
+  keepLocal: (path, file) => putLocalBlob(path, file)
+});
+
+// --- Firebase Storage ---
+
+// Paths of photos that failed to upload. They are retried to the same path, so a record's
+// `local` reference resolves from Storage on other devices once the upload goes through.
+const PENDING_UPLOADS_KEY = 'harvest_hub_pending_photo_uploads';
+
+const loadPendingUploads = (): string[] => {
+  try {
+    const paths = JSON.parse(localStorage.getItem(PENDING_UPLOADS_KEY) || '[]');
+    return Array.isArray(paths) ? paths : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const savePendingUploads = (paths: string[]) => {
+  if (paths.length) localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(paths));
+  else localStorage.removeItem(PENDING_UPLOADS_KEY);
+};
+
+export const createFirebasePhotoStore = (storage: FirebaseStorage): PhotoStore => ({
+  put: async (file, folder) => {
+    const { thumbnail, ...image } = await compressImage(file);
+    const path = `${folder}/${crypto.randomUUID()}.jpg`;
+    try {
+      if (!navigator.onLine) throw new Error("Device is offline.");
+      const objectRef = ref(storage, path);
+      await uploadBytes(objectRef, image.blob, { contentType: 'image/jpeg' });
+      return buildRef('firebase', path, image, thumbnail, await getDownloadURL(objectRef));
+    } catch (e) {
+      // Offline or storage not provisioned: keep the full image on this device until the
+      // upload can be retried; the record carries the thumbnail for everyone else meanwhile.
+      console.error("Photo upload failed, keeping local copy", e);
+      await putLocalBlob(path, image.blob);
+      savePendingUploads([...loadPendingUploads(), path]);
+      return buildRef('local', path, image, thumbnail);
+    }
+  },
+  getUrl: async (photo) => {
+    if (photo.backend === 'local') return (await getLocalUrl(photo.path)) || getDownloadURL(ref(storage, photo.path)).catch(() => null);
+    return photo.url || getDownloadURL(ref(storage, photo.path));
+  },
+  remove: async (photo) => {
+    if (photo.backend === 'local') {
+      savePendingUploads(loadPendingUploads().filter(path => path !== photo.path));
+      await removeLocalBlob(photo.path);
+      // It may have been uploaded since it was taken.
+      await deleteObject(ref(storage, photo.path)).catch((e) => {
+        if (e?.code !== 'storage/object-not-found') console.error("Could not remove uploaded photo", e);
+      });
+      return;
+    }
+    await deleteObject(ref(storage, photo.path));
+  },
+  uploadPending: async () => {
+    let uploaded = 0;
+    for (const path of loadPendingUploads()) {
+      if (!navigator.onLine) break;
+      const blob = await getLocalBlob(path);
+      try {
+        if (blob) await uploadBytes(ref(storage, path), blob, { contentType: 'image/jpeg' });
+      } catch (e) {
+        console.error("Photo upload retry failed", e);
+        break;
+      }
+      savePendingUploads(loadPendingUploads().filter(p => p !== path));
+      if (blob) uploaded++;
+    }
+    return uploaded;
+  },
+  readLocal: async (photo) => (await getLocalBlob(photo.path)) || null,
+  keepLocal: async (path, file) => {
+    await putLocalBlob(path, file);
+    if (!loadPendingUploads().includes(path)) savePendingUploads([...loadPendingUploads(), path]);
+  }
+});
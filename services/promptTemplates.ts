@@ -0,0 +1,146 @@
+
+import { PromptTemplate, PromptTemplateVersion } from '../types';
+import { AIFeature } from './aiProvider';
+
+/**
+ * The wording of every Gemini prompt. Admins can replace a feature's default
+ * in Settings; `{{name}}` placeholders are filled from the feature's
+ * variables when the prompt is sent. Response formats (JSON schemas) stay in
+ * geminiService so an edited prompt cannot break parsing.
+ */
+export interface PromptVariable {
+  name: string;
+  description: string;
+  // Shown in the editor's live preview.
+  sample: string;
+  // Without it the prompt cannot do its job, so the editor warns before saving.
+  required?: boolean;
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+export const DEFAULT_PROMPTS: Record<AIFeature, string> = {
+  analyzeNotes: `Analyze the following preaching/evangelism notes and provide a structured review including spiritual hunger level, a relevant Bible verse, and suggested follow-up action.
+Notes: {{notes}}`,
+
+  reassess: `Re-assess a church prospect using the full history of visits below, oldest first.
+Give the spiritual hunger level as it stands after the most recent visit, a relevant Bible verse for the next visit, and a suggested follow-up action.
+The summary should describe how their interest has changed across the visits.
+Visits:
+{{timeline}}`,
+
+  strategy: `Based on the current church evangelism stats, provide a short, 3-point tactical "Harvest Strategy" for the week.
+Stats: {{stats.total}} total prospects, {{stats.baptism}} people signified for baptism, {{stats.highHunger}} people with high spiritual hunger.
+Include a relevant scripture for the team's encouragement. Keep it under 150 words. Focus on how to transition people from interest to membership.`,
+
+  followUpMessage: `Write a gentle, personalized follow-up text message or short email for a church prospect, in {{language}}.
+Prospect Name: {{prospect.name}}
+Spiritual Hunger: {{hungerLevel}}
+Original Notes: {{prospect.notes}}
+Preacher Name: {{preacherName}}
+Include the suggested Bible verse: {{verse}}, {{verseGuidance}}
+The tone should be encouraging, non-pressuring, and warm.
+If the hunger is 'High', make it more inviting for a personal Bible study.
+Keep it concise (max 100 words).`,
+
+  inviteDraft: `Write a professional and encouraging church invitation email in {{language}}.
+Inviter: {{inviterName}}
+Invited as Role: {{role}}
+Additional Context: {{notes}}
+The email should explain that we use HarvestHub to track outreach and spiritual hunger.
+Keep the name HarvestHub as it is.
+Return a JSON object with 'subject' and 'body' fields.`,
+
+  transcribe: `Transcribe this voice note, recorded by a preacher right after an evangelism conversation. It is mostly in {{language}}.
+Write down what was said in that language, with punctuation and paragraph breaks, and leave out filler words.
+Do not summarize or add anything. Return only the transcript.`
+};
+
+export const PROMPT_VARIABLES: Record<AIFeature, PromptVariable[]> = {
+  analyzeNotes: [
+    { name: 'notes', description: 'The preaching notes as written', sample: 'Met Maria at the bus stop. She lost her mother last year and asked why God allows suffering. She took a tract and asked us to pray for her son.', required: true }
+  ],
+  reassess: [
+    { name: 'timeline', description: 'Every visit, oldest first, one per line with date and preacher', sample: 'First conversation (2026-03-02, Bro. James): Curious, asked about baptism.\nFollow-up 1 (2026-03-09, Bro. James): Read John 3 with us and wants to visit Sunday.', required: true },
+    { name: 'prospect.name', description: 'The prospect\'s name', sample: 'Maria Lopez' },
+    { name: 'visitCount', description: 'Number of visits, the first conversation included', sample: '2' }
+  ],
+  strategy: [
+    { name: 'stats.total', description: 'Total prospects', sample: '42', required: true },
+    { name: 'stats.baptism', description: 'Prospects who signified for baptism', sample: '6' },
+    { name: 'stats.highHunger', description: 'Prospects with high spiritual hunger', sample: '11' }
+  ],
+  followUpMessage: [
+    { name: 'prospect.name', description: 'The prospect\'s name', sample: 'Maria Lopez', required: true },
+    { name: 'prospect.notes', description: 'Notes from the first conversation', sample: 'Lost her mother last year; asked why God allows suffering.' },
+    { name: 'hungerLevel', description: 'Spiritual hunger from the latest review, or Unknown', sample: 'High' },
+    { name: 'preacherName', description: 'Who the message is from', sample: 'Bro. James' },
+    { name: 'language', description: 'The prospect\'s preferred language, in English', sample: 'English' },
+    { name: 'verse', description: 'The suggested verse reference', sample: 'John 3:16' },
+    { name: 'verseGuidance', description: 'How to quote the verse: the exact bundled text, or which translation to quote from', sample: 'quoted exactly as "For God so loved the world..." (John 3:16, KJV)' }
+  ],
+  inviteDraft: [
+    { name: 'inviterName', description: 'The admin sending the invitation', sample: 'Sis. Grace', required: true },
+    { name: 'role', description: 'The role being offered', sample: 'Team Member' },
+    { name: 'notes', description: 'The inviter\'s extra context', sample: 'Joining our evangelism and soul-winning team.' },
+    { name: 'language', description: 'The language of the email, in English', sample: 'English' }
+  ],
+  transcribe: [
+    { name: 'language', description: 'The language mostly spoken, in English', sample: 'English' }
+  ]
+};
+
+// Older versions kept per template; enough to undo a bad afternoon of edits.
+export const MAX_PROMPT_HISTORY = 20;
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// Unknown placeholders are left in place so a typo shows up in the preview instead of vanishing.
+export const renderTemplate = (template: string, variables: PromptVariables) =>
+  template.replace(PLACEHOLDER, (match, name) => name in variables ? String(variables[name]) : match);
+
+export const templateVariables = (template: string) =>
+  [...new Set([...template.matchAll(PLACEHOLDER)].map(m => m[1]))];
+
+export const unknownVariables = (feature: AIFeature, template: string) => {
+  const known = PROMPT_VARIABLES[feature].map(v => v.name);
+  return templateVariables(template).filter(name => !known.includes(name));
+};
+
+export const missingRequiredVariables = (feature: AIFeature, template: string) => {
+  const used = templateVariables(template);
+  return PROMPT_VARIABLES[feature].filter(v => v.required && !used.includes(v.name)).map(v => v.name);
+};
+
+export const sampleVariables = (feature: AIFeature): PromptVariables =>
+  Object.fromEntries(PROMPT_VARIABLES[feature].map(v => [v.name, v.sample]));
+
+/** The next version of a feature's template, with the one it replaces moved into history. */
+export const nextTemplateVersion = (feature: AIFeature, text: string, previous: PromptTemplate | undefined, editor: { id: string, name: string }): PromptTemplate => {
+  const retired: PromptTemplateVersion[] = previous
+    ? [{ version: previous.version, text: previous.text, updatedAt: previous.updatedAt, ...(previous.updatedByName ? { updatedByName: previous.updatedByName } : {}) }]
+    : [];
+  return {
+    id: previous?.id || crypto.randomUUID(),
+    orgId: previous?.orgId,
+    feature,
+    text,
+    version: (previous?.version || 0) + 1,
+    updatedAt: new Date().toISOString(),
+    updatedByUserId: editor.id,
+    updatedByName: editor.name,
+    history: [...retired, ...(previous?.history || [])].slice(0, MAX_PROMPT_HISTORY)
+  };
+};
+
+// The organization's templates, kept current by App so providers can render prompts without repository access.
+let activeTemplates: Partial<Record<AIFeature, string>> = {};
+
+export const setPromptTemplates = (templates: PromptTemplate[]) => {
+  activeTemplates = Object.fromEntries(templates.map(t => [t.feature, t.text]));
+};
+
+export const getPromptTemplate = (feature: AIFeature) => activeTemplates[feature] ?? DEFAULT_PROMPTS[feature];
+
+export const renderPrompt = (feature: AIFeature, variables: PromptVariables) =>
+  renderTemplate(getPromptTemplate(feature), variables);
@@ -0,0 +1,64 @@
+
+import { Prospect } from '../types';
+import { toCsv } from './csv';
+
+const CSV_HEADERS = [
+  'Name', 'Phone', 'Phone (E.164)', 'Address', 'Status', 'Wants Baptism', 'Preacher', 'Assigned To', 'Contacted On',
+  'Last Follow-up', 'Follow-ups', 'Hunger Level', 'Suggested Verse', 'Suggested Next Action', 'AI Summary', 'Notes'
+];
+
+const lastFollowUpDate = (prospect: Prospect) =>
+  prospect.followUps.reduce<string>((latest, f) => f.date > latest ? f.date : latest, '');
+
+const day = (iso: string) => iso ? iso.slice(0, 10) : '';
+
+export const prospectsToCsv = (prospects: Prospect[]): string => toCsv([
+  CSV_HEADERS,
+  ...prospects.map(p => [
+    p.name,
+    p.phone,
+    p.phoneE164,
+    p.manualAddress,
+    p.status,
+    p.signifiedForBaptism ? 'Yes' : 'No',
+    p.preacherName,
+    p.assignedToUserName,
+    day(p.timestamp),
+    day(lastFollowUpDate(p)),
+    p.followUps.length,
+    p.aiReview?.hungerLevel,
+    p.aiReview?.suggestedVerse,
+    p.aiReview?.suggestedNextAction,
+    p.aiReview?.summary,
+    p.preachingNotes
+  ])
+]);
+
+// vCard 3.0 text values escape backslash, comma, semicolon and newlines.
+const escapeVCard = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/,/g, '\\,').replace(/;/g, '\\;').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 characters are folded with a leading space (RFC 2425).
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) parts.push(line.slice(i, i + 74));
+  return parts.join('\r\n ');
+};
+
+const toVCard = (p: Prospect) => {
+  const [first, ...rest] = p.name.trim().split(/\s+/);
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escapeVCard(p.name)}`,
+    `N:${escapeVCard(rest.join(' '))};${escapeVCard(first || '')};;;`,
+    ...(p.phone ? [`TEL;TYPE=CELL:${escapeVCard(p.phoneE164 || p.phone)}`] : []),
+    ...(p.manualAddress ? [`ADR;TYPE=HOME:;;${escapeVCard(p.manualAddress)};;;;`] : []),
+    `NOTE:${escapeVCard([`Met ${day(p.timestamp)} by ${p.preacherName}.`, p.aiReview?.suggestedNextAction].filter(Boolean).join(' '))}`,
+    'CATEGORIES:Harvest Hub',
+    'END:VCARD'
+  ];
+  return lines.map(foldLine).join('\r\n');
+};
+
+export const prospectsToVCard = (prospects: Prospect[]): string => prospects.map(toVCard).join('\r\n') + '\r\n';
@@ -0,0 +1,92 @@
+
+import { Prospect } from '../types';
+import { parsePhone } from './phone';
+
+export type ImportField = 'name' | 'phone' | 'manualAddress' | 'preachingNotes' | 'preacherName' | 'signifiedForBaptism';
+
+export const IMPORT_FIELDS: { key: ImportField, label: string, required?: boolean, hints: string[] }[] = [
+  { key: 'name', label: 'Name', required: true, hints: ['name', 'full name', 'contact'] },
+  { key: 'phone', label: 'Phone', hints: ['phone', 'mobile', 'cell', 'tel', 'number'] },
+  { key: 'manualAddress', label: 'Address', hints: ['address', 'location', 'street', 'area'] },
+  { key: 'preachingNotes', label: 'Notes', hints: ['notes', 'note', 'comments', 'remarks'] },
+  { key: 'preacherName', label: 'Preacher', hints: ['preacher', 'evangelist', 'contacted by', 'worker'] },
+  { key: 'signifiedForBaptism', label: 'Wants Baptism', hints: ['baptism', 'baptize', 'baptise'] }
+];
+
+// Column index per field, or -1 when the field is not in the file.
+export type ColumnMapping = Record<ImportField, number>;
+
+export interface ImportRow {
+  line: number;
+  prospect: Prospect;
+  errors: string[];
+  duplicateOf?: string;
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\-]+/g, ' ');
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  return IMPORT_FIELDS.reduce((acc, field) => {
+    const exact = normalized.findIndex(h => h === field.key.toLowerCase() || h === field.label.toLowerCase());
+    const fuzzy = normalized.findIndex(h => field.hints.some(hint => h.includes(hint)));
+    return { ...acc, [field.key]: exact >= 0 ? exact : fuzzy };
+  }, {} as ColumnMapping);
+};
+
+const TRUTHY = ['yes', 'y', 'true', '1', 'x', '✓'];
+
+const phoneKey = (phone: string) => phone.replace(/\D/g, '');
+const nameKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Turns mapped CSV rows into prospects. Rows are flagged rather than dropped so
+ * the preview can show exactly what will be skipped and why.
+ */
+export const buildImportRows = (rows: string[][], mapping: ColumnMapping, defaults: { preacherName: string, createdByUserId: string }, existing: Prospect[]): ImportRow[] => {
+  const seenPhones = new Map<string, string>();
+  const seenNames = new Map<string, string>();
+  existing.forEach(p => {
+    const key = phoneKey(p.phoneE164 || p.phone);
+    if (key) seenPhones.set(key, p.name);
+    seenNames.set(nameKey(p.name), p.name);
+  });
+
+  const importedAt = new Date().toISOString();
+
+  return rows.map((cells, index) => {
+    const cell = (field: ImportField) => mapping[field] >= 0 ? (cells[mapping[field]] || '').trim() : '';
+    const name = cell('name');
+    const phone = cell('phone');
+    const manualAddress = cell('manualAddress');
+    const parsedPhone = phone ? parsePhone(phone) : null;
+
+    const prospect: Prospect = {
+      id: crypto.randomUUID(),
+      name,
+      phone,
+      ...(parsedPhone?.e164 ? { phoneE164: parsedPhone.e164 } : {}),
+      ...(manualAddress ? { manualAddress } : {}),
+      preachingNotes: cell('preachingNotes'),
+      preacherName: cell('preacherName') || defaults.preacherName,
+      createdByUserId: defaults.createdByUserId,
+      signifiedForBaptism: TRUTHY.includes(cell('signifiedForBaptism').toLowerCase()),
+      status: 'New',
+      followUps: [],
+      timestamp: importedAt
+    };
+
+    const errors: string[] = [];
+    if (!name) errors.push('Missing name');
+    if (parsedPhone?.error) errors.push(parsedPhone.error);
+
+    const phoneMatch = phoneKey(parsedPhone?.e164 || phone);
+    const duplicateOf = (phoneMatch && seenPhones.get(phoneMatch)) || (name && seenNames.get(nameKey(name))) || undefined;
+    if (!errors.length) {
+      if (phoneMatch) seenPhones.set(phoneMatch, name);
+      seenNames.set(nameKey(name), name);
+    }
+
+    return { line: index + 2, prospect, errors, ...(duplicateOf ? { duplicateOf } : {}) };
+  });
+};
@@ -0,0 +1,203 @@
+
+import { AIPrivacySettings } from '../types';
+
+/**
+ * Masks personal details in text before it is sent to an AI provider, and
+ * puts them back into what comes out. Each distinct value gets a numbered
+ * placeholder such as [PHONE_1], shared by every field of the same request so
+ * the model can still tell who is who. Detection is heuristic: it catches the
+ * usual ways phone numbers, emails, street addresses and names are written in
+ * notes, and the congregation's custom terms cover what it misses.
+ */
+
+export const DEFAULT_AI_PRIVACY: AIPrivacySettings = {
+  redactPhones: true,
+  redactEmails: true,
+  redactAddresses: true,
+  redactNames: true,
+  blockSensitive: true
+};
+
+// The organization's settings, kept current by App like the prompt templates.
+let activePrivacy: AIPrivacySettings = DEFAULT_AI_PRIVACY;
+
+export const setAIPrivacy = (settings?: AIPrivacySettings) => {
+  activePrivacy = { ...DEFAULT_AI_PRIVACY, ...settings };
+};
+
+export const getAIPrivacy = () => activePrivacy;
+
+// True when the organization keeps notes flagged sensitive away from the AI.
+export const isAIBlocked = (sensitive?: boolean, settings: AIPrivacySettings = activePrivacy) =>
+  !!sensitive && settings.blockSensitive;
+
+export class AIBlockedError extends Error {
+  code = 'ai-blocked';
+  constructor() {
+    super("These notes are marked sensitive, so they are not sent to the AI assistant.");
+  }
+}
+
+type Category = 'PHONE' | 'EMAIL' | 'ADDRESS' | 'NAME' | 'TERM';
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+// Seven or more digits with the usual separators; dates are left alone.
+const PHONE = /\+?\(?\d[\d\s().-]{5,}\d/g;
+const DATE = /^\d{4}-\d{2}-\d{2}$|^\d{1,2}[./-]\d{1,2}[./-]\d{2,4}$/;
+
+const STREET_TYPES = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Circle|Highway|Hwy|Crescent|Close';
+const LEADING_STREET_TYPES = '[Cc]alle|[Aa]venida|[Cc]arrera|[Rr]ua|[Rr]ue|[Aa]venue|[Bb]oulevard|[Cc]hemin|[Aa]llée|[Ii]mpasse';
+// "12 Oak Street, Apt 4", "Calle Luna 45" and "12 rue de la Paix". Street words must be capitalized so "3 on the way" is left alone.
+// A period after "St" is kept in the text when it ends the sentence (followed by a capital or the end).
+const ADDRESS = new RegExp([
+  `\\b\\d{1,5}[A-Za-z]?\\s+(?:\\p{Lu}[\\p{L}.'-]*\\s+){0,3}(?:${STREET_TYPES})\\b(?:\\.(?=,?\\s*(?:Apt|Apartment|Unit|Suite|#))|\\.(?!\\s+\\p{Lu}|$))?(?:,?\\s*(?:Apt|Apartment|Unit|Suite|#)\\.?\\s*[\\w-]+)?`,
+  `\\b(?:Calle|Avenida|Av\\.|Carrera|Rua|Rue)\\s+(?:[\\p{L}.'-]+\\s+){0,4}?\\d{1,5}[A-Za-z]?\\b`,
+  `\\b\\d{1,5},?\\s+(?:${LEADING_STREET_TYPES})\\s+(?:(?:de|del|du|des|la|le|l'|d')\\s*)*\\p{Lu}[\\p{L}'-]*(?:\\s+\\p{Lu}[\\p{L}'-]*)*`
+].join('|'), 'gu');
+
+// Capitalized words that are rarely names in evangelism notes.
+const NOT_NAMES = new Set([
+  'I', 'God', 'Jesus', 'Christ', 'Lord', 'Holy', 'Spirit', 'Ghost', 'Father', 'Savior', 'Saviour', 'Messiah',
+  'Bible', 'Scripture', 'Scriptures', 'Gospel', 'Gospels', 'Word', 'Church', 'Heaven', 'Hell', 'Satan', 'Amen',
+  'Baptism', 'Communion', 'Testament', 'Old', 'New', 'Christian', 'Christians', 'HarvestHub',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+  'Mr', 'Mrs', 'Ms', 'Miss', 'Dr', 'Bro', 'Sis', 'Brother', 'Sister', 'Pastor', 'Elder', 'Deacon', 'Evangelist', 'Minister',
+  'Dios', 'Jesús', 'Cristo', 'Señor', 'Espíritu', 'Santo', 'Biblia', 'Iglesia', 'Hermano', 'Hermana',
+  'Dieu', 'Jésus', 'Seigneur', 'Esprit', 'Saint', 'Église', 'Frère', 'Sœur'
+]);
+
+// A period after these does not end the sentence, so the next word is not a sentence start.
+const TITLES = new Set(['Mr', 'Mrs', 'Ms', 'Dr', 'Bro', 'Sis', 'St']);
+
+const CAPITALIZED_RUN = /\p{Lu}[\p{Ll}'’-]+(?:[ \t]+\p{Lu}[\p{Ll}'’-]+)*/gu;
+const WORD = /\p{Lu}[\p{Ll}'’-]+/gu;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const startsSentence = (text: string, index: number) => {
+  const before = text.slice(0, index).trimEnd();
+  if (!before) return true;
+  const last = before[before.length - 1];
+  if ('!?:;\n"“(«¿¡'.includes(last) || text.slice(before.length, index).includes('\n')) return true;
+  if (last !== '.') return false;
+  const previousWord = before.slice(0, -1).match(/(\p{L}+)$/u)?.[1];
+  return !previousWord || !TITLES.has(previousWord);
+};
+
+// A capitalized word followed by a number is a scripture reference ("John 3:16"), not a person.
+const beforeNumber = (text: string, end: number) => /^\s*\d/.test(text.slice(end));
+
+export interface RedactionSession {
+  redact: (text: string) => string;
+  // Masks a value the caller already knows is personal, such as a stored phone number.
+  mask: (value: string | undefined, category: 'PHONE' | 'ADDRESS' | 'NAME') => string;
+  restore: (text: string) => string;
+  // How many distinct values were masked.
+  count: () => number;
+}
+
+/**
+ * One session per AI request. `keepNames` are never masked; the prospect's
+ * own name stays readable so drafts can greet them.
+ */
+export const createRedactionSession = (keepNames: string[] = [], settings: AIPrivacySettings = activePrivacy): RedactionSession => {
+  const placeholders = new Map<string, string>();
+  const originals = new Map<string, string>();
+  const counters: Partial<Record<Category, number>> = {};
+  const known: { value: string, category: Category }[] = [];
+  const kept = new Set(keepNames.flatMap(name => name.match(WORD) || []));
+
+  const placeholderFor = (value: string, category: Category) => {
+    const key = `${category}:${value.toLowerCase()}`;
+    if (!placeholders.has(key)) {
+      counters[category] = (counters[category] || 0) + 1;
+      const placeholder = `[${category}_${counters[category]}]`;
+      placeholders.set(key, placeholder);
+      originals.set(placeholder, value);
+    }
+    return placeholders.get(key)!;
+  };
+
+  // Values masked up front are replaced wherever they appear, longest first so "Oak Street" wins over "Oak".
+  const replaceKnown = (text: string) => [...known]
+    .sort((x, y) => y.value.length - x.value.length)
+    .reduce((acc, { value, category }) => acc.replace(
+      new RegExp(`(?<![\\p{L}\\d])${escapeRegExp(value)}(?![\\p{L}\\d])`, 'giu'),
+      () => placeholderFor(value, category)
+    ), text);
+
+  const remember = (value: string, category: Category) => {
+    const trimmed = value.trim();
+    if (trimmed.length < 2 || known.some(k => k.value === trimmed)) return;
+    known.push({ value: trimmed, category });
+  };
+
+  (settings.customTerms || []).forEach(term => remember(term, 'TERM'));
+
+  const redactNames = (text: string) => {
+    // A capitalized word is a name when it appears mid-sentence; the first word of a sentence only counts if it does so elsewhere.
+    const names = new Set<string>();
+    for (const run of text.matchAll(CAPITALIZED_RUN)) {
+      if (beforeNumber(text, run.index! + run[0].length)) continue;
+      const words = run[0].match(WORD)!.slice(startsSentence(text, run.index!) ? 1 : 0);
+      words.filter(w => !NOT_NAMES.has(w) && !kept.has(w)).forEach(w => names.add(w));
+    }
+    if (names.size === 0) return text;
+
+    return text.replace(CAPITALIZED_RUN, (run, offset: number) => {
+      if (beforeNumber(text, offset + run.length)) return run;
+      const parts = run.split(/([ \t]+)/);
+      let out = '';
+      let group: string[] = [];
+      // Consecutive names ("Maria Lopez") share one placeholder.
+      const flush = () => {
+        if (group.length > 0) out += placeholderFor(group.join(' '), 'NAME');
+        group = [];
+      };
+      for (let i = 0; i < parts.length; i += 2) {
+        const separator = i > 0 ? parts[i - 1] : '';
+        if (names.has(parts[i])) {
+          if (group.length === 0) out += separator;
+          group.push(parts[i]);
+        } else {
+          flush();
+          out += separator + parts[i];
+        }
+      }
+      flush();
+      return out;
+    });
+  };
+
+  const redact = (text: string) => {
+    if (!text) return text;
+    let result = replaceKnown(text);
+    if (settings.redactEmails) result = result.replace(EMAIL, match => placeholderFor(match, 'EMAIL'));
+    if (settings.redactAddresses) result = result.replace(ADDRESS, match => placeholderFor(match, 'ADDRESS'));
+    if (settings.redactPhones) {
+      result = result.replace(PHONE, match => {
+        const digits = match.replace(/\D/g, '');
+        return digits.length >= 7 && !DATE.test(match.trim()) ? placeholderFor(match.trim(), 'PHONE') : match;
+      });
+    }
+    if (settings.redactNames) result = redactNames(result);
+    return result;
+  };
+
+  return {
+    redact,
+    mask: (value, category) => {
+      if (!value) return value || '';
+      const enabled = category === 'PHONE' ? settings.redactPhones : category === 'ADDRESS' ? settings.redactAddresses : settings.redactNames;
+      if (!enabled) return value;
+      remember(value, category);
+      return placeholderFor(value.trim(), category);
+    },
+    // Models sometimes change the case or spacing of a placeholder, so matching is loose.
+    restore: (text) => text.replace(/\[\s*(PHONE|EMAIL|ADDRESS|NAME|TERM)[\s_-]*(\d+)\s*\]/gi,
+      (match, category: string, n: string) => originals.get(`[${category.toUpperCase()}_${n}]`) ?? match),
+    count: () => originals.size
+  };
+};
@@ -0,0 +1,154 @@
+
+import { Prospect, User, UserRole, UserStatus, HungerLevel } from '../types';
+import { toE164 } from './phone';
+import { DEFAULT_ORG_ID } from './organizations';
+import { normalizeHungerLevel } from './aiOutput';
+
+/**
+ * Stored records carry a schemaVersion. Records written before versioning
+ * existed are treated as version 0 and walked forward one step at a time.
+ * Add new steps to the end of the lists below and bump the version constants.
+ */
+export const PROSPECT_SCHEMA_VERSION = 6;
+export const USER_SCHEMA_VERSION = 4;
+
+type Migration = (doc: Record<string, any>) => Record<string, any>;
+
+const PROSPECT_STATUSES = ['New', 'Followed Up', 'Member'];
+
+// Index i upgrades a record from version i to version i + 1.
+const prospectMigrations: Migration[] = [
+  // v1: original shape, fill in fields early entries could be missing
+  (doc) => ({
+    ...doc,
+    followUps: Array.isArray(doc.followUps) ? doc.followUps : [],
+    status: PROSPECT_STATUSES.includes(doc.status) ? doc.status : 'New',
+    signifiedForBaptism: !!doc.signifiedForBaptism,
+    preacherName: doc.preacherName || 'Unknown',
+    preachingNotes: doc.preachingNotes || ''
+  }),
+  // v2: assignment fields added; a name without an id is a dangling assignment
+  (doc) => {
+    if (doc.assignedToUserId) return doc;
+    const { assignedToUserName, ...rest } = doc;
+    return rest;
+  },
+  // v3: AI review fields normalized so hunger filters match
+  (doc) => {
+    if (!doc.aiReview) return doc;
+    const level = String(doc.aiReview.hungerLevel || '').trim().toLowerCase();
+    const match = Object.values(HungerLevel).find(h => h.toLowerCase() === level);
+    return { ...doc, aiReview: { ...doc.aiReview, hungerLevel: match || HungerLevel.MEDIUM } };
+  },
+  // v4: normalized phone stored alongside the display form, resolved with this device's default country
+  (doc) => {
+    const phoneE164 = typeof doc.phone === 'string' ? toE164(doc.phone) : null;
+    return phoneE164 ? { ...doc, phoneE164 } : doc;
+  },
+  // v5: records from before organizations belong to the default one
+  (doc) => ({ ...doc, orgId: doc.orgId || DEFAULT_ORG_ID }),
+  // v6: hunger levels saved unchecked since v3, such as "high" or "Very High", mapped onto the enum
+  (doc) => {
+    if (!doc.aiReview) return doc;
+    return { ...doc, aiReview: { ...doc.aiReview, hungerLevel: normalizeHungerLevel(doc.aiReview.hungerLevel) || HungerLevel.MEDIUM } };
+  }
+];
+
+const userMigrations: Migration[] = [
+  // v1: original shape
+  (doc) => ({
+    ...doc,
+    role: Object.values(UserRole).includes(doc.role) ? doc.role : UserRole.TEAM_MEMBER,
+    status: Object.values(UserStatus).includes(doc.status) ? doc.status : UserStatus.PENDING,
+    createdAt: doc.createdAt || new Date(0).toISOString()
+  }),
+  // v2: hasSeenTour and team added; accounts older than the tour never need it
+  (doc) => {
+    const { team, ...rest } = doc;
+    const trimmedTeam = typeof team === 'string' ? team.trim() : '';
+    return {
+      ...rest,
+      hasSeenTour: doc.hasSeenTour ?? true,
+      ...(trimmedTeam ? { team: trimmedTeam } : {})
+    };
+  },
+  // v3: per-organization memberships; the account's role and status become its default-org membership
+  (doc) => {
+    const memberships = doc.memberships && typeof doc.memberships === 'object'
+      ? doc.memberships
+      : { [DEFAULT_ORG_ID]: { role: doc.role, status: doc.status } };
+    return { ...doc, memberships, orgIds: Object.keys(memberships) };
+  },
+  // v4: plain-text passwords were never checked; local accounts now store a hashed credential instead
+  (doc) => {
+    const { password, ...rest } = doc;
+    return rest;
+  }
+];
+
+const migrate = (raw: Record<string, any>, migrations: Migration[], target: number) => {
+  const from = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  // Written by a newer client: leave as-is rather than guessing at a downgrade.
+  if (from >= target) return raw;
+  const upgraded = migrations.slice(from, target).reduce((doc, step) => step(doc), raw);
+  return { ...upgraded, schemaVersion: target };
+};
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isDate = (v: unknown) => isString(v) && !isNaN(Date.parse(v));
+
+export const validateProspect = (doc: Record<string, any>): string | null => {
+  if (!isString(doc.id) || !doc.id) return 'missing id';
+  if (!isString(doc.name) || !doc.name.trim()) return 'missing name';
+  if (!isString(doc.phone)) return 'phone is not text';
+  if (!isString(doc.preachingNotes)) return 'notes are not text';
+  if (!isDate(doc.timestamp)) return 'invalid timestamp';
+  if (!PROSPECT_STATUSES.includes(doc.status)) return 'unknown status';
+  if (!Array.isArray(doc.followUps) || doc.followUps.some((f: any) => !f || !isString(f.id) || !isString(f.notes) || !isDate(f.date))) {
+    return 'malformed follow-ups';
+  }
+  if (doc.coordinates && (typeof doc.coordinates.lat !== 'number' || typeof doc.coordinates.lng !== 'number')) {
+    return 'malformed coordinates';
+  }
+  return null;
+};
+
+export const validateUser = (doc: Record<string, any>): string | null => {
+  if (!isString(doc.id) || !doc.id) return 'missing id';
+  if (!isString(doc.name)) return 'missing name';
+  if (!isString(doc.email)) return 'missing email';
+  if (!Object.values(UserRole).includes(doc.role)) return 'unknown role';
+  if (!Object.values(UserStatus).includes(doc.status)) return 'unknown status';
+  return null;
+};
+
+const read = <T>(raw: unknown, kind: string, migrations: Migration[], target: number, validate: (doc: Record<string, any>) => string | null): T | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    console.warn(`Rejected ${kind} record: not an object`, raw);
+    return null;
+  }
+  const doc = migrate(raw as Record<string, any>, migrations, target);
+  const problem = validate(doc);
+  if (problem) {
+    console.warn(`Rejected ${kind} record ${doc.id ?? ''}: ${problem}`, raw);
+    return null;
+  }
+  return doc as T;
+};
+
+// Upgrade a stored record to the current schema, or null if it cannot be trusted.
+export const readProspect = (raw: unknown): Prospect | null =>
+  read<Prospect>(raw, 'prospect', prospectMigrations, PROSPECT_SCHEMA_VERSION, validateProspect);
+
+export const readUser = (raw: unknown): User | null =>
+  read<User>(raw, 'user', userMigrations, USER_SCHEMA_VERSION, validateUser);
+
+// Full-document writes always land at the current version.
+export const stampProspect = (prospect: Prospect): Prospect => ({ ...prospect, schemaVersion: PROSPECT_SCHEMA_VERSION });
+
+export const stampUser = (user: User): User => ({ ...user, schemaVersion: USER_SCHEMA_VERSION });
+
+export const needsUpgrade = (raw: unknown, kind: 'prospect' | 'user') => {
+  const version = (raw as any)?.schemaVersion;
+  return typeof version !== 'number' || version < (kind === 'prospect' ? PROSPECT_SCHEMA_VERSION : USER_SCHEMA_VERSION);
+};
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { lookupPassage, normalizeReference, passageText } from './scripture';
+
+describe('lookupPassage', () => {
+  it('returns every verse of an abbreviated range', () => {
+    const passage = lookupPassage('1 Cor 13:4-7');
+    expect(passage?.reference).toBe('1 Corinthians 13:4-7');
+    expect(passage?.verses.map(v => v.verse)).toEqual([4, 5, 6, 7]);
+    expect(passageText(passage!)).toMatch(/^Charity suffereth long.*endureth all things\.$/);
+  });
+
+  it('expands a chapter-only reference to the whole chapter', () => {
+    const passage = lookupPassage('Psalm 23');
+    expect(passage?.reference).toBe('Psalm 23');
+    expect(passage?.verses.map(v => v.verse)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('gives nothing rather than part of a passage when verses are not bundled', () => {
+    expect(lookupPassage('John 3')).toBeNull();
+    expect(lookupPassage('John 3:15-16')).toBeNull();
+    expect(normalizeReference('John 3')).toBe('John 3');
+  });
+});
@@ -0,0 +1,206 @@
+
+import { KJV_VERSES } from './kjv';
+
+/**
+ * Scripture references ("John 3:16", "1 Cor 13:4-7", "Ps 23") parsed into a
+ * canonical form. Books, chapters and verses are checked against the whole
+ * Bible in King James versification.
+ */
+export interface ScriptureReference {
+  book: string;
+  chapter: number;
+  verseStart?: number;
+  verseEnd?: number;
+  // Set when a range runs into a later chapter, e.g. John 3:16-4:2.
+  endChapter?: number;
+}
+
+export interface Passage {
+  reference: string;
+  translation: string;
+  verses: { verse: number, text: string }[];
+}
+
+interface Book {
+  name: string;
+  // Verse count of each chapter, in order.
+  verses: number[];
+  abbreviations: string[];
+}
+
+const BOOKS: Book[] = [
+  { name: 'Genesis', verses: [31, 25, 24, 26, 32, 22, 24, 22, 29, 32, 32, 20, 18, 24, 21, 16, 27, 33, 38, 18, 34, 24, 20, 67, 34, 35, 46, 22, 35, 43, 55, 32, 20, 31, 29, 43, 36, 30, 23, 23, 57, 38, 34, 34, 28, 34, 31, 22, 33, 26], abbreviations: ['gen', 'ge', 'gn'] },
+  { name: 'Exodus', verses: [22, 25, 22, 31, 23, 30, 25, 32, 35, 29, 10, 51, 22, 31, 27, 36, 16, 27, 25, 26, 36, 31, 33, 18, 40, 37, 21, 43, 46, 38, 18, 35, 23, 35, 35, 38, 29, 31, 43, 38], abbreviations: ['exod', 'exo', 'ex'] },
+  { name: 'Leviticus', verses: [17, 16, 17, 35, 19, 30, 38, 36, 24, 20, 47, 8, 59, 57, 33, 34, 16, 30, 37, 27, 24, 33, 44, 23, 55, 46, 34], abbreviations: ['lev', 'le', 'lv'] },
+  { name: 'Numbers', verses: [54, 34, 51, 49, 31, 27, 89, 26, 23, 36, 35, 16, 33, 45, 41, 50, 13, 32, 22, 29, 35, 41, 30, 25, 18, 65, 23, 31, 40, 16, 54, 42, 56, 29, 34, 13], abbreviations: ['num', 'nu', 'nm'] },
+  { name: 'Deuteronomy', verses: [46, 37, 29, 49, 33, 25, 26, 20, 29, 22, 32, 32, 18, 29, 23, 22, 20, 22, 21, 20, 23, 30, 25, 22, 19, 19, 26, 68, 29, 20, 30, 52, 29, 12], abbreviations: ['deut', 'deu', 'dt'] },
+  { name: 'Joshua', verses: [18, 24, 17, 24, 15, 27, 26, 35, 27, 43, 23, 24, 33, 15, 63, 10, 18, 28, 51, 9, 45, 34, 16, 33], abbreviations: ['josh', 'jos'] },
+  { name: 'Judges', verses: [36, 23, 31, 24, 31, 40, 25, 35, 57, 18, 40, 15, 25, 20, 20, 31, 13, 31, 30, 48, 25], abbreviations: ['judg', 'jdg'] },
+  { name: 'Ruth', verses: [22, 23, 18, 22], abbreviations: ['rut', 'ru'] },
+  { name: '1 Samuel', verses: [28, 36, 21, 22, 12, 21, 17, 22, 27, 27, 15, 25, 23, 52, 35, 23, 58, 30, 24, 42, 15, 23, 29, 22, 44, 25, 12, 25, 11, 31, 13], abbreviations: ['1 sam', '1 sa'] },
+  { name: '2 Samuel', verses: [27, 32, 39, 12, 25, 23, 29, 18, 13, 19, 27, 31, 39, 33, 37, 23, 29, 33, 43, 26, 22, 51, 39, 25], abbreviations: ['2 sam', '2 sa'] },
+  { name: '1 Kings', verses: [53, 46, 28, 34, 18, 38, 51, 66, 28, 29, 43, 33, 34, 31, 34, 34, 24, 46, 21, 43, 29, 53], abbreviations: ['1 kgs', '1 ki'] },
+  { name: '2 Kings', verses: [18, 25, 27, 44, 27, 33, 20, 29, 37, 36, 21, 21, 25, 29, 38, 20, 41, 37, 37, 21, 26, 20, 37, 20, 30], abbreviations: ['2 kgs', '2 ki'] },
+  { name: '1 Chronicles', verses: [54, 55, 24, 43, 26, 81, 40, 40, 44, 14, 47, 40, 14, 17, 29, 43, 27, 17, 19, 8, 30, 19, 32, 31, 31, 32, 34, 21, 30], abbreviations: ['1 chron', '1 chr', '1 ch'] },
+  { name: '2 Chronicles', verses: [17, 18, 17, 22, 14, 42, 22, 18, 31, 19, 23, 16, 22, 15, 19, 14, 19, 34, 11, 37, 20, 12, 21, 27, 28, 23, 9, 27, 36, 27, 21, 33, 25, 33, 27, 23], abbreviations: ['2 chron', '2 chr', '2 ch'] },
+  { name: 'Ezra', verses: [11, 70, 13, 24, 17, 22, 28, 36, 15, 44], abbreviations: ['ezr'] },
+  { name: 'Nehemiah', verses: [11, 20, 32, 23, 19, 19, 73, 18, 38, 39, 36, 47, 31], abbreviations: ['neh', 'ne'] },
+  { name: 'Esther', verses: [22, 23, 15, 17, 14, 14, 10, 17, 32, 3], abbreviations: ['esth', 'est'] },
+  { name: 'Job', verses: [22, 13, 26, 21, 27, 30, 21, 22, 35, 22, 20, 25, 28, 22, 35, 22, 16, 21, 29, 29, 34, 30, 17, 25, 6, 14, 23, 28, 25, 31, 40, 22, 33, 37, 16, 33, 24, 41, 30, 24, 34, 17], abbreviations: ['jb'] },
+  { name: 'Psalms', verses: [6, 12, 8, 8, 12, 10, 17, 9, 20, 18, 7, 8, 6, 7, 5, 11, 15, 50, 14, 9, 13, 31, 6, 10, 22, 12, 14, 9, 11, 12, 24, 11, 22, 22, 28, 12, 40, 22, 13, 17, 13, 11, 5, 26, 17, 11, 9, 14, 20, 23, 19, 9, 6, 7, 23, 13, 11, 11, 17, 12, 8, 12, 11, 10, 13, 20, 7, 35, 36, 5, 24, 20, 28, 23, 10, 12, 20, 72, 13, 19, 16, 8, 18, 12, 13, 17, 7, 18, 52, 17, 16, 15, 5, 23, 11, 13, 12, 9, 9, 5, 8, 28, 22, 35, 45, 48, 43, 13, 31, 7, 10, 10, 9, 8, 18, 19, 2, 29, 176, 7, 8, 9, 4, 8, 5, 6, 5, 6, 8, 8, 3, 18, 3, 3, 21, 26, 9, 8, 24, 13, 10, 7, 12, 15, 21, 10, 20, 14, 9, 6], abbreviations: ['psalm', 'psa', 'psm', 'ps'] },
+  { name: 'Proverbs', verses: [33, 22, 35, 27, 23, 35, 27, 36, 18, 32, 31, 28, 25, 35, 33, 33, 28, 24, 29, 30, 31, 29, 35, 34, 28, 28, 27, 28, 27, 33, 31], abbreviations: ['prov', 'pro', 'prv', 'pr'] },
+  { name: 'Ecclesiastes', verses: [18, 26, 22, 16, 20, 12, 29, 17, 18, 20, 10, 14], abbreviations: ['eccles', 'eccl', 'ecc', 'qoh'] },
+  { name: 'Song of Solomon', verses: [17, 17, 11, 16, 16, 13, 13, 14], abbreviations: ['song of songs', 'song', 'sos', 'canticles'] },
+  { name: 'Isaiah', verses: [31, 22, 26, 6, 30, 13, 25, 22, 21, 34, 16, 6, 22, 32, 9, 14, 14, 7, 25, 6, 17, 25, 18, 23, 12, 21, 13, 29, 24, 33, 9, 20, 24, 17, 10, 22, 38, 22, 8, 31, 29, 25, 28, 28, 25, 13, 15, 22, 26, 11, 23, 15, 12, 17, 13, 12, 21, 14, 21, 22, 11, 12, 19, 12, 25, 24], abbreviations: ['isa'] },
+  { name: 'Jeremiah', verses: [19, 37, 25, 31, 31, 30, 34, 22, 26, 25, 23, 17, 27, 22, 21, 21, 27, 23, 15, 18, 14, 30, 40, 10, 38, 24, 22, 17, 32, 24, 40, 44, 26, 22, 19, 32, 21, 28, 18, 16, 18, 22, 13, 30, 5, 28, 7, 47, 39, 46, 64, 34], abbreviations: ['jer', 'je'] },
+  { name: 'Lamentations', verses: [22, 22, 66, 22, 22], abbreviations: ['lam', 'la'] },
+  { name: 'Ezekiel', verses: [28, 10, 27, 17, 17, 14, 27, 18, 11, 22, 25, 28, 23, 23, 8, 63, 24, 32, 14, 49, 32, 31, 49, 27, 17, 21, 36, 26, 21, 26, 18, 32, 33, 31, 15, 38, 28, 23, 29, 49, 26, 20, 27, 31, 25, 24, 23, 35], abbreviations: ['ezek', 'eze', 'ezk'] },
+  { name: 'Daniel', verses: [21, 49, 30, 37, 31, 28, 28, 27, 27, 21, 45, 13], abbreviations: ['dan', 'da', 'dn'] },
+  { name: 'Hosea', verses: [11, 23, 5, 19, 15, 11, 16, 14, 17, 15, 12, 14, 16, 9], abbreviations: ['hos', 'ho'] },
+  { name: 'Joel', verses: [20, 32, 21], abbreviations: ['jl'] },
+  { name: 'Amos', verses: [15, 16, 15, 13, 27, 14, 17, 14, 15], abbreviations: ['amo'] },
+  { name: 'Obadiah', verses: [21], abbreviations: ['obad', 'ob'] },
+  { name: 'Jonah', verses: [17, 10, 10, 11], abbreviations: ['jon', 'jnh'] },
+  { name: 'Micah', verses: [16, 13, 12, 13, 15, 16, 20], abbreviations: ['mic', 'mi'] },
+  { name: 'Nahum', verses: [15, 13, 19], abbreviations: ['nah', 'na'] },
+  { name: 'Habakkuk', verses: [17, 20, 19], abbreviations: ['hab', 'hb'] },
+  { name: 'Zephaniah', verses: [18, 15, 20], abbreviations: ['zeph', 'zep'] },
+  { name: 'Haggai', verses: [15, 23], abbreviations: ['hag', 'hg'] },
+  { name: 'Zechariah', verses: [21, 13, 10, 14, 11, 15, 14, 23, 17, 12, 17, 14, 9, 21], abbreviations: ['zech', 'zec'] },
+  { name: 'Malachi', verses: [14, 17, 18, 6], abbreviations: ['mal'] },
+  { name: 'Matthew', verses: [25, 23, 17, 25, 48, 34, 29, 34, 38, 42, 30, 50, 58, 36, 39, 28, 27, 35, 30, 34, 46, 46, 39, 51, 46, 75, 66, 20], abbreviations: ['matt', 'mat', 'mt'] },
+  { name: 'Mark', verses: [45, 28, 35, 41, 43, 56, 37, 38, 50, 52, 33, 44, 37, 72, 47, 20], abbreviations: ['mrk', 'mar', 'mk'] },
+  { name: 'Luke', verses: [80, 52, 38, 44, 39, 49, 50, 56, 62, 42, 54, 59, 35, 35, 32, 31, 37, 43, 48, 47, 38, 71, 56, 53], abbreviations: ['luk', 'lk'] },
+  { name: 'John', verses: [51, 25, 36, 54, 47, 71, 53, 59, 41, 42, 57, 50, 38, 31, 27, 33, 26, 40, 42, 31, 25], abbreviations: ['jhn', 'joh', 'jn'] },
+  { name: 'Acts', verses: [26, 47, 26, 37, 42, 15, 60, 40, 43, 48, 30, 25, 52, 28, 41, 40, 34, 28, 41, 38, 40, 30, 35, 27, 27, 32, 44, 31], abbreviations: ['act', 'ac'] },
+  { name: 'Romans', verses: [32, 29, 31, 25, 21, 23, 25, 39, 33, 21, 36, 21, 14, 23, 33, 27], abbreviations: ['rom', 'ro', 'rm'] },
+  { name: '1 Corinthians', verses: [31, 16, 23, 21, 13, 20, 40, 13, 27, 33, 34, 31, 13, 40, 58, 24], abbreviations: ['1 cor', '1 co'] },
+  { name: '2 Corinthians', verses: [24, 17, 18, 18, 21, 18, 16, 24, 15, 18, 33, 21, 14], abbreviations: ['2 cor', '2 co'] },
+  { name: 'Galatians', verses: [24, 21, 29, 31, 26, 18], abbreviations: ['gal', 'ga'] },
+  { name: 'Ephesians', verses: [23, 22, 21, 32, 33, 24], abbreviations: ['eph', 'ephes'] },
+  { name: 'Philippians', verses: [30, 30, 21, 23], abbreviations: ['phil', 'php'] },
+  { name: 'Colossians', verses: [29, 23, 25, 18], abbreviations: ['col'] },
+  { name: '1 Thessalonians', verses: [10, 20, 13, 18, 28], abbreviations: ['1 thess', '1 thes', '1 th'] },
+  { name: '2 Thessalonians', verses: [12, 17, 18], abbreviations: ['2 thess', '2 thes', '2 th'] },
+  { name: '1 Timothy', verses: [20, 15, 16, 16, 25, 21], abbreviations: ['1 tim', '1 ti'] },
+  { name: '2 Timothy', verses: [18, 26, 17, 22], abbreviations: ['2 tim', '2 ti'] },
+  { name: 'Titus', verses: [16, 15, 15], abbreviations: ['tit', 'ti'] },
+  { name: 'Philemon', verses: [25], abbreviations: ['philem', 'phm', 'phlm'] },
+  { name: 'Hebrews', verses: [14, 18, 19, 16, 14, 20, 28, 13, 28, 39, 40, 29, 25], abbreviations: ['heb'] },
+  { name: 'James', verses: [27, 26, 18, 17, 20], abbreviations: ['jas', 'jm'] },
+  { name: '1 Peter', verses: [25, 25, 22, 19, 14], abbreviations: ['1 pet', '1 pe', '1 pt'] },
+  { name: '2 Peter', verses: [21, 22, 18], abbreviations: ['2 pet', '2 pe', '2 pt'] },
+  { name: '1 John', verses: [10, 29, 24, 21, 21], abbreviations: ['1 jn', '1 jhn', '1 jo'] },
+  { name: '2 John', verses: [13], abbreviations: ['2 jn', '2 jhn', '2 jo'] },
+  { name: '3 John', verses: [14], abbreviations: ['3 jn', '3 jhn', '3 jo'] },
+  { name: 'Jude', verses: [25], abbreviations: ['jud', 'jd'] },
+  { name: 'Revelation', verses: [20, 29, 22, 11, 14, 17, 17, 13, 21, 11, 19, 17, 18, 20, 8, 21, 18, 24, 21, 15, 27, 21], abbreviations: ['rev', 'revelations', 'apocalypse'] }
+];
+
+const bookKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const BOOK_LOOKUP = new Map<string, Book>(
+  BOOKS.flatMap(book => [book.name, ...book.abbreviations].map(alias => [bookKey(alias), book] as [string, Book]))
+);
+
+const ORDINALS: Record<string, string> = {
+  'i': '1', 'ii': '2', 'iii': '3', '1st': '1', '2nd': '2', '3rd': '3', 'first': '1', 'second': '2', 'third': '3'
+};
+
+const findBook = (ordinal: string | undefined, name: string) => {
+  const number = ordinal ? ORDINALS[ordinal.toLowerCase()] || ordinal : '';
+  return BOOK_LOOKUP.get(bookKey(`${number}${name}`));
+};
+
+// A Roman numeral ordinal needs a space after it, or the I of "Isaiah" would read as 1.
+const REFERENCE_PATTERN = /\b(?:([1-3]|i{1,3}(?=\s)|1st|2nd|3rd|first|second|third)\s*)?([a-z][a-z]*(?:\s+of\s+[a-z]+)?)\.?\s*(\d{1,3})(?:\s*[:.]\s*(\d{1,3}))?(?:\s*[-–—]\s*(\d{1,3})(?:\s*[:.]\s*(\d{1,3}))?)?/gi;
+
+const toReference = (match: RegExpExecArray): ScriptureReference | null => {
+  const [, ordinal, name, chapterText, verseText, rangeText, rangeVerseText] = match;
+  const book = findBook(ordinal, name);
+  if (!book) return null;
+
+  let chapter = Number(chapterText);
+  let verseStart = verseText ? Number(verseText) : undefined;
+  let verseEnd = rangeVerseText ? Number(rangeVerseText) : rangeText && verseStart ? Number(rangeText) : undefined;
+  let endChapter = rangeVerseText ? Number(rangeText) : undefined;
+
+  // "Jude 3" names a verse: one-chapter books are cited without the chapter.
+  if (book.verses.length === 1 && verseStart === undefined && chapter > 1) {
+    verseStart = chapter;
+    verseEnd = rangeText ? Number(rangeText) : undefined;
+    chapter = 1;
+  }
+
+  const versesIn = (n: number) => book.verses[n - 1];
+  if (chapter < 1 || chapter > book.verses.length) return null;
+  if (verseStart !== undefined && (verseStart < 1 || verseStart > versesIn(chapter))) return null;
+  if (endChapter !== undefined && (endChapter <= chapter || endChapter > book.verses.length)) return null;
+  if (endChapter === undefined && verseEnd !== undefined && verseEnd === verseStart) verseEnd = undefined;
+  if (verseEnd !== undefined && (verseEnd < 1 || verseEnd > versesIn(endChapter ?? chapter) || (endChapter === undefined && verseEnd < verseStart!))) return null;
+
+  return {
+    book: book.name,
+    chapter,
+    ...(verseStart !== undefined ? { verseStart } : {}),
+    ...(verseEnd !== undefined ? { verseEnd } : {}),
+    ...(endChapter !== undefined ? { endChapter } : {})
+  };
+};
+
+// Parses a string that is exactly one reference; anything else gives null.
+export const parseReference = (text: string): ScriptureReference | null => {
+  const trimmed = text.trim().replace(/[\s.;,]+$/, '');
+  const match = new RegExp(REFERENCE_PATTERN.source, 'i').exec(trimmed);
+  if (!match || match.index !== 0 || match[0].length !== trimmed.length) return null;
+  return toReference(match);
+};
+
+// Every valid reference mentioned in free text, in order.
+export const findReferences = (text: string): ScriptureReference[] => {
+  const pattern = new RegExp(REFERENCE_PATTERN.source, 'gi');
+  const found: ScriptureReference[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const reference = toReference(match);
+    if (reference) found.push(reference);
+    // Words that are not books ("also 1") would otherwise swallow the number of a real reference.
+    else pattern.lastIndex = match.index + 1;
+  }
+  return found;
+};
+
+// A single psalm is cited in the singular: "Psalm 23".
+export const formatReference = (ref: ScriptureReference) => {
+  const book = ref.book === 'Psalms' ? 'Psalm' : ref.book;
+  const start = ref.verseStart !== undefined ? `${ref.chapter}:${ref.verseStart}` : `${ref.chapter}`;
+  if (ref.endChapter !== undefined) return `${book} ${start}-${ref.endChapter}:${ref.verseEnd}`;
+  return `${book} ${start}${ref.verseEnd !== undefined ? `-${ref.verseEnd}` : ''}`;
+};
+
+// Canonical form of a reference typed or suggested anywhere, or null if it is not one.
+export const normalizeReference = (text: string) => {
+  const ref = parseReference(text) || findReferences(text)[0];
+  return ref ? formatReference(ref) : null;
+};
+
+/**
+ * The bundled text of a verse, a verse range within one chapter, or a whole
+ * chapter ("Psalm 23"). Only a selection of passages is bundled: this returns
+ * null when any verse is missing, so a passage is never shown cut short.
+ */
+export const lookupPassage = (text: string): Passage | null => {
+  const ref = parseReference(text) || findReferences(text)[0];
+  if (!ref || ref.endChapter !== undefined) return null;
+  const first = ref.verseStart ?? 1;
+  const last = ref.verseStart === undefined ? BOOK_LOOKUP.get(bookKey(ref.book))!.verses[ref.chapter - 1] : ref.verseEnd ?? ref.verseStart;
+  const verses: Passage['verses'] = [];
+  for (let verse = first; verse <= last; verse++) {
+    const verseText = KJV_VERSES[formatReference({ book: ref.book, chapter: ref.chapter, verseStart: verse })];
+    if (!verseText) return null;
+    verses.push({ verse, text: verseText });
+  }
+  return { reference: formatReference(ref), translation: 'KJV', verses };
+};
+
+export const passageText = (passage: Passage) => passage.verses.map(v => v.text).join(' ');
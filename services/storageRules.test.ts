@@ -0,0 +1,9 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { generateStorageRules } from './storageRules';
+
+describe('storage rules', () => {
+  it('storage.rules is the generated rule set', () => {
+    expect(readFileSync(new URL('../storage.rules', import.meta.url), 'utf8')).toBe(generateStorageRules());
+  });
+});
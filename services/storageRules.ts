@@ -0,0 +1,86 @@
+import { UserRole, UserStatus } from '../types';
+import { DEFAULT_ORG_ID } from './organizations';
+import { MAX_SHARED_ORGS } from './firestoreRules';
+
+// Camera photos are compressed well under this; voice notes are a few minutes of speech.
+const MAX_UPLOAD_MB = 20;
+
+const ADMIN_ROLES = [UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+const list = (values: string[]) => `[${values.map(v => `'${v}'`).join(', ')}]`;
+
+/**
+ * Cloud Storage rules matching the Firestore ones: a prospect's photos and
+ * voice notes are open to whoever can see the prospect, a profile photo to
+ * members of its owner's congregations. Roles are read from Firestore, so the
+ * two rule sets must be published together. Shipped as storage.rules.
+ */
+export const generateStorageRules = (): string => `rules_version = '2';
+
+// Generated by Harvest Hub alongside the Firestore rules. Files live under
+// prospects/<prospectId>/ and users/<userId>/.
+service firebase.storage {
+  match /b/{bucket}/o {
+
+    function signedIn() {
+      return request.auth != null;
+    }
+
+    function profile() {
+      return firestore.get(/databases/(default)/documents/users/$(request.auth.uid)).data;
+    }
+
+    function hasProfile() {
+      return signedIn() && firestore.exists(/databases/(default)/documents/users/$(request.auth.uid));
+    }
+
+    // Profiles from before organizations hold a single role and status for the main congregation.
+    function membershipsOf(data) {
+      return data.get('memberships', { '${DEFAULT_ORG_ID}': { 'role': data.role, 'status': data.status } });
+    }
+
+    function isApprovedIn(orgId) {
+      return hasProfile() && membershipsOf(profile()).get(orgId, { 'status': '' }).status == '${UserStatus.APPROVED}';
+    }
+
+    function isAdminIn(orgId) {
+      return isApprovedIn(orgId) && membershipsOf(profile())[orgId].role in ${list(ADMIN_ROLES)};
+    }
+
+    function canSeeProspect(data) {
+      let orgId = data.get('orgId', '${DEFAULT_ORG_ID}');
+      return isAdminIn(orgId)
+        || (isApprovedIn(orgId) && (data.assignedToUserId == request.auth.uid || data.createdByUserId == request.auth.uid));
+    }
+
+    // Rules cannot loop, so this checks the caller's first ${MAX_SHARED_ORGS} congregations.
+    function sharesCongregationWith(data) {
+      let orgs = profile().get('orgIds', ['${DEFAULT_ORG_ID}']);
+      let theirs = data.get('orgIds', ['${DEFAULT_ORG_ID}']);
+      return hasProfile() && (
+        ${Array.from({ length: MAX_SHARED_ORGS }, (_, i) => `(orgs.size() > ${i} && orgs[${i}] in theirs && isApprovedIn(orgs[${i}]))`).join('\n        || ')});
+    }
+
+    // Deletes carry no new resource; uploads must be images or audio of a sensible size.
+    function isMediaOrDelete() {
+      return request.resource == null
+        || (request.resource.size < ${MAX_UPLOAD_MB} * 1024 * 1024 && request.resource.contentType.matches('(image|audio)/.*'));
+    }
+
+    match /prospects/{prospectId}/{allPaths=**} {
+      allow read: if signedIn() && canSeeProspect(firestore.get(/databases/(default)/documents/prospects/$(prospectId)).data);
+      // Photos taken while a new record is being entered are uploaded before its document exists.
+      allow write: if signedIn() && isMediaOrDelete() && (
+        firestore.exists(/databases/(default)/documents/prospects/$(prospectId))
+          ? canSeeProspect(firestore.get(/databases/(default)/documents/prospects/$(prospectId)).data)
+          : hasProfile() && profile().status == '${UserStatus.APPROVED}');
+    }
+
+    match /users/{userId}/{allPaths=**} {
+      allow read: if signedIn() && (request.auth.uid == userId
+        || sharesCongregationWith(firestore.get(/databases/(default)/documents/users/$(userId)).data));
+      allow write: if signedIn() && request.auth.uid == userId && isMediaOrDelete();
+    }
+  }
+}
+`;
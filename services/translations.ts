@@ -0,0 +1,848 @@
+
+/**
+ * Interface strings per language. English is the source catalog and must
+ * hold every key; other catalogs may lag behind and fall back to it string
+ * by string. Placeholders such as {name} are filled in by i18n.translate.
+ */
+const en = {
+  'common.cancel': 'Cancel',
+  'common.open': 'Open',
+  'common.inviteTeam': 'Invite Team',
+  'common.localModeOnly': 'Local Mode Only',
+  'common.language': 'Preferred Language',
+  'common.photoFailed': 'Could not process that photo. Please try another image.',
+  'common.aiQuota': "You have used all of today's AI requests. The limit resets tomorrow; a SuperAdmin can raise it in Settings.",
+
+  'status.new': 'New',
+  'status.followedUp': 'Followed Up',
+  'status.member': 'Member',
+
+  'hunger.high': 'High',
+  'hunger.medium': 'Medium',
+  'hunger.low': 'Low',
+
+  'sidebar.dashboard': 'Dashboard',
+  'sidebar.newOutreach': 'New Outreach',
+  'sidebar.prospects': 'Prospects',
+  'sidebar.ourTeam': 'Our Team',
+  'sidebar.teamDirectory': 'Team Directory',
+  'sidebar.settings': 'Settings',
+  'sidebar.profile': 'My Profile',
+  'sidebar.pendingSync.one': '{count} change waiting to sync',
+  'sidebar.pendingSync.other': '{count} changes waiting to sync',
+  'sidebar.cloudConnected': 'Cloud Connected',
+  'sidebar.congregation': 'Congregation',
+  'sidebar.startCongregation': 'Start a new congregation',
+  'sidebar.congregationName': 'New congregation name',
+  'sidebar.createCongregationFailed': 'Could not create the congregation: {message}',
+  'sidebar.logOut': 'Log Out',
+
+  'sync.setAsideTitle.one': '{count} change could not be saved',
+  'sync.setAsideTitle.other': '{count} changes could not be saved',
+  'sync.setAsideBody': 'These offline changes were not accepted. Retry refused ones once the problem is fixed, or discard them.',
+  'sync.conflict': 'Someone else changed this first ({changes}).',
+  'sync.addProspect': 'Add {name}',
+  'sync.updateProspect': 'Edit {name}',
+  'sync.patchProspect': 'Update {name}',
+  'sync.addFollowUp': 'Follow-up for {name}',
+  'sync.removeProspect': 'Delete {name}',
+  'sync.mergeProspects': 'Merge into {name}',
+  'sync.analyzeProspect': 'AI review for {name}',
+  'sync.unknownPerson': 'a contact not loaded here',
+  'sync.retry': 'Retry',
+  'sync.discard': 'Discard',
+  'sync.discardConfirm': 'Discard this change? It will not be saved.',
+
+  'outreach.title': 'New Outreach Entry',
+  'outreach.subtitle': 'Log information for a person you just preached to.',
+  'outreach.details': 'Prospect Details',
+  'outreach.fullName': 'Full Name',
+  'outreach.namePlaceholder': 'Enter prospect name',
+  'outreach.phone': 'Phone Number',
+  'outreach.countryHint': 'Country used when the number has no + prefix',
+  'outreach.languageHint': 'Follow-up messages are drafted in this language.',
+  'outreach.possibleDuplicate': 'This person may already be in the directory',
+  'outreach.baptism': 'Signified for Baptism interest during encounter',
+  'outreach.sensitive': 'Sensitive notes (confession, health or family matters)',
+  'outreach.sensitiveBlocked': 'The AI assistant will not read these notes or transcribe recordings.',
+  'outreach.location': 'Location Information',
+  'outreach.liveGps': 'Live GPS',
+  'outreach.manualAddress': 'Manual Address',
+  'outreach.fetchGps': 'Fetch GPS Coordinates',
+  'outreach.noCoordinates': 'No coordinates captured yet',
+  'outreach.addressPlaceholder': 'Enter physical address, house number, or landmarks...',
+  'outreach.summary': 'Preaching Summary',
+  'outreach.notesPlaceholder': 'Briefly describe the conversation, spiritual responses, and specific prayer points...',
+  'outreach.aiHint': 'Gemini AI will analyze these notes to suggest follow-up steps.',
+  'outreach.offlineHint': 'You are offline, so the review will run once you reconnect.',
+  'outreach.photos': 'Location Photos',
+  'outreach.compressing': 'Compressing photo...',
+  'outreach.addPhoto': 'Add another photo',
+  'outreach.capturePhoto': 'Tap to capture or upload',
+  'outreach.analyzing': 'AI Analyzing...',
+  'outreach.save': 'Save Entry',
+  'outreach.noGeolocation': 'Geolocation is not supported by your browser',
+  'outreach.locationError': 'Error getting location: {message}',
+  'outreach.saveFailed': 'Something went wrong saving this entry. Please try again.',
+
+  'voice.record': 'Record Voice Note',
+  'voice.stop': 'Stop',
+  'voice.discard': 'Discard',
+  'voice.recording': 'Recording {elapsed} of {max}',
+  'voice.transcribing': 'Saving and transcribing...',
+  'voice.remove': 'Remove recording',
+  'voice.transcriptAdded': 'Transcript added to the notes. Read it over and correct it before saving.',
+  'voice.noSpeech': 'No speech was recognized. The recording is kept; please type the notes.',
+  'voice.unavailable': 'Transcription is unavailable right now. The recording is kept; please type the notes.',
+  'voice.offline': 'You are offline, so the recording was kept without a transcript.',
+  'voice.blocked': 'The notes are marked sensitive, so the recording was kept without a transcript.',
+  'voice.unsupported': 'This browser cannot record audio.',
+  'voice.micDenied': 'Could not use the microphone. Check that this site is allowed to record audio.',
+  'voice.saveFailed': 'Could not save this recording. Please try again.',
+  'voice.deviceOnly': 'This recording is only stored on the device that captured it.',
+
+  'dashboard.title': 'Church Evangelism Dashboard',
+  'dashboard.subtitle': 'Summary of outreach efforts and soul winning milestones.',
+  'dashboard.totalProspects': 'Total Prospects',
+  'dashboard.baptismInterests': 'Baptism Interests',
+  'dashboard.highHunger': 'High Hunger',
+  'dashboard.followedUp': 'Followed Up',
+  'dashboard.map': 'Geographical Outreach Map',
+  'dashboard.myArea': 'My Area',
+  'dashboard.global': 'Global',
+  'dashboard.recenter': 'Recenter on Me',
+  'dashboard.mapStatus': 'Status: {status}',
+  'dashboard.viewProfile': 'View Profile',
+  'dashboard.advisor': 'Gemini Strategy Advisor',
+  'dashboard.insight': 'Weekly Soul-Winning Insight',
+  'dashboard.refreshInsight': 'Refresh Insight',
+  'dashboard.strategyUnavailable': 'The strategy advisor is unavailable right now. Use refresh to try again.',
+  'dashboard.strategyQuota': "You have used all of today's AI requests, so the strategy advisor will be back tomorrow.",
+  'dashboard.strategyLoading': 'Analyzing the field for the best spiritual entry points...',
+  'dashboard.recent': 'Recent Outreach',
+  'dashboard.viewAll': 'View All',
+  'dashboard.empty': 'No records found. Start your first outreach!',
+  'dashboard.strategicInsights': 'Strategic Insights',
+  'dashboard.harvestTip': 'Harvest Tip',
+  'dashboard.baptismTip': 'You have {count} people interested in baptism! Organize a special counseling session this Sunday.',
+
+  'login.setNewPassword': 'Set New Password',
+  'login.resetPassword': 'Reset Password',
+  'login.secureCloud': 'Secure Cloud Access',
+  'login.google': 'Sign in with Google',
+  'login.orEmail': 'Or email access',
+  'login.fullName': 'Your Full Name',
+  'login.namePlaceholder': 'e.g. Bro. John Smith',
+  'login.email': 'Email Address',
+  'login.password': 'Password',
+  'login.passwordOrPin': 'Password or PIN',
+  'login.confirmPassword': 'Confirm Password',
+  'login.signIn': 'Sign In',
+  'login.register': 'Register Account',
+  'login.confirm': 'Confirm Action',
+  'login.createAccount': 'New laborer? Create Account',
+  'login.forgotPassword': 'Forgot Password?',
+  'login.backToLogin': 'Back to Login',
+  'login.advancedSettings': 'Advanced Settings',
+  'login.invalidResetLink': 'The password reset link is invalid or has already been used.',
+  'login.joinRequestedFrom': "Your request to join {name}'s congregation was sent to its admins.",
+  'login.joinRequested': 'Your request to join this congregation was sent to its admins.',
+  'login.cloudNotConfigured': 'Cloud services are not fully configured. Please check settings.',
+  'login.awaitingSuperAdmin': 'Your account is awaiting approval by a SuperAdmin.',
+  'login.stillAwaiting': 'Your account is still awaiting approval.',
+  'login.restricted': 'This account has been restricted.',
+  'login.profileCreatedPending': 'Profile created! Your account is now awaiting Admin approval.',
+  'login.domainNotAuthorized': 'Domain Not Authorized in Firebase',
+  'login.googleError': 'An error occurred during Google Sign-in.',
+  'login.profileNotFound': 'Profile not found. Please contact support.',
+  'login.welcomeSuperAdmin': 'Welcome SuperAdmin! Your account is activated.',
+  'login.awaitingApproval': 'Profile created. Awaiting Admin approval.',
+  'login.authError': 'An authentication error occurred.',
+  'login.localPending': 'Account created on this device. An admin must approve it before you can sign in.',
+  'login.enterEmail': 'Please enter your email.',
+  'login.resetSent': 'A password reset link has been dispatched.',
+  'login.resetFailed': 'Failed to send reset email.',
+  'login.passwordMismatch': 'Passwords do not match.',
+  'login.passwordTooShort': 'Password must be at least {min} characters.',
+  'login.passwordUpdated': 'Password updated! Please sign in.',
+  'login.updateFailed': 'Failed to update password.',
+
+  'detail.backToList': 'Back to list',
+  'detail.noAssignment': 'No Assignment',
+  'detail.assignOption': 'Assign: {name}',
+  'detail.baptismCandidate': 'Baptism Candidate',
+  'detail.markForBaptism': 'Mark for Baptism',
+  'detail.sensitive': 'Sensitive Notes',
+  'detail.markSensitive': 'Mark Sensitive',
+  'detail.sensitiveHint': 'For confessions, health or family matters',
+  'detail.aiBlocked': 'These notes are marked sensitive, so the AI assistant is turned off for this person.',
+  'detail.status': 'Status:',
+  'detail.conflictTitle': 'Someone else updated this person',
+  'detail.conflictBody': '({changes}). Your change was not saved.',
+  'detail.conflictStatus': 'status is now "{status}"',
+  'detail.conflictBaptismMarked': 'marked for baptism',
+  'detail.conflictBaptismCleared': 'baptism mark removed',
+  'detail.conflictReassigned': 'reassigned to someone else',
+  'detail.conflictUnassigned': 'assignment cleared',
+  'detail.conflictChanged': '{field} changed',
+  'detail.keepTheirs': 'Keep Theirs',
+  'detail.applyMine': 'Apply Mine',
+  'detail.assignedTo': 'Assigned to {name}',
+  'detail.call': 'Call',
+  'detail.text': 'Text',
+  'detail.unrecognizedNumber': 'This number could not be recognized, so quick-contact links are unavailable.',
+  'detail.readyForBaptism': 'Ready for Baptism',
+  'detail.draftFollowUp': 'Draft Follow-up',
+  'detail.suggestion': 'Gemini Outreach Suggestion',
+  'detail.copy': 'Copy to Clipboard',
+  'detail.regenerate': 'Regenerate',
+  'detail.copied': 'Message copied to clipboard!',
+  'detail.encounterNotes': 'Encounter Notes',
+  'detail.preachedBy': 'Preached by {name}',
+  'detail.location': 'Location',
+  'detail.addressRecorded': 'Address Recorded:',
+  'detail.noLocation': 'No location data',
+  'detail.photoDeviceOnly': 'The full-size photo is only stored on the device that captured it.',
+  'detail.bibleStudy': 'Bible Study',
+  'detail.endStudy': 'End Study',
+  'detail.endStudyConfirm': 'End this study? Lessons already taught stay in the follow-up history.',
+  'detail.lessonProgress': '{completed} of {total} lessons',
+  'detail.studyRemoved': 'The study series this person was enrolled in has been removed.',
+  'detail.chooseSeries': 'Choose a study series...',
+  'detail.seriesOption': '{title} ({count} lessons)',
+  'detail.enroll': 'Enroll',
+  'detail.noSeries': 'No study series yet. Admins can add them under Settings, Bible Studies.',
+  'detail.followUpHistory': 'Follow-up History',
+  'detail.addLog': 'Add Log',
+  'detail.logFollowUp': 'Log New Follow-up Interaction',
+  'detail.followUpPlaceholder': 'Describe what happened during this visit/call...',
+  'detail.lessonsTaught': 'Lessons taught this visit',
+  'detail.saveLog': 'Save Log',
+  'detail.noFollowUps': 'No follow-ups recorded yet.',
+  'detail.aiReview': 'Gemini AI Review',
+  'detail.reassessHint': 'Review the first conversation and every follow-up again',
+  'detail.assessing': 'Assessing',
+  'detail.reassess': 'Re-assess',
+  'detail.reviewQueued': 'Review queued. Gemini will analyze these notes once the device is back online.',
+  'detail.reviewMissing': 'AI review unavailable. These notes have not been analyzed yet.',
+  'detail.reviewing': 'Reviewing...',
+  'detail.runReview': 'Run Review Again',
+  'detail.spiritualHunger': 'Spiritual Hunger',
+  'detail.hungerOverTime': 'Hunger Over Time',
+  'detail.trendGrowing': 'Growing',
+  'detail.trendCooling': 'Cooling',
+  'detail.trendSteady': 'Steady',
+  'detail.snapshot.one': '{level} after {count} follow-up',
+  'detail.snapshot.other': '{level} after {count} follow-ups',
+  'detail.suggestedVerse': 'Suggested Verse',
+  'detail.verseNotBundled': 'Only commonly used passages are bundled with the app; read this one in your Bible.',
+  'detail.nextStrategy': 'Next Strategy',
+  'detail.executiveSummary': 'Executive Summary',
+  'detail.possibleDuplicates': 'Possible Duplicates',
+  'detail.byPreacher': 'by {name}',
+  'detail.mergeInto': 'Merge into this record',
+  'detail.mergeConfirm': 'Merge {name} ({phone}) into this record? Their follow-ups, notes and photos will be combined here.',
+  'detail.mergeFailed': 'Could not merge these records. Please try again.',
+  'detail.history': 'History',
+  'detail.noChanges': 'No changes recorded yet.',
+  'detail.teamReminders': 'Team Reminders',
+  'detail.reminderCall': 'Call within 48 hours of initial preaching.',
+  'detail.reminderBible': 'Bring a Welcome Bible if hunger is "High".',
+  'detail.saveFailed': 'Could not save this change. Please try again.',
+  'detail.followUpFailed': 'Could not save this follow-up. Please try again.',
+  'detail.draftFailed': 'AI failed to draft message. Please try again.',
+  'detail.reviewFailed': 'The AI review is still unavailable. Please try again later.',
+  'detail.reassessFailed': 'The AI could not re-assess this contact right now. Please try again later.',
+
+  'audit.status': 'Status',
+  'audit.signifiedForBaptism': 'Baptism',
+  'audit.assignedToUserName': 'Assigned to',
+  'audit.aiReview': 'AI review',
+  'audit.study': 'Bible study',
+  'audit.photos': 'Photos',
+  'audit.preachingNotes': 'Notes',
+  'audit.phone': 'Phone',
+  'audit.preferredLanguage': 'Language',
+  'audit.voiceNotes': 'Voice notes',
+  'audit.sensitiveNotes': 'Sensitive notes',
+  'audit.manualAddress': 'Address',
+  'audit.coordinates': 'Location',
+  'audit.timestamp': 'First contact',
+  'audit.name': 'Name',
+  'audit.none': 'none',
+  'audit.yes': 'Yes',
+  'audit.no': 'No',
+  'audit.items.one': '{count} item',
+  'audit.items.other': '{count} items',
+  'audit.hunger': '{level} hunger',
+  'audit.enrolled': 'enrolled',
+  'audit.updated': 'updated',
+  'audit.created': 'Recorded this contact',
+  'audit.followUp': 'Logged a follow-up',
+  'audit.mergedInto': 'Merged into {name}',
+  'audit.mergedFrom': 'Merged in duplicate entry for {name}'
+};
+
+export type TranslationKey = keyof typeof en;
+
+export type Catalog = Partial<Record<TranslationKey, string>>;
+
+const es: Catalog = {
+  'common.cancel': 'Cancelar',
+  'common.open': 'Abrir',
+  'common.inviteTeam': 'Invitar al equipo',
+  'common.localModeOnly': 'Solo modo local',
+  'common.language': 'Idioma preferido',
+  'common.photoFailed': 'No se pudo procesar esa foto. Pruebe con otra imagen.',
+  'common.aiQuota': 'Ha usado todas las solicitudes de IA de hoy. El límite se renueva mañana; un SuperAdmin puede aumentarlo en Configuración.',
+
+  'status.new': 'Nuevo',
+  'status.followedUp': 'Con seguimiento',
+  'status.member': 'Miembro',
+
+  'hunger.high': 'Alta',
+  'hunger.medium': 'Media',
+  'hunger.low': 'Baja',
+
+  'sidebar.dashboard': 'Panel',
+  'sidebar.newOutreach': 'Nuevo contacto',
+  'sidebar.prospects': 'Interesados',
+  'sidebar.ourTeam': 'Nuestro equipo',
+  'sidebar.teamDirectory': 'Directorio del equipo',
+  'sidebar.settings': 'Configuración',
+  'sidebar.profile': 'Mi perfil',
+  'sidebar.pendingSync.one': '{count} cambio pendiente de sincronizar',
+  'sidebar.pendingSync.other': '{count} cambios pendientes de sincronizar',
+  'sidebar.cloudConnected': 'Conectado a la nube',
+  'sidebar.congregation': 'Congregación',
+  'sidebar.startCongregation': 'Crear una nueva congregación',
+  'sidebar.congregationName': 'Nombre de la nueva congregación',
+  'sidebar.createCongregationFailed': 'No se pudo crear la congregación: {message}',
+  'sidebar.logOut': 'Cerrar sesión',
+
+  'sync.setAsideTitle.one': 'No se pudo guardar {count} cambio',
+  'sync.setAsideTitle.other': 'No se pudieron guardar {count} cambios',
+  'sync.setAsideBody': 'Estos cambios hechos sin conexión no se aceptaron. Reintente los rechazados cuando se resuelva el problema o descártelos.',
+  'sync.conflict': 'Otra persona lo cambió primero ({changes}).',
+  'sync.addProspect': 'Agregar a {name}',
+  'sync.updateProspect': 'Editar a {name}',
+  'sync.patchProspect': 'Actualizar a {name}',
+  'sync.addFollowUp': 'Seguimiento de {name}',
+  'sync.removeProspect': 'Eliminar a {name}',
+  'sync.mergeProspects': 'Combinar con {name}',
+  'sync.analyzeProspect': 'Revisión de IA de {name}',
+  'sync.unknownPerson': 'un contacto no cargado aquí',
+  'sync.retry': 'Reintentar',
+  'sync.discard': 'Descartar',
+  'sync.discardConfirm': '¿Descartar este cambio? No se guardará.',
+
+  'outreach.title': 'Nuevo registro de evangelismo',
+  'outreach.subtitle': 'Anote los datos de la persona a quien acaba de predicar.',
+  'outreach.details': 'Datos del interesado',
+  'outreach.fullName': 'Nombre completo',
+  'outreach.namePlaceholder': 'Nombre del interesado',
+  'outreach.phone': 'Número de teléfono',
+  'outreach.countryHint': 'País usado cuando el número no lleva el prefijo +',
+  'outreach.languageHint': 'Los mensajes de seguimiento se redactan en este idioma.',
+  'outreach.possibleDuplicate': 'Es posible que esta persona ya esté en el directorio',
+  'outreach.baptism': 'Mostró interés en el bautismo durante el encuentro',
+  'outreach.sensitive': 'Notas delicadas (confesión, salud o asuntos familiares)',
+  'outreach.sensitiveBlocked': 'El asistente de IA no leerá estas notas ni transcribirá las grabaciones.',
+  'outreach.location': 'Ubicación',
+  'outreach.liveGps': 'GPS en vivo',
+  'outreach.manualAddress': 'Dirección manual',
+  'outreach.fetchGps': 'Obtener coordenadas GPS',
+  'outreach.noCoordinates': 'Aún no hay coordenadas',
+  'outreach.addressPlaceholder': 'Dirección, número de casa o puntos de referencia...',
+  'outreach.summary': 'Resumen de la predicación',
+  'outreach.notesPlaceholder': 'Describa brevemente la conversación, las respuestas espirituales y los motivos de oración...',
+  'outreach.aiHint': 'Gemini AI analizará estas notas para sugerir los siguientes pasos.',
+  'outreach.offlineHint': 'Está sin conexión; el análisis se hará cuando vuelva a conectarse.',
+  'outreach.photos': 'Fotos del lugar',
+  'outreach.compressing': 'Comprimiendo foto...',
+  'outreach.addPhoto': 'Agregar otra foto',
+  'outreach.capturePhoto': 'Toque para tomar o subir una foto',
+  'outreach.analyzing': 'Analizando con IA...',
+  'outreach.save': 'Guardar registro',
+  'outreach.noGeolocation': 'Su navegador no admite la geolocalización',
+  'outreach.locationError': 'Error al obtener la ubicación: {message}',
+  'outreach.saveFailed': 'Algo salió mal al guardar este registro. Inténtelo de nuevo.',
+
+  'voice.record': 'Grabar nota de voz',
+  'voice.stop': 'Detener',
+  'voice.discard': 'Descartar',
+  'voice.recording': 'Grabando {elapsed} de {max}',
+  'voice.transcribing': 'Guardando y transcribiendo...',
+  'voice.remove': 'Quitar grabación',
+  'voice.transcriptAdded': 'La transcripción se agregó a las notas. Revísela y corríjala antes de guardar.',
+  'voice.noSpeech': 'No se reconoció ninguna voz. La grabación se conserva; escriba las notas.',
+  'voice.unavailable': 'La transcripción no está disponible ahora. La grabación se conserva; escriba las notas.',
+  'voice.offline': 'Está sin conexión, así que la grabación se conservó sin transcripción.',
+  'voice.blocked': 'Las notas están marcadas como delicadas, así que la grabación se conservó sin transcripción.',
+  'voice.unsupported': 'Este navegador no puede grabar audio.',
+  'voice.micDenied': 'No se pudo usar el micrófono. Verifique que este sitio tenga permiso para grabar audio.',
+  'voice.saveFailed': 'No se pudo guardar esta grabación. Inténtelo de nuevo.',
+  'voice.deviceOnly': 'Esta grabación solo está guardada en el dispositivo que la grabó.',
+
+  'dashboard.title': 'Panel de evangelismo de la iglesia',
+  'dashboard.subtitle': 'Resumen del trabajo de evangelismo y de las almas ganadas.',
+  'dashboard.totalProspects': 'Total de interesados',
+  'dashboard.baptismInterests': 'Interesados en el bautismo',
+  'dashboard.highHunger': 'Hambre alta',
+  'dashboard.followedUp': 'Con seguimiento',
+  'dashboard.map': 'Mapa de evangelismo',
+  'dashboard.myArea': 'Mi zona',
+  'dashboard.global': 'Global',
+  'dashboard.recenter': 'Centrar en mi ubicación',
+  'dashboard.mapStatus': 'Estado: {status}',
+  'dashboard.viewProfile': 'Ver perfil',
+  'dashboard.advisor': 'Asesor de estrategia Gemini',
+  'dashboard.insight': 'Consejo semanal para ganar almas',
+  'dashboard.refreshInsight': 'Actualizar consejo',
+  'dashboard.strategyUnavailable': 'El asesor de estrategia no está disponible ahora. Use actualizar para intentarlo de nuevo.',
+  'dashboard.strategyQuota': 'Ha usado todas las solicitudes de IA de hoy, así que el asesor de estrategia volverá mañana.',
+  'dashboard.strategyLoading': 'Analizando el campo en busca de las mejores puertas abiertas...',
+  'dashboard.recent': 'Contactos recientes',
+  'dashboard.viewAll': 'Ver todo',
+  'dashboard.empty': 'No hay registros. ¡Registre su primer contacto!',
+  'dashboard.strategicInsights': 'Ideas estratégicas',
+  'dashboard.harvestTip': 'Consejo para la cosecha',
+  'dashboard.baptismTip': '¡Tiene {count} personas interesadas en el bautismo! Organice una sesión especial de consejería este domingo.',
+
+  'login.setNewPassword': 'Nueva contraseña',
+  'login.resetPassword': 'Restablecer contraseña',
+  'login.secureCloud': 'Acceso seguro en la nube',
+  'login.google': 'Iniciar sesión con Google',
+  'login.orEmail': 'O con correo electrónico',
+  'login.fullName': 'Su nombre completo',
+  'login.namePlaceholder': 'p. ej. Hno. Juan Pérez',
+  'login.email': 'Correo electrónico',
+  'login.password': 'Contraseña',
+  'login.passwordOrPin': 'Contraseña o PIN',
+  'login.confirmPassword': 'Confirmar contraseña',
+  'login.signIn': 'Iniciar sesión',
+  'login.register': 'Registrar cuenta',
+  'login.confirm': 'Confirmar',
+  'login.createAccount': '¿Nuevo obrero? Crear cuenta',
+  'login.forgotPassword': '¿Olvidó su contraseña?',
+  'login.backToLogin': 'Volver a iniciar sesión',
+  'login.advancedSettings': 'Configuración avanzada',
+  'login.invalidResetLink': 'El enlace para restablecer la contraseña no es válido o ya se usó.',
+  'login.joinRequestedFrom': 'Su solicitud para unirse a la congregación de {name} se envió a sus administradores.',
+  'login.joinRequested': 'Su solicitud para unirse a esta congregación se envió a sus administradores.',
+  'login.cloudNotConfigured': 'Los servicios en la nube no están configurados del todo. Revise la configuración.',
+  'login.awaitingSuperAdmin': 'Su cuenta está pendiente de aprobación por un SuperAdmin.',
+  'login.stillAwaiting': 'Su cuenta sigue pendiente de aprobación.',
+  'login.restricted': 'Esta cuenta ha sido restringida.',
+  'login.profileCreatedPending': '¡Perfil creado! Su cuenta está pendiente de aprobación por un administrador.',
+  'login.domainNotAuthorized': 'Dominio no autorizado en Firebase',
+  'login.googleError': 'Ocurrió un error al iniciar sesión con Google.',
+  'login.profileNotFound': 'No se encontró el perfil. Comuníquese con soporte.',
+  'login.welcomeSuperAdmin': '¡Bienvenido, SuperAdmin! Su cuenta está activada.',
+  'login.awaitingApproval': 'Perfil creado. Pendiente de aprobación por un administrador.',
+  'login.authError': 'Ocurrió un error de autenticación.',
+  'login.localPending': 'Cuenta creada en este dispositivo. Un administrador debe aprobarla antes de que pueda iniciar sesión.',
+  'login.enterEmail': 'Ingrese su correo electrónico.',
+  'login.resetSent': 'Se envió un enlace para restablecer la contraseña.',
+  'login.resetFailed': 'No se pudo enviar el correo de restablecimiento.',
+  'login.passwordMismatch': 'Las contraseñas no coinciden.',
+  'login.passwordTooShort': 'La contraseña debe tener al menos {min} caracteres.',
+  'login.passwordUpdated': '¡Contraseña actualizada! Inicie sesión.',
+  'login.updateFailed': 'No se pudo actualizar la contraseña.',
+
+  'detail.backToList': 'Volver a la lista',
+  'detail.noAssignment': 'Sin asignar',
+  'detail.assignOption': 'Asignar a: {name}',
+  'detail.baptismCandidate': 'Candidato al bautismo',
+  'detail.markForBaptism': 'Marcar para bautismo',
+  'detail.sensitive': 'Notas delicadas',
+  'detail.markSensitive': 'Marcar como delicado',
+  'detail.sensitiveHint': 'Para confesiones, salud o asuntos familiares',
+  'detail.aiBlocked': 'Estas notas están marcadas como delicadas, así que el asistente de IA está desactivado para esta persona.',
+  'detail.status': 'Estado:',
+  'detail.conflictTitle': 'Otra persona actualizó este registro',
+  'detail.conflictBody': '({changes}). Su cambio no se guardó.',
+  'detail.conflictStatus': 'el estado ahora es "{status}"',
+  'detail.conflictBaptismMarked': 'marcado para bautismo',
+  'detail.conflictBaptismCleared': 'se quitó la marca de bautismo',
+  'detail.conflictReassigned': 'asignado a otra persona',
+  'detail.conflictUnassigned': 'se quitó la asignación',
+  'detail.conflictChanged': '{field} cambió',
+  'detail.keepTheirs': 'Conservar el suyo',
+  'detail.applyMine': 'Aplicar el mío',
+  'detail.assignedTo': 'Asignado a {name}',
+  'detail.call': 'Llamar',
+  'detail.text': 'SMS',
+  'detail.unrecognizedNumber': 'No se reconoció este número, así que los enlaces de contacto rápido no están disponibles.',
+  'detail.readyForBaptism': 'Listo para el bautismo',
+  'detail.draftFollowUp': 'Redactar seguimiento',
+  'detail.suggestion': 'Sugerencia de Gemini',
+  'detail.copy': 'Copiar al portapapeles',
+  'detail.regenerate': 'Generar otro',
+  'detail.copied': '¡Mensaje copiado al portapapeles!',
+  'detail.encounterNotes': 'Notas del encuentro',
+  'detail.preachedBy': 'Predicado por {name}',
+  'detail.location': 'Ubicación',
+  'detail.addressRecorded': 'Dirección registrada:',
+  'detail.noLocation': 'Sin datos de ubicación',
+  'detail.photoDeviceOnly': 'La foto en tamaño completo solo está guardada en el dispositivo que la tomó.',
+  'detail.bibleStudy': 'Estudio bíblico',
+  'detail.endStudy': 'Terminar estudio',
+  'detail.endStudyConfirm': '¿Terminar este estudio? Las lecciones ya enseñadas permanecen en el historial de seguimiento.',
+  'detail.lessonProgress': '{completed} de {total} lecciones',
+  'detail.studyRemoved': 'La serie de estudio en la que estaba inscrita esta persona fue eliminada.',
+  'detail.chooseSeries': 'Elija una serie de estudio...',
+  'detail.seriesOption': '{title} ({count} lecciones)',
+  'detail.enroll': 'Inscribir',
+  'detail.noSeries': 'Aún no hay series de estudio. Los administradores pueden agregarlas en Configuración, Estudios bíblicos.',
+  'detail.followUpHistory': 'Historial de seguimiento',
+  'detail.addLog': 'Agregar registro',
+  'detail.logFollowUp': 'Registrar un nuevo seguimiento',
+  'detail.followUpPlaceholder': 'Describa lo que ocurrió en esta visita o llamada...',
+  'detail.lessonsTaught': 'Lecciones enseñadas en esta visita',
+  'detail.saveLog': 'Guardar registro',
+  'detail.noFollowUps': 'Aún no hay seguimientos registrados.',
+  'detail.aiReview': 'Análisis de Gemini AI',
+  'detail.reassessHint': 'Volver a analizar la primera conversación y cada seguimiento',
+  'detail.assessing': 'Analizando',
+  'detail.reassess': 'Reevaluar',
+  'detail.reviewQueued': 'Análisis en cola. Gemini analizará estas notas cuando el dispositivo vuelva a estar en línea.',
+  'detail.reviewMissing': 'Análisis de IA no disponible. Estas notas aún no se han analizado.',
+  'detail.reviewing': 'Analizando...',
+  'detail.runReview': 'Analizar de nuevo',
+  'detail.spiritualHunger': 'Hambre espiritual',
+  'detail.hungerOverTime': 'Hambre a lo largo del tiempo',
+  'detail.trendGrowing': 'En aumento',
+  'detail.trendCooling': 'Enfriándose',
+  'detail.trendSteady': 'Estable',
+  'detail.snapshot.one': '{level} después de {count} seguimiento',
+  'detail.snapshot.other': '{level} después de {count} seguimientos',
+  'detail.suggestedVerse': 'Versículo sugerido',
+  'detail.verseNotBundled': 'La aplicación solo incluye los pasajes más usados; lee este en tu Biblia.',
+  'detail.nextStrategy': 'Próximo paso',
+  'detail.executiveSummary': 'Resumen',
+  'detail.possibleDuplicates': 'Posibles duplicados',
+  'detail.byPreacher': 'por {name}',
+  'detail.mergeInto': 'Fusionar en este registro',
+  'detail.mergeConfirm': '¿Fusionar a {name} ({phone}) en este registro? Sus seguimientos, notas y fotos se combinarán aquí.',
+  'detail.mergeFailed': 'No se pudieron fusionar estos registros. Inténtelo de nuevo.',
+  'detail.history': 'Historial',
+  'detail.noChanges': 'Aún no hay cambios registrados.',
+  'detail.teamReminders': 'Recordatorios del equipo',
+  'detail.reminderCall': 'Llame dentro de las 48 horas posteriores a la primera predicación.',
+  'detail.reminderBible': 'Lleve una Biblia de bienvenida si el hambre es "Alta".',
+  'detail.saveFailed': 'No se pudo guardar este cambio. Inténtelo de nuevo.',
+  'detail.followUpFailed': 'No se pudo guardar este seguimiento. Inténtelo de nuevo.',
+  'detail.draftFailed': 'La IA no pudo redactar el mensaje. Inténtelo de nuevo.',
+  'detail.reviewFailed': 'El análisis de IA sigue sin estar disponible. Inténtelo más tarde.',
+  'detail.reassessFailed': 'La IA no pudo reevaluar este contacto ahora. Inténtelo más tarde.',
+
+  'audit.status': 'Estado',
+  'audit.signifiedForBaptism': 'Bautismo',
+  'audit.assignedToUserName': 'Asignado a',
+  'audit.aiReview': 'Análisis de IA',
+  'audit.study': 'Estudio bíblico',
+  'audit.photos': 'Fotos',
+  'audit.preachingNotes': 'Notas',
+  'audit.phone': 'Teléfono',
+  'audit.preferredLanguage': 'Idioma',
+  'audit.voiceNotes': 'Notas de voz',
+  'audit.sensitiveNotes': 'Notas delicadas',
+  'audit.manualAddress': 'Dirección',
+  'audit.coordinates': 'Ubicación',
+  'audit.timestamp': 'Primer contacto',
+  'audit.name': 'Nombre',
+  'audit.none': 'ninguno',
+  'audit.yes': 'Sí',
+  'audit.no': 'No',
+  'audit.items.one': '{count} elemento',
+  'audit.items.other': '{count} elementos',
+  'audit.hunger': 'hambre {level}',
+  'audit.enrolled': 'inscrito',
+  'audit.updated': 'actualizado',
+  'audit.created': 'Registró este contacto',
+  'audit.followUp': 'Registró un seguimiento',
+  'audit.mergedInto': 'Fusionado en {name}',
+  'audit.mergedFrom': 'Se fusionó el registro duplicado de {name}'
+};
+
+const fr: Catalog = {
+  'common.cancel': 'Annuler',
+  'common.open': 'Ouvrir',
+  'common.inviteTeam': "Inviter l'équipe",
+  'common.localModeOnly': 'Mode local uniquement',
+  'common.language': 'Langue préférée',
+  'common.photoFailed': "Impossible de traiter cette photo. Essayez une autre image.",
+  'common.aiQuota': "Vous avez utilisé toutes les requêtes IA d'aujourd'hui. La limite se renouvelle demain ; un SuperAdmin peut l'augmenter dans les Paramètres.",
+
+  'status.new': 'Nouveau',
+  'status.followedUp': 'Suivi',
+  'status.member': 'Membre',
+
+  'hunger.high': 'Élevée',
+  'hunger.medium': 'Moyenne',
+  'hunger.low': 'Faible',
+
+  'sidebar.dashboard': 'Tableau de bord',
+  'sidebar.newOutreach': 'Nouveau contact',
+  'sidebar.prospects': 'Contacts',
+  'sidebar.ourTeam': 'Notre équipe',
+  'sidebar.teamDirectory': "Annuaire de l'équipe",
+  'sidebar.settings': 'Paramètres',
+  'sidebar.profile': 'Mon profil',
+  'sidebar.pendingSync.one': '{count} modification en attente de synchronisation',
+  'sidebar.pendingSync.other': '{count} modifications en attente de synchronisation',
+  'sidebar.cloudConnected': 'Connecté au cloud',
+  'sidebar.congregation': 'Assemblée',
+  'sidebar.startCongregation': 'Créer une nouvelle assemblée',
+  'sidebar.congregationName': 'Nom de la nouvelle assemblée',
+  'sidebar.createCongregationFailed': "Impossible de créer l'assemblée : {message}",
+  'sidebar.logOut': 'Se déconnecter',
+
+  'sync.setAsideTitle.one': "{count} modification n'a pas pu être enregistrée",
+  'sync.setAsideTitle.other': "{count} modifications n'ont pas pu être enregistrées",
+  'sync.setAsideBody': "Ces modifications faites hors ligne n'ont pas été acceptées. Réessayez celles qui ont été refusées une fois le problème résolu, ou abandonnez-les.",
+  'sync.conflict': "Quelqu'un d'autre l'a modifié d'abord ({changes}).",
+  'sync.addProspect': 'Ajouter {name}',
+  'sync.updateProspect': 'Modifier {name}',
+  'sync.patchProspect': 'Mettre à jour {name}',
+  'sync.addFollowUp': 'Suivi de {name}',
+  'sync.removeProspect': 'Supprimer {name}',
+  'sync.mergeProspects': 'Fusionner avec {name}',
+  'sync.analyzeProspect': 'Analyse IA de {name}',
+  'sync.unknownPerson': 'un contact non chargé ici',
+  'sync.retry': 'Réessayer',
+  'sync.discard': 'Abandonner',
+  'sync.discardConfirm': 'Abandonner cette modification ? Elle ne sera pas enregistrée.',
+
+  'outreach.title': "Nouvelle fiche d'évangélisation",
+  'outreach.subtitle': "Notez les informations de la personne à qui vous venez de prêcher.",
+  'outreach.details': 'Informations du contact',
+  'outreach.fullName': 'Nom complet',
+  'outreach.namePlaceholder': 'Nom du contact',
+  'outreach.phone': 'Numéro de téléphone',
+  'outreach.countryHint': "Pays utilisé lorsque le numéro n'a pas de préfixe +",
+  'outreach.languageHint': 'Les messages de suivi sont rédigés dans cette langue.',
+  'outreach.possibleDuplicate': "Cette personne figure peut-être déjà dans l'annuaire",
+  'outreach.baptism': 'A exprimé un intérêt pour le baptême lors de la rencontre',
+  'outreach.sensitive': 'Notes sensibles (confession, santé ou affaires familiales)',
+  'outreach.sensitiveBlocked': "L'assistant IA ne lira pas ces notes et ne transcrira pas les enregistrements.",
+  'outreach.location': 'Localisation',
+  'outreach.liveGps': 'GPS en direct',
+  'outreach.manualAddress': 'Adresse manuelle',
+  'outreach.fetchGps': 'Obtenir les coordonnées GPS',
+  'outreach.noCoordinates': 'Aucune coordonnée pour le moment',
+  'outreach.addressPlaceholder': 'Adresse, numéro de maison ou points de repère...',
+  'outreach.summary': 'Résumé de la prédication',
+  'outreach.notesPlaceholder': 'Décrivez brièvement la conversation, les réactions spirituelles et les sujets de prière...',
+  'outreach.aiHint': 'Gemini AI analysera ces notes pour proposer les prochaines étapes.',
+  'outreach.offlineHint': "Vous êtes hors ligne ; l'analyse se fera à la reconnexion.",
+  'outreach.photos': 'Photos du lieu',
+  'outreach.compressing': 'Compression de la photo...',
+  'outreach.addPhoto': 'Ajouter une autre photo',
+  'outreach.capturePhoto': 'Touchez pour prendre ou importer une photo',
+  'outreach.analyzing': 'Analyse IA...',
+  'outreach.save': 'Enregistrer la fiche',
+  'outreach.noGeolocation': "Votre navigateur ne prend pas en charge la géolocalisation",
+  'outreach.locationError': 'Erreur de localisation : {message}',
+  'outreach.saveFailed': "Un problème est survenu lors de l'enregistrement. Veuillez réessayer.",
+
+  'voice.record': 'Enregistrer une note vocale',
+  'voice.stop': 'Arrêter',
+  'voice.discard': 'Annuler',
+  'voice.recording': 'Enregistrement {elapsed} sur {max}',
+  'voice.transcribing': 'Enregistrement et transcription...',
+  'voice.remove': "Supprimer l'enregistrement",
+  'voice.transcriptAdded': 'La transcription a été ajoutée aux notes. Relisez-la et corrigez-la avant de sauvegarder.',
+  'voice.noSpeech': "Aucune parole n'a été reconnue. L'enregistrement est conservé ; veuillez saisir les notes.",
+  'voice.unavailable': "La transcription est indisponible pour le moment. L'enregistrement est conservé ; veuillez saisir les notes.",
+  'voice.offline': "Vous êtes hors ligne, l'enregistrement a donc été conservé sans transcription.",
+  'voice.blocked': "Les notes sont marquées sensibles, l'enregistrement a donc été conservé sans transcription.",
+  'voice.unsupported': "Ce navigateur ne peut pas enregistrer d'audio.",
+  'voice.micDenied': "Impossible d'utiliser le micro. Vérifiez que ce site est autorisé à enregistrer du son.",
+  'voice.saveFailed': "Impossible de sauvegarder cet enregistrement. Veuillez réessayer.",
+  'voice.deviceOnly': "Cet enregistrement n'est conservé que sur l'appareil qui l'a capturé.",
+
+  'dashboard.title': "Tableau de bord de l'évangélisation",
+  'dashboard.subtitle': "Synthèse des actions d'évangélisation et des âmes gagnées.",
+  'dashboard.totalProspects': 'Total des contacts',
+  'dashboard.baptismInterests': 'Intéressés par le baptême',
+  'dashboard.highHunger': 'Faim élevée',
+  'dashboard.followedUp': 'Suivis',
+  'dashboard.map': "Carte de l'évangélisation",
+  'dashboard.myArea': 'Mon secteur',
+  'dashboard.global': 'Global',
+  'dashboard.recenter': 'Recentrer sur moi',
+  'dashboard.mapStatus': 'Statut : {status}',
+  'dashboard.viewProfile': 'Voir le profil',
+  'dashboard.advisor': 'Conseiller stratégique Gemini',
+  'dashboard.insight': 'Conseil de la semaine pour gagner des âmes',
+  'dashboard.refreshInsight': 'Actualiser le conseil',
+  'dashboard.strategyUnavailable': "Le conseiller stratégique est indisponible pour le moment. Actualisez pour réessayer.",
+  'dashboard.strategyQuota': "Vous avez utilisé toutes les requêtes IA d'aujourd'hui, le conseiller stratégique reviendra donc demain.",
+  'dashboard.strategyLoading': 'Analyse du terrain à la recherche des meilleures portes ouvertes...',
+  'dashboard.recent': 'Contacts récents',
+  'dashboard.viewAll': 'Tout voir',
+  'dashboard.empty': 'Aucune fiche. Enregistrez votre premier contact !',
+  'dashboard.strategicInsights': 'Pistes stratégiques',
+  'dashboard.harvestTip': 'Conseil pour la moisson',
+  'dashboard.baptismTip': "{count} personnes sont intéressées par le baptême ! Organisez un entretien spécial ce dimanche.",
+
+  'login.setNewPassword': 'Nouveau mot de passe',
+  'login.resetPassword': 'Réinitialiser le mot de passe',
+  'login.secureCloud': 'Accès cloud sécurisé',
+  'login.google': 'Se connecter avec Google',
+  'login.orEmail': 'Ou par e-mail',
+  'login.fullName': 'Votre nom complet',
+  'login.namePlaceholder': 'ex. Frère Jean Dupont',
+  'login.email': 'Adresse e-mail',
+  'login.password': 'Mot de passe',
+  'login.passwordOrPin': 'Mot de passe ou code PIN',
+  'login.confirmPassword': 'Confirmer le mot de passe',
+  'login.signIn': 'Se connecter',
+  'login.register': 'Créer le compte',
+  'login.confirm': 'Confirmer',
+  'login.createAccount': 'Nouvel ouvrier ? Créer un compte',
+  'login.forgotPassword': 'Mot de passe oublié ?',
+  'login.backToLogin': 'Retour à la connexion',
+  'login.advancedSettings': 'Paramètres avancés',
+  'login.invalidResetLink': 'Le lien de réinitialisation est invalide ou a déjà été utilisé.',
+  'login.joinRequestedFrom': "Votre demande pour rejoindre l'assemblée de {name} a été envoyée à ses administrateurs.",
+  'login.joinRequested': 'Votre demande pour rejoindre cette assemblée a été envoyée à ses administrateurs.',
+  'login.cloudNotConfigured': 'Les services cloud ne sont pas entièrement configurés. Vérifiez les paramètres.',
+  'login.awaitingSuperAdmin': "Votre compte attend l'approbation d'un SuperAdmin.",
+  'login.stillAwaiting': "Votre compte est toujours en attente d'approbation.",
+  'login.restricted': 'Ce compte a été restreint.',
+  'login.profileCreatedPending': "Profil créé ! Votre compte attend maintenant l'approbation d'un administrateur.",
+  'login.domainNotAuthorized': 'Domaine non autorisé dans Firebase',
+  'login.googleError': 'Une erreur est survenue lors de la connexion avec Google.',
+  'login.profileNotFound': 'Profil introuvable. Veuillez contacter le support.',
+  'login.welcomeSuperAdmin': 'Bienvenue, SuperAdmin ! Votre compte est activé.',
+  'login.awaitingApproval': "Profil créé. En attente de l'approbation d'un administrateur.",
+  'login.authError': "Une erreur d'authentification est survenue.",
+  'login.localPending': "Compte créé sur cet appareil. Un administrateur doit l'approuver avant que vous puissiez vous connecter.",
+  'login.enterEmail': 'Veuillez saisir votre adresse e-mail.',
+  'login.resetSent': 'Un lien de réinitialisation a été envoyé.',
+  'login.resetFailed': "Impossible d'envoyer l'e-mail de réinitialisation.",
+  'login.passwordMismatch': 'Les mots de passe ne correspondent pas.',
+  'login.passwordTooShort': 'Le mot de passe doit contenir au moins {min} caractères.',
+  'login.passwordUpdated': 'Mot de passe mis à jour ! Veuillez vous connecter.',
+  'login.updateFailed': 'Impossible de mettre à jour le mot de passe.',
+
+  'detail.backToList': 'Retour à la liste',
+  'detail.noAssignment': 'Non attribué',
+  'detail.assignOption': 'Attribuer à : {name}',
+  'detail.baptismCandidate': 'Candidat au baptême',
+  'detail.markForBaptism': 'Marquer pour le baptême',
+  'detail.sensitive': 'Notes sensibles',
+  'detail.markSensitive': 'Marquer sensible',
+  'detail.sensitiveHint': 'Pour les confessions, la santé ou les affaires familiales',
+  'detail.aiBlocked': "Ces notes sont marquées sensibles, l'assistant IA est donc désactivé pour cette personne.",
+  'detail.status': 'Statut :',
+  'detail.conflictTitle': "Quelqu'un d'autre a modifié cette fiche",
+  'detail.conflictBody': "({changes}). Votre modification n'a pas été enregistrée.",
+  'detail.conflictStatus': 'le statut est maintenant « {status} »',
+  'detail.conflictBaptismMarked': 'marqué pour le baptême',
+  'detail.conflictBaptismCleared': 'marque de baptême retirée',
+  'detail.conflictReassigned': "attribué à quelqu'un d'autre",
+  'detail.conflictUnassigned': 'attribution retirée',
+  'detail.conflictChanged': '{field} modifié',
+  'detail.keepTheirs': 'Garder la leur',
+  'detail.applyMine': 'Appliquer la mienne',
+  'detail.assignedTo': 'Attribué à {name}',
+  'detail.call': 'Appeler',
+  'detail.text': 'SMS',
+  'detail.unrecognizedNumber': "Ce numéro n'a pas été reconnu ; les liens de contact rapide sont indisponibles.",
+  'detail.readyForBaptism': 'Prêt pour le baptême',
+  'detail.draftFollowUp': 'Rédiger un suivi',
+  'detail.suggestion': 'Suggestion de Gemini',
+  'detail.copy': 'Copier dans le presse-papiers',
+  'detail.regenerate': 'Régénérer',
+  'detail.copied': 'Message copié dans le presse-papiers !',
+  'detail.encounterNotes': 'Notes de la rencontre',
+  'detail.preachedBy': 'Prêché par {name}',
+  'detail.location': 'Lieu',
+  'detail.addressRecorded': 'Adresse enregistrée :',
+  'detail.noLocation': 'Aucune donnée de localisation',
+  'detail.photoDeviceOnly': "La photo en taille réelle n'est enregistrée que sur l'appareil qui l'a prise.",
+  'detail.bibleStudy': 'Étude biblique',
+  'detail.endStudy': "Terminer l'étude",
+  'detail.endStudyConfirm': "Terminer cette étude ? Les leçons déjà enseignées restent dans l'historique de suivi.",
+  'detail.lessonProgress': '{completed} leçons sur {total}',
+  'detail.studyRemoved': "La série d'études de cette personne a été supprimée.",
+  'detail.chooseSeries': "Choisissez une série d'études...",
+  'detail.seriesOption': '{title} ({count} leçons)',
+  'detail.enroll': 'Inscrire',
+  'detail.noSeries': "Aucune série d'études pour le moment. Les administrateurs peuvent en ajouter dans Paramètres, Études bibliques.",
+  'detail.followUpHistory': 'Historique de suivi',
+  'detail.addLog': 'Ajouter une note',
+  'detail.logFollowUp': 'Noter un nouveau suivi',
+  'detail.followUpPlaceholder': "Décrivez ce qui s'est passé lors de cette visite ou de cet appel...",
+  'detail.lessonsTaught': 'Leçons enseignées lors de cette visite',
+  'detail.saveLog': 'Enregistrer',
+  'detail.noFollowUps': 'Aucun suivi enregistré pour le moment.',
+  'detail.aiReview': 'Analyse Gemini AI',
+  'detail.reassessHint': 'Analyser à nouveau la première conversation et chaque suivi',
+  'detail.assessing': 'Analyse',
+  'detail.reassess': 'Réévaluer',
+  'detail.reviewQueued': "Analyse en attente. Gemini analysera ces notes dès que l'appareil sera de nouveau en ligne.",
+  'detail.reviewMissing': "Analyse IA indisponible. Ces notes n'ont pas encore été analysées.",
+  'detail.reviewing': 'Analyse en cours...',
+  'detail.runReview': "Relancer l'analyse",
+  'detail.spiritualHunger': 'Faim spirituelle',
+  'detail.hungerOverTime': 'Évolution de la faim',
+  'detail.trendGrowing': 'En hausse',
+  'detail.trendCooling': 'En baisse',
+  'detail.trendSteady': 'Stable',
+  'detail.snapshot.one': '{level} après {count} suivi',
+  'detail.snapshot.other': '{level} après {count} suivis',
+  'detail.suggestedVerse': 'Verset suggéré',
+  'detail.verseNotBundled': "L'application ne contient que les passages les plus utilisés ; lisez celui-ci dans votre Bible.",
+  'detail.nextStrategy': 'Prochaine étape',
+  'detail.executiveSummary': 'Résumé',
+  'detail.possibleDuplicates': 'Doublons possibles',
+  'detail.byPreacher': 'par {name}',
+  'detail.mergeInto': 'Fusionner dans cette fiche',
+  'detail.mergeConfirm': 'Fusionner {name} ({phone}) dans cette fiche ? Ses suivis, notes et photos seront regroupés ici.',
+  'detail.mergeFailed': 'Impossible de fusionner ces fiches. Veuillez réessayer.',
+  'detail.history': 'Historique',
+  'detail.noChanges': 'Aucune modification enregistrée pour le moment.',
+  'detail.teamReminders': "Rappels pour l'équipe",
+  'detail.reminderCall': 'Appelez dans les 48 heures qui suivent la première prédication.',
+  'detail.reminderBible': 'Apportez une Bible de bienvenue si la faim est « Élevée ».',
+  'detail.saveFailed': "Impossible d'enregistrer cette modification. Veuillez réessayer.",
+  'detail.followUpFailed': "Impossible d'enregistrer ce suivi. Veuillez réessayer.",
+  'detail.draftFailed': "L'IA n'a pas pu rédiger le message. Veuillez réessayer.",
+  'detail.reviewFailed': "L'analyse IA est toujours indisponible. Veuillez réessayer plus tard.",
+  'detail.reassessFailed': "L'IA n'a pas pu réévaluer ce contact pour le moment. Veuillez réessayer plus tard.",
+
+  'audit.status': 'Statut',
+  'audit.signifiedForBaptism': 'Baptême',
+  'audit.assignedToUserName': 'Attribué à',
+  'audit.aiReview': 'Analyse IA',
+  'audit.study': 'Étude biblique',
+  'audit.photos': 'Photos',
+  'audit.preachingNotes': 'Notes',
+  'audit.phone': 'Téléphone',
+  'audit.preferredLanguage': 'Langue',
+  'audit.voiceNotes': 'Notes vocales',
+  'audit.sensitiveNotes': 'Notes sensibles',
+  'audit.manualAddress': 'Adresse',
+  'audit.coordinates': 'Lieu',
+  'audit.timestamp': 'Premier contact',
+  'audit.name': 'Nom',
+  'audit.none': 'aucun',
+  'audit.yes': 'Oui',
+  'audit.no': 'Non',
+  'audit.items.one': '{count} élément',
+  'audit.items.other': '{count} éléments',
+  'audit.hunger': 'faim {level}',
+  'audit.enrolled': 'inscrit',
+  'audit.updated': 'mis à jour',
+  'audit.created': 'A enregistré ce contact',
+  'audit.followUp': 'A noté un suivi',
+  'audit.mergedInto': 'Fusionné dans {name}',
+  'audit.mergedFrom': 'Doublon de {name} fusionné ici'
+};
+
+export const CATALOGS: Record<string, Catalog> = { en, es, fr };
@@ -0,0 +1,98 @@
+
+import { AudioClip } from './aiProvider';
+
+/**
+ * Microphone capture for voice notes. Audio is recorded with MediaRecorder;
+ * when asked, the browser's speech recognition listens alongside so the
+ * offline AI provider has a transcript to offer.
+ */
+
+// Five minutes of compressed speech stays far below what can be sent inline for transcription.
+export const MAX_RECORDING_MS = 5 * 60 * 1000;
+
+export interface Recording extends AudioClip {
+  durationMs: number;
+}
+
+export interface ActiveRecording {
+  stop: () => Promise<Recording>;
+  cancel: () => void;
+}
+
+// Formats the AI accepts come first; Chrome only records WebM and Safari only MP4.
+const PREFERRED_TYPES = ['audio/ogg;codecs=opus', 'audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+const RECOGNITION_SETTLE_MS = 1500;
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+const startSpeechRecognition = (language: string) => {
+  const Recognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+  if (!Recognition) return null;
+
+  const recognition = new Recognition();
+  recognition.lang = language;
+  recognition.continuous = true;
+  recognition.interimResults = false;
+  const heard: string[] = [];
+  recognition.onresult = (event: any) => {
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      if (event.results[i].isFinal) heard.push(event.results[i][0].transcript.trim());
+    }
+  };
+  recognition.onerror = (event: any) => console.error("Speech recognition failed", event.error);
+  try {
+    recognition.start();
+  } catch (e) {
+    console.error("Speech recognition could not start", e);
+    return null;
+  }
+
+  // Final results can arrive just after stopping, so wait for the end event (or give up after a moment).
+  const finish = () => new Promise<string | undefined>(resolve => {
+    const done = () => resolve(heard.join(' ').trim() || undefined);
+    const timer = setTimeout(done, RECOGNITION_SETTLE_MS);
+    recognition.onend = () => { clearTimeout(timer); done(); };
+    recognition.stop();
+  });
+  return { finish, abort: () => recognition.abort() };
+};
+
+export const startRecording = async (language: string, liveTranscription: boolean): Promise<ActiveRecording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = PREFERRED_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  const startedAt = Date.now();
+  recorder.start(1000);
+  const recognition = liveTranscription ? startSpeechRecognition(language) : null;
+  const release = () => stream.getTracks().forEach(track => track.stop());
+
+  return {
+    stop: () => new Promise<Recording>((resolve, reject) => {
+      const durationMs = Date.now() - startedAt;
+      recorder.onstop = async () => {
+        release();
+        const type = (recorder.mimeType || mimeType || 'audio/webm').split(';')[0];
+        const liveTranscript = recognition ? await recognition.finish() : undefined;
+        resolve({ blob: new Blob(chunks, { type }), mimeType: type, durationMs, ...(liveTranscript ? { liveTranscript } : {}) });
+      };
+      recorder.onerror = (e: any) => { release(); reject(e.error || new Error("Recording failed.")); };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      recognition?.abort();
+      release();
+    }
+  };
+};
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
@@ -24,44 +24,237 @@ export interface AIReview {
   summary: string;
 }
 
+// A review as it stood on a given day; kept so hunger can be followed over time.
+export interface AIReviewSnapshot extends AIReview {
+  assessedAt: string;
+  followUpCount: number;
+}
+
+export interface PhotoRef {
+  id: string;
+  backend: 'firebase' | 'local';
+  path: string;
+  url?: string;
+  thumbnail: string;
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+// A recorded voice note; the audio itself lives in the audio store, like photo blobs.
+export interface AudioRef {
+  id: string;
+  backend: 'firebase' | 'local';
+  path: string;
+  url?: string;
+  mimeType: string;
+  durationMs: number;
+  createdAt: string;
+}
+
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  prospectId: string;
+  actorId: string;
+  actorName: string;
+  timestamp: string;
+  action: 'created' | 'updated' | 'followUp' | 'merged';
+  field?: string;
+  before?: any;
+  after?: any;
+}
+
 export interface FollowUp {
   id: string;
   date: string;
   notes: string;
   preacherName: string;
+  // Lessons of the prospect's study series taught during this visit.
+  completedLessonIds?: string[];
+  voiceNotes?: AudioRef[];
+}
+
+export interface Lesson {
+  id: string;
+  title: string;
+  scripture?: string;
+}
+
+// An ordered home Bible study course, defined by an organization's admins.
+export interface LessonSeries {
+  id: string;
+  orgId?: string;
+  title: string;
+  description?: string;
+  lessons: Lesson[];
+  createdAt: string;
+  createdByUserId?: string;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  text: string;
+  updatedAt: string;
+  updatedByName?: string;
+}
+
+// An organization's wording for one AI feature's prompt; features without one use the built-in default.
+export interface PromptTemplate {
+  id: string;
+  orgId?: string;
+  // An AIFeature key from services/aiProvider.
+  feature: string;
+  text: string;
+  version: number;
+  updatedAt: string;
+  updatedByUserId?: string;
+  updatedByName?: string;
+  // Earlier versions, newest first, so an edit can be rolled back.
+  history?: PromptTemplateVersion[];
+}
+
+// Progress is not stored here; it is read from the follow-ups' completedLessonIds.
+export interface StudyEnrollment {
+  seriesId: string;
+  enrolledAt: string;
 }
 
 export interface Prospect {
   id: string;
   name: string;
   phone: string;
+  // Normalized form of `phone`, used for search, matching and contact links.
+  phoneE164?: string;
   manualAddress?: string;
+  // Language code (see services/i18n) that follow-up drafts are written in; English when unset.
+  preferredLanguage?: string;
   coordinates?: {
     lat: number;
     lng: number;
   };
   photoUrl?: string;
+  photos?: PhotoRef[];
+  // Recordings of the first conversation; their transcripts were edited into `preachingNotes`.
+  voiceNotes?: AudioRef[];
   preachingNotes: string;
+  // Marked by the preacher when the notes hold confessions, health or family matters.
+  sensitiveNotes?: boolean;
   aiReview?: AIReview;
+  aiReviewPending?: boolean;
+  aiReviewHistory?: AIReviewSnapshot[];
+  study?: StudyEnrollment;
   followUps: FollowUp[];
   timestamp: string;
   preacherName: string;
+  createdByUserId?: string;
   status: 'New' | 'Followed Up' | 'Member';
   signifiedForBaptism: boolean;
   assignedToUserId?: string;
   assignedToUserName?: string;
+  // Set when this record was merged into another; it stays behind as a redirect.
+  mergedIntoId?: string;
+  orgId?: string;
+  schemaVersion?: number;
+}
+
+// How notes are masked before they reach an AI provider; see services/redaction.
+export interface AIPrivacySettings {
+  redactPhones: boolean;
+  redactEmails: boolean;
+  redactAddresses: boolean;
+  // Names other than the prospect's own.
+  redactNames: boolean;
+  // Words or phrases always masked, such as local family or street names.
+  customTerms?: string[];
+  // Prospects with sensitiveNotes are never sent to the AI.
+  blockSensitive: boolean;
+}
+
+// One AI request, recorded for the usage report and the daily quotas.
+export interface AIUsageEntry {
+  id: string;
+  orgId?: string;
+  userId: string;
+  userName?: string;
+  // An AIFeature key from services/aiProvider.
+  feature: string;
+  provider: string;
+  model: string;
+  promptTokens?: number;
+  outputTokens?: number;
+  latencyMs: number;
+  // Answered from this device's cache without calling the provider.
+  cached: boolean;
+  ok: boolean;
+  timestamp: string;
+  // The requesting device's local date (YYYY-MM-DD), which quotas are counted by.
+  day: string;
+}
+
+// Requests to paid providers per member per day; cached answers and the offline assistant are free.
+export interface AIQuotaSettings {
+  // Unset means unlimited.
+  dailyLimit?: number;
+  // Limits that replace `dailyLimit` for particular members, keyed by user id.
+  userLimits?: Record<string, number>;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  createdAt: string;
+  createdByUserId?: string;
+  aiPrivacy?: AIPrivacySettings;
+  aiQuotas?: AIQuotaSettings;
+}
+
+export interface OrgMembership {
+  role: UserRole;
+  status: UserStatus;
+}
+
+export interface LocalCredential {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  hash: string;
 }
 
 export interface User {
   id: string;
   name: string;
+  // Role in the organization currently open; stored records keep the role they signed up with.
   role: UserRole;
   email: string;
+  // Account-level status: Approved once any organization has approved the account.
   status: UserStatus;
-  password?: string;
+  memberships?: Record<string, OrgMembership>;
+  // Keys of `memberships`, kept alongside so directories can be queried per organization.
+  orgIds?: string[];
+  // Local-mode sign-in only; cloud accounts authenticate with Firebase.
+  credential?: LocalCredential;
   createdAt: string;
   phone?: string;
   photoUrl?: string;
+  photo?: PhotoRef;
   team?: string;
+  // Interface language, and the default for invitations this user drafts.
+  preferredLanguage?: string;
   hasSeenTour?: boolean;
+  schemaVersion?: number;
+}
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: UserRole;
+  invitedBy: string;
+  sentAt: string;
+  status: string;
+  orgId?: string;
 }